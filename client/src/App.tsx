@@ -14,6 +14,8 @@ import Documents from "@/pages/Documents";
 import Users from "@/pages/Users";
 import Settings from "@/pages/Settings";
 import AuditLogs from "@/pages/AuditLogs";
+import Locations from "@/pages/Locations";
+import Borrowers from "@/pages/Borrowers";
 import NotFound from "@/pages/not-found";
 import Login from "@/pages/Login";
 
@@ -41,6 +43,12 @@ function Router() {
         </Layout>
       </Route>
       
+      <Route path="/inventory/import">
+        <Layout>
+          <Inventory />
+        </Layout>
+      </Route>
+      
       <Route path="/inventory/view/:id">
         {(params) => (
           <Layout>
@@ -57,6 +65,13 @@ function Router() {
         )}
       </Route>
       
+      {/* Location routes */}
+      <Route path="/locations">
+        <Layout>
+          <Locations />
+        </Layout>
+      </Route>
+      
       {/* Loan routes */}
       <Route path="/loans">
         <Layout>
@@ -76,6 +91,12 @@ function Router() {
         </Layout>
       </Route>
       
+      <Route path="/loans/return">
+        <Layout>
+          <Loans />
+        </Layout>
+      </Route>
+      
       <Route path="/loans/view/:id">
         {(params) => (
           <Layout>
@@ -84,6 +105,21 @@ function Router() {
         )}
       </Route>
       
+      {/* Borrower routes */}
+      <Route path="/borrowers">
+        <Layout>
+          <Borrowers />
+        </Layout>
+      </Route>
+      
+      <Route path="/borrowers/view/:id">
+        {(params) => (
+          <Layout>
+            <Borrowers />
+          </Layout>
+        )}
+      </Route>
+      
       {/* Document routes */}
       <Route path="/documents">
         <Layout>
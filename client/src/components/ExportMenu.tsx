@@ -0,0 +1,63 @@
+import { Fragment } from 'react';
+import { Download } from 'lucide-react';
+import type { ExportFormat } from '@shared/schema';
+import { queryClient, urlWithParams } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+};
+
+// The browser downloads the file itself, so large exports stream straight to disk
+export function downloadExport(dataset: string, format: ExportFormat, params: Record<string, unknown> = {}) {
+  const link = document.createElement('a');
+  link.href = urlWithParams(`/api/export/${dataset}`, { ...params, format });
+  link.download = '';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // The export is written to the activity log once it finishes
+  setTimeout(() => queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] }), 2000);
+}
+
+interface ExportMenuProps {
+  label?: string;
+  // One entry per dataset offered; each is exported with the same filter params
+  datasets: { dataset: string; label?: string }[];
+  params?: Record<string, unknown>;
+}
+
+export default function ExportMenu({ label = 'Export', datasets, params }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" /> {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {datasets.map(({ dataset, label }, index) => (
+          <Fragment key={dataset}>
+            {index > 0 && <DropdownMenuSeparator />}
+            {label && <DropdownMenuLabel>{label}</DropdownMenuLabel>}
+            {(Object.keys(formatLabels) as ExportFormat[]).map((format) => (
+              <DropdownMenuItem key={format} onClick={() => downloadExport(dataset, format, params)}>
+                {formatLabels[format]}
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,11 +1,16 @@
 import { useState, useEffect } from 'react';
 import { Link, useLocation } from 'wouter';
 import { useAuth } from '@/hooks/useAuth';
+import { useSettings, organizationInitials } from '@/hooks/useSettings';
 import { Button } from '@/components/ui/button';
+import { roleLabels } from '@shared/permissions';
+import type { UserRole } from '@shared/schema';
 import {
   Gauge,
   Package,
+  MapPin,
   Handshake,
+  Contact,
   FileText,
   BarChart,
   Users,
@@ -17,7 +22,9 @@ import {
 export default function Sidebar() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [location] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
+  const { settings } = useSettings();
+  const { organizationName } = settings.organization;
   
   // Close mobile menu on location change
   useEffect(() => {
@@ -45,25 +52,27 @@ export default function Sidebar() {
   const navItems = [
     { path: '/', label: 'Dashboard', icon: <Gauge className="w-5 h-5 mr-2" /> },
     { path: '/inventory', label: 'Inventory', icon: <Package className="w-5 h-5 mr-2" /> },
+    { path: '/locations', label: 'Locations', icon: <MapPin className="w-5 h-5 mr-2" /> },
     { path: '/loans', label: 'Loans', icon: <Handshake className="w-5 h-5 mr-2" /> },
+    { path: '/borrowers', label: 'Borrowers', icon: <Contact className="w-5 h-5 mr-2" /> },
     { path: '/documents', label: 'Documents', icon: <FileText className="w-5 h-5 mr-2" /> },
     { path: '/reports', label: 'Reports', icon: <BarChart className="w-5 h-5 mr-2" /> },
+    { path: '/settings', label: 'Settings', icon: <Settings className="w-5 h-5 mr-2" /> },
   ];
   
   const adminItems = [
-    { path: '/users', label: 'Users', icon: <Users className="w-5 h-5 mr-2" /> },
-    { path: '/settings', label: 'Settings', icon: <Settings className="w-5 h-5 mr-2" /> },
-    { path: '/audit-logs', label: 'Audit Logs', icon: <History className="w-5 h-5 mr-2" /> },
-  ];
+    { path: '/users', label: 'Users', icon: <Users className="w-5 h-5 mr-2" />, permission: 'users:manage' as const },
+    { path: '/audit-logs', label: 'Audit Logs', icon: <History className="w-5 h-5 mr-2" />, permission: 'audit:read' as const },
+  ].filter((item) => can(item.permission));
   
   return (
     <aside className="bg-primary text-primary-foreground w-full md:w-64 md:min-h-screen transition-all duration-300 ease-in-out">
       <div className="p-4 flex justify-between items-center md:justify-center border-b border-primary-foreground/20">
         <div className="flex items-center space-x-2">
           <div className="h-8 w-8 rounded-md bg-primary-foreground/20 flex items-center justify-center">
-            <span className="font-bold">BV</span>
+            <span className="font-bold">{organizationInitials(organizationName)}</span>
           </div>
-          <h1 className="text-xl font-bold">BONEVET</h1>
+          <h1 className="text-xl font-bold truncate" title={organizationName}>{organizationName}</h1>
         </div>
         <button 
           className="md:hidden text-primary-foreground"
@@ -106,7 +115,7 @@ export default function Sidebar() {
           </nav>
         </div>
         
-        {user?.role === 'admin' && (
+        {adminItems.length > 0 && (
           <div className="py-4 border-t border-primary-foreground/20">
             <p className="text-primary-foreground/90 text-xs uppercase font-bold">Admin</p>
             <nav className="mt-2">
@@ -140,7 +149,7 @@ export default function Sidebar() {
           </div>
           <div className="ml-3">
             <p className="text-sm font-medium text-primary-foreground">{user?.name || 'User'}</p>
-            <p className="text-xs text-primary-foreground/70">{user?.role === 'admin' ? 'Administrator' : 'User'}</p>
+            <p className="text-xs text-primary-foreground/70">{roleLabels[user?.role as UserRole] ?? 'User'}</p>
           </div>
         </div>
         <Button 
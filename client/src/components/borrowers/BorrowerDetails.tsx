@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ArrowLeft, Ban, Edit, ShieldAlert } from 'lucide-react';
+import type { Borrower, BorrowerLoan } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import BorrowerHistory from '@/components/loans/BorrowerHistory';
+import BorrowerDialog from './BorrowerDialog';
+
+interface BorrowerDetailsProps {
+  id: string;
+}
+
+// A registered borrower with the loans they have out now, earlier ones and how late they came back
+export default function BorrowerDetails({ id }: BorrowerDetailsProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [editing, setEditing] = useState(false);
+  // null: closed; otherwise the reason being typed
+  const [blockReason, setBlockReason] = useState<string | null>(null);
+
+  const { data: borrower, isLoading } = useQuery<Borrower>({
+    queryKey: [`/api/borrowers/${id}`],
+  });
+  const { data: history = [] } = useQuery<BorrowerLoan[]>({
+    queryKey: ['/api/borrower-history', { borrowerId: parseInt(id) }],
+    staleTime: 0,
+  });
+
+  // Blocks with the reason given, or unblocks with null
+  const blockMutation = useMutation({
+    mutationFn: async (reason: string | null) => reason === null
+      ? apiRequest('PUT', `/api/borrowers/${id}/unblock`)
+      : apiRequest('PUT', `/api/borrowers/${id}/block`, { reason }),
+    onSuccess: (_, reason) => {
+      toast({ title: 'Success', description: reason === null ? 'Borrower unblocked' : 'Borrower blocked' });
+      queryClient.invalidateQueries({ queryKey: ['/api/borrowers'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/borrowers/${id}`] });
+      setBlockReason(null);
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <div className="h-8 w-64 bg-gray-200 animate-pulse rounded"></div>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (!borrower) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Borrower Not Found</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={() => navigate('/borrowers')}>Return to Borrowers</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // A multi-item loan counts once, as late as its latest line
+  const byLoan = new Map<string, { open: boolean; daysLate: number }>();
+  for (const line of history) {
+    const key = line.loanGroupCode ?? `loan-${line.id}`;
+    const loan = byLoan.get(key) ?? { open: false, daysLate: 0 };
+    byLoan.set(key, { open: loan.open || line.status !== 'Returned', daysLate: Math.max(loan.daysLate, line.daysLate) });
+  }
+  const loans = Array.from(byLoan.values());
+  const outNow = loans.filter((loan) => loan.open);
+  const overdueNow = outNow.filter((loan) => loan.daysLate > 0);
+  const returnedLate = loans.filter((loan) => !loan.open && loan.daysLate > 0);
+  const details = [
+    ['Email', borrower.email],
+    ['Phone', borrower.phone],
+    ['ID Document', borrower.idDocument],
+    ['Membership Number', borrower.membershipNumber],
+  ].filter(([, value]) => value);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-2">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/borrowers')} className="w-fit mb-2">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Borrowers
+          </Button>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <CardTitle className="text-xl">{borrower.name}</CardTitle>
+              <Badge variant="outline">{borrower.kind}</Badge>
+              <Badge variant="secondary">{borrower.borrowerType}</Badge>
+              {borrower.blockedAt && <Badge variant="destructive">Blocked</Badge>}
+            </div>
+            <div className="flex space-x-2">
+              {can('loans:override') && (
+                borrower.blockedAt ? (
+                  <Button variant="outline" disabled={blockMutation.isPending} onClick={() => blockMutation.mutate(null)}>
+                    Unblock
+                  </Button>
+                ) : (
+                  <Button variant="outline" className="text-red-600" onClick={() => setBlockReason('')}>
+                    <Ban className="h-4 w-4 mr-2" /> Block
+                  </Button>
+                )
+              )}
+              {can('loans:write') && (
+                <Button variant="outline" onClick={() => setEditing(true)}>
+                  <Edit className="h-4 w-4 mr-2" /> Edit
+                </Button>
+              )}
+            </div>
+          </div>
+          <p className="text-sm text-gray-500">Registered {format(new Date(borrower.createdAt), 'MMM dd, yyyy')}</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {borrower.blockedAt && (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Blocked since {format(new Date(borrower.blockedAt), 'MMM dd, yyyy')}</AlertTitle>
+              <AlertDescription>
+                <p>{borrower.blockedReason}</p>
+                <p>New loans to this borrower need an administrator to override the lending rules.</p>
+              </AlertDescription>
+            </Alert>
+          )}
+          {details.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {details.map(([label, value]) => (
+                <p key={label} className="text-sm text-gray-600">
+                  {label}: {value}
+                </p>
+              ))}
+            </div>
+          )}
+          {borrower.notes && <p className="text-sm text-gray-600">{borrower.notes}</p>}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-gray-500">Out Now</p>
+              <p className="text-2xl font-semibold">{outNow.length}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-gray-500">Overdue Now</p>
+              <p className={`text-2xl font-semibold ${overdueNow.length > 0 ? 'text-red-600' : ''}`}>{overdueNow.length}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-gray-500">Returned Late</p>
+              <p className="text-2xl font-semibold">{returnedLate.length}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-gray-500">All Loans</p>
+              <p className="text-2xl font-semibold">{loans.length}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg font-medium">Current Loans</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BorrowerHistory borrowerId={borrower.id} show="open" emptyText="Nothing is out with this borrower" />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg font-medium">Past Loans</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BorrowerHistory borrowerId={borrower.id} show="returned" emptyText="No loans have been returned yet" />
+        </CardContent>
+      </Card>
+
+      <BorrowerDialog open={editing} borrower={borrower} onClose={() => setEditing(false)} />
+
+      <Dialog open={blockReason !== null} onOpenChange={(isOpen) => !isOpen && setBlockReason(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Block {borrower.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="block-reason">Reason</Label>
+              <Textarea
+                id="block-reason"
+                rows={2}
+                placeholder="e.g. Lost a projector and has not paid for it"
+                value={blockReason ?? ''}
+                onChange={(e) => setBlockReason(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setBlockReason(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={!blockReason?.trim() || blockMutation.isPending}
+                onClick={() => blockMutation.mutate(blockReason!.trim())}
+              >
+                {blockMutation.isPending ? 'Saving...' : 'Block'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState, type ChangeEvent } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import type { Borrower, BorrowerKind } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+type BorrowerFormValues = {
+  kind: BorrowerKind;
+  name: string;
+  borrowerType: string;
+  email: string;
+  phone: string;
+  idDocument: string;
+  membershipNumber: string;
+  notes: string;
+};
+
+const emptyForm: BorrowerFormValues = {
+  kind: 'Person',
+  name: '',
+  borrowerType: 'Member',
+  email: '',
+  phone: '',
+  idDocument: '',
+  membershipNumber: '',
+  notes: '',
+};
+
+interface BorrowerDialogProps {
+  open: boolean;
+  // Edited when given, otherwise a new borrower is registered
+  borrower?: Borrower;
+  onClose: () => void;
+}
+
+export default function BorrowerDialog({ open, borrower, onClose }: BorrowerDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<BorrowerFormValues>(emptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(borrower ? {
+      kind: borrower.kind as BorrowerKind,
+      name: borrower.name,
+      borrowerType: borrower.borrowerType,
+      email: borrower.email ?? '',
+      phone: borrower.phone ?? '',
+      idDocument: borrower.idDocument ?? '',
+      membershipNumber: borrower.membershipNumber ?? '',
+      notes: borrower.notes ?? '',
+    } : emptyForm);
+  }, [open, borrower]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: BorrowerFormValues) => {
+      const body = {
+        kind: values.kind,
+        name: values.name.trim(),
+        borrowerType: values.borrowerType,
+        email: values.email.trim() || null,
+        phone: values.phone.trim() || null,
+        idDocument: values.idDocument.trim() || null,
+        membershipNumber: values.membershipNumber.trim() || null,
+        notes: values.notes.trim() || null,
+      };
+      return borrower
+        ? apiRequest('PUT', `/api/borrowers/${borrower.id}`, body)
+        : apiRequest('POST', '/api/borrowers', body);
+    },
+    onSuccess: () => {
+      toast({ title: 'Success', description: borrower ? 'Borrower updated' : 'Borrower added' });
+      queryClient.invalidateQueries({ queryKey: ['/api/borrowers'] });
+      if (borrower) queryClient.invalidateQueries({ queryKey: [`/api/borrowers/${borrower.id}`] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+    },
+  });
+
+  const field = (key: keyof BorrowerFormValues) => ({
+    id: `borrower-${key}`,
+    value: form[key],
+    onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm({ ...form, [key]: e.target.value }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{borrower ? `Edit ${borrower.name}` : 'Add Borrower'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="borrower-kind">Kind</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(kind) => setForm({
+                  ...form,
+                  kind: kind as BorrowerKind,
+                  borrowerType: kind === 'Organization' ? 'Other Organization' : form.borrowerType,
+                })}
+              >
+                <SelectTrigger id="borrower-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Person">Person</SelectItem>
+                  <SelectItem value="Organization">Organization</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="borrower-type">Borrower Type</Label>
+              <Select value={form.borrowerType} onValueChange={(borrowerType) => setForm({ ...form, borrowerType })}>
+                <SelectTrigger id="borrower-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!['Staff', 'Member', 'Other Organization', 'Other'].includes(form.borrowerType) && (
+                    <SelectItem value={form.borrowerType}>{form.borrowerType}</SelectItem>
+                  )}
+                  <SelectItem value="Staff">Staff</SelectItem>
+                  <SelectItem value="Member">Member</SelectItem>
+                  <SelectItem value="Other Organization">Other Organization</SelectItem>
+                  <SelectItem value="Other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="borrower-name">Name</Label>
+            <Input {...field('name')} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="borrower-email">Email</Label>
+              <Input type="email" {...field('email')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="borrower-phone">Phone</Label>
+              <Input {...field('phone')} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="borrower-idDocument">ID Document</Label>
+              <Input placeholder="e.g. ID card 1234567" {...field('idDocument')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="borrower-membershipNumber">Membership Number</Label>
+              <Input {...field('membershipNumber')} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="borrower-notes">Notes</Label>
+            <Textarea rows={2} {...field('notes')} />
+          </div>
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate(form)} disabled={!form.name.trim() || saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,7 @@ import { z } from 'zod';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/useSettings';
 import { generateDocumentId } from '@/lib/utils/documentUtils';
 import { ArrowLeft, Save } from 'lucide-react';
 import {
@@ -40,6 +41,7 @@ const documentSchema = z.object({
 export default function DocumentForm() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { settings } = useSettings();
   const queryClient = useQueryClient();
   const [docType, setDocType] = useState('Acquisition');
   
@@ -96,7 +98,7 @@ export default function DocumentForm() {
         },
         acquisitionType: 'Purchase',
         acquisitionDate: new Date().toISOString(),
-        notes: `This item was added to the BONEVET Gjakova inventory on ${new Date().toLocaleDateString()}.`,
+        notes: `This item was added to the ${settings.organization.organizationName} inventory on ${new Date().toLocaleDateString()}.`,
         signatories: ['CEO', 'CTO']
       }, null, 2));
     } else if (type === 'Loan' && selectedItem) {
@@ -44,7 +44,7 @@ interface DocumentListProps {
 export default function DocumentList({ documents, isLoading }: DocumentListProps) {
   const [, navigate] = useLocation();
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const queryClient = useQueryClient();
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
@@ -97,6 +97,8 @@ export default function DocumentList({ documents, isLoading }: DocumentListProps
         return 'bg-blue-100 text-blue-800';
       case 'Loan':
         return 'bg-amber-100 text-amber-800';
+      case 'Transfer':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -179,7 +181,7 @@ export default function DocumentList({ documents, isLoading }: DocumentListProps
                         View
                       </Button>
                       
-                      {!isDocumentSignedByUser(doc) ? (
+                      {!isDocumentSignedByUser(doc) ? can('documents:sign') && (
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button 
@@ -2,8 +2,10 @@ import { useLocation } from 'wouter';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useAuth } from '@/hooks/useAuth';
+import { useSettings, organizationInitials } from '@/hooks/useSettings';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
+import type { Document } from '@shared/schema';
 import { ArrowLeft, Printer, FileSignature, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -26,12 +28,13 @@ interface DocumentViewerProps {
 
 export default function DocumentViewer({ id }: DocumentViewerProps) {
   const [, navigate] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const { settings } = useSettings();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
   // Fetch document details
-  const { data: document, isLoading } = useQuery({
+  const { data: document, isLoading } = useQuery<Document>({
     queryKey: [`/api/documents/${id}`],
   });
   
@@ -100,6 +103,8 @@ export default function DocumentViewer({ id }: DocumentViewerProps) {
   
   const documentContent = getDocumentContent();
   const relatedItem = getRelatedItem();
+  // Documents keep the organization name they were issued under; older ones use the current one
+  const organizationName: string = documentContent?.header?.organizationName || settings.organization.organizationName;
   
   if (isLoading) {
     return (
@@ -196,7 +201,7 @@ export default function DocumentViewer({ id }: DocumentViewerProps) {
             Download PDF
           </Button>
           
-          {!isDocumentSignedByUser() ? (
+          {!isDocumentSignedByUser() ? can('documents:sign') && (
             <AlertDialog>
               <AlertDialogTrigger asChild>
                 <Button className="bg-blue-600 hover:bg-blue-700">
@@ -233,9 +238,9 @@ export default function DocumentViewer({ id }: DocumentViewerProps) {
         <div className="p-6 border rounded-md bg-white min-h-[60vh]">
           <div className="text-center mb-6">
             <div className="h-16 w-16 mx-auto rounded-md bg-primary-600 flex items-center justify-center text-white mb-2">
-              <span className="text-2xl font-bold">BV</span>
+              <span className="text-2xl font-bold">{organizationInitials(organizationName)}</span>
             </div>
-            <h2 className="text-xl font-bold">BONEVET Gjakova</h2>
+            <h2 className="text-xl font-bold">{organizationName}</h2>
             <p className="text-gray-500">{document.type} Document</p>
           </div>
           
@@ -373,9 +378,43 @@ export default function DocumentViewer({ id }: DocumentViewerProps) {
                   <p className="whitespace-pre-line">{documentContent.termsAndConditions}</p>
                 </div>
               )}
-              
+
+              {documentContent.extensions?.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-2">Extensions</h4>
+                  <div className="space-y-1">
+                    {documentContent.extensions.map((entry: any, index: number) => (
+                      <p key={index} className="text-sm">
+                        {format(new Date(entry.extendedAt), 'MMMM dd, yyyy')}: due date moved from{' '}
+                        {format(new Date(entry.previousDueDate), 'MMMM dd, yyyy')} to {format(new Date(entry.newDueDate), 'MMMM dd, yyyy')}{' '}
+                        ({entry.reason}), approved by {entry.approvedBy}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {documentContent.returns?.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-2">Returns</h4>
+                  <div className="space-y-1">
+                    {documentContent.returns.map((entry: any, index: number) => (
+                      <p key={index} className="text-sm">
+                        {format(new Date(entry.returnedAt), 'MMMM dd, yyyy')}: {entry.quantity} x {entry.item} - {entry.condition}
+                        {entry.notes && ` (${entry.notes})`}, received by {entry.receivedBy}
+                        {entry.photos?.map((photo: string, photoIndex: number) => (
+                          <a key={photo} href={photo} target="_blank" rel="noreferrer" className="ml-2 text-primary hover:underline">
+                            Photo {photoIndex + 1}
+                          </a>
+                        ))}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <Separator className="my-4" />
-              
+
               <div>
                 <h4 className="font-medium mb-2">Signatures:</h4>
                 <div className="grid grid-cols-2 gap-4">
@@ -400,6 +439,71 @@ export default function DocumentViewer({ id }: DocumentViewerProps) {
                 </div>
               </div>
             </div>
+          ) : document.type === 'Transfer' && documentContent ? (
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Stock Transfer</h3>
+              
+              <div className="border rounded-md p-4 bg-gray-50">
+                <h4 className="font-medium">Item Details</h4>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <div>
+                    <p className="text-sm text-gray-500">Item ID:</p>
+                    <p>{documentContent.itemDetails?.itemId || 'N/A'}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Item Name:</p>
+                    <p>{documentContent.itemDetails?.name || 'N/A'}</p>
+                  </div>
+                </div>
+              </div>
+              
+              <div className="border rounded-md p-4 bg-gray-50">
+                <h4 className="font-medium">Transfer Details</h4>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <div>
+                    <p className="text-sm text-gray-500">From:</p>
+                    <p>{documentContent.transferDetails?.from || 'N/A'}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">To:</p>
+                    <p>{documentContent.transferDetails?.to || 'N/A'}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Quantity:</p>
+                    <p>{documentContent.transferDetails?.quantity ?? 'N/A'}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Date:</p>
+                    <p>{documentContent.transferDetails?.transferredAt ? format(new Date(documentContent.transferDetails.transferredAt), 'MMMM dd, yyyy') : 'N/A'}</p>
+                  </div>
+                </div>
+              </div>
+              
+              {documentContent.transferDetails?.notes && (
+                <div>
+                  <p className="text-sm text-gray-500">Notes:</p>
+                  <p className="whitespace-pre-line">{documentContent.transferDetails.notes}</p>
+                </div>
+              )}
+              
+              <Separator className="my-4" />
+              
+              <div>
+                <h4 className="font-medium mb-2">Signatures:</h4>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-sm text-gray-500">Released by:</p>
+                    <div className="mt-1 h-10 border-b border-gray-300"></div>
+                    <p className="text-sm mt-1">Date: _________________</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Received by:</p>
+                    <div className="mt-1 h-10 border-b border-gray-300"></div>
+                    <p className="text-sm mt-1">Date: _________________</p>
+                  </div>
+                </div>
+              </div>
+            </div>
           ) : (
             <div>
               <p className="text-sm text-gray-500">Document Content:</p>
@@ -433,8 +537,8 @@ export default function DocumentViewer({ id }: DocumentViewerProps) {
           )}
           
           <div className="mt-8 text-center">
-            <p className="text-xs text-gray-500">This is an official document of BONEVET Gjakova.</p>
-            <p className="text-xs text-gray-500">Document ID: {document.documentId} • Created on {format(new Date(document.createdAt), 'MMMM dd, yyyy')}</p>
+            <p className="text-xs text-gray-500">This is an official document of {organizationName}.</p>
+            <p className="text-xs text-gray-500">Document ID: {document.documentId}{document.version > 1 && ` • Version ${document.version}`} • Created on {format(new Date(document.createdAt), 'MMMM dd, yyyy')}</p>
           </div>
         </div>
       </CardContent>
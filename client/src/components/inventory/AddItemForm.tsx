@@ -3,10 +3,13 @@ import { useLocation } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { itemCategoryEnum, itemStatusEnum, itemUsageEnum } from '@/lib/utils/categoryUtils';
+import { itemStatusEnum, itemUsageEnum } from '@/lib/utils/categoryUtils';
+import type { Category, Location } from '@shared/schema';
+import { categoryFields, categoryOptions, validateCustomFields } from '@shared/categories';
+import { locationOptions } from '@shared/locations';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Form,
@@ -28,14 +31,15 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { ArrowLeft, Save, Upload } from 'lucide-react';
+import CustomFieldInputs from './CustomFieldInputs';
 
 // Define a simpler form schema that matches server expectations
 const formSchema = z.object({
   name: z.string().min(1, "Item name is required"),
   model: z.string().optional(),
-  category: itemCategoryEnum,
+  category: z.string().min(1, "Category is required"),
   status: itemStatusEnum.default("Available"),
-  location: z.string().optional(),
+  locationId: z.string().optional(), // A location id, or 'none'
   quantity: z.union([
     z.number().int().positive("Quantity must be a positive integer"),
     z.string().transform((val) => {
@@ -53,6 +57,7 @@ const formSchema = z.object({
   ]).optional(),
   usage: itemUsageEnum.default("None"),
   notes: z.string().optional(),
+  customFields: z.record(z.union([z.string(), z.number(), z.boolean()])).default({}),
 });
 
 export default function AddItemForm() {
@@ -68,16 +73,25 @@ export default function AddItemForm() {
     defaultValues: {
       name: '',
       model: '',
-      category: 'Equipment',
+      category: '',
       status: 'Available',
-      location: '',
+      locationId: '',
       quantity: 1,
       price: undefined,
       usage: 'None',
       notes: '',
+      customFields: {},
     },
   });
   
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+  const fields = categoryFields(categories, form.watch('category'));
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ['/api/locations'],
+  });
+  
   // Handle image upload
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -100,7 +114,9 @@ export default function AddItemForm() {
         
         // Add form fields
         Object.entries(data).forEach(([key, value]) => {
-          if (value !== undefined && value !== null) {
+          if (key === 'customFields') {
+            formData.append(key, JSON.stringify(value));
+          } else if (value !== undefined && value !== null) {
             formData.append(key, value.toString());
           }
         });
@@ -128,14 +144,14 @@ export default function AddItemForm() {
         throw error;
       }
     },
-    onSuccess: () => {
+    onSuccess: (item) => {
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       queryClient.invalidateQueries({ queryKey: ['/api/inventory/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
       
       toast({
         title: 'Item Added',
-        description: 'The item has been added to the inventory successfully.',
+        description: `The item has been added to the inventory as ${item.itemId}.`,
       });
       
       // Generate acquisition document if requested
@@ -164,7 +180,13 @@ export default function AddItemForm() {
   });
   
   const onSubmit = (values: z.infer<typeof formSchema>) => {
-    createItem.mutate(values);
+    // Same check as the server, so missing fields show next to their inputs
+    const checked = validateCustomFields(fields, values.customFields);
+    if (checked.errors.length > 0) {
+      checked.errors.forEach((error) => form.setError(error.field as `customFields.${string}`, { message: error.message }));
+      return;
+    }
+    createItem.mutate({ ...values, customFields: checked.values });
   };
   
   return (
@@ -233,12 +255,9 @@ export default function AddItemForm() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Electronics">Electronics</SelectItem>
-                        <SelectItem value="Equipment">Equipment</SelectItem>
-                        <SelectItem value="Tools">Tools</SelectItem>
-                        <SelectItem value="Furniture">Furniture</SelectItem>
-                        <SelectItem value="Software">Software</SelectItem>
-                        <SelectItem value="Other">Other</SelectItem>
+                        {categoryOptions(categories).map((option) => (
+                          <SelectItem key={option.name} value={option.name}>{option.label}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -275,16 +294,28 @@ export default function AddItemForm() {
               />
             </div>
             
+            <CustomFieldInputs form={form} fields={fields} />
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="location"
+                name="locationId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Location</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter current location" {...field} />
-                    </FormControl>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select location" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No location</SelectItem>
+                        {locationOptions(locations).map((option) => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Edit, Plus, Trash } from 'lucide-react';
+import {
+  assetUnitConditionEnum,
+  type AssetUnit,
+  type AssetUnitCondition,
+  type AssetUnitDetails,
+  type AssetUnitStatus,
+} from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+
+const statusBadgeClass: Record<AssetUnitStatus, string> = {
+  Available: 'bg-green-100 text-green-800 hover:bg-green-200',
+  'Loaned Out': 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200',
+  Damaged: 'bg-red-100 text-red-800 hover:bg-red-200',
+  Retired: 'bg-gray-100 text-gray-800 hover:bg-gray-200',
+};
+
+type UnitForm = {
+  serialNumbers: string;
+  condition: AssetUnitCondition;
+  location: string;
+  notes: string;
+};
+
+const emptyForm: UnitForm = { serialNumbers: '', condition: 'Good', location: '', notes: '' };
+
+interface AssetUnitsPanelProps {
+  itemId: number;
+  serialized: boolean;
+  canEdit: boolean;
+}
+
+// Serial-numbered units of an item. Adding the first units switches the item to per-unit tracking,
+// after which its quantities are counted from the units.
+export default function AssetUnitsPanel({ itemId, serialized, canEdit }: AssetUnitsPanelProps) {
+  const { toast } = useToast();
+  // null: closed; 'new': adding units; otherwise the unit being edited
+  const [dialog, setDialog] = useState<'new' | AssetUnit | null>(null);
+  const [form, setForm] = useState<UnitForm>(emptyForm);
+
+  const { data: units = [], isLoading } = useQuery<AssetUnitDetails[]>({
+    queryKey: [`/api/inventory/${itemId}/units`],
+    enabled: serialized,
+    // Loans and returns move units without touching this query
+    staleTime: 0,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/inventory/${itemId}/units`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/inventory/${itemId}`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory/stats'] });
+  };
+
+  const showError = (error: unknown) => {
+    toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: UnitForm) => {
+      const details = {
+        condition: values.condition,
+        location: values.location.trim() || null,
+        notes: values.notes.trim() || null,
+      };
+      if (dialog === 'new') {
+        const serialNumbers = values.serialNumbers.split('\n').map((line) => line.trim()).filter(Boolean);
+        return apiRequest('POST', `/api/inventory/${itemId}/units`, {
+          units: serialNumbers.map((serialNumber) => ({ serialNumber, ...details })),
+        });
+      }
+      return apiRequest('PUT', `/api/inventory/${itemId}/units/${(dialog as AssetUnit).id}`, {
+        serialNumber: values.serialNumbers.trim(),
+        ...details,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: 'Success', description: dialog === 'new' ? 'Units added' : 'Unit updated' });
+      invalidate();
+      setDialog(null);
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (unit: AssetUnit) => apiRequest('DELETE', `/api/inventory/${itemId}/units/${unit.id}`),
+    onSuccess: () => {
+      toast({ title: 'Success', description: 'Unit removed' });
+      invalidate();
+    },
+    onError: showError,
+  });
+
+  const openDialog = (target: 'new' | AssetUnit) => {
+    setForm(target === 'new' ? emptyForm : {
+      serialNumbers: target.serialNumber,
+      condition: target.condition as AssetUnitCondition,
+      location: target.location ?? '',
+      notes: target.notes ?? '',
+    });
+    setDialog(target);
+  };
+
+  const handleDelete = (unit: AssetUnit) => {
+    if (confirm(`Remove unit ${unit.serialNumber}? Units that have been loaned or damaged should be retired instead.`)) {
+      deleteMutation.mutate(unit);
+    }
+  };
+
+  if (!serialized && !canEdit) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">Units</h3>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openDialog('new')}>
+            <Plus className="h-4 w-4 mr-1" />
+            {serialized ? 'Add Units' : 'Track by Serial Number'}
+          </Button>
+        )}
+      </div>
+      <Separator className="my-2" />
+
+      {!serialized ? (
+        <p className="text-sm text-gray-500 italic">
+          This item is counted by quantity. Add serial numbers to track, lend and retire each unit individually.
+        </p>
+      ) : isLoading ? (
+        <div className="h-4 w-full bg-gray-200 animate-pulse rounded"></div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Serial Number</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Status</TableHead>
+                {canEdit && <TableHead className="w-[90px]"></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {units.map((unit) => (
+                <TableRow key={unit.id}>
+                  <TableCell className="font-mono">{unit.serialNumber}</TableCell>
+                  <TableCell>{unit.condition}</TableCell>
+                  <TableCell>{unit.location || '—'}</TableCell>
+                  <TableCell>
+                    <Badge className={statusBadgeClass[unit.status as AssetUnitStatus]}>{unit.status}</Badge>
+                    {unit.currentLoan && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {unit.currentLoan.borrowerName ?? 'Unknown borrower'}
+                        {unit.currentLoan.expectedReturnDate &&
+                          `, due ${format(new Date(unit.currentLoan.expectedReturnDate), 'MMM dd, yyyy')}`}
+                      </div>
+                    )}
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <div className="flex space-x-1">
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openDialog(unit)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                          disabled={unit.status !== 'Available' || deleteMutation.isPending}
+                          onClick={() => handleDelete(unit)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{dialog === 'new' ? 'Add Units' : 'Edit Unit'}</DialogTitle>
+            {dialog === 'new' && (
+              <DialogDescription>
+                {serialized
+                  ? 'Each serial number adds one unit to the item.'
+                  : 'The item\'s quantity will be the number of units. Any loans or damage must be cleared first.'}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="unit-serials">{dialog === 'new' ? 'Serial numbers (one per line)' : 'Serial number'}</Label>
+              {dialog === 'new' ? (
+                <Textarea
+                  id="unit-serials"
+                  rows={5}
+                  className="font-mono"
+                  value={form.serialNumbers}
+                  onChange={(e) => setForm({ ...form, serialNumbers: e.target.value })}
+                />
+              ) : (
+                <Input
+                  id="unit-serials"
+                  className="font-mono"
+                  value={form.serialNumbers}
+                  onChange={(e) => setForm({ ...form, serialNumbers: e.target.value })}
+                />
+              )}
+            </div>
+            <div className="flex space-x-4">
+              <div className="space-y-2 flex-1">
+                <Label>Condition</Label>
+                <Select
+                  value={form.condition}
+                  onValueChange={(value) => setForm({ ...form, condition: value as AssetUnitCondition })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assetUnitConditionEnum.options.map((condition) => (
+                      <SelectItem key={condition} value={condition}>{condition}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="unit-location">Location</Label>
+                <Input
+                  id="unit-location"
+                  value={form.location}
+                  onChange={(e) => setForm({ ...form, location: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="unit-notes">Notes</Label>
+              <Textarea
+                id="unit-notes"
+                rows={2}
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setDialog(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!form.serialNumbers.trim() || saveMutation.isPending}
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
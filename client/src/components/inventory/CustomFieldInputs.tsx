@@ -0,0 +1,85 @@
+import type { UseFormReturn } from 'react-hook-form';
+import type { CustomFieldDefinition } from '@shared/schema';
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface CustomFieldInputsProps {
+  // Any item form with a `customFields` object keyed by field key
+  form: UseFormReturn<any>;
+  fields: CustomFieldDefinition[];
+}
+
+// Inputs for the custom fields of the item's category, in the order the category defines them
+export default function CustomFieldInputs({ form, fields }: CustomFieldInputsProps) {
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map((definition) => (
+        <FormField
+          key={definition.key}
+          control={form.control}
+          name={`customFields.${definition.key}`}
+          render={({ field }) => (
+            <FormItem>
+              {definition.type === 'boolean' ? (
+                <div className="flex items-center space-x-2 pt-8">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value === true}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <FormLabel className="!mt-0">{definition.label}{definition.required && ' *'}</FormLabel>
+                </div>
+              ) : (
+                <>
+                  <FormLabel>{definition.label}{definition.required && ' *'}</FormLabel>
+                  {definition.type === 'select' ? (
+                    <Select onValueChange={field.onChange} value={field.value ?? ''}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder={`Select ${definition.label.toLowerCase()}`} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {definition.options.map((option) => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <FormControl>
+                      <Input
+                        type={definition.type === 'number' ? 'number' : definition.type === 'date' ? 'date' : 'text'}
+                        step={definition.type === 'number' ? 'any' : undefined}
+                        value={field.value ?? ''}
+                        onChange={field.onChange}
+                        onBlur={field.onBlur}
+                      />
+                    </FormControl>
+                  )}
+                </>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+    </div>
+  );
+}
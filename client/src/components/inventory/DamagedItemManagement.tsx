@@ -15,40 +15,48 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AlertTriangle, Wrench } from 'lucide-react';
+import UnitChecklist from './UnitChecklist';
 
 interface DamagedItemManagementProps {
   itemId: number;
   itemName: string;
   quantityAvailable: number;
   quantityDamaged: number;
+  serialized: boolean;
 }
 
 export default function DamagedItemManagement({ 
   itemId, 
   itemName, 
   quantityAvailable, 
-  quantityDamaged 
+  quantityDamaged,
+  serialized
 }: DamagedItemManagementProps) {
   const [open, setOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('damage');
   const [damageQuantity, setDamageQuantity] = useState(1);
   const [repairQuantity, setRepairQuantity] = useState(1);
   const [reason, setReason] = useState('');
+  // Serialized items are damaged and repaired by unit; the quantity is the number selected
+  const [damageUnitIds, setDamageUnitIds] = useState<number[]>([]);
+  const [repairUnitIds, setRepairUnitIds] = useState<number[]>([]);
   const { toast } = useToast();
 
   const damageMutation = useMutation({
-    mutationFn: async (data: { quantity: number; reason: string }) => {
+    mutationFn: async (data: { quantity: number; reason: string; unitIds?: number[] }) => {
       return apiRequest('POST', `/api/inventory/${itemId}/damage`, data);
     },
     onSuccess: () => {
       toast({
         title: "Success",
-        description: `${damageQuantity} unit(s) marked as damaged`,
+        description: `${serialized ? damageUnitIds.length : damageQuantity} unit(s) marked as damaged`,
       });
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       queryClient.invalidateQueries({ queryKey: [`/api/inventory/${itemId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inventory/${itemId}/units`] });
       queryClient.invalidateQueries({ queryKey: ['/api/inventory/stats'] });
       setDamageQuantity(1);
+      setDamageUnitIds([]);
       setReason('');
       setOpen(false);
     },
@@ -62,18 +70,20 @@ export default function DamagedItemManagement({
   });
 
   const repairMutation = useMutation({
-    mutationFn: async (data: { quantity: number; reason: string }) => {
+    mutationFn: async (data: { quantity: number; reason: string; unitIds?: number[] }) => {
       return apiRequest('POST', `/api/inventory/${itemId}/repair`, data);
     },
     onSuccess: () => {
       toast({
         title: "Success",
-        description: `${repairQuantity} unit(s) returned to available stock`,
+        description: `${serialized ? repairUnitIds.length : repairQuantity} unit(s) returned to available stock`,
       });
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       queryClient.invalidateQueries({ queryKey: [`/api/inventory/${itemId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inventory/${itemId}/units`] });
       queryClient.invalidateQueries({ queryKey: ['/api/inventory/stats'] });
       setRepairQuantity(1);
+      setRepairUnitIds([]);
       setReason('');
       setOpen(false);
     },
@@ -87,7 +97,16 @@ export default function DamagedItemManagement({
   });
 
   const handleDamage = () => {
-    if (damageQuantity <= 0 || damageQuantity > quantityAvailable) {
+    if (serialized && damageUnitIds.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select the units to mark as damaged",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!serialized && (damageQuantity <= 0 || damageQuantity > quantityAvailable)) {
       toast({
         title: "Error",
         description: `Quantity must be between 1 and ${quantityAvailable}`,
@@ -105,11 +124,22 @@ export default function DamagedItemManagement({
       return;
     }
 
-    damageMutation.mutate({ quantity: damageQuantity, reason: reason.trim() });
+    damageMutation.mutate(serialized
+      ? { quantity: damageUnitIds.length, reason: reason.trim(), unitIds: damageUnitIds }
+      : { quantity: damageQuantity, reason: reason.trim() });
   };
 
   const handleRepair = () => {
-    if (repairQuantity <= 0 || repairQuantity > quantityDamaged) {
+    if (serialized && repairUnitIds.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select the units to return to stock",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!serialized && (repairQuantity <= 0 || repairQuantity > quantityDamaged)) {
       toast({
         title: "Error",
         description: `Quantity must be between 1 and ${quantityDamaged}`,
@@ -127,7 +157,9 @@ export default function DamagedItemManagement({
       return;
     }
 
-    repairMutation.mutate({ quantity: repairQuantity, reason: reason.trim() });
+    repairMutation.mutate(serialized
+      ? { quantity: repairUnitIds.length, reason: reason.trim(), unitIds: repairUnitIds }
+      : { quantity: repairQuantity, reason: reason.trim() });
   };
 
   return (
@@ -170,24 +202,31 @@ export default function DamagedItemManagement({
             </TabsList>
             
             <TabsContent value="damage" className="space-y-4">
-              <div>
-                <Label htmlFor="damage-quantity" className="text-sm">
-                  Quantity to mark as damaged:
-                </Label>
-                <Input
-                  id="damage-quantity"
-                  type="number"
-                  min="1"
-                  max={quantityAvailable}
-                  value={damageQuantity}
-                  onChange={(e) => setDamageQuantity(parseInt(e.target.value) || 1)}
-                  className="mt-1"
-                  disabled={quantityAvailable === 0}
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Available for damage: {quantityAvailable}
-                </p>
-              </div>
+              {serialized ? (
+                <div className="space-y-1">
+                  <Label className="text-sm">Units to mark as damaged:</Label>
+                  <UnitChecklist itemId={itemId} status="Available" selected={damageUnitIds} onChange={setDamageUnitIds} />
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="damage-quantity" className="text-sm">
+                    Quantity to mark as damaged:
+                  </Label>
+                  <Input
+                    id="damage-quantity"
+                    type="number"
+                    min="1"
+                    max={quantityAvailable}
+                    value={damageQuantity}
+                    onChange={(e) => setDamageQuantity(parseInt(e.target.value) || 1)}
+                    className="mt-1"
+                    disabled={quantityAvailable === 0}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Available for damage: {quantityAvailable}
+                  </p>
+                </div>
+              )}
               
               <div>
                 <Label htmlFor="damage-reason" className="text-sm">
@@ -222,24 +261,31 @@ export default function DamagedItemManagement({
             </TabsContent>
             
             <TabsContent value="repair" className="space-y-4">
-              <div>
-                <Label htmlFor="repair-quantity" className="text-sm">
-                  Quantity to return to stock:
-                </Label>
-                <Input
-                  id="repair-quantity"
-                  type="number"
-                  min="1"
-                  max={quantityDamaged}
-                  value={repairQuantity}
-                  onChange={(e) => setRepairQuantity(parseInt(e.target.value) || 1)}
-                  className="mt-1"
-                  disabled={quantityDamaged === 0}
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Available for repair: {quantityDamaged}
-                </p>
-              </div>
+              {serialized ? (
+                <div className="space-y-1">
+                  <Label className="text-sm">Units to return to stock:</Label>
+                  <UnitChecklist itemId={itemId} status="Damaged" selected={repairUnitIds} onChange={setRepairUnitIds} />
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="repair-quantity" className="text-sm">
+                    Quantity to return to stock:
+                  </Label>
+                  <Input
+                    id="repair-quantity"
+                    type="number"
+                    min="1"
+                    max={quantityDamaged}
+                    value={repairQuantity}
+                    onChange={(e) => setRepairQuantity(parseInt(e.target.value) || 1)}
+                    className="mt-1"
+                    disabled={quantityDamaged === 0}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Available for repair: {quantityDamaged}
+                  </p>
+                </div>
+              )}
               
               <div>
                 <Label htmlFor="repair-reason" className="text-sm">
@@ -6,11 +6,15 @@ import { z } from 'zod';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { itemCategoryEnum, itemStatusEnum, itemUsageEnum } from '@/lib/utils/categoryUtils';
+import { itemStatusEnum, itemUsageEnum } from '@/lib/utils/categoryUtils';
+import type { Category, InventoryItem, Location } from '@shared/schema';
+import { categoryFields, categoryOptions, validateCustomFields } from '@shared/categories';
+import { locationOptions } from '@shared/locations';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -27,6 +31,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { ArrowLeft, Save, Upload } from 'lucide-react';
+import CustomFieldInputs from './CustomFieldInputs';
 
 interface EditItemFormProps {
   id: string;
@@ -36,9 +41,9 @@ interface EditItemFormProps {
 const formSchema = z.object({
   name: z.string().min(1, "Item name is required"),
   model: z.string().optional(),
-  category: itemCategoryEnum,
+  category: z.string().min(1, "Category is required"),
   status: itemStatusEnum,
-  location: z.string().optional(),
+  locationId: z.string().optional(), // A location id, or 'none'
   quantity: z.union([
     z.number().int().positive("Quantity must be a positive integer"),
     z.string().transform((val) => {
@@ -56,6 +61,7 @@ const formSchema = z.object({
   ]).optional(),
   usage: itemUsageEnum,
   notes: z.string().optional(),
+  customFields: z.record(z.union([z.string(), z.number(), z.boolean()])).default({}),
 });
 
 export default function EditItemForm({ id }: EditItemFormProps) {
@@ -66,7 +72,7 @@ export default function EditItemForm({ id }: EditItemFormProps) {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   
   // Fetch current item data
-  const { data: item, isLoading } = useQuery({
+  const { data: item, isLoading } = useQuery<InventoryItem>({
     queryKey: [`/api/inventory/${id}`],
   });
 
@@ -75,13 +81,14 @@ export default function EditItemForm({ id }: EditItemFormProps) {
     defaultValues: {
       name: '',
       model: '',
-      category: 'Equipment',
+      category: '',
       status: 'Available',
-      location: '',
+      locationId: '',
       quantity: 1,
       price: undefined,
       usage: 'None',
       notes: '',
+      customFields: {},
     },
   });
 
@@ -93,15 +100,24 @@ export default function EditItemForm({ id }: EditItemFormProps) {
         model: item.model || '',
         category: item.category || 'Equipment',
         status: item.status || 'Available',
-        location: item.location || '',
+        locationId: item.locationId ? String(item.locationId) : 'none',
         quantity: item.quantity || 1,
         price: item.price || undefined,
         usage: item.usage || 'None',
         notes: item.notes || '',
+        customFields: item.customFields ?? {},
       });
     }
   }, [item, form]);
 
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+  const fields = categoryFields(categories, form.watch('category'));
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ['/api/locations'],
+  });
+  
   // Handle image upload
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -120,7 +136,9 @@ export default function EditItemForm({ id }: EditItemFormProps) {
       
       // Add form fields
       Object.entries(data).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
+        if (key === 'customFields') {
+          formData.append(key, JSON.stringify(value));
+        } else if (value !== undefined && value !== null) {
           formData.append(key, value.toString());
         }
       });
@@ -166,7 +184,13 @@ export default function EditItemForm({ id }: EditItemFormProps) {
   });
 
   const onSubmit = (data: z.infer<typeof formSchema>) => {
-    updateItem.mutate(data);
+    // Same check as the server, so missing fields show next to their inputs
+    const checked = validateCustomFields(fields, data.customFields);
+    if (checked.errors.length > 0) {
+      checked.errors.forEach((error) => form.setError(error.field as `customFields.${string}`, { message: error.message }));
+      return;
+    }
+    updateItem.mutate({ ...data, customFields: checked.values });
   };
 
   if (isLoading) {
@@ -278,12 +302,9 @@ export default function EditItemForm({ id }: EditItemFormProps) {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Furniture">Furniture</SelectItem>
-                        <SelectItem value="Equipment">Equipment</SelectItem>
-                        <SelectItem value="Tools">Tools</SelectItem>
-                        <SelectItem value="Electronics">Electronics</SelectItem>
-                        <SelectItem value="Software">Software</SelectItem>
-                        <SelectItem value="Other">Other</SelectItem>
+                        {categoryOptions(categories).map((option) => (
+                          <SelectItem key={option.name} value={option.name}>{option.label}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -316,17 +337,30 @@ export default function EditItemForm({ id }: EditItemFormProps) {
                 )}
               />
             </div>
+            
+            <CustomFieldInputs form={form} fields={fields} />
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="location"
+                name="locationId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Location</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter location" {...field} />
-                    </FormControl>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select location" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No location</SelectItem>
+                        {locationOptions(locations).map((option) => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Items kept at several locations are moved with a transfer</FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -0,0 +1,328 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useMutation } from '@tanstack/react-query';
+import { ArrowLeft, FileSpreadsheet, Upload } from 'lucide-react';
+import {
+  inventoryImportFields,
+  type InventoryImportColumns,
+  type InventoryImportField,
+  type InventoryImportMapping,
+  type InventoryImportResult,
+} from '@shared/schema';
+import { parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const NOT_IMPORTED = '__none';
+
+const fieldLabels: Record<InventoryImportField, string> = {
+  itemId: 'Item ID',
+  name: 'Name',
+  model: 'Model',
+  category: 'Category',
+  status: 'Status',
+  location: 'Location',
+  quantity: 'Quantity',
+  price: 'Price',
+  usage: 'Usage',
+  notes: 'Notes',
+};
+
+const fieldHints: Partial<Record<InventoryImportField, string>> = {
+  itemId: 'Rows with an existing ID update that item; leave empty to assign new IDs',
+  name: 'Required for new items',
+  category: 'Required for new items',
+  status: 'Defaults to Available',
+  usage: 'Defaults to None',
+  quantity: 'Defaults to 1',
+};
+
+// Sends the spreadsheet with any extra form fields; errors read like apiRequest's so parseApiError works
+async function uploadSpreadsheet<T>(url: string, file: File, fields: Record<string, string> = {}): Promise<T> {
+  const formData = new FormData();
+  formData.append('file', file);
+  Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+
+  const response = await fetch(url, { method: 'POST', body: formData, credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return response.json();
+}
+
+export default function ImportItemsWizard() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [columns, setColumns] = useState<InventoryImportColumns | null>(null);
+  const [mapping, setMapping] = useState<InventoryImportMapping>({});
+  const [result, setResult] = useState<InventoryImportResult | null>(null);
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: parseApiError(error).message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const readColumns = useMutation({
+    mutationFn: (file: File) => uploadSpreadsheet<InventoryImportColumns>('/api/inventory/import/columns', file),
+    onSuccess: (data) => {
+      setColumns(data);
+      setMapping(data.mapping);
+      setStep('map');
+    },
+    onError: (error: Error) => showError(error, 'Failed to read the file.'),
+  });
+
+  const runImport = useMutation({
+    mutationFn: (dryRun: boolean) =>
+      uploadSpreadsheet<InventoryImportResult>('/api/inventory/import', file!, {
+        mapping: JSON.stringify(mapping),
+        dryRun: String(dryRun),
+      }),
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.dryRun) {
+        setStep('preview');
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/locations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      setStep('done');
+      toast({
+        title: 'Import Complete',
+        description: `${data.summary.created} items created, ${data.summary.updated} updated.`,
+      });
+    },
+    onError: (error: Error) => {
+      // The rows may have changed since the preview; show the fresh validation result
+      const { body } = parseApiError(error);
+      if (body?.rows) {
+        setResult(body as InventoryImportResult);
+        setStep('preview');
+      }
+      showError(error, 'Failed to import the file.');
+    },
+  });
+
+  const setFieldColumn = (field: InventoryImportField, column: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (column === NOT_IMPORTED) {
+        delete next[field];
+      } else {
+        next[field] = column;
+      }
+      return next;
+    });
+  };
+
+  const sampleValue = (column: string | undefined) =>
+    column ? columns?.sample.map((row) => row[column]).find(Boolean) : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <Button
+          variant="ghost"
+          className="mb-2 -ml-2 w-fit"
+          onClick={() => navigate('/inventory')}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to Inventory
+        </Button>
+        <CardTitle className="text-lg font-medium">Import Items</CardTitle>
+        <CardDescription>
+          Add or update items from a CSV or XLSX spreadsheet. The first row must hold the column headers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {step === 'upload' && (
+          <div className="space-y-4 max-w-md">
+            <Input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <Button
+              onClick={() => file && readColumns.mutate(file)}
+              disabled={!file || readColumns.isPending}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              {readColumns.isPending ? 'Reading...' : 'Continue'}
+            </Button>
+          </div>
+        )}
+
+        {step === 'map' && columns && (
+          <div className="space-y-4">
+            <div className="flex items-center text-sm text-gray-600">
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              {columns.fileName} · {columns.rowCount} rows
+            </div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="w-[180px]">Item field</TableHead>
+                    <TableHead className="w-[240px]">Spreadsheet column</TableHead>
+                    <TableHead>Example</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {inventoryImportFields.map((field) => (
+                    <TableRow key={field}>
+                      <TableCell>
+                        <div className="font-medium">{fieldLabels[field]}</div>
+                        {fieldHints[field] && <div className="text-xs text-gray-500">{fieldHints[field]}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping[field] ?? NOT_IMPORTED}
+                          onValueChange={(column) => setFieldColumn(field, column)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_IMPORTED}>Don't import</SelectItem>
+                            {columns.columns.map((column) => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-gray-500 truncate max-w-[240px]">
+                        {sampleValue(mapping[field]) ?? '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button onClick={() => runImport.mutate(true)} disabled={runImport.isPending}>
+                {runImport.isPending ? 'Checking...' : 'Preview Import'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {(step === 'preview' || step === 'done') && result && (
+          <div className="space-y-4">
+            {step === 'done' ? (
+              <Alert>
+                <AlertTitle>Import complete</AlertTitle>
+                <AlertDescription>
+                  {result.summary.created} items created and {result.summary.updated} updated from {result.fileName}.
+                </AlertDescription>
+              </Alert>
+            ) : result.summary.invalid > 0 ? (
+              <Alert variant="destructive">
+                <AlertTitle>{result.summary.invalid} of {result.summary.total} rows have errors</AlertTitle>
+                <AlertDescription>
+                  Fix them in the spreadsheet and upload it again, or change the column mapping. Nothing is imported until every row is valid.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert>
+                <AlertTitle>Ready to import</AlertTitle>
+                <AlertDescription>
+                  This is a dry run; nothing has been saved yet. {result.summary.created} items will be created and {result.summary.updated} updated.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="rounded-md border max-h-[480px] overflow-y-auto">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="w-[70px]">Row</TableHead>
+                    <TableHead className="w-[100px]">Action</TableHead>
+                    <TableHead className="w-[140px]">Item ID</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.rows.map((row) => (
+                    <TableRow key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : undefined}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>
+                        <Badge variant={row.action === 'update' ? 'secondary' : 'outline'}>
+                          {row.action === 'update' ? 'Update' : 'Create'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{row.itemId ?? <span className="text-gray-400">New</span>}</TableCell>
+                      <TableCell>{row.name ?? '-'}</TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <ul className="text-sm text-red-700 space-y-0.5">
+                            {row.errors.map((error, index) => (
+                              <li key={index}>
+                                <span className="font-medium">{fieldLabels[error.field as InventoryImportField] ?? error.field}:</span> {error.message}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-between">
+              {step === 'done' ? (
+                <>
+                  <Button variant="outline" onClick={() => { setStep('upload'); setFile(null); setResult(null); }}>
+                    Import Another File
+                  </Button>
+                  <Button onClick={() => navigate('/inventory')}>Go to Inventory</Button>
+                </>
+              ) : (
+                <>
+                  <Button variant="outline" onClick={() => setStep('map')}>Back to Mapping</Button>
+                  <Button
+                    onClick={() => runImport.mutate(false)}
+                    disabled={result.summary.invalid > 0 || result.summary.total === 0 || runImport.isPending}
+                  >
+                    {runImport.isPending ? 'Importing...' : `Import ${result.summary.total} Items`}
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,23 +18,91 @@ import {
   PaginationPrevious,
 } from '@/components/ui/pagination';
 import { Button } from '@/components/ui/button';
-import { useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import type { InventorySortKey } from '@shared/schema';
 import LifecycleManagement from './LifecycleManagement';
+import { useAuth } from '@/hooks/useAuth';
 
+// The items are one page of server results; paging and sorting are handed back to the parent
 interface InventoryTableProps {
-  items: any[];
+  items: any[] | undefined;
   isLoading: boolean;
+  isFetching?: boolean;
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  sort: InventorySortKey;
+  order: 'asc' | 'desc';
+  onSortChange: (sort: InventorySortKey, order: 'asc' | 'desc') => void;
+  // Ticked rows, kept by the parent so a selection can span pages
+  selectedIds: number[];
+  onSelectionChange: (ids: number[]) => void;
 }
 
-export default function InventoryTable({ items, isLoading }: InventoryTableProps) {
+// Page links to show: the first, the last and the two either side of the current page
+function visiblePages(currentPage: number, totalPages: number): (number | 'ellipsis')[] {
+  const pages: (number | 'ellipsis')[] = [];
+  for (let page = 1; page <= totalPages; page++) {
+    if (page === 1 || page === totalPages || Math.abs(page - currentPage) <= 2) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== 'ellipsis') {
+      pages.push('ellipsis');
+    }
+  }
+  return pages;
+}
+
+export default function InventoryTable({
+  items,
+  isLoading,
+  isFetching,
+  page: currentPage,
+  pageSize,
+  total,
+  totalPages,
+  onPageChange,
+  sort,
+  order,
+  onSortChange,
+  selectedIds,
+  onSelectionChange,
+}: InventoryTableProps) {
   const [, navigate] = useLocation();
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 10;
+  const { can } = useAuth();
+  const startIndex = (currentPage - 1) * pageSize;
+  
+  const pageIds: number[] = items?.map((item) => item.id) ?? [];
+  const selectedOnPage = pageIds.filter((id) => selectedIds.includes(id)).length;
+  
+  const toggleItem = (id: number, checked: boolean) => {
+    onSelectionChange(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id));
+  };
+  
+  // The header box ticks or clears the rows on this page only
+  const togglePage = (checked: boolean) => {
+    const others = selectedIds.filter((id) => !pageIds.includes(id));
+    onSelectionChange(checked ? [...others, ...pageIds] : others);
+  };
   
-  // Calculate pagination
-  const totalPages = Math.ceil((items?.length || 0) / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedItems = items?.slice(startIndex, startIndex + itemsPerPage) || [];
+  // Clicking the sorted column flips its direction; another column starts ascending
+  const SortableHead = ({ column, children, className }: { column: InventorySortKey; children: React.ReactNode; className?: string }) => {
+    const Icon = sort !== column ? ArrowUpDown : order === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className={className} aria-sort={sort === column ? (order === 'asc' ? 'ascending' : 'descending') : undefined}>
+        <button
+          type="button"
+          className="inline-flex items-center hover:text-gray-900"
+          onClick={() => onSortChange(column, sort === column && order === 'asc' ? 'desc' : 'asc')}
+        >
+          {children}
+          <Icon className={`h-3.5 w-3.5 ml-1 ${sort === column ? '' : 'opacity-40'}`} />
+        </button>
+      </TableHead>
+    );
+  };
   
   const handleViewItem = (id: string) => {
     navigate(`/inventory/view/${id}`);
@@ -69,17 +137,25 @@ export default function InventoryTable({ items, isLoading }: InventoryTableProps
   
   return (
     <div>
-      <div className="rounded-md border">
+      <div className={`rounded-md border transition-opacity ${isFetching && !isLoading ? 'opacity-60' : ''}`}>
         <Table>
           <TableHeader className="bg-gray-50">
             <TableRow>
-              <TableHead className="w-[100px]">ID</TableHead>
-              <TableHead>Name</TableHead>
-              <TableHead>Category</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Location</TableHead>
-              <TableHead className="w-[80px]">Quantity</TableHead>
-              <TableHead>Price</TableHead>
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  aria-label="Select all items on this page"
+                  checked={selectedOnPage > 0 && selectedOnPage === pageIds.length ? true : selectedOnPage > 0 ? 'indeterminate' : false}
+                  onCheckedChange={(checked) => togglePage(checked === true)}
+                  disabled={pageIds.length === 0}
+                />
+              </TableHead>
+              <SortableHead column="itemId" className="w-[100px]">ID</SortableHead>
+              <SortableHead column="name">Name</SortableHead>
+              <SortableHead column="category">Category</SortableHead>
+              <SortableHead column="status">Status</SortableHead>
+              <SortableHead column="location">Location</SortableHead>
+              <SortableHead column="quantityAvailable" className="w-[80px]">Quantity</SortableHead>
+              <SortableHead column="price">Price</SortableHead>
               <TableHead>Lifecycle</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -88,6 +164,9 @@ export default function InventoryTable({ items, isLoading }: InventoryTableProps
             {isLoading ? (
               Array(5).fill(0).map((_, index) => (
                 <TableRow key={index}>
+                  <TableCell>
+                    <div className="w-4 h-4 bg-gray-200 animate-pulse rounded"></div>
+                  </TableCell>
                   <TableCell>
                     <div className="w-16 h-5 bg-gray-200 animate-pulse rounded"></div>
                   </TableCell>
@@ -122,8 +201,15 @@ export default function InventoryTable({ items, isLoading }: InventoryTableProps
                 </TableRow>
               ))
             ) : items && items.length > 0 ? (
-              paginatedItems.map((item) => (
-                <TableRow key={item.id}>
+              items.map((item) => (
+                <TableRow key={item.id} data-state={selectedIds.includes(item.id) ? 'selected' : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      aria-label={`Select ${item.name}`}
+                      checked={selectedIds.includes(item.id)}
+                      onCheckedChange={(checked) => toggleItem(item.id, checked === true)}
+                    />
+                  </TableCell>
                   <TableCell className="font-medium">{item.itemId}</TableCell>
                   <TableCell>
                     <div className="font-medium text-gray-900">{item.name}</div>
@@ -186,39 +272,46 @@ export default function InventoryTable({ items, isLoading }: InventoryTableProps
                       >
                         View
                       </Button>
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        className="text-gray-600 hover:text-gray-900" 
-                        onClick={() => handleEditItem(item.id)}
-                      >
-                        Edit
-                      </Button>
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        className="text-amber-600 hover:text-amber-900"
-                        onClick={() => handleLoanItem(item.id)}
-                        disabled={!item.quantityAvailable || item.quantityAvailable <= 0}
-                      >
-                        Loan
-                      </Button>
-                      <LifecycleManagement
-                        itemId={item.id}
-                        itemName={item.name}
-                        quantityAvailable={item.quantityAvailable || 0}
-                        currentLifecycleStatuses={item.lifecycleStatuses}
-                        currentLifecycleDate={item.lifecycleDate}
-                        currentLifecycleReason={item.lifecycleReason}
-                        currentQuantityLifecycled={item.quantityLifecycled}
-                      />
+                      {can('inventory:write') && (
+                        <Button 
+                          variant="ghost" 
+                          size="sm"
+                          className="text-gray-600 hover:text-gray-900" 
+                          onClick={() => handleEditItem(item.id)}
+                        >
+                          Edit
+                        </Button>
+                      )}
+                      {can('loans:write') && (
+                        <Button 
+                          variant="ghost" 
+                          size="sm"
+                          className="text-amber-600 hover:text-amber-900"
+                          onClick={() => handleLoanItem(item.id)}
+                          disabled={!item.quantityAvailable || item.quantityAvailable <= 0}
+                        >
+                          Loan
+                        </Button>
+                      )}
+                      {can('inventory:lifecycle') && (
+                        <LifecycleManagement
+                          itemId={item.id}
+                          itemName={item.name}
+                          quantityAvailable={item.quantityAvailable || 0}
+                          serialized={item.serialized}
+                          currentLifecycleStatuses={item.lifecycleStatuses}
+                          currentLifecycleDate={item.lifecycleDate}
+                          currentLifecycleReason={item.lifecycleReason}
+                          currentQuantityLifecycled={item.quantityLifecycled}
+                        />
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={9} className="h-24 text-center">
+                <TableCell colSpan={10} className="h-24 text-center">
                   {items?.length === 0 ? 'No items found. Try a different search or add a new item.' : 'Error loading inventory data.'}
                 </TableCell>
               </TableRow>
@@ -234,45 +327,34 @@ export default function InventoryTable({ items, isLoading }: InventoryTableProps
             <PaginationContent>
               <PaginationItem>
                 <PaginationPrevious 
-                  onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                  onClick={() => currentPage > 1 && onPageChange(currentPage - 1)}
                   aria-disabled={currentPage === 1}
                 />
               </PaginationItem>
-              {Array.from({ length: Math.min(totalPages, 5) }, (_, i) => {
-                const pageNum = i + 1;
-                return (
-                  <PaginationItem key={pageNum}>
+              {visiblePages(currentPage, totalPages).map((pageNum, index) => (
+                <PaginationItem key={pageNum === 'ellipsis' ? `ellipsis-${index}` : pageNum}>
+                  {pageNum === 'ellipsis' ? (
+                    <PaginationEllipsis />
+                  ) : (
                     <PaginationLink 
                       isActive={pageNum === currentPage}
-                      onClick={() => setCurrentPage(pageNum)}
+                      onClick={() => onPageChange(pageNum)}
                     >
                       {pageNum}
                     </PaginationLink>
-                  </PaginationItem>
-                );
-              })}
-              {totalPages > 5 && (
-                <>
-                  <PaginationItem>
-                    <PaginationEllipsis />
-                  </PaginationItem>
-                  <PaginationItem>
-                    <PaginationLink onClick={() => setCurrentPage(totalPages)}>
-                      {totalPages}
-                    </PaginationLink>
-                  </PaginationItem>
-                </>
-              )}
+                  )}
+                </PaginationItem>
+              ))}
               <PaginationItem>
                 <PaginationNext 
-                  onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                  onClick={() => currentPage < totalPages && onPageChange(currentPage + 1)}
                   aria-disabled={currentPage === totalPages}
                 />
               </PaginationItem>
             </PaginationContent>
           </Pagination>
           <p className="mt-2 text-sm text-gray-500 text-center">
-            Showing {startIndex + 1} to {Math.min(startIndex + itemsPerPage, items.length)} of {items.length} items
+            Showing {startIndex + 1} to {startIndex + items.length} of {total} items
           </p>
         </div>
       )}
@@ -12,7 +12,8 @@ import {
   Package,
   MapPin,
   Tag,
-  Calendar
+  Calendar,
+  Printer
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -20,6 +21,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import PartialDeleteDialog from './PartialDeleteDialog';
 import DamagedItemManagement from './DamagedItemManagement';
+import PrintLabelsDialog from './PrintLabelsDialog';
+import AssetUnitsPanel from './AssetUnitsPanel';
+import ItemStockPanel from './ItemStockPanel';
+import type { Category, CustomFieldValues } from '@shared/schema';
+import { categoryFields, categoryOptions, formatCustomFieldValue } from '@shared/categories';
+import { useAuth } from '@/hooks/useAuth';
 
 interface ItemDetailsProps {
   id: string;
@@ -28,6 +35,7 @@ interface ItemDetailsProps {
 export default function ItemDetails({ id }: ItemDetailsProps) {
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { can } = useAuth();
   
   // Define interface for item type
   interface InventoryItem {
@@ -38,13 +46,16 @@ export default function ItemDetails({ id }: ItemDetailsProps) {
     category: string;
     status: string;
     location?: string;
+    locationId: number | null;
     quantity: number;
     quantityAvailable: number;
     quantityLoaned: number;
     quantityDamaged: number;
+    serialized: boolean;
     price?: number;
     usage: string;
     notes?: string;
+    customFields: CustomFieldValues;
     createdAt: string;
     updatedAt?: string;
   }
@@ -54,6 +65,12 @@ export default function ItemDetails({ id }: ItemDetailsProps) {
     queryKey: [`/api/inventory/${id}`],
   });
 
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+  const fields = item ? categoryFields(categories, item.category) : [];
+  const categoryLabel = categoryOptions(categories).find((option) => option.name === item?.category)?.label;
+
   // Fetch lifecycle history
   const { data: lifecycleHistory, isLoading: isHistoryLoading } = useQuery<any[]>({
     queryKey: [`/api/inventory/${id}/lifecycle-history`],
@@ -188,47 +205,66 @@ export default function ItemDetails({ id }: ItemDetailsProps) {
                 <div>
                   <h3 className="text-sm font-medium text-gray-500">Actions</h3>
                   <div className="mt-2 flex flex-col space-y-2">
-                    <Button 
-                      variant="outline" 
-                      className="justify-start" 
-                      onClick={handleEditItem}
-                    >
-                      <Edit className="h-4 w-4 mr-2" />
-                      Edit Item
-                    </Button>
+                    {can('inventory:write') && (
+                      <Button 
+                        variant="outline" 
+                        className="justify-start" 
+                        onClick={handleEditItem}
+                      >
+                        <Edit className="h-4 w-4 mr-2" />
+                        Edit Item
+                      </Button>
+                    )}
                     
-                    <Button 
-                      variant="outline" 
-                      className="justify-start text-amber-600 hover:text-amber-700" 
-                      disabled={item.status !== 'Available'}
-                      onClick={handleLoanItem}
-                    >
-                      <Handshake className="h-4 w-4 mr-2" />
-                      Process Loan
-                    </Button>
+                    {can('loans:write') && (
+                      <Button 
+                        variant="outline" 
+                        className="justify-start text-amber-600 hover:text-amber-700" 
+                        disabled={item.status !== 'Available'}
+                        onClick={handleLoanItem}
+                      >
+                        <Handshake className="h-4 w-4 mr-2" />
+                        Process Loan
+                      </Button>
+                    )}
+                    
+                    {can('inventory:damage') && (
+                      <DamagedItemManagement
+                        itemId={item.id}
+                        itemName={item.name}
+                        quantityAvailable={item.quantityAvailable}
+                        quantityDamaged={item.quantityDamaged}
+                        serialized={item.serialized}
+                      />
+                    )}
                     
-                    <DamagedItemManagement
-                      itemId={item.id}
-                      itemName={item.name}
-                      quantityAvailable={item.quantityAvailable}
-                      quantityDamaged={item.quantityDamaged}
-                    />
+                    {/* Units of a serialized item are removed one by one in the Units section */}
+                    {can('inventory:write') && !item.serialized && (
+                      <PartialDeleteDialog
+                        itemId={item.id}
+                        itemName={item.name}
+                        totalQuantity={item.quantity}
+                        onComplete={() => navigate('/inventory')}
+                      />
+                    )}
                     
-                    <PartialDeleteDialog
-                      itemId={item.id}
-                      itemName={item.name}
-                      totalQuantity={item.quantity}
-                      onComplete={() => navigate('/inventory')}
-                    />
+                    <PrintLabelsDialog itemIds={[item.id]}>
+                      <Button variant="outline" className="justify-start">
+                        <Printer className="h-4 w-4 mr-2" />
+                        Print Label
+                      </Button>
+                    </PrintLabelsDialog>
                     
-                    <Button 
-                      variant="outline" 
-                      className="justify-start" 
-                      onClick={() => navigate('/documents/new?type=Acquisition&itemId=' + item.id)}
-                    >
-                      <FileText className="h-4 w-4 mr-2" />
-                      Generate Document
-                    </Button>
+                    {can('documents:write') && (
+                      <Button 
+                        variant="outline" 
+                        className="justify-start" 
+                        onClick={() => navigate('/documents/new?type=Acquisition&itemId=' + item.id)}
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        Generate Document
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -244,7 +280,7 @@ export default function ItemDetails({ id }: ItemDetailsProps) {
                       <p className="text-sm font-medium text-gray-500">Category</p>
                       <div className="mt-1 flex items-center">
                         <Tag className="h-4 w-4 mr-2 text-gray-400" />
-                        <p>{item.category}</p>
+                        <p>{categoryLabel ?? item.category}</p>
                       </div>
                     </div>
                     
@@ -289,6 +325,13 @@ export default function ItemDetails({ id }: ItemDetailsProps) {
                       <p className="mt-1">{item.usage}</p>
                     </div>
                     
+                    {fields.map((field) => (
+                      <div key={field.key}>
+                        <p className="text-sm font-medium text-gray-500">{field.label}</p>
+                        <p className="mt-1">{formatCustomFieldValue(field, item.customFields?.[field.key]) || 'Not specified'}</p>
+                      </div>
+                    ))}
+                    
                     <div>
                       <p className="text-sm font-medium text-gray-500">Added on</p>
                       <div className="mt-1 flex items-center">
@@ -307,6 +350,10 @@ export default function ItemDetails({ id }: ItemDetailsProps) {
                   </div>
                 )}
                 
+                <ItemStockPanel item={item} canEdit={can('inventory:write')} />
+                
+                <AssetUnitsPanel itemId={item.id} serialized={item.serialized} canEdit={can('inventory:write')} />
+                
                 {/* Activity History (if implemented) */}
                 <div>
                   <h3 className="text-lg font-medium">Activity History</h3>
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { ArrowRightLeft } from 'lucide-react';
+import type { InventoryItem, Location, StockLine } from '@shared/schema';
+import { locationOptions } from '@shared/locations';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+
+type TransferForm = {
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: string;
+  notes: string;
+};
+
+interface ItemStockPanelProps {
+  item: Pick<InventoryItem, 'id' | 'name' | 'locationId' | 'quantityAvailable'>;
+  canEdit: boolean;
+}
+
+// Where the item's units are kept, with transfers between locations
+export default function ItemStockPanel({ item, canEdit }: ItemStockPanelProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<TransferForm>({ fromLocationId: '', toLocationId: '', quantity: '1', notes: '' });
+
+  const { data: stock = [], isLoading } = useQuery<StockLine[]>({
+    queryKey: [`/api/inventory/${item.id}/stock`],
+    // Edits, restocks and transfers all change the breakdown
+    staleTime: 0,
+  });
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ['/api/locations'],
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (values: TransferForm) => {
+      const response = await apiRequest('POST', `/api/inventory/${item.id}/transfer`, {
+        fromLocationId: Number(values.fromLocationId),
+        toLocationId: Number(values.toLocationId),
+        quantity: parseInt(values.quantity),
+        notes: values.notes.trim() || undefined,
+      });
+      return response.json() as Promise<{ documentId: string }>;
+    },
+    onSuccess: ({ documentId }) => {
+      toast({ title: 'Success', description: `Units moved; transfer document ${documentId} created` });
+      queryClient.invalidateQueries({ queryKey: [`/api/inventory/${item.id}/stock`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inventory/${item.id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+    },
+  });
+
+  const openTransfer = () => {
+    const from = stock.find((line) => line.locationId !== null);
+    setForm({ fromLocationId: from ? String(from.locationId) : '', toLocationId: '', quantity: '1', notes: '' });
+    setOpen(true);
+  };
+
+  const source = stock.find((line) => String(line.locationId) === form.fromLocationId);
+  const quantity = parseInt(form.quantity);
+  const valid = !!source && !!form.toLocationId && form.toLocationId !== form.fromLocationId &&
+    quantity > 0 && quantity <= source.quantity;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">Stock by Location</h3>
+        {canEdit && item.locationId !== null && item.quantityAvailable > 0 && (
+          <Button variant="outline" size="sm" onClick={openTransfer}>
+            <ArrowRightLeft className="h-4 w-4 mr-1" />
+            Transfer
+          </Button>
+        )}
+      </div>
+      <Separator className="my-2" />
+
+      {isLoading ? (
+        <div className="h-4 w-full bg-gray-200 animate-pulse rounded"></div>
+      ) : stock.length <= 1 ? (
+        <p className="text-sm text-gray-500 italic">
+          {stock[0]?.locationId
+            ? `All ${stock[0].quantity} unit(s) are kept at ${stock[0].path}.`
+            : 'This item has no location yet. Pick one when editing it to move units between locations.'}
+        </p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Location</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stock.map((line) => (
+                <TableRow key={line.locationId ?? 'unassigned'}>
+                  <TableCell>
+                    {line.path}
+                    {line.locationId === item.locationId && <span className="ml-2 text-xs text-gray-500">(main)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{line.quantity}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Transfer Units</DialogTitle>
+            <DialogDescription>
+              Moves units of {item.name} to another location and creates a transfer document.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select value={form.fromLocationId} onValueChange={(value) => setForm({ ...form, fromLocationId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stock.filter((line) => line.locationId !== null).map((line) => (
+                    <SelectItem key={line.locationId} value={String(line.locationId)}>
+                      {line.path} ({line.quantity})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select value={form.toLocationId} onValueChange={(value) => setForm({ ...form, toLocationId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locationOptions(locations)
+                    .filter((option) => String(option.id) !== form.fromLocationId)
+                    .map((option) => (
+                      <SelectItem key={option.id} value={String(option.id)}>{option.label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-quantity">Quantity</Label>
+              <Input
+                id="transfer-quantity"
+                type="number"
+                min={1}
+                max={source?.quantity}
+                value={form.quantity}
+                onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-notes">Notes</Label>
+              <Textarea
+                id="transfer-notes"
+                rows={2}
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => transferMutation.mutate(form)} disabled={!valid || transferMutation.isPending}>
+                {transferMutation.isPending ? 'Moving...' : 'Transfer'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -14,11 +14,13 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { assetLifecycleStatusEnum } from '@shared/schema';
+import UnitChecklist from './UnitChecklist';
 
 interface LifecycleManagementProps {
   itemId: number;
   itemName: string;
   quantityAvailable: number;
+  serialized?: boolean;
   currentLifecycleStatuses?: string[];
   currentLifecycleDate?: string;
   currentLifecycleReason?: string;
@@ -29,6 +31,7 @@ export default function LifecycleManagement({
   itemId, 
   itemName, 
   quantityAvailable,
+  serialized = false,
   currentLifecycleStatuses = [],
   currentLifecycleDate,
   currentLifecycleReason,
@@ -41,6 +44,8 @@ export default function LifecycleManagement({
   );
   const [reason, setReason] = useState(currentLifecycleReason || '');
   const [quantity, setQuantity] = useState(1);
+  // Serialized items retire the selected units
+  const [unitIds, setUnitIds] = useState<number[]>([]);
   const [calendarOpen, setCalendarOpen] = useState(false);
   
   const { toast } = useToast();
@@ -51,7 +56,8 @@ export default function LifecycleManagement({
       lifecycleStatuses: string[], 
       lifecycleDate: string, 
       lifecycleReason: string,
-      quantityLifecycled: number
+      quantityLifecycled: number,
+      unitIds?: number[]
     }) => {
       return apiRequest('POST', `/api/inventory/${itemId}/lifecycle`, data);
     },
@@ -63,11 +69,13 @@ export default function LifecycleManagement({
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       queryClient.invalidateQueries({ queryKey: [`/api/inventory/${itemId}/lifecycle-history`] });
       queryClient.invalidateQueries({ queryKey: [`/api/inventory/${itemId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inventory/${itemId}/units`] });
       // Reset form
       setSelectedStatuses([]);
       setDate(undefined);
       setReason('');
       setQuantity(1);
+      setUnitIds([]);
       setOpen(false);
     },
     onError: (error: any) => {
@@ -115,7 +123,16 @@ export default function LifecycleManagement({
       return;
     }
     
-    if (quantity <= 0 || quantity > quantityAvailable) {
+    if (serialized && unitIds.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please select the units to retire",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (!serialized && (quantity <= 0 || quantity > quantityAvailable)) {
       toast({
         title: "Error",
         description: `Quantity must be between 1 and ${quantityAvailable}`,
@@ -128,7 +145,8 @@ export default function LifecycleManagement({
       lifecycleStatuses: selectedStatuses,
       lifecycleDate: format(date, 'yyyy-MM-dd'),
       lifecycleReason: reason.trim(),
-      quantityLifecycled: quantity,
+      quantityLifecycled: serialized ? unitIds.length : quantity,
+      ...(serialized && { unitIds }),
     });
   };
 
@@ -143,6 +161,7 @@ export default function LifecycleManagement({
       setDate(undefined);
       setReason('');
       setQuantity(1);
+      setUnitIds([]);
     }
   };
 
@@ -190,21 +209,31 @@ export default function LifecycleManagement({
             </div>
           </div>
           
-          <div className="space-y-2">
-            <Label className="text-base font-medium">Quantity</Label>
-            <Input
-              type="number"
-              value={quantity}
-              onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
-              min={1}
-              max={quantityAvailable}
-              className="w-full"
-              placeholder="Enter quantity"
-            />
-            <p className="text-xs text-gray-500">
-              How many units of this item are going through lifecycle changes? (Max: {quantityAvailable})
-            </p>
-          </div>
+          {serialized ? (
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Units</Label>
+              <UnitChecklist itemId={itemId} status="Available" selected={unitIds} onChange={setUnitIds} />
+              <p className="text-xs text-gray-500">
+                The selected units are retired and no longer count as available.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Quantity</Label>
+              <Input
+                type="number"
+                value={quantity}
+                onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                min={1}
+                max={quantityAvailable}
+                className="w-full"
+                placeholder="Enter quantity"
+              />
+              <p className="text-xs text-gray-500">
+                How many units of this item are going through lifecycle changes? (Max: {quantityAvailable})
+              </p>
+            </div>
+          )}
           
           <div className="space-y-2">
             <Label className="text-base font-medium">Date</Label>
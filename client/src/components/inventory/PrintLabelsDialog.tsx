@@ -0,0 +1,145 @@
+import { useState, type ReactNode } from 'react';
+import { Printer } from 'lucide-react';
+import type { LabelCodes, LabelLayout } from '@shared/schema';
+import { urlWithParams } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const layoutOptions: Record<LabelLayout, { label: string; perSheet: number }> = {
+  'a4-3x8': { label: 'A4 sheet, 3 × 8 (70 × 37 mm)', perSheet: 24 },
+  'thermal-50x25': { label: 'Thermal roll, 50 × 25 mm', perSheet: 1 },
+};
+
+const codeOptions: Record<LabelCodes, string> = {
+  both: 'QR code and barcode',
+  qr: 'QR code only',
+  code128: 'Barcode (Code 128) only',
+};
+
+interface PrintLabelsDialogProps {
+  itemIds: number[];
+  // The button that opens the dialog
+  children: ReactNode;
+}
+
+export default function PrintLabelsDialog({ itemIds, children }: PrintLabelsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [layout, setLayout] = useState<LabelLayout>('a4-3x8');
+  const [codes, setCodes] = useState<LabelCodes>('both');
+  const [copies, setCopies] = useState(1);
+  const [start, setStart] = useState(1);
+
+  const perSheet = layoutOptions[layout].perSheet;
+  const labelCount = itemIds.length * copies;
+
+  // The PDF opens in a new tab so the browser's own print dialog handles the printer
+  const handlePrint = () => {
+    window.open(
+      urlWithParams('/api/inventory/labels', { ids: itemIds, layout, codes, copies, start: Math.min(start, perSheet) }),
+      '_blank',
+    );
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Printer className="h-5 w-5 mr-2" />
+            Print Labels
+          </DialogTitle>
+          <DialogDescription>
+            {labelCount} label{labelCount === 1 ? '' : 's'} for {itemIds.length} item{itemIds.length === 1 ? '' : 's'}.
+            The QR code opens the item in the app.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Label stock</Label>
+            <Select value={layout} onValueChange={(value) => setLayout(value as LabelLayout)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(layoutOptions) as LabelLayout[]).map((option) => (
+                  <SelectItem key={option} value={option}>{layoutOptions[option].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Codes</Label>
+            <Select value={codes} onValueChange={(value) => setCodes(value as LabelCodes)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(codeOptions) as LabelCodes[]).map((option) => (
+                  <SelectItem key={option} value={option}>{codeOptions[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex space-x-4">
+            <div className="space-y-2">
+              <Label htmlFor="label-copies">Copies per item</Label>
+              <Input
+                id="label-copies"
+                type="number"
+                min={1}
+                max={50}
+                value={copies}
+                onChange={(e) => setCopies(Math.min(50, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="w-24"
+              />
+            </div>
+            {perSheet > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="label-start">Start at position</Label>
+                <Input
+                  id="label-start"
+                  type="number"
+                  min={1}
+                  max={perSheet}
+                  value={start}
+                  onChange={(e) => setStart(Math.min(perSheet, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="w-24"
+                />
+                <p className="text-xs text-gray-500">Skips used labels on a part-used sheet</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handlePrint} disabled={itemIds.length === 0}>
+              <Printer className="h-4 w-4 mr-2" /> Open PDF
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
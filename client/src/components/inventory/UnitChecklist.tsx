@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AssetUnitDetails, AssetUnitStatus } from '@shared/schema';
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface UnitChecklistProps {
+  itemId: number;
+  // Only units in this status are offered
+  status: AssetUnitStatus;
+  selected: number[];
+  onChange: (unitIds: number[]) => void;
+}
+
+// Picks units of a serialized item by serial number, in place of a quantity field
+export default function UnitChecklist({ itemId, status, selected, onChange }: UnitChecklistProps) {
+  const { data: units = [], isLoading } = useQuery<AssetUnitDetails[]>({
+    queryKey: [`/api/inventory/${itemId}/units`],
+    // Loans and returns elsewhere move units, so always start from the server's view
+    staleTime: 0,
+  });
+  const offered = units.filter((unit) => unit.status === status);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading units...</p>;
+  }
+  if (offered.length === 0) {
+    return <p className="text-sm text-gray-500">No {status.toLowerCase()} units</p>;
+  }
+
+  const toggle = (unitId: number, checked: boolean) => {
+    onChange(checked ? [...selected, unitId] : selected.filter((id) => id !== unitId));
+  };
+
+  return (
+    <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+      {offered.map((unit) => (
+        <label key={unit.id} className="flex items-center space-x-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+          <Checkbox
+            checked={selected.includes(unit.id)}
+            onCheckedChange={(checked) => toggle(unit.id, checked === true)}
+          />
+          <span className="font-mono">{unit.serialNumber}</span>
+          <span className="text-gray-500">{unit.condition}</span>
+          {unit.location && <span className="text-gray-500 truncate">{unit.location}</span>}
+        </label>
+      ))}
+    </div>
+  );
+}
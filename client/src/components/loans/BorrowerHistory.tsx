@@ -0,0 +1,103 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { BorrowerLoan } from '@shared/schema';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import LoanStatusBadge, { withPartialReturns } from './LoanStatusBadge';
+import { ConditionBadge, needsResolving } from './LoanReturnHistory';
+
+interface BorrowerHistoryProps {
+  // Loans linked to the registered borrower, or else loans under this name
+  borrowerId?: number | null;
+  borrowerName?: string | null;
+  // The loan being viewed, left out of the list
+  excludeLoanIds?: number[];
+  // Only loans still out, or only loans fully returned
+  show?: 'open' | 'returned';
+  emptyText?: string;
+}
+
+// Loans to a borrower, how late they were and the condition things came back in
+export default function BorrowerHistory({
+  borrowerId,
+  borrowerName,
+  excludeLoanIds = [],
+  show,
+  emptyText = 'No other loans to this borrower',
+}: BorrowerHistoryProps) {
+  const { data: history = [], isLoading } = useQuery<BorrowerLoan[]>({
+    queryKey: ['/api/borrower-history', borrowerId ? { borrowerId } : { name: borrowerName }],
+    enabled: !!borrowerId || !!borrowerName,
+    staleTime: 0,
+  });
+
+  const loans = history.filter((loan) =>
+    !excludeLoanIds.includes(loan.id) &&
+    (!show || (show === 'returned') === (loan.status === 'Returned'))
+  );
+
+  if (isLoading) {
+    return <div className="h-4 w-full bg-gray-200 animate-pulse rounded"></div>;
+  }
+  if (loans.length === 0) {
+    return <p className="text-sm text-gray-500 italic">{emptyText}</p>;
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Out</TableHead>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-right">Quantity</TableHead>
+            <TableHead>Due</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Returned As</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loans.map((loan) => (
+            <TableRow key={loan.id}>
+              <TableCell>{loan.loanDate ? format(new Date(loan.loanDate), 'MMM dd, yyyy') : '—'}</TableCell>
+              <TableCell>
+                {loan.itemName}
+                {loan.loanGroupCode && <span className="block text-xs text-gray-500">{loan.loanGroupCode}</span>}
+              </TableCell>
+              <TableCell className="text-right">{loan.quantityLoaned}</TableCell>
+              <TableCell className="whitespace-nowrap">
+                {loan.expectedReturnDate ? format(new Date(loan.expectedReturnDate), 'MMM dd, yyyy') : '—'}
+                {loan.daysLate > 0 && (
+                  <span className="block text-xs text-red-600">
+                    {loan.daysLate} day{loan.daysLate === 1 ? '' : 's'} late{loan.status !== 'Returned' && ' so far'}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell>
+                <LoanStatusBadge status={withPartialReturns(loan.status, [loan])} />
+              </TableCell>
+              <TableCell>
+                {loan.returns.length === 0 ? '—' : (
+                  <div className="flex flex-wrap gap-1">
+                    {loan.returns.map((entry) => (
+                      <span key={entry.id} className="inline-flex items-center text-xs text-gray-600">
+                        {entry.quantity} x&nbsp;<ConditionBadge condition={entry.condition} />
+                        {needsResolving(entry) && <span className="ml-1 text-red-600">unresolved</span>}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
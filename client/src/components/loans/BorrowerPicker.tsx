@@ -0,0 +1,88 @@
+import { useState, type InputHTMLAttributes } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import type { BorrowerSummary } from '@shared/schema';
+import { Input } from '@/components/ui/input';
+
+type BorrowerPickerProps = Omit<InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'onSelect'> & {
+  value: string;
+  borrowerId?: number;
+  // Typing a name drops the borrower picked before
+  onChange: (name: string) => void;
+  onSelect: (borrower: BorrowerSummary) => void;
+};
+
+// Borrower name input that suggests registered borrowers. A name nobody is registered under is
+// added to the registry when the loan is processed.
+export default function BorrowerPicker({ value, borrowerId, onChange, onSelect, ...inputProps }: BorrowerPickerProps) {
+  const [open, setOpen] = useState(false);
+  const { data: borrowers = [] } = useQuery<BorrowerSummary[]>({
+    queryKey: ['/api/borrowers'],
+  });
+
+  const query = value.trim().toLowerCase();
+  const matches = query
+    ? borrowers
+        .filter((borrower) =>
+          [borrower.name, borrower.membershipNumber, borrower.email, borrower.phone]
+            .some((field) => field?.toLowerCase().includes(query))
+        )
+        .slice(0, 8)
+    : [];
+  const selected = borrowers.find((borrower) => borrower.id === borrowerId);
+
+  return (
+    <div className="relative">
+      <Input
+        {...inputProps}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+      />
+      {open && !selected && matches.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md max-h-64 overflow-auto">
+          {matches.map((borrower) => (
+            <button
+              key={borrower.id}
+              type="button"
+              className="w-full px-3 py-2 text-left text-sm hover:bg-accent"
+              // Before the input loses focus and closes the list
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onSelect(borrower);
+                setOpen(false);
+              }}
+            >
+              <span className="font-medium">{borrower.name}</span>
+              {borrower.blockedAt && <span className="ml-2 text-xs text-red-600">Blocked</span>}
+              <span className="block text-xs text-gray-500">
+                {borrower.borrowerType}
+                {borrower.membershipNumber && ` · #${borrower.membershipNumber}`}
+                {borrower.openLoans > 0 && ` · ${borrower.openLoans} loan(s) out`}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+      {selected ? (
+        <p className="mt-1 text-xs text-gray-500">
+          Registered borrower ·{' '}
+          {selected.openLoans} loan(s) out
+          {selected.lateLoans > 0 && <span className="text-red-600"> · {selected.lateLoans} returned late or overdue</span>}
+          {selected.blockedAt && <span className="text-red-600"> · Blocked: {selected.blockedReason}</span>}
+          {' · '}
+          <Link href={`/borrowers/view/${selected.id}`} className="text-primary hover:underline">
+            View history
+          </Link>
+        </p>
+      ) : query && !borrowers.some((borrower) => borrower.name.toLowerCase() === query) && (
+        <p className="mt-1 text-xs text-gray-500">New borrower; they will be added to the registry</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { LoanExtensionEntry } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ExtendLoanDialogProps {
+  // An individual loan or a multi-item loan, with the date it is due back now
+  target: { loanId: number; dueDate: string } | { loanGroupId: number; code: string; dueDate: string } | null;
+  onClose: () => void;
+}
+
+// Moves a loan's due date; depending on settings the request may need approval first
+export default function ExtendLoanDialog({ target, onClose }: ExtendLoanDialogProps) {
+  const { toast } = useToast();
+  const [newDueDate, setNewDueDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  const currentDue = target ? new Date(target.dueDate).toISOString().split('T')[0] : '';
+  const targetKey = target && ('loanGroupId' in target ? `group-${target.loanGroupId}` : `loan-${target.loanId}`);
+  useEffect(() => {
+    setNewDueDate('');
+    setReason('');
+  }, [targetKey]);
+
+  const url = !target
+    ? ''
+    : 'loanGroupId' in target ? `/api/loan-groups/${target.loanGroupId}/extensions` : `/api/loans/${target.loanId}/extensions`;
+
+  const extendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', url, { newDueDate, reason: reason.trim() });
+      return response.json() as Promise<LoanExtensionEntry>;
+    },
+    onSuccess: (extension) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/loan-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/loans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/loan-extensions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/stats'] });
+
+      toast({
+        title: extension.status === 'Pending' ? 'Extension Requested' : 'Loan Extended',
+        description: extension.status === 'Pending'
+          ? 'The extension is waiting for approval.'
+          : `Now due back ${format(new Date(extension.newDueDate), 'MMM dd, yyyy')}. A new agreement version was issued.`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{target && 'code' in target ? `Extend Loan - ${target.code}` : 'Extend Loan'}</DialogTitle>
+          <DialogDescription>
+            Currently due back {currentDue && format(new Date(currentDue), 'MMM dd, yyyy')}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="extension-date">New Due Date</Label>
+            <Input
+              id="extension-date"
+              type="date"
+              min={currentDue}
+              value={newDueDate}
+              onChange={(e) => setNewDueDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="extension-reason">Reason</Label>
+            <Textarea id="extension-reason" rows={2} value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => extendMutation.mutate()}
+              disabled={!newDueDate || newDueDate <= currentDue || !reason.trim() || extendMutation.isPending}
+            >
+              {extendMutation.isPending ? 'Extending...' : 'Extend'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { LoanExtensionEntry } from '@shared/schema';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface LoanExtensionHistoryProps {
+  // /api/loans/:id/extensions or /api/loan-groups/:id/extensions
+  url: string;
+}
+
+const statusClasses: Record<string, string> = {
+  Pending: 'bg-yellow-100 text-yellow-800',
+  Approved: 'bg-green-100 text-green-800',
+  Rejected: 'bg-red-100 text-red-800',
+};
+
+export function ExtensionStatusBadge({ status }: { status: string }) {
+  return (
+    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusClasses[status] ?? 'bg-gray-100 text-gray-800'}`}>
+      {status}
+    </span>
+  );
+}
+
+// Every due date change asked for on a loan, oldest first, and the agreement version each one issued
+export default function LoanExtensionHistory({ url }: LoanExtensionHistoryProps) {
+  const { data: extensions = [], isLoading } = useQuery<LoanExtensionEntry[]>({
+    queryKey: [url],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <div className="h-4 w-full bg-gray-200 animate-pulse rounded"></div>;
+  }
+  if (extensions.length === 0) {
+    return <p className="text-sm text-gray-500 italic">This loan has not been extended</p>;
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Requested</TableHead>
+            <TableHead>Due Date</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Agreement</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {extensions.map((extension) => (
+            <TableRow key={extension.id}>
+              <TableCell>
+                {format(new Date(extension.requestedAt), 'MMM dd, yyyy')}
+                <span className="block text-xs text-gray-500">{extension.requestedByName}</span>
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {format(new Date(extension.previousDueDate), 'MMM dd')} → {format(new Date(extension.newDueDate), 'MMM dd, yyyy')}
+              </TableCell>
+              <TableCell className="text-sm text-gray-600">{extension.reason}</TableCell>
+              <TableCell>
+                <ExtensionStatusBadge status={extension.status} />
+                {extension.decidedByName && extension.decidedBy !== extension.requestedBy && (
+                  <span className="block text-xs text-gray-500">by {extension.decidedByName}</span>
+                )}
+                {extension.decisionNote && <span className="block text-xs text-gray-500">{extension.decisionNote}</span>}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{extension.documentId || '—'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { format, addDays } from 'date-fns';
 import { CalendarIcon, ArrowLeft, Save } from 'lucide-react';
@@ -34,6 +34,9 @@ import {
 } from '@/components/ui/popover';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AssetUnitDetails, BorrowerSummary, LoanRuleViolation } from '@shared/schema';
+import BorrowerPicker from './BorrowerPicker';
+import LoanRuleViolations from './LoanRuleViolations';
 
 // Loan form schema
 const loanSchema = z.object({
@@ -45,6 +48,10 @@ const loanSchema = z.object({
     required_error: "Quantity is required",
     invalid_type_error: "Quantity must be a number",
   }).min(1, "Quantity must be at least 1"),
+  // Serialized items only; left empty the server lends the next available unit
+  unitId: z.number().optional(),
+  // Picked from the borrower registry; otherwise the server finds or registers the borrower by name
+  borrowerId: z.number().optional(),
   borrowerName: z.string().min(1, "Borrower name is required"),
   borrowerType: z.string().min(1, "Borrower type is required"),
   borrowerContact: z.string().nullish().or(z.literal('')),
@@ -64,6 +71,8 @@ const loanSchema = z.object({
   path: ["expectedReturnDate"],
 });
 
+const borrowerTypes = ['Staff', 'Member', 'Other Organization', 'Other'];
+
 interface LoanFormProps {
   preselectedItemId?: number;
 }
@@ -72,6 +81,8 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  // Lending rules the last attempt broke
+  const [violations, setViolations] = useState<LoanRuleViolation[]>([]);
   
   // Fetch available inventory items
   const { data: items, isLoading: itemsLoading } = useQuery({
@@ -110,10 +121,19 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
     }
   }, [preselectedItemId, form]);
   
+  // A registered borrower's type comes from the registry
+  const selectBorrower = (borrower: BorrowerSummary) => {
+    form.setValue('borrowerId', borrower.id);
+    form.setValue('borrowerName', borrower.name, { shouldValidate: true });
+    form.setValue('borrowerType', borrower.borrowerType);
+    form.setValue('borrowerContact', [borrower.phone, borrower.email].filter(Boolean).join(', '));
+  };
+  
   // Create loan mutation
   const createLoan = useMutation({
-    mutationFn: async (data: z.infer<typeof loanSchema>) => {
+    mutationFn: async (data: z.infer<typeof loanSchema> & { override?: { reason: string } }) => {
       try {
+        setViolations([]);
         console.log('Submitting loan data:', data); // Debug the submitted data
         const response = await apiRequest('POST', '/api/loans', data);
         const result = await response.json();
@@ -128,6 +148,7 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/loans'] });
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/borrowers'] });
       
       toast({
         title: 'Loan Processed',
@@ -137,6 +158,11 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
       navigate('/loans');
     },
     onError: (error: any) => {
+      const { body } = parseApiError(error);
+      if (body?.violations) {
+        setViolations(body.violations);
+        return;
+      }
       const errorMessage = error?.message || 'Failed to process the loan. Please try again.';
       toast({
         title: 'Error',
@@ -153,6 +179,14 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
   
   const selectedItem = form.watch('itemId') ? getItemById(form.watch('itemId')) : null;
   
+  // Units of a serialized item that can go out on this loan
+  const { data: units = [] } = useQuery<AssetUnitDetails[]>({
+    queryKey: [`/api/inventory/${selectedItem?.id}/units`],
+    enabled: !!selectedItem?.serialized,
+    staleTime: 0,
+  });
+  const availableUnits = units.filter((unit) => unit.status === 'Available');
+  
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
@@ -179,7 +213,11 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
                 <FormItem>
                   <FormLabel>Item *</FormLabel>
                   <Select
-                    onValueChange={(value) => field.onChange(parseInt(value))}
+                    onValueChange={(value) => {
+                      field.onChange(parseInt(value));
+                      form.setValue('quantityLoaned', 1);
+                      form.setValue('unitId', undefined);
+                    }}
                     defaultValue={field.value?.toString()}
                     value={field.value?.toString()}
                   >
@@ -213,31 +251,65 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
               )}
             />
             
-            <FormField
-              control={form.control}
-              name="quantityLoaned"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Quantity to Loan *</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      min="1"
-                      max={selectedItem?.quantityAvailable || 999}
-                      placeholder="Enter quantity"
-                      {...field}
-                      onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
-                    />
-                  </FormControl>
-                  {selectedItem && (
+            {selectedItem?.serialized ? (
+              <FormField
+                control={form.control}
+                name="unitId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === 'next' ? undefined : parseInt(value))}
+                      value={field.value?.toString() ?? 'next'}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="next">Next available unit</SelectItem>
+                        {availableUnits.map((unit) => (
+                          <SelectItem key={unit.id} value={unit.id.toString()}>
+                            {unit.serialNumber} - {unit.condition}{unit.location ? ` - ${unit.location}` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <FormDescription>
-                      Available: {selectedItem.quantityAvailable || 0} units
+                      This item is tracked by serial number; one unit goes out per loan
                     </FormDescription>
-                  )}
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="quantityLoaned"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity to Loan *</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        max={selectedItem?.quantityAvailable || 999}
+                        placeholder="Enter quantity"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                      />
+                    </FormControl>
+                    {selectedItem && (
+                      <FormDescription>
+                        Available: {selectedItem.quantityAvailable || 0} units
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
@@ -247,7 +319,16 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
                   <FormItem>
                     <FormLabel>Borrower Name *</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter borrower's name" {...field} />
+                      <BorrowerPicker
+                        placeholder="Search or enter borrower's name"
+                        value={field.value}
+                        borrowerId={form.watch('borrowerId')}
+                        onChange={(name) => {
+                          field.onChange(name);
+                          form.setValue('borrowerId', undefined);
+                        }}
+                        onSelect={selectBorrower}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -262,7 +343,8 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
                     <FormLabel>Borrower Type *</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
+                      disabled={!!form.watch('borrowerId')}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -270,6 +352,7 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
+                        {field.value && !borrowerTypes.includes(field.value) && <SelectItem value={field.value}>{field.value}</SelectItem>}
                         <SelectItem value="Staff">Staff</SelectItem>
                         <SelectItem value="Member">Member</SelectItem>
                         <SelectItem value="Other Organization">Other Organization</SelectItem>
@@ -392,6 +475,12 @@ export default function LoanForm({ preselectedItemId }: LoanFormProps) {
               )}
             />
             
+            <LoanRuleViolations
+              violations={violations}
+              pending={createLoan.isPending}
+              onOverride={(reason) => form.handleSubmit((values) => createLoan.mutate({ ...values, override: { reason } }))()}
+            />
+            
             <div className="flex justify-end space-x-2">
               <Button
                 type="button"
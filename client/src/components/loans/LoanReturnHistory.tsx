@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { LoanReturn, LoanReturnEntry } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+const conditionClasses: Record<string, string> = {
+  Good: 'bg-green-100 text-green-800',
+  Worn: 'bg-yellow-100 text-yellow-800',
+  Damaged: 'bg-orange-100 text-orange-800',
+  Missing: 'bg-red-100 text-red-800',
+};
+
+export function ConditionBadge({ condition }: { condition: string }) {
+  return (
+    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${conditionClasses[condition] ?? 'bg-gray-100 text-gray-800'}`}>
+      {condition}
+    </span>
+  );
+}
+
+// Units back Damaged or Missing stay unresolved until settled with the borrower
+export function needsResolving(entry: LoanReturn): boolean {
+  return (entry.condition === 'Damaged' || entry.condition === 'Missing') && !entry.resolvedAt;
+}
+
+interface LoanReturnHistoryProps {
+  // /api/loans/:id/returns or /api/loan-groups/:id/returns
+  url: string;
+}
+
+// Every check-in recorded against a loan, oldest first, with the condition units came back in
+export default function LoanReturnHistory({ url }: LoanReturnHistoryProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [resolving, setResolving] = useState<LoanReturnEntry | null>(null);
+  const [note, setNote] = useState('');
+  const { data: returns = [], isLoading } = useQuery<LoanReturnEntry[]>({
+    queryKey: [url],
+    // Returns are recorded from several screens
+    staleTime: 0,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ entry, note }: { entry: LoanReturnEntry; note: string }) =>
+      apiRequest('PUT', `/api/loan-returns/${entry.id}/resolve`, { note }),
+    onSuccess: () => {
+      toast({ title: 'Success', description: 'Return resolved' });
+      queryClient.invalidateQueries({ queryKey: [url] });
+      queryClient.invalidateQueries({ queryKey: ['/api/borrower-history'] });
+      setResolving(null);
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="h-4 w-full bg-gray-200 animate-pulse rounded"></div>;
+  }
+  if (returns.length === 0) {
+    return <p className="text-sm text-gray-500 italic">Nothing has been returned yet</p>;
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-right">Quantity</TableHead>
+            <TableHead>Condition</TableHead>
+            <TableHead>Received By</TableHead>
+            <TableHead>Notes</TableHead>
+            <TableHead>Photos</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {returns.map((entry) => (
+            <TableRow key={entry.id}>
+              <TableCell>{format(new Date(entry.returnedAt), 'MMM dd, yyyy')}</TableCell>
+              <TableCell>{entry.itemName}</TableCell>
+              <TableCell className="text-right">{entry.quantity}</TableCell>
+              <TableCell>
+                <ConditionBadge condition={entry.condition} />
+                {entry.resolvedAt && (
+                  <p className="mt-1 text-xs text-gray-500" title={entry.resolutionNote ?? undefined}>
+                    Resolved {format(new Date(entry.resolvedAt), 'MMM dd, yyyy')}: {entry.resolutionNote}
+                  </p>
+                )}
+                {needsResolving(entry) && can('loans:return') && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 block text-xs"
+                    onClick={() => {
+                      setNote('');
+                      setResolving(entry);
+                    }}
+                  >
+                    Resolve
+                  </Button>
+                )}
+              </TableCell>
+              <TableCell>{entry.receivedByName}</TableCell>
+              <TableCell className="text-sm text-gray-600">{entry.notes || '—'}</TableCell>
+              <TableCell>
+                {entry.photos.length === 0 ? '—' : (
+                  <div className="flex gap-1">
+                    {entry.photos.map((photo) => (
+                      <a key={photo} href={photo} target="_blank" rel="noreferrer">
+                        <img src={photo} alt="" className="h-8 w-8 object-cover rounded border" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={resolving !== null} onOpenChange={(isOpen) => !isOpen && setResolving(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Resolve {resolving?.condition} Return</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {resolving?.quantity} unit(s) of {resolving?.itemName}. Once resolved, the return no longer keeps the
+              borrower from borrowing.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="resolution-note">How was it settled?</Label>
+              <Textarea
+                id="resolution-note"
+                rows={2}
+                placeholder="e.g. Borrower paid for the repair"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setResolving(null)}>
+                Cancel
+              </Button>
+              <Button
+                disabled={!note.trim() || resolveMutation.isPending}
+                onClick={() => resolveMutation.mutate({ entry: resolving!, note: note.trim() })}
+              >
+                {resolveMutation.isPending ? 'Saving...' : 'Resolve'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import type { LoanRuleViolation } from '@shared/schema';
+import { useAuth } from '@/hooks/useAuth';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface LoanRuleViolationsProps {
+  violations: LoanRuleViolation[];
+  pending: boolean;
+  // Submits the loan again with the override reason
+  onOverride: (reason: string) => void;
+}
+
+// The lending rules a refused loan broke. Administrators can lend anyway, giving a reason that is
+// logged with the loan.
+export default function LoanRuleViolations({ violations, pending, onOverride }: LoanRuleViolationsProps) {
+  const { can } = useAuth();
+  const [reason, setReason] = useState('');
+
+  if (violations.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>This loan breaks the lending rules</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="list-disc pl-5 space-y-1">
+          {violations.map((violation) => (
+            <li key={`${violation.rule}-${violation.message}`}>{violation.message}</li>
+          ))}
+        </ul>
+        {can('loans:override') ? (
+          <div className="space-y-2">
+            <Label htmlFor="override-reason">Reason for overriding</Label>
+            <Textarea
+              id="override-reason"
+              rows={2}
+              placeholder="Why this loan should go ahead anyway"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant="destructive"
+                disabled={!reason.trim() || pending}
+                onClick={() => onOverride(reason.trim())}
+              >
+                {pending ? 'Processing...' : 'Override and Lend'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p>Only an administrator can lend despite these rules.</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,37 @@
+import { differenceInCalendarDays } from 'date-fns';
+
+const statusBadgeClass: Record<string, string> = {
+  Returned: 'bg-green-100 text-green-800',
+  Overdue: 'bg-red-100 text-red-800',
+  Ongoing: 'bg-amber-100 text-amber-800',
+  'Partially Returned': 'bg-blue-100 text-blue-800',
+};
+
+// The server keeps Ongoing, Overdue and Returned; an ongoing loan with some units back shows as
+// Partially Returned. Overdue wins so late loans stay visible.
+export function withPartialReturns(status: string, lines: { quantityReturned: number }[]): string {
+  return status === 'Ongoing' && lines.some((line) => line.quantityReturned > 0) ? 'Partially Returned' : status;
+}
+
+interface LoanStatusBadgeProps {
+  status: string;
+  expectedReturnDate?: string | Date | null;
+}
+
+// The status of a loan or loan group; overdue loans also say how late they are
+export default function LoanStatusBadge({ status, expectedReturnDate }: LoanStatusBadgeProps) {
+  const daysLate = status === 'Overdue' && expectedReturnDate
+    ? differenceInCalendarDays(new Date(), new Date(expectedReturnDate))
+    : 0;
+
+  return (
+    <span className="inline-flex flex-col items-start">
+      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusBadgeClass[status] ?? 'bg-gray-100 text-gray-800'}`}>
+        {status}
+      </span>
+      {daysLate > 0 && (
+        <span className="text-xs text-red-600 mt-0.5">{daysLate} day{daysLate === 1 ? '' : 's'} late</span>
+      )}
+    </span>
+  );
+}
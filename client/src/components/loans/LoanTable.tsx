@@ -1,9 +1,7 @@
-import { useLocation } from 'wouter';
-import { format, isAfter, parseISO } from 'date-fns';
-import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
-import { useToast } from '@/hooks/use-toast';
-import { Eye } from 'lucide-react';
+import { Link, useLocation } from 'wouter';
+import { format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, Eye } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -23,9 +21,9 @@ import {
   PaginationPrevious,
 } from '@/components/ui/pagination';
 import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
 import {
   AlertDialog,
-  AlertDialogAction,
   AlertDialogCancel,
   AlertDialogContent,
   AlertDialogDescription,
@@ -34,6 +32,12 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import LoanStatusBadge, { withPartialReturns } from './LoanStatusBadge';
+import LoanReturnHistory from './LoanReturnHistory';
+import BorrowerHistory from './BorrowerHistory';
+import ReturnLoanDialog from './ReturnLoanDialog';
+import ExtendLoanDialog from './ExtendLoanDialog';
+import LoanExtensionHistory from './LoanExtensionHistory';
 
 interface LoanTableProps {
   loans: any[];
@@ -42,11 +46,12 @@ interface LoanTableProps {
 
 export default function LoanTable({ loans, isLoading }: LoanTableProps) {
   const [, navigate] = useLocation();
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const { can } = useAuth();
   const [returnLoanId, setReturnLoanId] = useState<number | null>(null);
+  const [extendLoanId, setExtendLoanId] = useState<number | null>(null);
   const [viewLoanId, setViewLoanId] = useState<number | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const [overdueOnly, setOverdueOnly] = useState(false);
   const itemsPerPage = 10;
   
   // Fetch inventory items to display names
@@ -54,45 +59,17 @@ export default function LoanTable({ loans, isLoading }: LoanTableProps) {
     queryKey: ['/api/inventory'],
   });
   
+  // Overdue loans are flagged by the server once their expected return date has passed
+  const overdueCount = loans?.filter((loan) => loan.status === 'Overdue').length || 0;
+  const shownLoans = overdueOnly && overdueCount > 0 ? loans.filter((loan) => loan.status === 'Overdue') : loans;
+  
   // Calculate pagination
-  const totalPages = Math.ceil((loans?.length || 0) / itemsPerPage);
+  const totalPages = Math.ceil((shownLoans?.length || 0) / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedLoans = loans?.slice(startIndex, startIndex + itemsPerPage) || [];
-  
-  // Return loan mutation
-  const returnLoan = useMutation({
-    mutationFn: async (id: number) => {
-      const response = await apiRequest('PUT', `/api/loans/${id}/return`, {
-        actualReturnDate: new Date()
-      });
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/loans'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
-      
-      toast({
-        title: 'Item Returned',
-        description: 'The loan has been marked as returned and the item is now available.',
-      });
-      
-      setReturnLoanId(null);
-    },
-    onError: (error) => {
-      toast({
-        title: 'Error',
-        description: 'Failed to return the item. Please try again.',
-        variant: 'destructive',
-      });
-      console.error('Error returning item:', error);
-    },
-  });
+  const paginatedLoans = shownLoans?.slice(startIndex, startIndex + itemsPerPage) || [];
   
-  // Handle return loan
-  const handleReturnLoan = (id: number) => {
-    returnLoan.mutate(id);
-  };
+  const returnLoan = loans?.find((loan) => loan.id === returnLoanId);
+  const extendLoan = loans?.find((loan) => loan.id === extendLoanId);
   
   // Get item name from inventory
   const getItemName = (itemId: number) => {
@@ -101,45 +78,23 @@ export default function LoanTable({ loans, isLoading }: LoanTableProps) {
     return item ? `${item.itemId} - ${item.name}` : `Item #${itemId}`;
   };
   
-  // Get status with overdue check
-  const getLoanStatus = (loan: any) => {
-    if (!loan || !loan.expectedReturnDate) {
-      return 'Unknown';
-    }
-    
-    if (loan.status === 'Returned') {
-      return 'Returned';
-    }
-    
-    // Check if overdue
-    const today = new Date();
-    // Handle both string and Date objects
-    const expectedReturn = typeof loan.expectedReturnDate === 'string' ? 
-      parseISO(loan.expectedReturnDate) : new Date(loan.expectedReturnDate);
-    
-    if (isAfter(today, expectedReturn)) {
-      return 'Overdue';
-    }
-    
-    return 'Ongoing';
-  };
-  
-  // Get status badge class
-  const getStatusBadgeClass = (status: string) => {
-    switch (status) {
-      case 'Returned':
-        return 'bg-green-100 text-green-800';
-      case 'Overdue':
-        return 'bg-red-100 text-red-800';
-      case 'Ongoing':
-        return 'bg-amber-100 text-amber-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-  
   return (
     <div>
+      {overdueCount > 0 && (
+        <div className="flex justify-end mb-2">
+          <Button
+            variant={overdueOnly ? 'destructive' : 'outline'}
+            size="sm"
+            onClick={() => {
+              setOverdueOnly(!overdueOnly);
+              setCurrentPage(1);
+            }}
+          >
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            {overdueOnly ? 'Show all loans' : `Overdue only (${overdueCount})`}
+          </Button>
+        </div>
+      )}
       <div className="rounded-md border">
         <Table>
           <TableHeader>
@@ -180,7 +135,6 @@ export default function LoanTable({ loans, isLoading }: LoanTableProps) {
               ))
             ) : loans && loans.length > 0 ? (
               paginatedLoans.map((loan) => {
-                const status = getLoanStatus(loan);
                 return (
                   <TableRow key={loan.id}>
                     <TableCell className="font-medium">
@@ -199,9 +153,10 @@ export default function LoanTable({ loans, isLoading }: LoanTableProps) {
                       {loan.expectedReturnDate ? format(new Date(loan.expectedReturnDate), 'MMM dd, yyyy') : '—'}
                     </TableCell>
                     <TableCell>
-                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(status)}`}>
-                        {status}
-                      </span>
+                      <LoanStatusBadge status={withPartialReturns(loan.status, [loan])} expectedReturnDate={loan.expectedReturnDate} />
+                      {loan.status !== 'Returned' && loan.quantityReturned > 0 && (
+                        <p className="text-xs text-gray-500 mt-0.5">{loan.quantityReturned} of {loan.quantityLoaned} returned</p>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end space-x-2">
@@ -229,12 +184,17 @@ export default function LoanTable({ loans, isLoading }: LoanTableProps) {
                                       </p>
                                       <p className="text-sm text-gray-600">
                                         Quantity: {loan.quantityLoaned || 1}
+                                        {loan.quantityReturned > 0 && ` (${loan.quantityReturned} returned)`}
                                       </p>
                                     </div>
                                     <div>
                                       <h4 className="font-semibold text-gray-900">Borrower Information</h4>
                                       <p className="text-sm text-gray-600">
-                                        Name: {loan.borrowerName || 'Unknown'}
+                                        Name: {loan.borrowerId ? (
+                                          <Link href={`/borrowers/view/${loan.borrowerId}`} className="text-primary hover:underline">
+                                            {loan.borrowerName}
+                                          </Link>
+                                        ) : loan.borrowerName || 'Unknown'}
                                       </p>
                                       <p className="text-sm text-gray-600">
                                         Type: {loan.borrowerType || 'Individual'}
@@ -255,12 +215,15 @@ export default function LoanTable({ loans, isLoading }: LoanTableProps) {
                                       <p className="text-sm text-gray-600">
                                         Expected Return: {loan.expectedReturnDate ? format(new Date(loan.expectedReturnDate), 'MMM dd, yyyy') : '—'}
                                       </p>
+                                      {loan.originalExpectedReturnDate && (
+                                        <p className="text-sm text-gray-600">
+                                          Originally Due: {format(new Date(loan.originalExpectedReturnDate), 'MMM dd, yyyy')}
+                                        </p>
+                                      )}
                                     </div>
                                     <div>
                                       <h4 className="font-semibold text-gray-900">Status</h4>
-                                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(status)}`}>
-                                        {status}
-                                      </span>
+                                      <LoanStatusBadge status={withPartialReturns(loan.status, [loan])} expectedReturnDate={loan.expectedReturnDate} />
                                     </div>
                                   </div>
                                   {loan.notes && (
@@ -269,6 +232,20 @@ export default function LoanTable({ loans, isLoading }: LoanTableProps) {
                                       <p className="text-sm text-gray-600">{loan.notes}</p>
                                     </div>
                                   )}
+                                  <div>
+                                    <h4 className="font-semibold text-gray-900 mb-2">Returns</h4>
+                                    <LoanReturnHistory url={`/api/loans/${loan.id}/returns`} />
+                                  </div>
+                                  <div>
+                                    <h4 className="font-semibold text-gray-900 mb-2">Extensions</h4>
+                                    <LoanExtensionHistory url={`/api/loans/${loan.id}/extensions`} />
+                                  </div>
+                                  {loan.borrowerName && (
+                                    <div>
+                                      <h4 className="font-semibold text-gray-900 mb-2">Borrower History</h4>
+                                      <BorrowerHistory borrowerId={loan.borrowerId} borrowerName={loan.borrowerName} excludeLoanIds={[loan.id]} />
+                                    </div>
+                                  )}
                                 </div>
                               </AlertDialogDescription>
                             </AlertDialogHeader>
@@ -278,35 +255,25 @@ export default function LoanTable({ loans, isLoading }: LoanTableProps) {
                           </AlertDialogContent>
                         </AlertDialog>
                         
-                        {loan.status !== 'Returned' ? (
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button 
-                                variant="outline" 
-                                size="sm" 
-                                className="text-green-600 hover:text-green-700"
-                              >
-                                Return Item
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Return Item</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to mark this item as returned? This will update the inventory status to available.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction 
-                                  onClick={() => handleReturnLoan(loan.id)}
-                                  className="bg-green-600 hover:bg-green-700"
-                                >
-                                  Return Item
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                        {loan.status !== 'Returned' && loan.loanGroupId === null && loan.expectedReturnDate && can('loans:write') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setExtendLoanId(loan.id)}
+                          >
+                            Extend
+                          </Button>
+                        )}
+                        
+                        {loan.status !== 'Returned' ? can('loans:return') && (
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            className="text-green-600 hover:text-green-700"
+                            onClick={() => setReturnLoanId(loan.id)}
+                          >
+                            Return Item
+                          </Button>
                         ) : (
                           <Button 
                             variant="outline" 
@@ -384,6 +351,21 @@ export default function LoanTable({ loans, isLoading }: LoanTableProps) {
           </p>
         </div>
       )}
+      
+      <ReturnLoanDialog
+        target={returnLoan ? { loanId: returnLoan.id } : null}
+        lines={returnLoan ? [{
+          loanId: returnLoan.id,
+          label: returnLoan.itemName || getItemName(returnLoan.itemId),
+          quantityLoaned: returnLoan.quantityLoaned || 1,
+          quantityReturned: returnLoan.quantityReturned || 0,
+        }] : []}
+        onClose={() => setReturnLoanId(null)}
+      />
+      <ExtendLoanDialog
+        target={extendLoan ? { loanId: extendLoan.id, dueDate: extendLoan.expectedReturnDate } : null}
+        onClose={() => setExtendLoanId(null)}
+      />
     </div>
   );
 }
@@ -44,8 +44,15 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import ScanInput, { lookupScannedCode, type ScanFeedback } from './ScanInput';
+import UnitChecklist from '@/components/inventory/UnitChecklist';
+import BorrowerPicker from './BorrowerPicker';
+import LoanRuleViolations from './LoanRuleViolations';
+import type { BorrowerSummary, LoanRuleViolation } from '@shared/schema';
+
+const borrowerTypes = ['Staff', 'Member', 'Other Organization', 'Other'];
 
 interface MultiItemLoanFormProps {
   preselectedItemId?: number;
@@ -57,6 +64,9 @@ interface SelectedItem {
   maxQuantity: number;
   name: string;
   itemId: string;
+  serialized: boolean;
+  // Units of a serialized item picked by serial number; the server picks any others
+  unitIds: number[];
 }
 
 export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFormProps) {
@@ -64,15 +74,20 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
   const [, navigate] = useLocation();
   const [selectedItems, setSelectedItems] = useState<SelectedItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  // Lending rules the last attempt broke
+  const [violations, setViolations] = useState<LoanRuleViolation[]>([]);
 
   // Form schema
   const loanGroupSchema = z.object({
     items: z.array(z.object({
       id: z.number(),
-      quantity: z.number().min(1, "Quantity must be at least 1")
+      quantity: z.number().min(1, "Quantity must be at least 1"),
+      unitIds: z.array(z.number()).optional()
     })).min(1, {
       message: "Please select at least one item",
     }),
+    // Picked from the borrower registry; otherwise the server finds or registers the borrower by name
+    borrowerId: z.number().optional(),
     borrowerName: z.string().min(2, {
       message: "Borrower name must be at least 2 characters.",
     }),
@@ -131,7 +146,9 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
           quantity: 1,
           maxQuantity: preselectedItem.quantityAvailable,
           name: preselectedItem.name,
-          itemId: preselectedItem.itemId
+          itemId: preselectedItem.itemId,
+          serialized: preselectedItem.serialized,
+          unitIds: []
         };
         setSelectedItems([selectedItem]);
         form.setValue('items', [{ id: preselectedItem.id, quantity: 1 }]);
@@ -139,10 +156,19 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
     }
   }, [preselectedItemId, inventoryItems, form]);
   
+  // A registered borrower's type comes from the registry
+  const selectBorrower = (borrower: BorrowerSummary) => {
+    form.setValue('borrowerId', borrower.id);
+    form.setValue('borrowerName', borrower.name, { shouldValidate: true });
+    form.setValue('borrowerType', borrower.borrowerType, { shouldValidate: true });
+    form.setValue('borrowerContact', [borrower.phone, borrower.email].filter(Boolean).join(', '));
+  };
+  
   // Create loan group mutation
   const createLoanGroup = useMutation({
-    mutationFn: async (data: z.infer<typeof loanGroupSchema>) => {
+    mutationFn: async (data: z.infer<typeof loanGroupSchema> & { override?: { reason: string } }) => {
       try {
+        setViolations([]);
         console.log('Submitting loan group data:', data);
         const response = await apiRequest('POST', '/api/loan-groups', data);
         const result = await response.json();
@@ -158,6 +184,7 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
       queryClient.invalidateQueries({ queryKey: ['/api/loans'] });
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/borrowers'] });
       
       toast({
         title: 'Loan Processed',
@@ -167,6 +194,11 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
       navigate('/loans');
     },
     onError: (error: any) => {
+      const { body } = parseApiError(error);
+      if (body?.violations) {
+        setViolations(body.violations);
+        return;
+      }
       const errorMessage = error?.message || 'Failed to process the loan. Please try again.';
       toast({
         title: 'Error',
@@ -177,14 +209,15 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
     },
   });
 
-  const onSubmit = (values: z.infer<typeof loanGroupSchema>) => {
+  const onSubmit = (values: z.infer<typeof loanGroupSchema>, override?: { reason: string }) => {
     // Transform selectedItems to the expected format
     const itemsForSubmission = selectedItems.map(item => ({
       id: item.id,
-      quantity: item.quantity
+      quantity: item.quantity,
+      ...(item.unitIds.length > 0 && { unitIds: item.unitIds })
     }));
     values.items = itemsForSubmission;
-    createLoanGroup.mutate(values);
+    createLoanGroup.mutate({ ...values, override });
   };
 
   const toggleItemSelection = (item: any) => {
@@ -202,7 +235,9 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
         quantity: 1,
         maxQuantity: item.quantityAvailable,
         name: item.name,
-        itemId: item.itemId
+        itemId: item.itemId,
+        serialized: item.serialized,
+        unitIds: []
       };
       const updatedItems = [...selectedItems, selectedItem];
       setSelectedItems(updatedItems);
@@ -212,12 +247,50 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
 
   const updateItemQuantity = (itemId: number, newQuantity: number) => {
     const updatedItems = selectedItems.map(item => 
-      item.id === itemId ? { ...item, quantity: Math.max(1, Math.min(newQuantity, item.maxQuantity)) } : item
+      item.id === itemId ? { ...item, quantity: Math.max(1, item.unitIds.length, Math.min(newQuantity, item.maxQuantity)) } : item
+    );
+    setSelectedItems(updatedItems);
+    form.setValue('items', updatedItems.map(item => ({ id: item.id, quantity: item.quantity })));
+  };
+
+  // Picking units sets the quantity to match
+  const updateItemUnits = (itemId: number, unitIds: number[]) => {
+    const updatedItems = selectedItems.map(item =>
+      item.id === itemId ? { ...item, unitIds, quantity: Math.max(1, unitIds.length) } : item
     );
     setSelectedItems(updatedItems);
     form.setValue('items', updatedItems.map(item => ({ id: item.id, quantity: item.quantity })));
   };
 
+  // A scan adds the item, or one more unit when it is already on the loan
+  const handleScan = async (code: string): Promise<ScanFeedback> => {
+    const result = await lookupScannedCode(code);
+    if ('tone' in result) return result;
+    
+    const { item } = result;
+    const existing = selectedItems.find((selected) => selected.id === item.id);
+    const quantity = (existing?.quantity ?? 0) + 1;
+    if (item.quantityAvailable <= 0) {
+      return { tone: 'error', message: `${item.itemId} ${item.name} is not available (${item.status})` };
+    }
+    if (quantity > item.quantityAvailable) {
+      return { tone: 'warning', message: `All ${item.quantityAvailable} available unit(s) of ${item.itemId} ${item.name} are already on this loan` };
+    }
+    
+    const updatedItems = existing
+      ? selectedItems.map((selected) =>
+          selected.id === item.id ? { ...selected, quantity, maxQuantity: item.quantityAvailable } : selected)
+      : [...selectedItems, { id: item.id, quantity, maxQuantity: item.quantityAvailable, name: item.name, itemId: item.itemId, serialized: item.serialized, unitIds: [] }];
+    setSelectedItems(updatedItems);
+    form.setValue('items', updatedItems.map((selected) => ({ id: selected.id, quantity: selected.quantity })));
+    return {
+      tone: 'success',
+      message: existing
+        ? `${item.itemId} ${item.name}: ${quantity} of ${item.quantityAvailable} available`
+        : `Added ${item.itemId} ${item.name}`,
+    };
+  };
+
   const isItemSelected = (itemId: number) => {
     return selectedItems.some(item => item.id === itemId);
   };
@@ -240,7 +313,7 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
       </CardHeader>
       <CardContent>
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <form onSubmit={form.handleSubmit((values) => onSubmit(values))} className="space-y-6">
             {/* Item Selection Table */}
             <FormField
               control={form.control}
@@ -251,6 +324,11 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
                   <FormControl>
                     <Card className="border border-slate-200">
                       <CardContent className="p-4">
+                        {/* Barcode scanner or camera; repeat scans add units */}
+                        <div className="mb-4">
+                          <ScanInput onScan={handleScan} />
+                        </div>
+                        
                         {/* Search Bar */}
                         <div className="relative mb-4">
                           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
@@ -384,25 +462,40 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
                               <div className="text-sm font-medium text-gray-700">Selected Items:</div>
                               <div className="space-y-1">
                                 {selectedItems.map((item) => (
-                                  <div key={item.id} className="flex items-center justify-between bg-white p-2 rounded border">
-                                    <div className="flex items-center">
-                                      <span className="font-mono text-xs text-gray-500 mr-2">{item.itemId}</span>
-                                      <span className="font-medium">{item.name}</span>
-                                    </div>
-                                    <div className="flex items-center space-x-2">
-                                      <span className="text-sm text-gray-600">
-                                        {item.quantity} / {item.maxQuantity}
-                                      </span>
-                                      <Button
-                                        type="button"
-                                        variant="ghost"
-                                        size="sm"
-                                        className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
-                                        onClick={() => toggleItemSelection({ id: item.id })}
-                                      >
-                                        <Trash className="h-3 w-3" />
-                                      </Button>
+                                  <div key={item.id} className="bg-white p-2 rounded border">
+                                    <div className="flex items-center justify-between">
+                                      <div className="flex items-center">
+                                        <span className="font-mono text-xs text-gray-500 mr-2">{item.itemId}</span>
+                                        <span className="font-medium">{item.name}</span>
+                                      </div>
+                                      <div className="flex items-center space-x-2">
+                                        <span className="text-sm text-gray-600">
+                                          {item.quantity} / {item.maxQuantity}
+                                        </span>
+                                        <Button
+                                          type="button"
+                                          variant="ghost"
+                                          size="sm"
+                                          className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+                                          onClick={() => toggleItemSelection({ id: item.id })}
+                                        >
+                                          <Trash className="h-3 w-3" />
+                                        </Button>
+                                      </div>
                                     </div>
+                                    {item.serialized && (
+                                      <div className="mt-2 space-y-1">
+                                        <div className="text-xs text-gray-500">
+                                          Pick units by serial number, or leave unticked to lend the next available
+                                        </div>
+                                        <UnitChecklist
+                                          itemId={item.id}
+                                          status="Available"
+                                          selected={item.unitIds}
+                                          onChange={(unitIds) => updateItemUnits(item.id, unitIds)}
+                                        />
+                                      </div>
+                                    )}
                                   </div>
                                 ))}
                               </div>
@@ -425,7 +518,16 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
                   <FormItem>
                     <FormLabel>Borrower Name *</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter borrower's name" {...field} />
+                      <BorrowerPicker
+                        placeholder="Search or enter borrower's name"
+                        value={field.value ?? ''}
+                        borrowerId={form.watch('borrowerId')}
+                        onChange={(name) => {
+                          field.onChange(name);
+                          form.setValue('borrowerId', undefined);
+                        }}
+                        onSelect={selectBorrower}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -440,7 +542,8 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
                     <FormLabel>Borrower Type *</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
+                      disabled={!!form.watch('borrowerId')}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -448,6 +551,7 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
+                        {field.value && !borrowerTypes.includes(field.value) && <SelectItem value={field.value}>{field.value}</SelectItem>}
                         <SelectItem value="Staff">Staff</SelectItem>
                         <SelectItem value="Member">Member</SelectItem>
                         <SelectItem value="Other Organization">Other Organization</SelectItem>
@@ -570,6 +674,12 @@ export default function MultiItemLoanForm({ preselectedItemId }: MultiItemLoanFo
               )}
             />
             
+            <LoanRuleViolations
+              violations={violations}
+              pending={createLoanGroup.isPending}
+              onOverride={(reason) => form.handleSubmit((values) => onSubmit(values, { reason }))()}
+            />
+            
             <div className="flex justify-end space-x-2">
               <Button
                 type="button"
@@ -0,0 +1,106 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Check, X } from 'lucide-react';
+import type { LoanExtensionEntry } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+
+// Extensions waiting for someone with loans:approve; hidden while there are none
+export default function PendingExtensions() {
+  const { toast } = useToast();
+
+  const { data: pending = [] } = useQuery<LoanExtensionEntry[]>({
+    queryKey: ['/api/loan-extensions', { status: 'Pending' }],
+    staleTime: 0,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ extension, approve, note }: { extension: LoanExtensionEntry; approve: boolean; note?: string }) => {
+      return apiRequest('PUT', `/api/loan-extensions/${extension.id}/${approve ? 'approve' : 'reject'}`, { note: note?.trim() || undefined });
+    },
+    onSuccess: (_, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/loan-extensions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/loan-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/loans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      toast({ title: approve ? 'Extension Approved' : 'Extension Rejected' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+    },
+  });
+
+  if (pending.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-yellow-300">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-medium">Extensions Awaiting Approval</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Loan</TableHead>
+                <TableHead>Due Date</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Requested By</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pending.map((extension) => (
+                <TableRow key={extension.id}>
+                  <TableCell>{extension.loanLabel}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(extension.previousDueDate), 'MMM dd')} → {format(new Date(extension.newDueDate), 'MMM dd, yyyy')}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">{extension.reason}</TableCell>
+                  <TableCell>
+                    {extension.requestedByName}
+                    <span className="block text-xs text-gray-500">{format(new Date(extension.requestedAt), 'MMM dd, yyyy')}</span>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-green-600 hover:text-green-700"
+                      disabled={decideMutation.isPending}
+                      onClick={() => decideMutation.mutate({ extension, approve: true })}
+                    >
+                      <Check className="h-4 w-4 mr-1" /> Approve
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      disabled={decideMutation.isPending}
+                      onClick={() => {
+                        const note = prompt('Reason for rejecting (optional)');
+                        if (note !== null) decideMutation.mutate({ extension, approve: false, note });
+                      }}
+                    >
+                      <X className="h-4 w-4 mr-1" /> Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
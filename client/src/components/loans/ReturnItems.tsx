@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useMutation } from '@tanstack/react-query';
+import { format, isBefore, startOfDay } from 'date-fns';
+import { ArrowLeft, PackageCheck, Trash } from 'lucide-react';
+import type { InventoryItem, ScannedLoan } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useRequireAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import ScanInput, { lookupScannedCode, type ScanFeedback } from './ScanInput';
+
+interface QueuedReturn {
+  loan: ScannedLoan;
+  item: InventoryItem;
+  quantity: number; // Units coming back, at most those still out
+}
+
+// Check-in by scanning: each scan finds a loan the item is out on and lists it, then all listed loans
+// are returned together. An item out on several loans is matched to the one due soonest first.
+// Listed loans come back in full unless their quantity is lowered, which records a partial return.
+export default function ReturnItems() {
+  useRequireAuth('loans:return');
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [queue, setQueue] = useState<QueuedReturn[]>([]);
+
+  const handleScan = async (code: string): Promise<ScanFeedback> => {
+    const result = await lookupScannedCode(code);
+    if ('tone' in result) return result;
+
+    const { item, openLoans } = result;
+    if (openLoans.length === 0) {
+      return { tone: 'warning', message: `${item.itemId} ${item.name} is not out on loan` };
+    }
+    const loan = openLoans.find((open) => !queue.some((queued) => queued.loan.id === open.id));
+    if (!loan) {
+      return { tone: 'warning', message: `All ${openLoans.length} open loan(s) of ${item.itemId} ${item.name} are already listed` };
+    }
+
+    const outstanding = loan.quantityLoaned - loan.quantityReturned;
+    setQueue([...queue, { loan, item, quantity: outstanding }]);
+    return {
+      tone: 'success',
+      message: `${item.itemId} ${item.name}: ${outstanding} unit(s) from ${loan.borrowerName ?? 'unknown borrower'}`,
+    };
+  };
+
+  // Loans are returned one by one so a failure only holds back that line
+  const returnLoans = useMutation({
+    mutationFn: async (entries: QueuedReturn[]) => {
+      const failed: { entry: QueuedReturn; message: string }[] = [];
+      for (const entry of entries) {
+        try {
+          await apiRequest('PUT', `/api/loans/${entry.loan.id}/return`, { actualReturnDate: new Date(), quantity: entry.quantity });
+        } catch (error) {
+          failed.push({ entry, message: parseApiError(error).message });
+        }
+      }
+      return { returned: entries.length - failed.length, failed };
+    },
+    onSuccess: ({ returned, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/loan-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/loans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+
+      setQueue(failed.map(({ entry }) => entry));
+      if (returned > 0) {
+        toast({
+          title: 'Items Returned',
+          description: `${returned} loan(s) checked in. Returned units are available again.`,
+        });
+      }
+      if (failed.length > 0) {
+        toast({
+          title: `${failed.length} loan(s) could not be returned`,
+          description: failed.map(({ entry, message }) => `${entry.item.itemId}: ${message}`).join('\n'),
+          variant: 'destructive',
+        });
+      }
+    },
+  });
+
+  const today = startOfDay(new Date());
+
+  return (
+    <Card>
+      <CardHeader>
+        <Button variant="ghost" size="sm" onClick={() => navigate('/loans')} className="mb-2 self-start">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Loans
+        </Button>
+        <CardTitle>Return Items</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ScanInput onScan={handleScan} />
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Borrower</TableHead>
+                <TableHead>Loan</TableHead>
+                <TableHead className="text-center">Quantity</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                    Scan the items being returned
+                  </TableCell>
+                </TableRow>
+              ) : (
+                queue.map(({ loan, item, quantity }) => {
+                  const due = loan.expectedReturnDate ? new Date(loan.expectedReturnDate) : null;
+                  return (
+                    <TableRow key={loan.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.name}</div>
+                        <div className="font-mono text-xs text-gray-500">{item.itemId}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{loan.borrowerName ?? 'Unknown'}</div>
+                        {loan.borrowerType && <div className="text-xs text-gray-500">{loan.borrowerType}</div>}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{loan.loanGroupCode ?? `Loan #${loan.id}`}</TableCell>
+                      <TableCell className="text-center">
+                        {loan.quantityLoaned - loan.quantityReturned > 1 ? (
+                          <Input
+                            type="number"
+                            min={1}
+                            max={loan.quantityLoaned - loan.quantityReturned}
+                            value={quantity}
+                            className="w-20 mx-auto"
+                            onChange={(e) => setQueue(queue.map((queued) =>
+                              queued.loan.id === loan.id ? { ...queued, quantity: parseInt(e.target.value) || 0 } : queued
+                            ))}
+                          />
+                        ) : quantity}
+                        {loan.quantityReturned > 0 && (
+                          <div className="text-xs text-gray-500">{loan.quantityReturned} of {loan.quantityLoaned} already back</div>
+                        )}
+                      </TableCell>
+                      <TableCell className={due && isBefore(due, today) ? 'text-red-600 font-medium' : ''}>
+                        {due ? format(due, 'MMM dd, yyyy') : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                          onClick={() => setQueue(queue.filter((queued) => queued.loan.id !== loan.id))}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={() => setQueue([])} disabled={queue.length === 0}>
+            Clear
+          </Button>
+          <Button onClick={() => returnLoans.mutate(queue)} disabled={queue.length === 0 || returnLoans.isPending || queue.some(({ quantity }) => quantity < 1)}>
+            <PackageCheck className="h-4 w-4 mr-2" />
+            {returnLoans.isPending ? 'Returning...' : `Return ${queue.length} Loan(s)`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
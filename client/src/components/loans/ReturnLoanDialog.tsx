@@ -0,0 +1,303 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Camera, Split, X } from 'lucide-react';
+import { returnConditionEnum, type ReturnCondition } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+export interface ReturnDialogLine {
+  loanId: number;
+  label: string;
+  quantityLoaned: number;
+  quantityReturned: number;
+}
+
+interface ReturnLoanDialogProps {
+  // An individual loan, or a multi-item loan whose lines are returned together
+  target: { loanId: number } | { loanGroupId: number; code: string } | null;
+  lines: ReturnDialogLine[];
+  onClose: () => void;
+}
+
+// One row of the check-in; a line split between conditions has several
+interface ReturnRow {
+  key: number;
+  line: ReturnDialogLine;
+  quantity: string;
+  condition: ReturnCondition;
+  notes: string;
+  photos: string[];
+}
+
+const conditionHelp: Record<ReturnCondition, string> = {
+  Good: 'Back in stock',
+  Worn: 'Back in stock, noted as worn',
+  Damaged: 'Moved to damaged stock',
+  Missing: 'Written off as Lost Items',
+};
+
+// Errors read like apiRequest's so parseApiError works
+async function uploadPhotos(files: FileList): Promise<string[]> {
+  const formData = new FormData();
+  Array.from(files).forEach((file) => formData.append('photos', file));
+  const response = await fetch('/api/loan-returns/photos', { method: 'POST', body: formData, credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return (await response.json()).photos;
+}
+
+// Records the units that came back, which may be fewer than were lent, and the condition they are in
+export default function ReturnLoanDialog({ target, lines, onClose }: ReturnLoanDialogProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ReturnRow[]>([]);
+  const [notes, setNotes] = useState('');
+  const [uploadingKey, setUploadingKey] = useState<number | null>(null);
+
+  const isGroup = !!target && 'loanGroupId' in target;
+  const outstanding = (line: ReturnDialogLine) => line.quantityLoaned - line.quantityReturned;
+
+  // Everything still out is prefilled as Good each time the dialog opens for a loan
+  const targetKey = target && ('loanGroupId' in target ? `group-${target.loanGroupId}` : `loan-${target.loanId}`);
+  useEffect(() => {
+    if (targetKey) {
+      setRows(lines
+        .filter((line) => outstanding(line) > 0)
+        .map((line, index) => ({ key: index, line, quantity: String(outstanding(line)), condition: 'Good', notes: '', photos: [] })));
+      setNotes('');
+    }
+  }, [targetKey]);
+
+  const updateRow = (key: number, changes: Partial<ReturnRow>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const splitRow = (row: ReturnRow) => {
+    const key = Math.max(...rows.map((other) => other.key)) + 1;
+    const index = rows.indexOf(row);
+    setRows([...rows.slice(0, index + 1), { ...row, key, quantity: '0', condition: 'Damaged', notes: '', photos: [] }, ...rows.slice(index + 1)]);
+  };
+
+  const addPhotos = async (row: ReturnRow, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploadingKey(row.key);
+    try {
+      const photos = await uploadPhotos(files);
+      updateRow(row.key, { photos: [...row.photos, ...photos].slice(0, 5) });
+    } catch (error) {
+      toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+    } finally {
+      setUploadingKey(null);
+    }
+  };
+
+  const entered = rows
+    .map((row) => ({ row, quantity: parseInt(row.quantity) || 0 }))
+    .filter(({ quantity }) => quantity !== 0);
+  const totalFor = (loanId: number) =>
+    entered.filter(({ row }) => row.line.loanId === loanId).reduce((sum, { quantity }) => sum + quantity, 0);
+  const valid = entered.length > 0 &&
+    entered.every(({ row, quantity }) => quantity > 0 && totalFor(row.line.loanId) <= outstanding(row.line));
+  const complete = valid && lines.every((line) => totalFor(line.loanId) === outstanding(line));
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      const body = { actualReturnDate: new Date(), notes: notes.trim() || undefined };
+      const returnLines = entered.map(({ row, quantity }) => ({
+        loanId: row.line.loanId,
+        quantity,
+        condition: row.condition,
+        notes: row.notes.trim() || undefined,
+        photos: row.photos,
+      }));
+      if (target && 'loanGroupId' in target) {
+        return apiRequest('PUT', `/api/loan-groups/${target.loanGroupId}/return`, { ...body, lines: returnLines });
+      }
+      const [{ loanId, notes: lineNotes, ...line }] = returnLines;
+      return apiRequest('PUT', `/api/loans/${loanId}/return`, { ...body, ...line, notes: lineNotes ?? body.notes });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/loan-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/loans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+
+      const units = entered.reduce((sum, { quantity }) => sum + quantity, 0);
+      const flagged = entered.filter(({ row }) => row.condition === 'Damaged' || row.condition === 'Missing').length;
+      toast({
+        title: 'Items Returned',
+        description: [
+          complete ? 'Everything on this loan has been checked in.' : `${units} unit(s) checked in. The rest stay on loan.`,
+          flagged > 0 ? 'Damaged and missing units were recorded against the items.' : '',
+        ].filter(Boolean).join(' '),
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{target && 'code' in target ? `Return Items - ${target.code}` : 'Return Item'}</DialogTitle>
+          <DialogDescription>
+            Enter how many units came back and their condition. Units left out stay on loan.
+            {isGroup && ' Split a line to record units in different conditions.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-center">Still Out</TableHead>
+                  <TableHead className="w-[100px]">Returning</TableHead>
+                  <TableHead className="w-[150px]">Condition</TableHead>
+                  {isGroup && <TableHead className="w-[50px]"></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="align-top">
+                      <div>{row.line.label}</div>
+                      {row.condition !== 'Good' && (
+                        <div className="mt-2 space-y-2">
+                          <Input
+                            placeholder="What was wrong?"
+                            value={row.notes}
+                            onChange={(e) => updateRow(row.key, { notes: e.target.value })}
+                          />
+                          <div className="flex flex-wrap items-center gap-2">
+                            {row.photos.map((photo) => (
+                              <span key={photo} className="relative">
+                                <img src={photo} alt="" className="h-12 w-12 object-cover rounded border" />
+                                <button
+                                  type="button"
+                                  className="absolute -top-1 -right-1 bg-white rounded-full border"
+                                  onClick={() => updateRow(row.key, { photos: row.photos.filter((other) => other !== photo) })}
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </span>
+                            ))}
+                            {row.photos.length < 5 && (
+                              <Label className="flex items-center text-sm text-primary cursor-pointer">
+                                <Camera className="h-4 w-4 mr-1" />
+                                {uploadingKey === row.key ? 'Uploading...' : 'Add photos'}
+                                <input
+                                  type="file"
+                                  accept="image/*"
+                                  multiple
+                                  className="hidden"
+                                  disabled={uploadingKey !== null}
+                                  onChange={(e) => {
+                                    addPhotos(row, e.target.files);
+                                    e.target.value = '';
+                                  }}
+                                />
+                              </Label>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center align-top">{outstanding(row.line)}</TableCell>
+                    <TableCell className="align-top">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={outstanding(row.line)}
+                        value={row.quantity}
+                        onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Select
+                        value={row.condition}
+                        onValueChange={(value) => updateRow(row.key, { condition: value as ReturnCondition })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {returnConditionEnum.options.map((condition) => (
+                            <SelectItem key={condition} value={condition}>{condition}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500 mt-1">{conditionHelp[row.condition]}</p>
+                    </TableCell>
+                    {isGroup && (
+                      <TableCell className="align-top">
+                        {outstanding(row.line) > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="Split between conditions"
+                            onClick={() => splitRow(row)}
+                          >
+                            <Split className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="return-notes">Notes</Label>
+            <Textarea id="return-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-green-600 hover:bg-green-700"
+              onClick={() => returnMutation.mutate()}
+              disabled={!valid || uploadingKey !== null || returnMutation.isPending}
+            >
+              {returnMutation.isPending ? 'Returning...' : complete ? 'Return All' : 'Record Partial Return'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+import { BrowserMultiFormatReader, type IScannerControls } from '@zxing/browser';
+import { Camera, CameraOff, CheckCircle2, AlertTriangle, XCircle, ScanLine } from 'lucide-react';
+import type { ScanLookup } from '@shared/schema';
+import { parseApiError, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+export type ScanFeedback = {
+  tone: 'success' | 'warning' | 'error';
+  message: string;
+};
+
+// Resolves a scanned code on the server; unknown codes come back as an error feedback message
+export async function lookupScannedCode(code: string): Promise<ScanLookup | ScanFeedback> {
+  try {
+    return await queryClient.fetchQuery<ScanLookup>({
+      queryKey: ['/api/inventory/lookup', { code }],
+      staleTime: 0,
+    });
+  } catch (error) {
+    return { tone: 'error', message: parseApiError(error).message };
+  }
+}
+
+// A short tone so the operator can keep their eyes on the items rather than the screen
+function beep(tone: ScanFeedback['tone']) {
+  try {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = tone === 'success' ? 880 : 220;
+    oscillator.connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + (tone === 'success' ? 0.08 : 0.25));
+    oscillator.onended = () => context.close();
+  } catch {
+    // Audio is a nicety; some browsers block it until the page is interacted with
+  }
+}
+
+const feedbackStyles: Record<ScanFeedback['tone'], { className: string; Icon: typeof CheckCircle2 }> = {
+  success: { className: 'bg-green-50 text-green-800 border-green-200', Icon: CheckCircle2 },
+  warning: { className: 'bg-amber-50 text-amber-800 border-amber-200', Icon: AlertTriangle },
+  error: { className: 'bg-red-50 text-red-800 border-red-200', Icon: XCircle },
+};
+
+interface ScanInputProps {
+  // Handles one scanned code and says how it went
+  onScan: (code: string) => Promise<ScanFeedback>;
+  placeholder?: string;
+}
+
+// Keyboard-wedge scanners type the code and press Enter, so a focused text box is all they need;
+// the camera reads the same QR codes and barcodes for devices without one
+export default function ScanInput({ onScan, placeholder = 'Scan or type an item ID and press Enter' }: ScanInputProps) {
+  const [code, setCode] = useState('');
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Latest handler and last camera read, for the long-lived camera callback
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const lastCameraRead = useRef({ text: '', at: 0 });
+
+  const handleCode = async (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    setIsBusy(true);
+    try {
+      const result = await onScanRef.current(trimmed);
+      setFeedback(result);
+      beep(result.tone);
+    } finally {
+      setIsBusy(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  useEffect(() => {
+    if (!cameraOn || !videoRef.current) return;
+    let controls: IScannerControls | undefined;
+    let cancelled = false;
+    setCameraError(null);
+
+    new BrowserMultiFormatReader()
+      .decodeFromVideoDevice(undefined, videoRef.current, (result) => {
+        if (!result) return;
+        // The camera reads the same label many times a second; count it once until it leaves the frame
+        const text = result.getText();
+        const now = Date.now();
+        const repeat = text === lastCameraRead.current.text && now - lastCameraRead.current.at < 2000;
+        lastCameraRead.current = { text, at: now };
+        if (!repeat) handleCode(text);
+      })
+      .then((started) => {
+        if (cancelled) started.stop();
+        else controls = started;
+      })
+      .catch((error) => {
+        setCameraError(error instanceof Error && error.name === 'NotAllowedError'
+          ? 'Camera access was blocked. Allow it in the browser to scan with the camera.'
+          : 'No camera could be started on this device.');
+        setCameraOn(false);
+      });
+
+    return () => {
+      cancelled = true;
+      controls?.stop();
+    };
+  }, [cameraOn]);
+
+  const style = feedback ? feedbackStyles[feedback.tone] : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-2">
+        <div className="relative flex-1">
+          <ScanLine className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            ref={inputRef}
+            autoFocus
+            placeholder={placeholder}
+            className="pl-10 font-mono"
+            value={code}
+            disabled={isBusy}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter would otherwise submit the surrounding form
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                setCode('');
+                handleCode(code);
+              }
+            }}
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={() => setCameraOn(!cameraOn)}>
+          {cameraOn ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+          {cameraOn ? 'Stop Camera' : 'Use Camera'}
+        </Button>
+      </div>
+
+      {cameraOn && (
+        <video ref={videoRef} className="w-full max-w-sm rounded-md border bg-black" muted playsInline />
+      )}
+      {cameraError && <p className="text-sm text-red-600">{cameraError}</p>}
+
+      {feedback && style && (
+        <div role="status" className={`flex items-center rounded-md border px-3 py-2 text-sm ${style.className}`}>
+          <style.Icon className="h-4 w-4 mr-2 shrink-0" />
+          {feedback.message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Copy, KeyRound } from 'lucide-react';
+import { apiTokenScopeEnum, type PublicApiToken } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const createTokenFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: apiTokenScopeEnum,
+  expiry: z.enum(['30', '90', '365', 'never']),
+});
+
+type CreatedToken = PublicApiToken & { token: string };
+
+function tokenStatus(token: PublicApiToken): { label: string; variant: 'secondary' | 'outline' | 'destructive' } {
+  if (token.revokedAt) return { label: 'Revoked', variant: 'destructive' };
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return { label: 'Expired', variant: 'outline' };
+  return { label: 'Active', variant: 'secondary' };
+}
+
+export default function ApiTokenList() {
+  const { toast } = useToast();
+  const [createdToken, setCreatedToken] = useState<CreatedToken | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ['/api/auth/tokens'],
+  });
+
+  const form = useForm<z.infer<typeof createTokenFormSchema>>({
+    resolver: zodResolver(createTokenFormSchema),
+    defaultValues: {
+      name: '',
+      scope: 'read',
+      expiry: '90',
+    },
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: parseApiError(error).message || 'Something went wrong. Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const createToken = useMutation({
+    mutationFn: async (data: z.infer<typeof createTokenFormSchema>) => {
+      const response = await apiRequest('POST', '/api/auth/tokens', {
+        name: data.name,
+        scope: data.scope,
+        expiresInDays: data.expiry === 'never' ? null : Number(data.expiry),
+      });
+      return response.json() as Promise<CreatedToken>;
+    },
+    onSuccess: (data) => {
+      form.reset();
+      setCreatedToken(data);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/tokens'] });
+    },
+    onError,
+  });
+
+  const revokeToken = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/auth/tokens/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/tokens'] });
+      toast({
+        title: 'Token Revoked',
+        description: 'The token can no longer be used.',
+      });
+    },
+    onError,
+  });
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken.token);
+    toast({ title: 'Copied', description: 'The token has been copied to your clipboard.' });
+  };
+
+  return (
+    <div className="space-y-6">
+      {createdToken ? (
+        // Shown once; the server only keeps a digest of the token
+        <div className="space-y-3 rounded-md border p-4">
+          <p className="text-sm text-muted-foreground">
+            Copy your new token "{createdToken.name}" now. It will not be shown again. Send it in
+            an <code>Authorization: Bearer</code> header.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 rounded bg-muted px-2 py-1 text-sm break-all">{createdToken.token}</code>
+            <Button variant="outline" size="icon" onClick={copyToken} aria-label="Copy token">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => setCreatedToken(null)}>Done</Button>
+          </div>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => createToken.mutate(values))}
+            className="grid gap-4 sm:grid-cols-[1fr_10rem_10rem_auto] sm:items-end"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Token Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Stock report script" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="scope"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Access</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="read">Read only</SelectItem>
+                      <SelectItem value="write">Read and write</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="expiry"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expires</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="30">In 30 days</SelectItem>
+                      <SelectItem value="90">In 90 days</SelectItem>
+                      <SelectItem value="365">In 1 year</SelectItem>
+                      <SelectItem value="never">Never</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" disabled={createToken.isPending}>
+              <KeyRound className="h-4 w-4 mr-2" />
+              {createToken.isPending ? 'Creating...' : 'Create Token'}
+            </Button>
+          </form>
+        </Form>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Token</TableHead>
+            <TableHead>Access</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead>Last Used</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">
+                Loading tokens...
+              </TableCell>
+            </TableRow>
+          ) : tokens && tokens.length > 0 ? (
+            tokens.map((token) => {
+              const status = tokenStatus(token);
+              return (
+                <TableRow key={token.id}>
+                  <TableCell className="font-medium">{token.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{token.tokenPrefix}…</TableCell>
+                  <TableCell>{token.scope === 'write' ? 'Read and write' : 'Read only'}</TableCell>
+                  <TableCell>{token.expiresAt ? format(new Date(token.expiresAt), 'MMM dd, yyyy') : 'Never'}</TableCell>
+                  <TableCell>
+                    {token.lastUsedAt ? formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true }) : 'Never'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!token.revokedAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => revokeToken.mutate(token.id)}
+                        disabled={revokeToken.isPending}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          ) : (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">
+                No API tokens
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+import { useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Edit, Plus, Trash, X } from 'lucide-react';
+import {
+  customFieldDefinitionSchema,
+  customFieldTypeEnum,
+  insertCategorySchema,
+  type Category,
+} from '@shared/schema';
+import { categoryAncestry, categoryOptions } from '@shared/categories';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const fieldTypeLabels: Record<z.infer<typeof customFieldTypeEnum>, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Choice list',
+  boolean: 'Yes / No',
+};
+
+// Select options are typed as one comma-separated line and checked with the server's schema
+const categoryFormSchema = z.object({
+  name: insertCategorySchema.shape.name,
+  parentId: z.string().transform((value) => (value === 'none' ? null : parseInt(value))),
+  description: z.string().trim().max(200).transform((value) => value || null),
+  fields: z.array(
+    z.object({
+      key: z.string(),
+      label: z.string(),
+      type: customFieldTypeEnum,
+      required: z.boolean(),
+      options: z.string(),
+    })
+      .transform(({ options, ...field }) => ({
+        ...field,
+        options: field.type === 'select' ? options.split(',').map((option) => option.trim()).filter(Boolean) : [],
+      }))
+      .pipe(customFieldDefinitionSchema)
+  ).refine((fields) => new Set(fields.map((field) => field.key)).size === fields.length, 'Field keys must be unique'),
+});
+
+type CategoryFormInput = z.input<typeof categoryFormSchema>;
+type CategoryFormValues = z.output<typeof categoryFormSchema>;
+
+const newField: CategoryFormInput['fields'][number] = { key: '', label: '', type: 'text', required: false, options: '' };
+
+function toFormValues(category: Category | null): CategoryFormInput {
+  return {
+    name: category?.name ?? '',
+    parentId: category?.parentId ? String(category.parentId) : 'none',
+    description: category?.description ?? '',
+    fields: (category?.fields ?? []).map((field) => ({ ...field, options: field.options.join(', ') })),
+  };
+}
+
+// A suggested key for a label, e.g. "Warranty expires" -> "warranty_expires"
+function keyFromLabel(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 40);
+}
+
+// Admin list of item categories with their parents and custom fields
+export default function CategorySettings() {
+  const { toast } = useToast();
+  // null: closed; 'new': adding a category; otherwise the category being edited
+  const [dialog, setDialog] = useState<'new' | Category | null>(null);
+
+  const { data: categories = [], isLoading } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const form = useForm<CategoryFormInput>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: toFormValues(null),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'fields' });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+    // Renames move items and item ID prefixes along with the category
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+  };
+
+  const showError = (error: unknown) => {
+    toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: CategoryFormValues) => {
+      if (dialog === 'new') {
+        return apiRequest('POST', '/api/categories', values);
+      }
+      return apiRequest('PUT', `/api/categories/${(dialog as Category).id}`, values);
+    },
+    onSuccess: () => {
+      toast({ title: 'Success', description: dialog === 'new' ? 'Category added' : 'Category updated' });
+      invalidate();
+      setDialog(null);
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (category: Category) => apiRequest('DELETE', `/api/categories/${category.id}`),
+    onSuccess: () => {
+      toast({ title: 'Success', description: 'Category deleted' });
+      invalidate();
+    },
+    onError: showError,
+  });
+
+  const openDialog = (target: 'new' | Category) => {
+    form.reset(toFormValues(target === 'new' ? null : target));
+    setDialog(target);
+  };
+
+  const handleDelete = (category: Category) => {
+    if (confirm(`Delete the category ${category.name}? Categories that still have items or subcategories cannot be deleted.`)) {
+      deleteMutation.mutate(category);
+    }
+  };
+
+  // A category can't be moved under itself or one of its subcategories
+  const editingId = dialog !== null && dialog !== 'new' ? dialog.id : undefined;
+  const parentOptions = categoryOptions(categories).filter((option) =>
+    editingId === undefined || !categoryAncestry(categories, option.name).some((category) => category.id === editingId)
+  );
+  const labels = new Map(categoryOptions(categories).map((option) => [option.name, option.label]));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Items are filed under one category. Subcategories inherit the custom fields of their parents.
+        </p>
+        <Button variant="outline" size="sm" onClick={() => openDialog('new')}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Category
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="h-4 w-full bg-gray-200 animate-pulse rounded"></div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Custom Fields</TableHead>
+                <TableHead className="w-[90px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categoryOptions(categories).map((option) => {
+                const category = categories.find((candidate) => candidate.name === option.name)!;
+                return (
+                  <TableRow key={category.id}>
+                    <TableCell>
+                      <div className="font-medium">{labels.get(category.name)}</div>
+                      {category.description && <div className="text-xs text-gray-500">{category.description}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {category.fields.length === 0 && <span className="text-sm text-gray-500">None</span>}
+                        {category.fields.map((field) => (
+                          <Badge key={field.key} variant="secondary">
+                            {field.label}{field.required && ' *'}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-1">
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openDialog(category)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => handleDelete(category)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{dialog === 'new' ? 'Add Category' : 'Edit Category'}</DialogTitle>
+            {dialog !== 'new' && (
+              <DialogDescription>
+                Renaming a category moves its items and item ID prefix along with it.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <Form {...form}>
+            {/* The resolver hands over the parsed values, with options split and parentId a number */}
+            <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values as unknown as CategoryFormValues))} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name *</FormLabel>
+                      <FormControl>
+                        <Input maxLength={50} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="parentId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Parent Category</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">None (top level)</SelectItem>
+                          {parentOptions.map((option) => {
+                            const parent = categories.find((category) => category.name === option.name)!;
+                            return <SelectItem key={parent.id} value={String(parent.id)}>{option.label}</SelectItem>;
+                          })}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input maxLength={200} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Custom Fields</p>
+                  <Button type="button" variant="outline" size="sm" onClick={() => append(newField)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Field
+                  </Button>
+                </div>
+                {fields.length === 0 && (
+                  <p className="text-sm text-gray-500">Items in this category only have the standard fields.</p>
+                )}
+                {fields.map((row, index) => (
+                  <div key={row.id} className="rounded-md border p-3 space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.label`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Label</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                onChange={(e) => {
+                                  // Suggest a key until one is typed in
+                                  const key = form.getValues(`fields.${index}.key`);
+                                  if (!key || key === keyFromLabel(field.value)) {
+                                    form.setValue(`fields.${index}.key`, keyFromLabel(e.target.value));
+                                  }
+                                  field.onChange(e);
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.key`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Key</FormLabel>
+                            <FormControl>
+                              <Input className="font-mono" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.type`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Type</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {customFieldTypeEnum.options.map((type) => (
+                                  <SelectItem key={type} value={type}>{fieldTypeLabels[type]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    {form.watch(`fields.${index}.type`) === 'select' && (
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.options`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Options</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g. Small, Medium, Large" {...field} />
+                            </FormControl>
+                            <FormDescription>Separate the choices with commas</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    <div className="flex items-center justify-between">
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.required`}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center space-x-2 space-y-0">
+                            <FormControl>
+                              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                            </FormControl>
+                            <FormLabel className="font-normal">Required</FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                      <Button type="button" variant="ghost" size="sm" onClick={() => remove(index)}>
+                        <X className="h-4 w-4 mr-1" />
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                {(form.formState.errors.fields?.root ?? form.formState.errors.fields)?.message && (
+                  <p className="text-sm font-medium text-destructive">
+                    {(form.formState.errors.fields?.root ?? form.formState.errors.fields)?.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-2 pt-2">
+                <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { AppSettings, Category, ItemIdSettings } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/useSettings';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+
+const prefixField = (max: number) => z.string()
+  .trim()
+  .regex(/^[A-Za-z0-9]*$/, 'Only letters and digits are allowed')
+  .max(max, `Cannot be longer than ${max} characters`);
+
+// Category prefixes are optional, so the form keeps an entry per category and blanks mean "none".
+// Entries are keyed by category id because names may contain characters that form paths can't.
+const itemIdFormSchema = z.object({
+  organizationPrefix: prefixField(5).min(1, 'Prefix is required'),
+  categoryPrefixes: z.record(z.string(), prefixField(4)),
+});
+
+type ItemIdFormValues = z.infer<typeof itemIdFormSchema>;
+
+function toFormValues(settings: ItemIdSettings, categories: Category[]): ItemIdFormValues {
+  return {
+    organizationPrefix: settings.organizationPrefix,
+    categoryPrefixes: Object.fromEntries(
+      categories.map((category) => [category.id, settings.categoryPrefixes[category.name] ?? ''])
+    ),
+  };
+}
+
+export default function ItemIdSettingsForm() {
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const form = useForm<ItemIdFormValues>({
+    resolver: zodResolver(itemIdFormSchema),
+    defaultValues: toFormValues(settings.itemIds, categories),
+  });
+
+  useEffect(() => {
+    form.reset(toFormValues(settings.itemIds, categories));
+  }, [settings.itemIds, categories, form]);
+
+  const saveSettings = useMutation({
+    mutationFn: async (values: ItemIdFormValues) => {
+      const response = await apiRequest('PUT', '/api/settings', {
+        itemIds: {
+          organizationPrefix: values.organizationPrefix.toUpperCase(),
+          categoryPrefixes: Object.fromEntries(
+            categories
+              .filter((category) => values.categoryPrefixes[category.id])
+              .map((category) => [category.name, values.categoryPrefixes[category.id].toUpperCase()])
+          ),
+        },
+      });
+      return response.json() as Promise<AppSettings>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/settings'], data);
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      toast({
+        title: 'Settings Updated',
+        description: 'New items will be numbered with the updated format.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: parseApiError(error).message || 'Failed to save item ID settings.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const organizationPrefix = (form.watch('organizationPrefix') || 'BVGJK').toUpperCase();
+  const examplePrefix = Object.values(form.watch('categoryPrefixes') ?? {}).find(Boolean)?.toUpperCase();
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => saveSettings.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="organizationPrefix"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Organization Prefix</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter prefix" maxLength={5} {...field} />
+              </FormControl>
+              <FormDescription>
+                This prefix is used for generating unique item IDs (e.g., {organizationPrefix}0001)
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Category Prefixes</p>
+          <p className="text-sm text-muted-foreground">
+            Optional. Items in a category with a prefix are numbered separately
+            (e.g., {organizationPrefix}-{examplePrefix || 'EL'}-0001). Categories are managed on the Categories tab.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-3">
+            {categories.map((category) => (
+              <FormField
+                key={category.id}
+                control={form.control}
+                name={`categoryPrefixes.${category.id}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="font-normal">{category.name}</FormLabel>
+                    <FormControl>
+                      <Input placeholder="None" maxLength={4} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveSettings.isPending}>
+            {saveSettings.isPending ? 'Saving...' : 'Save Item ID Format'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
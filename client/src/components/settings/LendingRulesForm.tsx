@@ -0,0 +1,170 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { AppSettings, Category, LoanSettings } from '@shared/schema';
+import { categoryOptions } from '@shared/categories';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/useSettings';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+
+// The borrower types the loan forms offer
+const borrowerTypes = ['Staff', 'Member', 'Other Organization', 'Other'];
+
+const limitField = z.string().trim().regex(/^([1-9]\d*)?$/, 'A whole number of at least 1');
+
+// Limits are optional, so the form keeps an entry per borrower type and category and blanks mean
+// "no limit". Entries are keyed by position and category id as names may contain characters that
+// form paths can't.
+const lendingRulesFormSchema = z.object({
+  maxItems: z.record(z.string(), limitField),
+  maxDays: z.record(z.string(), limitField),
+});
+
+type LendingRulesFormValues = z.infer<typeof lendingRulesFormSchema>;
+
+function typesOf(settings: LoanSettings): string[] {
+  return Array.from(new Set([...borrowerTypes, ...Object.keys(settings.maxItemsPerBorrowerType)]));
+}
+
+function toFormValues(settings: LoanSettings, categories: Category[]): LendingRulesFormValues {
+  return {
+    maxItems: Object.fromEntries(
+      typesOf(settings).map((type, index) => [index, settings.maxItemsPerBorrowerType[type]?.toString() ?? ''])
+    ),
+    maxDays: Object.fromEntries(
+      categories.map((category) => [category.id, settings.maxDaysPerCategory[category.name]?.toString() ?? ''])
+    ),
+  };
+}
+
+// Unit and duration limits checked when loans are made; see server/loanEligibility.ts
+export default function LendingRulesForm() {
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+  const types = typesOf(settings.loans);
+
+  const form = useForm<LendingRulesFormValues>({
+    resolver: zodResolver(lendingRulesFormSchema),
+    defaultValues: toFormValues(settings.loans, categories),
+  });
+
+  useEffect(() => {
+    form.reset(toFormValues(settings.loans, categories));
+  }, [settings.loans, categories, form]);
+
+  const saveSettings = useMutation({
+    mutationFn: async (values: LendingRulesFormValues) => {
+      const response = await apiRequest('PUT', '/api/settings', {
+        loans: {
+          maxItemsPerBorrowerType: Object.fromEntries(
+            types
+              .map((type, index) => [type, values.maxItems[index]] as const)
+              .filter(([, limit]) => limit)
+              .map(([type, limit]) => [type, parseInt(limit)])
+          ),
+          maxDaysPerCategory: Object.fromEntries(
+            categories
+              .filter((category) => values.maxDays[category.id])
+              .map((category) => [category.name, parseInt(values.maxDays[category.id])])
+          ),
+        },
+      });
+      return response.json() as Promise<AppSettings>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/settings'], data);
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      toast({
+        title: 'Settings Updated',
+        description: 'New loans will be checked against the updated limits.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: parseApiError(error).message || 'Failed to save the lending limits.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => saveSettings.mutate(values))} className="space-y-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Units Out at Once</p>
+          <p className="text-sm text-muted-foreground">
+            The most units a borrower of each type may have out, counting the loan being made. Blank means no limit.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-4">
+            {types.map((type, index) => (
+              <FormField
+                key={type}
+                control={form.control}
+                name={`maxItems.${index}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="font-normal">{type}</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" placeholder="No limit" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Longest Loan in Days</p>
+          <p className="text-sm text-muted-foreground">
+            Per category; a subcategory without a limit of its own takes its parent's. Blank means no limit.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-3">
+            {categoryOptions(categories).map(({ name, label }) => {
+              const category = categories.find((category) => category.name === name)!;
+              return (
+                <FormField
+                  key={category.id}
+                  control={form.control}
+                  name={`maxDays.${category.id}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="font-normal">{label}</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" placeholder="No limit" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveSettings.isPending}>
+            {saveSettings.isPending ? 'Saving...' : 'Save Lending Limits'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
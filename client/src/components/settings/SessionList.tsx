@@ -0,0 +1,169 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow, format } from 'date-fns';
+import { Laptop, Smartphone, LogOut } from 'lucide-react';
+import type { UserSession } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface SessionListProps {
+  // Show another user's sessions (admin view); defaults to the signed-in user
+  userId?: number;
+}
+
+// Rough "Browser on OS" label from a user agent string
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    /curl\//.test(userAgent) ? 'curl' :
+    'Unknown browser';
+  const os =
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export default function SessionList({ userId }: SessionListProps) {
+  const { toast } = useToast();
+  const endpoint = userId ? `/api/users/${userId}/sessions` : '/api/auth/sessions';
+
+  const { data: sessions, isLoading } = useQuery<UserSession[]>({
+    queryKey: [endpoint],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: parseApiError(error).message || 'Failed to sign out the session.',
+      variant: 'destructive',
+    });
+  };
+
+  const revokeSession = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/auth/sessions/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      toast({
+        title: 'Session Signed Out',
+        description: 'The device has been signed out.',
+      });
+    },
+    onError,
+  });
+
+  // For the signed-in user this spares the current session; admins sign the user out everywhere
+  const revokeAll = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', endpoint);
+      return response.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      toast({
+        title: 'Sessions Signed Out',
+        description: `${revoked} session(s) have been signed out.`,
+      });
+    },
+    onError,
+  });
+
+  const otherSessions = sessions?.filter((session) => !session.current) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Device</TableHead>
+            <TableHead>IP Address</TableHead>
+            <TableHead>Signed In</TableHead>
+            <TableHead>Last Active</TableHead>
+            {!userId && <TableHead className="text-right">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground">
+                Loading sessions...
+              </TableCell>
+            </TableRow>
+          ) : sessions && sessions.length > 0 ? (
+            sessions.map((session) => (
+              <TableRow key={session.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {/Mobile|Android|iPhone/.test(session.userAgent ?? '') ? (
+                      <Smartphone className="h-4 w-4 text-muted-foreground" />
+                    ) : (
+                      <Laptop className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span>{describeDevice(session.userAgent)}</span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell>{session.ipAddress || '—'}</TableCell>
+                <TableCell>{format(new Date(session.createdAt), 'MMM dd, yyyy HH:mm')}</TableCell>
+                <TableCell>{formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}</TableCell>
+                {!userId && (
+                  <TableCell className="text-right">
+                    {!session.current && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeSession.mutate(session.id)}
+                        disabled={revokeSession.isPending}
+                      >
+                        Sign Out
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground">
+                No active sessions
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          onClick={() => revokeAll.mutate()}
+          disabled={revokeAll.isPending || (userId ? !sessions?.length : otherSessions.length === 0)}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          {userId ? 'Revoke All Sessions' : 'Sign Out Other Devices'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ShieldCheck, ShieldOff, KeyRound, Download } from 'lucide-react';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Shown once, right after they are generated; the server only keeps digests
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const download = () => {
+    const blob = new Blob([codes.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'bonevet-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Store these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+        access to your authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={download}>
+          <Download className="h-4 w-4 mr-2" /> Download
+        </Button>
+        <Button onClick={onDone}>I have saved these codes</Button>
+      </div>
+    </div>
+  );
+}
+
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const { refreshUser } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<'regenerate' | 'disable' | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/auth/2fa'],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: parseApiError(error).message || 'Something went wrong. Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+    await refreshUser();
+  };
+
+  const startSetup = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/setup');
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode('');
+    },
+    onError,
+  });
+
+  const enable = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/enable', { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: async (data) => {
+      setSetup(null);
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: 'Two-Factor Authentication Enabled',
+        description: 'You will be asked for a code each time you sign in.',
+      });
+      await refresh();
+    },
+    onError,
+  });
+
+  const regenerate = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/recovery-codes', { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: async (data) => {
+      setAction(null);
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes);
+      await refresh();
+    },
+    onError,
+  });
+
+  const disable = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/disable', { password });
+      return response.json();
+    },
+    onSuccess: async () => {
+      setAction(null);
+      setPassword('');
+      toast({
+        title: 'Two-Factor Authentication Disabled',
+        description: 'You will no longer be asked for a code when signing in.',
+      });
+      await refresh();
+    },
+    onError,
+  });
+
+  if (isLoading || !status) {
+    return <div className="h-24 bg-gray-100 animate-pulse rounded" />;
+  }
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with an authenticator app such as Google Authenticator, Microsoft
+          Authenticator or 1Password, then enter the 6-digit code it shows.
+        </p>
+        <div className="flex flex-col items-center space-y-2">
+          <img src={setup.qrCode} alt="Two-factor authentication QR code" className="h-48 w-48" />
+          <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+          <code className="rounded bg-muted px-2 py-1 text-sm break-all">{setup.secret}</code>
+        </div>
+        <div className="flex flex-col items-center space-y-4">
+          <CodeInput value={code} onChange={setCode} />
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setSetup(null)}>Cancel</Button>
+            <Button onClick={() => enable.mutate()} disabled={code.length !== 6 || enable.isPending}>
+              {enable.isPending ? 'Verifying...' : 'Verify and Enable'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <ShieldOff className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <p className="font-medium">Not enabled</p>
+            <p className="text-sm text-muted-foreground">
+              Protect your account with a code from an authenticator app in addition to your password.
+            </p>
+          </div>
+        </div>
+        <Button onClick={() => startSetup.mutate()} disabled={startSetup.isPending}>
+          Set Up Two-Factor Authentication
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-3">
+        <ShieldCheck className="h-5 w-5 text-green-600" />
+        <div>
+          <p className="font-medium flex items-center gap-2">
+            Enabled
+            {status.required && <Badge variant="secondary">Required by an administrator</Badge>}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {status.recoveryCodesRemaining} recovery code(s) remaining
+          </p>
+        </div>
+      </div>
+
+      {action === 'regenerate' && (
+        <div className="space-y-2 rounded-md border p-4">
+          <Label>Enter a code from your authenticator app to generate new recovery codes</Label>
+          <CodeInput value={code} onChange={setCode} />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setAction(null)}>Cancel</Button>
+            <Button onClick={() => regenerate.mutate()} disabled={code.length !== 6 || regenerate.isPending}>
+              Generate New Codes
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {action === 'disable' && (
+        <div className="space-y-2 rounded-md border p-4">
+          <Label htmlFor="disable-2fa-password">Confirm your password to disable two-factor authentication</Label>
+          <Input
+            id="disable-2fa-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setAction(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={() => disable.mutate()} disabled={!password || disable.isPending}>
+              Disable
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!action && (
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => { setCode(''); setAction('regenerate'); }}>
+            <KeyRound className="h-4 w-4 mr-2" /> New Recovery Codes
+          </Button>
+          {!status.required && (
+            <Button variant="outline" className="text-red-600" onClick={() => setAction('disable')}>
+              Disable
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { format, isAfter } from 'date-fns';
+import { format } from 'date-fns';
 import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import LoanStatusBadge from '@/components/loans/LoanStatusBadge';
 import {
   Card,
   CardContent,
@@ -17,8 +20,9 @@ import {
 } from '@/components/ui/table';
 
 export default function RecentLoans() {
+  const [overdueOnly, setOverdueOnly] = useState(false);
   const { data: loans = [], isLoading } = useQuery({
-    queryKey: ['/api/loans/recent?limit=5'],
+    queryKey: [overdueOnly ? '/api/loans/recent?limit=5&status=Overdue' : '/api/loans/recent?limit=5'],
   });
 
   const { data: inventory = [] } = useQuery({
@@ -36,39 +40,13 @@ export default function RecentLoans() {
     return item ? `${item.itemId} - ${item.name}` : `Item #${itemId}`;
   };
 
-  const getLoanStatusBadge = (loan: any) => {
-    let className = "px-2 inline-flex text-xs leading-5 font-semibold rounded-full ";
-    
-    if (loan.status === 'Returned') {
-      className += "bg-green-100 text-green-800";
-      return <span className={className}>Returned</span>;
-    }
-    
-    if (loan.status === 'Ongoing') {
-      // Check if overdue
-      if (!loan.expectedReturnDate) {
-        className += "bg-amber-100 text-amber-800";
-        return <span className={className}>Ongoing</span>;
-      }
-      
-      const isOverdue = isAfter(new Date(), new Date(loan.expectedReturnDate));
-      
-      if (isOverdue) {
-        className += "bg-red-100 text-red-800";
-        return <span className={className}>Overdue</span>;
-      } else {
-        className += "bg-amber-100 text-amber-800";
-        return <span className={className}>Ongoing</span>;
-      }
-    }
-    
-    return <span className={className}>{loan.status}</span>;
-  };
-
   return (
     <Card>
-      <CardHeader className="pb-2">
-        <CardTitle className="text-md font-medium">Recent Loans</CardTitle>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-md font-medium">{overdueOnly ? 'Overdue Loans' : 'Recent Loans'}</CardTitle>
+        <Button variant={overdueOnly ? 'destructive' : 'outline'} size="sm" onClick={() => setOverdueOnly(!overdueOnly)}>
+          {overdueOnly ? 'Show all' : 'Overdue only'}
+        </Button>
       </CardHeader>
       <CardContent>
         <div className="overflow-x-auto">
@@ -129,14 +107,14 @@ export default function RecentLoans() {
                       {loan.expectedReturnDate ? format(new Date(loan.expectedReturnDate), 'MMM dd, yyyy') : '—'}
                     </TableCell>
                     <TableCell className="whitespace-nowrap">
-                      {getLoanStatusBadge(loan)}
+                      <LoanStatusBadge status={loan.status} expectedReturnDate={loan.expectedReturnDate} />
                     </TableCell>
                   </TableRow>
                 ))
               ) : (
                 <TableRow>
                   <TableCell colSpan={5} className="text-center py-4 text-gray-500">
-                    No recent loans found
+                    {overdueOnly ? 'No overdue loans' : 'No recent loans found'}
                   </TableCell>
                 </TableRow>
               )}
@@ -4,7 +4,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useRequireAuth } from '@/hooks/useAuth';
 import { ArrowLeft, Save } from 'lucide-react';
@@ -27,21 +27,34 @@ import {
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import SessionList from '@/components/settings/SessionList';
+import { passwordSchema, userRoleEnum } from '@shared/schema';
+import { roleLabels } from '@shared/permissions';
+
+const roleDescriptions: Record<z.infer<typeof userRoleEnum>, string> = {
+  admin: 'Full access, including users, settings and audit logs',
+  approver: 'Read-only access, plus signing documents and approving lifecycle changes',
+  loan_officer: 'Read-only access, plus creating loans and processing returns',
+  storekeeper: 'Read-only access, plus adding, editing and reporting damage on items',
+  viewer: 'Read-only access to inventory, loans and documents',
+  user: 'Day-to-day inventory and loan work, without administration',
+};
 
 // User form schema
 const userSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: passwordSchema,
   name: z.string().min(1, "Name is required"),
   email: z.string().email("Invalid email address"),
-  role: z.string().min(1, "Role is required"),
+  role: userRoleEnum,
   active: z.boolean().default(true),
+  twoFactorRequired: z.boolean().default(false),
 });
 
 // Edit user schema (password optional)
 const editUserSchema = userSchema.extend({
-  password: z.string().min(6, "Password must be at least 6 characters").optional(),
+  password: passwordSchema.optional().or(z.literal('')),
 });
 
 interface UserFormProps {
@@ -49,7 +62,7 @@ interface UserFormProps {
 }
 
 export default function UserForm({ userId }: UserFormProps) {
-  useRequireAuth('admin'); // Ensure only admins can access this page
+  useRequireAuth('users:manage'); // Ensure only user managers can access this page
   
   const [, navigate] = useLocation();
   const { toast } = useToast();
@@ -83,6 +96,7 @@ export default function UserForm({ userId }: UserFormProps) {
       email: '',
       role: 'user',
       active: true,
+      twoFactorRequired: false,
     },
   });
   
@@ -95,6 +109,7 @@ export default function UserForm({ userId }: UserFormProps) {
         email: userData.email,
         role: userData.role,
         active: userData.active,
+        twoFactorRequired: userData.twoFactorRequired,
         // Don't set password in edit mode
       });
     }
@@ -148,13 +163,37 @@ export default function UserForm({ userId }: UserFormProps) {
     onError: (error) => {
       toast({
         title: 'Error',
-        description: 'Failed to update user. Please try again.',
+        description: parseApiError(error).message || 'Failed to update user. Please try again.',
         variant: 'destructive',
       });
       console.error('Error updating user:', error);
     },
   });
   
+  // Lets a user who lost their authenticator enroll again
+  const resetTwoFactor = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', `/api/users/${userId}/two-factor`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      
+      toast({
+        title: 'Two-Factor Reset',
+        description: 'The user will need to set up two-factor authentication again.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: parseApiError(error).message || 'Failed to reset two-factor authentication.',
+        variant: 'destructive',
+      });
+    },
+  });
+  
   const onSubmit = (values: z.infer<typeof formSchema>) => {
     if (isEditMode) {
       // Remove password if it's empty in edit mode
@@ -198,175 +237,232 @@ export default function UserForm({ userId }: UserFormProps) {
   }
   
   return (
-    <Card>
-      <CardHeader className="flex flex-row items-center justify-between">
-        <div className="space-y-1.5">
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            onClick={() => navigate('/users')}
-            className="mb-2"
-          >
-            <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Users
-          </Button>
-          <CardTitle>{isEditMode ? 'Edit User' : 'Add New User'}</CardTitle>
-        </div>
-      </CardHeader>
-      <CardContent>
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username *</FormLabel>
-                    <FormControl>
-                      <Input 
-                        placeholder="Enter username" 
-                        {...field} 
-                        disabled={isEditMode} // Username can't be changed in edit mode
-                      />
-                    </FormControl>
-                    <FormDescription>
-                      {isEditMode ? "Username cannot be changed" : "Username must be unique"}
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{isEditMode ? 'New Password' : 'Password *'}</FormLabel>
-                    <FormControl>
-                      <Input 
-                        type="password" 
-                        placeholder={isEditMode ? "Leave blank to keep current password" : "Enter password"} 
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormDescription>
-                      {isEditMode ? "Leave blank to keep current password" : "Minimum 6 characters"}
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Full Name *</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter full name" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1.5">
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              onClick={() => navigate('/users')}
+              className="mb-2"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Users
+            </Button>
+            <CardTitle>{isEditMode ? 'Edit User' : 'Add New User'}</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username *</FormLabel>
+                      <FormControl>
+                        <Input 
+                          placeholder="Enter username" 
+                          {...field} 
+                          disabled={isEditMode} // Username can't be changed in edit mode
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {isEditMode ? "Username cannot be changed" : "Username must be unique"}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email *</FormLabel>
-                    <FormControl>
-                      <Input type="email" placeholder="Enter email address" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{isEditMode ? 'New Password' : 'Password *'}</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="password" 
+                          placeholder={isEditMode ? "Leave blank to keep current password" : "Enter password"} 
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {isEditMode ? "Leave blank to keep current password" : "At least 8 characters, including a letter and a number"}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="role"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Role *</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                      value={field.value}
-                    >
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name *</FormLabel>
                       <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select user role" />
-                        </SelectTrigger>
+                        <Input placeholder="Enter full name" {...field} />
                       </FormControl>
-                      <SelectContent>
-                        <SelectItem value="admin">Admin</SelectItem>
-                        <SelectItem value="user">User</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormDescription>
-                      Admin users have full access to the system
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               
-              <FormField
-                control={form.control}
-                name="active"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                    <div className="space-y-0.5">
-                      <FormLabel className="text-base">
-                        Active Status
-                      </FormLabel>
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email *</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="Enter email address" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role *</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select user role" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {userRoleEnum.options.map((role) => (
+                            <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <FormDescription>
-                        Inactive users cannot log in to the system
+                        {roleDescriptions[field.value] ?? 'Select what this user is allowed to do'}
                       </FormDescription>
-                    </div>
-                    <FormControl>
-                      <Switch
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                  </FormItem>
-                )}
-              />
-            </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              
+                <FormField
+                  control={form.control}
+                  name="active"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">
+                          Active Status
+                        </FormLabel>
+                        <FormDescription>
+                          Inactive users cannot log in to the system
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="twoFactorRequired"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">
+                          Require Two-Factor Authentication
+                        </FormLabel>
+                        <FormDescription>
+                          {isEditMode
+                            ? userData?.twoFactorEnabled
+                              ? 'Set up by this user'
+                              : 'Not set up yet; the user will be asked to on next login'
+                            : 'The user will be asked to set it up on first login'}
+                        </FormDescription>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {isEditMode && userData?.twoFactorEnabled && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => resetTwoFactor.mutate()}
+                            disabled={resetTwoFactor.isPending}
+                          >
+                            Reset
+                          </Button>
+                        )}
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+              </div>
             
-            <div className="flex justify-end space-x-2">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => navigate('/users')}
-              >
-                Cancel
-              </Button>
-              <Button 
-                type="submit"
-                disabled={createUser.isPending || updateUser.isPending}
-              >
-                {(createUser.isPending || updateUser.isPending) ? 'Saving...' : (
-                  <>
-                    <Save className="h-4 w-4 mr-2" />
-                    {isEditMode ? 'Update User' : 'Create User'}
-                  </>
-                )}
-              </Button>
-            </div>
-          </form>
-        </Form>
-      </CardContent>
-    </Card>
+              <div className="flex justify-end space-x-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => navigate('/users')}
+                >
+                  Cancel
+                </Button>
+                <Button 
+                  type="submit"
+                  disabled={createUser.isPending || updateUser.isPending}
+                >
+                  {(createUser.isPending || updateUser.isPending) ? 'Saving...' : (
+                    <>
+                      <Save className="h-4 w-4 mr-2" />
+                      {isEditMode ? 'Update User' : 'Create User'}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    
+      {isEditMode && userId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Active Sessions</CardTitle>
+            <CardDescription>
+              Devices this user is signed in on. Deactivating the user signs them out everywhere.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SessionList userId={parseInt(userId)} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
   );
 }
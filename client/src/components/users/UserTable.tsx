@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { useLocation } from 'wouter';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { Edit, Trash, ShieldAlert, ShieldCheck, UserCheck, UserX } from 'lucide-react';
@@ -35,6 +35,8 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Badge } from '@/components/ui/badge';
+import { roleLabels } from '@shared/permissions';
+import type { UserRole } from '@shared/schema';
 
 interface UserTableProps {
   users: any[];
@@ -73,7 +75,7 @@ export default function UserTable({ users, isLoading }: UserTableProps) {
     onError: (error) => {
       toast({
         title: 'Error',
-        description: 'Failed to update user status. Please try again.',
+        description: parseApiError(error).message || 'Failed to update user status. Please try again.',
         variant: 'destructive',
       });
       console.error('Error updating user status:', error);
@@ -100,7 +102,7 @@ export default function UserTable({ users, isLoading }: UserTableProps) {
     onError: (error) => {
       toast({
         title: 'Error',
-        description: 'Failed to delete the user. Please try again.',
+        description: parseApiError(error).message || 'Failed to delete the user. Please try again.',
         variant: 'destructive',
       });
       console.error('Error deleting user:', error);
@@ -178,7 +180,7 @@ export default function UserTable({ users, isLoading }: UserTableProps) {
                       ) : (
                         <ShieldCheck className="h-3 w-3" />
                       )}
-                      {user.role === 'admin' ? 'Admin' : 'User'}
+                      {roleLabels[user.role as UserRole] ?? user.role}
                     </Badge>
                   </TableCell>
                   <TableCell>
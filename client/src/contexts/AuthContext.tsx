@@ -1,6 +1,6 @@
 import { createContext, useState, useEffect, ReactNode } from "react";
 import { useLocation } from "wouter";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 interface User {
@@ -9,22 +9,36 @@ interface User {
   name: string;
   email: string;
   role: string;
+  mustChangePassword?: boolean;
+  twoFactorRequired?: boolean;
+  twoFactorEnabled?: boolean;
+}
+
+// Either an authenticator code or a recovery code for the second login step
+export interface TwoFactorInput {
+  code?: string;
+  recoveryCode?: string;
 }
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (username: string, password: string) => Promise<void>;
+  // Resolves to whether a second factor is still needed to finish signing in
+  login: (username: string, password: string) => Promise<{ twoFactorRequired: boolean }>;
+  verifyTwoFactor: (input: TwoFactorInput) => Promise<void>;
   logout: () => Promise<void>;
+  refreshUser: () => Promise<void>;
 }
 
 export const AuthContext = createContext<AuthContextType>({
   user: null,
   isLoading: true,
   isAuthenticated: false,
-  login: async () => {},
+  login: async () => ({ twoFactorRequired: false }),
+  verifyTwoFactor: async () => {},
   logout: async () => {},
+  refreshUser: async () => {},
 });
 
 interface AuthProviderProps {
@@ -37,42 +51,69 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
-  useEffect(() => {
-    const fetchUser = async () => {
-      try {
-        const response = await fetch("/api/auth/me", {
-          credentials: "include",
-        });
+  const fetchUser = async () => {
+    try {
+      const response = await fetch("/api/auth/me", {
+        credentials: "include",
+      });
 
-        if (response.ok) {
-          const data = await response.json();
-          setUser(data.user);
-        }
-      } catch (error) {
-        console.error("Failed to fetch user:", error);
-      } finally {
-        setIsLoading(false);
+      if (response.ok) {
+        const data = await response.json();
+        setUser(data.user);
       }
-    };
+    } catch (error) {
+      console.error("Failed to fetch user:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+  useEffect(() => {
     fetchUser();
   }, []);
 
+  // Shared tail of both login steps: land on settings while something is owed
+  const completeLogin = (loggedInUser: User) => {
+    setUser(loggedInUser);
+    // Branding and accent colour were loaded as defaults while signed out
+    queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    if (loggedInUser.mustChangePassword) {
+      toast({
+        title: "Password change required",
+        description: "Please choose a new password before continuing.",
+      });
+      setLocation("/settings");
+      return;
+    }
+    if (loggedInUser.twoFactorRequired && !loggedInUser.twoFactorEnabled) {
+      toast({
+        title: "Two-factor authentication required",
+        description: "Please set up two-factor authentication before continuing.",
+      });
+      setLocation("/settings");
+      return;
+    }
+    toast({
+      title: "Login successful",
+      description: `Welcome back, ${loggedInUser.name}!`,
+    });
+    setLocation("/");
+  };
+
   const login = async (username: string, password: string) => {
     try {
       setIsLoading(true);
       const response = await apiRequest("POST", "/api/auth/login", { username, password });
       const data = await response.json();
-      setUser(data.user);
-      toast({
-        title: "Login successful",
-        description: `Welcome back, ${data.user.name}!`,
-      });
-      setLocation("/");
+      if (data.twoFactorRequired) {
+        return { twoFactorRequired: true };
+      }
+      completeLogin(data.user);
+      return { twoFactorRequired: false };
     } catch (error) {
       toast({
         title: "Login failed",
-        description: "Invalid username or password",
+        description: parseApiError(error).message || "Invalid username or password",
         variant: "destructive",
       });
       throw error;
@@ -81,6 +122,17 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   };
 
+  const verifyTwoFactor = async (input: TwoFactorInput) => {
+    try {
+      setIsLoading(true);
+      const response = await apiRequest("POST", "/api/auth/2fa/verify", input);
+      const data = await response.json();
+      completeLogin(data.user);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const logout = async () => {
     try {
       setIsLoading(true);
@@ -112,7 +164,9 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         isLoading,
         isAuthenticated,
         login,
+        verifyTwoFactor,
         logout,
+        refreshUser: fetchUser,
       }}
     >
       {children}
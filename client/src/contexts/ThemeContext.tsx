@@ -1,4 +1,6 @@
 import { createContext, useContext, useEffect, useState } from "react";
+import type { AccentColor } from "@shared/schema";
+import { useSettings } from "@/hooks/useSettings";
 
 type Theme = "dark" | "light" | "system";
 
@@ -11,11 +13,22 @@ type ThemeProviderProps = {
 type ThemeProviderState = {
   theme: Theme;
   setTheme: (theme: Theme) => void;
+  accentColor: AccentColor;
 };
 
 const initialState: ThemeProviderState = {
   theme: "system",
   setTheme: () => null,
+  accentColor: "blue",
+};
+
+// --primary for each organization accent colour; blue is the stylesheet's own value
+export const accentColors: Record<AccentColor, { hsl: string; hex: string }> = {
+  blue: { hsl: "207 90% 54%", hex: "#2196F3" },
+  green: { hsl: "160 84% 39%", hex: "#10B981" },
+  purple: { hsl: "258 90% 66%", hex: "#8B5CF6" },
+  orange: { hsl: "38 92% 50%", hex: "#F59E0B" },
+  red: { hsl: "0 84% 60%", hex: "#EF4444" },
 };
 
 const ThemeProviderContext = createContext<ThemeProviderState>(initialState);
@@ -50,8 +63,16 @@ export function ThemeProvider({
     root.classList.add(theme);
   }, [theme]);
 
+  // The accent colour is an organization setting, shared by every user
+  const { settings } = useSettings();
+  const accentColor = settings.organization.accentColor;
+  useEffect(() => {
+    window.document.documentElement.style.setProperty("--primary", accentColors[accentColor].hsl);
+  }, [accentColor]);
+
   const value = {
     theme,
+    accentColor,
     setTheme: (theme: Theme) => {
       localStorage.setItem(storageKey, theme);
       setTheme(theme);
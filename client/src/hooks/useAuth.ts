@@ -1,23 +1,34 @@
-import { useContext } from "react";
+import { useContext, useCallback } from "react";
 import { AuthContext } from "@/contexts/AuthContext";
 import { useLocation } from "wouter";
 import { useEffect } from "react";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 export function useAuth() {
   const auth = useContext(AuthContext);
   const [location, setLocation] = useLocation();
   
-  // Redirect to login if not authenticated
+  // Redirect to login if not authenticated, and to settings while a password change or 2FA setup is owed
   useEffect(() => {
+    const setupOwed = auth.user?.mustChangePassword ||
+      (auth.user?.twoFactorRequired && !auth.user?.twoFactorEnabled);
     if (!auth.isLoading && !auth.isAuthenticated && location !== '/login') {
       setLocation('/login');
+    } else if (setupOwed && location !== '/settings') {
+      setLocation('/settings');
     }
-  }, [auth.isLoading, auth.isAuthenticated, location, setLocation]);
+  }, [auth.isLoading, auth.isAuthenticated, auth.user, location, setLocation]);
   
-  return auth;
+  // Mirrors the server's permission matrix so screens can hide what the user cannot do
+  const can = useCallback(
+    (permission: Permission) => hasPermission(auth.user?.role, permission),
+    [auth.user?.role]
+  );
+  
+  return { ...auth, can };
 }
 
-export function useRequireAuth(requiredRole?: string) {
+export function useRequireAuth(requiredPermission?: Permission) {
   const auth = useAuth();
   const [, setLocation] = useLocation();
   
@@ -27,13 +38,13 @@ export function useRequireAuth(requiredRole?: string) {
     } else if (
       !auth.isLoading && 
       auth.isAuthenticated && 
-      requiredRole && 
-      auth.user?.role !== requiredRole
+      requiredPermission && 
+      !auth.can(requiredPermission)
     ) {
-      // Redirect to dashboard if user doesn't have required role
+      // Redirect to dashboard if user doesn't have the required permission
       setLocation('/');
     }
-  }, [auth.isLoading, auth.isAuthenticated, auth.user, requiredRole, setLocation]);
+  }, [auth.isLoading, auth.isAuthenticated, auth.user, requiredPermission, setLocation]);
   
   return auth;
 }
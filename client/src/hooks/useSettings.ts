@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { defaultAppSettings, type AppSettings } from '@shared/schema';
+import { getQueryFn } from '@/lib/queryClient';
+
+// Organization settings, with the defaults standing in until they load (or before login)
+export function useSettings() {
+  const { data, isLoading } = useQuery<AppSettings | null>({
+    queryKey: ['/api/settings'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  return { settings: data ?? defaultAppSettings, isLoading };
+}
+
+// "BONEVET Gjakova" -> "BG"
+export function organizationInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const initials = words.length > 1 ? words.slice(0, 2).map((word) => word[0]).join('') : name.slice(0, 2);
+  return initials.toUpperCase();
+}
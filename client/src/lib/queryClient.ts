@@ -7,6 +7,21 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Errors thrown by apiRequest read "<status>: <body>"; pull the server's message (and body) back out
+export function parseApiError(error: unknown): { status?: number; message: string; body?: any } {
+  const raw = error instanceof Error ? error.message : String(error);
+  const match = raw.match(/^(\d{3}): ([\s\S]*)$/);
+  if (!match) return { message: raw };
+
+  const status = parseInt(match[1]);
+  try {
+    const body = JSON.parse(match[2]);
+    return { status, message: body.message || match[2], body };
+  } catch {
+    return { status, message: match[2] };
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -23,13 +38,37 @@ export async function apiRequest(
   return res;
 }
 
+// Appends params as a query string; arrays repeat the key and empty values are left out
+export function urlWithParams(path: string, params: Record<string, unknown> = {}): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null && item !== "") {
+        search.append(key, String(item));
+      }
+    }
+  }
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+// A params object after the path becomes the query string, e.g. ['/api/inventory', { page: 2 }],
+// so invalidating ['/api/inventory'] also refreshes every filtered view of it
+function queryUrl(queryKey: readonly unknown[]): string {
+  const [path, params] = queryKey;
+  if (!params || typeof params !== "object") {
+    return path as string;
+  }
+  return urlWithParams(path as string, params as Record<string, unknown>);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(queryUrl(queryKey), {
       credentials: "include",
     });
 
@@ -1,15 +1,5 @@
 import { z } from "zod";
 
-// Item Category Enum - matches the schema.ts definitions
-export const itemCategoryEnum = z.enum([
-  "Furniture",
-  "Equipment",
-  "Tools",
-  "Electronics",
-  "Software",
-  "Other"
-]);
-
 // Item Status Enum
 export const itemStatusEnum = z.enum([
   "Available",
@@ -27,20 +17,6 @@ export const itemUsageEnum = z.enum([
   "Others"
 ]);
 
-// Basic inventory item schema for forms
-export const insertInventoryItemSchema = z.object({
-  itemId: z.string().optional(),
-  name: z.string().min(1, "Item name is required"),
-  model: z.string().optional(),
-  category: itemCategoryEnum,
-  status: itemStatusEnum.default("Available"),
-  location: z.string().optional(),
-  quantity: z.number().int().positive("Quantity must be a positive integer").default(1),
-  price: z.number().nonnegative("Price cannot be negative").optional(),
-  usage: itemUsageEnum.default("None"),
-  notes: z.string().optional(),
-});
-
 // Get color for status badge
 export const getStatusColor = (status: string) => {
   switch (status) {
@@ -77,21 +53,3 @@ export const getCategoryIcon = (category: string) => {
       return 'other-icon';
   }
 };
-
-// Get next available item ID
-export const getNextItemId = (items: any[]) => {
-  if (!items || items.length === 0) {
-    return 'BVGJK0001';
-  }
-  
-  // Find the maximum item ID number
-  const itemIds = items
-    .map(item => item.itemId)
-    .filter(id => id && id.startsWith('BVGJK'))
-    .map(id => parseInt(id.replace('BVGJK', ''), 10));
-    
-  const maxId = Math.max(...itemIds, 0);
-  
-  // Generate the next ID with leading zeros
-  return `BVGJK${String(maxId + 1).padStart(4, '0')}`;
-};
@@ -22,7 +22,7 @@ export const generateDocumentId = (type: string) => {
 };
 
 // Template for acquisition document
-export const getAcquisitionDocumentTemplate = (item?: any) => {
+export const getAcquisitionDocumentTemplate = (item?: any, organizationName = 'BONEVET Gjakova') => {
   return {
     documentType: 'Acquisition',
     itemDetails: item ? {
@@ -42,7 +42,7 @@ export const getAcquisitionDocumentTemplate = (item?: any) => {
     },
     acquisitionType: 'Purchase',
     acquisitionDate: new Date().toISOString(),
-    notes: `This item was added to the BONEVET Gjakova inventory on ${new Date().toLocaleDateString()}.`,
+    notes: `This item was added to the ${organizationName} inventory on ${new Date().toLocaleDateString()}.`,
     signatories: ['CEO', 'CTO']
   };
 };
@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useRequireAuth } from '@/hooks/useAuth';
 import { format } from 'date-fns';
-import { Download, Filter, Search, Calendar } from 'lucide-react';
+import { Filter, Search, Calendar } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -30,9 +30,10 @@ import {
   PaginationPrevious,
 } from '@/components/ui/pagination';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import ExportMenu from '@/components/ExportMenu';
 
 export default function AuditLogs() {
-  useRequireAuth('admin'); // Require admin role
+  const { can } = useRequireAuth('audit:read');
   
   const [searchTerm, setSearchTerm] = useState('');
   const [actionFilter, setActionFilter] = useState('all');
@@ -45,6 +46,17 @@ export default function AuditLogs() {
     queryKey: ['/api/activity'],
   });
   
+  // Fetch users to show names instead of ids, where the viewer may list users
+  const { data: users } = useQuery<{ id: number; username: string }[]>({
+    queryKey: ['/api/users'],
+    enabled: can('users:manage'),
+  });
+  
+  const getUserLabel = (userId: number) => {
+    if (!userId) return '—'; // Failed logins for unknown usernames and scheduled checks
+    return users?.find((user) => user.id === userId)?.username ?? `#${userId}`;
+  };
+  
   // Filter logs based on filters
   const filteredLogs = logs ? logs.filter((log: any) => {
     // Search term filter
@@ -81,15 +93,25 @@ export default function AuditLogs() {
         return 'bg-blue-100 text-blue-800';
       case 'Delete':
         return 'bg-red-100 text-red-800';
+      case 'Login':
+      case 'Logout':
+      case 'Two-Factor Success':
+        return 'bg-slate-100 text-slate-800';
+      case 'Failed Login':
+      case 'Two-Factor Failure':
+        return 'bg-amber-100 text-amber-800';
+      case 'Lockout':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
   
-  // Handle export
-  const handleExport = () => {
-    // Implementation for exporting logs
-    console.log('Exporting logs');
+  // The export applies the same filters on the server
+  const exportParams = {
+    q: searchTerm.trim(),
+    action: actionFilter === 'all' ? undefined : actionFilter,
+    entityType: entityFilter === 'all' ? undefined : entityFilter,
   };
   
   return (
@@ -97,9 +119,7 @@ export default function AuditLogs() {
       <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between pb-3">
         <CardTitle className="text-lg font-medium">Audit Logs</CardTitle>
         <div className="mt-3 sm:mt-0">
-          <Button variant="outline" onClick={handleExport}>
-            <Download className="h-4 w-4 mr-2" /> Export Logs
-          </Button>
+          <ExportMenu label="Export Logs" datasets={[{ dataset: 'activity' }]} params={exportParams} />
         </div>
       </CardHeader>
       <CardContent>
@@ -113,6 +133,16 @@ export default function AuditLogs() {
               <SelectItem value="Create">Create</SelectItem>
               <SelectItem value="Update">Update</SelectItem>
               <SelectItem value="Delete">Delete</SelectItem>
+              <SelectItem value="Import">Import</SelectItem>
+              <SelectItem value="Export">Export</SelectItem>
+              <SelectItem value="Login">Login</SelectItem>
+              <SelectItem value="Logout">Logout</SelectItem>
+              <SelectItem value="Failed Login">Failed Login</SelectItem>
+              <SelectItem value="Lockout">Lockout</SelectItem>
+              <SelectItem value="Two-Factor Success">Two-Factor Success</SelectItem>
+              <SelectItem value="Two-Factor Failure">Two-Factor Failure</SelectItem>
+              <SelectItem value="API Token Create">API Token Create</SelectItem>
+              <SelectItem value="API Token Revoke">API Token Revoke</SelectItem>
             </SelectContent>
           </Select>
           
@@ -125,6 +155,7 @@ export default function AuditLogs() {
               <SelectItem value="User">User</SelectItem>
               <SelectItem value="InventoryItem">Inventory Item</SelectItem>
               <SelectItem value="Loan">Loan</SelectItem>
+              <SelectItem value="Borrower">Borrower</SelectItem>
               <SelectItem value="Document">Document</SelectItem>
             </SelectContent>
           </Select>
@@ -182,7 +213,7 @@ export default function AuditLogs() {
                     <TableCell className="whitespace-nowrap">
                       {format(new Date(log.timestamp), 'MMM dd, yyyy HH:mm')}
                     </TableCell>
-                    <TableCell>{log.userId}</TableCell>
+                    <TableCell>{getUserLabel(log.userId)}</TableCell>
                     <TableCell>
                       <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getActionClass(log.action)}`}>
                         {log.action}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Edit, Plus, Search, Trash } from 'lucide-react';
+import type { BorrowerSummary } from '@shared/schema';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import BorrowerDialog from '@/components/borrowers/BorrowerDialog';
+import BorrowerDetails from '@/components/borrowers/BorrowerDetails';
+
+// null: closed; 'new': adding a borrower; otherwise editing
+type DialogState = 'new' | BorrowerSummary | null;
+
+export default function Borrowers() {
+  const [location] = useLocation();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can('loans:write');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [dialog, setDialog] = useState<DialogState>(null);
+
+  // Check if we're on a sub-route
+  const borrowerId = location.startsWith('/borrowers/view/') ? location.split('/borrowers/view/')[1] : null;
+
+  const { data: borrowers = [], isLoading } = useQuery<BorrowerSummary[]>({
+    queryKey: ['/api/borrowers'],
+    enabled: !borrowerId,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (borrower: BorrowerSummary) => apiRequest('DELETE', `/api/borrowers/${borrower.id}`),
+    onSuccess: () => {
+      toast({ title: 'Success', description: 'Borrower deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/borrowers'] });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+    },
+  });
+
+  if (borrowerId) {
+    return <BorrowerDetails id={borrowerId} />;
+  }
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredBorrowers = borrowers.filter((borrower) =>
+    [borrower.name, borrower.borrowerType, borrower.email, borrower.phone, borrower.membershipNumber]
+      .some((field) => field?.toLowerCase().includes(term))
+  );
+
+  const handleDelete = (borrower: BorrowerSummary) => {
+    if (confirm(`Delete ${borrower.name}?`)) {
+      deleteMutation.mutate(borrower);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between pb-3">
+        <CardTitle className="text-lg font-medium">Borrowers</CardTitle>
+        {canEdit && (
+          <Button onClick={() => setDialog('new')}>
+            <Plus className="h-4 w-4 mr-2" /> Add Borrower
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="flex justify-end mb-4">
+          <div className="relative w-full md:w-64">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              placeholder="Search borrowers..."
+              className="pl-10"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="h-4 w-full bg-gray-200 animate-pulse rounded"></div>
+        ) : filteredBorrowers.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">
+            {borrowers.length === 0 ? 'No borrowers yet; they are added as loans are made' : 'No borrowers match your search'}
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Membership No.</TableHead>
+                  <TableHead className="text-right">Out Now</TableHead>
+                  <TableHead className="text-right">Loans</TableHead>
+                  <TableHead className="text-right">Late</TableHead>
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredBorrowers.map((borrower) => (
+                  <TableRow key={borrower.id}>
+                    <TableCell>
+                      <Link href={`/borrowers/view/${borrower.id}`} className="font-medium text-primary hover:underline">
+                        {borrower.name}
+                      </Link>
+                      {borrower.kind === 'Organization' && <Badge variant="outline" className="ml-2">Organization</Badge>}
+                      {borrower.blockedAt && <Badge variant="destructive" className="ml-2">Blocked</Badge>}
+                    </TableCell>
+                    <TableCell>{borrower.borrowerType}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {[borrower.phone, borrower.email].filter(Boolean).join(', ') || '—'}
+                    </TableCell>
+                    <TableCell>{borrower.membershipNumber || '—'}</TableCell>
+                    <TableCell className="text-right">{borrower.openLoans}</TableCell>
+                    <TableCell className="text-right">{borrower.totalLoans}</TableCell>
+                    <TableCell className={`text-right ${borrower.lateLoans > 0 ? 'text-red-600' : ''}`}>{borrower.lateLoans}</TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right space-x-1 whitespace-nowrap">
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setDialog(borrower)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                          disabled={deleteMutation.isPending || borrower.totalLoans > 0}
+                          title={borrower.totalLoans > 0 ? 'Borrowers with loans on record are kept' : undefined}
+                          onClick={() => handleDelete(borrower)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <BorrowerDialog
+        open={dialog !== null}
+        borrower={dialog && dialog !== 'new' ? dialog : undefined}
+        onClose={() => setDialog(null)}
+      />
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
-import { Package, CheckCircle, Handshake, AlertTriangle } from 'lucide-react';
+import { Package, CheckCircle, Handshake, AlertTriangle, Clock } from 'lucide-react';
 import StatsCard from '@/components/stats/StatsCard';
 import CategoryDistribution from '@/components/charts/CategoryDistribution';
 import RecentActivity from '@/components/tables/RecentActivity';
@@ -8,13 +8,14 @@ import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useLocation } from 'wouter';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { InventoryStats } from '@shared/schema';
 
 export default function Dashboard() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   
   // Fetch inventory stats
-  const { data: statsData, isLoading: statsLoading } = useQuery({
+  const { data: statsData, isLoading: statsLoading } = useQuery<InventoryStats>({
     queryKey: ['/api/inventory/stats'],
   });
   
@@ -44,7 +45,7 @@ export default function Dashboard() {
   return (
     <div>
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
         <StatsCard
           title="Total Items"
           value={statsLoading ? '...' : statsData?.counts?.total || 0}
@@ -104,6 +105,18 @@ export default function Dashboard() {
             </div>
           }
         />
+        
+        <StatsCard
+          title="Overdue Loans"
+          value={statsLoading ? '...' : (statsData?.overdue?.loans || 0) + (statsData?.overdue?.loanGroups || 0)}
+          icon={<Clock className="h-5 w-5" />}
+          variant="destructive"
+          footer={
+            <button className="text-xs text-gray-600 hover:underline" onClick={() => navigate('/loans')}>
+              {statsData?.overdue?.units || 0} unit(s) past their return date
+            </button>
+          }
+        />
       </div>
 
       {/* Recent Activity & Quick Actions */}
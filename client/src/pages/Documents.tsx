@@ -15,9 +15,11 @@ import DocumentList from '@/components/documents/DocumentList';
 import DocumentForm from '@/components/documents/DocumentForm';
 import DocumentViewer from '@/components/documents/DocumentViewer';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
 
 export default function Documents() {
   const [location] = useLocation();
+  const { can } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState('all');
   
@@ -58,11 +60,13 @@ export default function Documents() {
       <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between pb-3">
         <CardTitle className="text-lg font-medium">Document Management</CardTitle>
         <div className="mt-3 sm:mt-0 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
-          <Button asChild>
-            <a href="/documents/new">
-              <PlusCircle className="h-4 w-4 mr-2" /> Create New Document
-            </a>
-          </Button>
+          {can('documents:write') && (
+            <Button asChild>
+              <a href="/documents/new">
+                <PlusCircle className="h-4 w-4 mr-2" /> Create New Document
+              </a>
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent>
@@ -76,6 +80,7 @@ export default function Documents() {
                 <SelectItem value="all">All Types</SelectItem>
                 <SelectItem value="Acquisition">Acquisition</SelectItem>
                 <SelectItem value="Loan">Loan</SelectItem>
+                <SelectItem value="Transfer">Transfer</SelectItem>
                 <SelectItem value="Other">Other</SelectItem>
               </SelectContent>
             </Select>
@@ -1,119 +1,330 @@
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { useLocation } from 'wouter';
-import { PlusCircle, Download, Search, Filter, ListFilter } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useLocation, useSearch } from 'wouter';
+import { PlusCircle, Upload, Search, ListFilter, ChevronDown, Printer, X } from 'lucide-react';
+import {
+  itemStatusEnum,
+  itemUsageEnum,
+  type Category,
+  type InventoryPage,
+  type InventorySortKey,
+} from '@shared/schema';
+import { categoryOptions } from '@shared/categories';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { 
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue 
-} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import InventoryTable from '@/components/inventory/InventoryTable';
+import ExportMenu from '@/components/ExportMenu';
 import AddItemForm from '@/components/inventory/AddItemForm';
+import ImportItemsWizard from '@/components/inventory/ImportItemsWizard';
+import PrintLabelsDialog from '@/components/inventory/PrintLabelsDialog';
 import EditItemForm from '@/components/inventory/EditItemForm';
 import ItemDetails from '@/components/inventory/ItemDetails';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+
+const PAGE_SIZE = 25;
+
+type MultiFilter = 'category' | 'status' | 'usage' | 'location';
+type RangeFilter = 'priceMin' | 'priceMax' | 'createdFrom' | 'createdTo';
+
+// The filter state lives in the URL so a filtered view can be bookmarked, shared and restored with Back
+interface InventoryFilters extends Record<MultiFilter, string[]>, Record<RangeFilter, string> {
+  q: string;
+  sort: InventorySortKey;
+  order: 'asc' | 'desc';
+  page: number;
+}
+
+function parseFilters(search: string): InventoryFilters {
+  const params = new URLSearchParams(search);
+  return {
+    q: params.get('q') ?? '',
+    category: params.getAll('category'),
+    status: params.getAll('status'),
+    usage: params.getAll('usage'),
+    location: params.getAll('location'),
+    priceMin: params.get('priceMin') ?? '',
+    priceMax: params.get('priceMax') ?? '',
+    createdFrom: params.get('createdFrom') ?? '',
+    createdTo: params.get('createdTo') ?? '',
+    sort: (params.get('sort') as InventorySortKey) || 'itemId',
+    order: params.get('order') === 'desc' ? 'desc' : 'asc',
+    page: Math.max(1, parseInt(params.get('page') ?? '1', 10) || 1),
+  };
+}
+
+// Defaults are left out so the plain /inventory URL stays clean
+function serializeFilters(filters: InventoryFilters): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== '') params.append(key, String(item));
+    }
+  }
+  if (filters.sort === 'itemId') params.delete('sort');
+  if (filters.order === 'asc') params.delete('order');
+  if (filters.page === 1) params.delete('page');
+  return params.toString();
+}
+
+function MultiSelectFilter({
+  label,
+  options,
+  selected,
+  onChange,
+}: {
+  label: string;
+  options: readonly string[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="justify-between">
+          {label}
+          {selected.length > 0 && (
+            <span className="ml-2 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+              {selected.length}
+            </span>
+          )}
+          <ChevronDown className="h-4 w-4 ml-2 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+        {options.length === 0 ? (
+          <div className="px-2 py-1.5 text-sm text-gray-500">No options</div>
+        ) : (
+          options.map((option) => (
+            <DropdownMenuCheckboxItem
+              key={option}
+              checked={selected.includes(option)}
+              onSelect={(event) => event.preventDefault()}
+              onCheckedChange={(checked) =>
+                onChange(checked ? [...selected, option] : selected.filter((value) => value !== option))
+              }
+            >
+              {option}
+            </DropdownMenuCheckboxItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
 
 export default function Inventory() {
-  const [location] = useLocation();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState('all');
-  const [statusFilter, setStatusFilter] = useState('all');
-  
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const { can } = useAuth();
+  const filters = parseFilters(search);
+  const [searchTerm, setSearchTerm] = useState(filters.q);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
   // Check if we're on a sub-route
   const isAddItem = location === '/inventory/add';
+  const isImport = location === '/inventory/import';
   const isViewItem = location.startsWith('/inventory/view/');
   const isEditItem = location.startsWith('/inventory/edit/');
+  const isList = !isAddItem && !isImport && !isViewItem && !isEditItem;
   const itemId = isViewItem ? location.split('/inventory/view/')[1] : null;
   const editItemId = isEditItem ? location.split('/inventory/edit/')[1] : null;
-  
-  // Fetch inventory items
-  const { data: items, isLoading } = useQuery({
-    queryKey: ['/api/inventory'],
+
+  // Any change other than paging starts again from the first page
+  const updateFilters = (changes: Partial<InventoryFilters>) => {
+    const next = { ...filters, page: 1, ...changes };
+    const query = serializeFilters(next);
+    navigate(query ? `/inventory?${query}` : '/inventory', { replace: true });
+  };
+
+  // Keep the box in step with the URL, e.g. after Back or clearing filters
+  useEffect(() => {
+    setSearchTerm(filters.q);
+  }, [filters.q]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!isList || searchTerm.trim() === filters.q.trim()) return;
+    const timeout = setTimeout(() => updateFilters({ q: searchTerm.trim() }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const { data, isLoading, isFetching } = useQuery<InventoryPage>({
+    queryKey: ['/api/inventory', { ...filters, pageSize: PAGE_SIZE }],
+    placeholderData: keepPreviousData,
+    enabled: isList,
+  });
+
+  const { data: locations = [] } = useQuery<string[]>({
+    queryKey: ['/api/inventory/locations'],
+    staleTime: 0,
+    enabled: isList,
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+    enabled: isList,
   });
-  
-  // Filter items based on search term and filters
-  const filteredItems = items ? items.filter((item: any) => {
-    // Search term filter
-    const matchesSearch = 
-      (item.itemId && item.itemId.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (item.name && item.name.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (item.model && item.model.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (item.location && item.location.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    // Category filter
-    const matchesCategory = categoryFilter === 'all' || item.category === categoryFilter;
-    
-    // Status filter
-    const matchesStatus = statusFilter === 'all' || item.status === statusFilter;
-    
-    return matchesSearch && matchesCategory && matchesStatus;
-  }) : [];
-  
+
+  // A page past the end (e.g. after deleting the last items on it) falls back to the last page
+  useEffect(() => {
+    if (data && filters.page > data.totalPages) {
+      updateFilters({ page: data.totalPages });
+    }
+  }, [data, filters.page]);
+
+  const rangeFilterCount = (['priceMin', 'priceMax', 'createdFrom', 'createdTo'] as const)
+    .filter((key) => filters[key] !== '').length;
+  const hasFilters = filters.q !== '' || rangeFilterCount > 0 ||
+    (['category', 'status', 'usage', 'location'] as const).some((key) => filters[key].length > 0);
+
   if (isAddItem) {
     return <AddItemForm />;
   }
-  
+
+  if (isImport) {
+    return <ImportItemsWizard />;
+  }
+
   if (isViewItem && itemId) {
     return <ItemDetails id={itemId} />;
   }
-  
+
   if (isEditItem && editItemId) {
     return <EditItemForm id={editItemId} />;
   }
-  
+
   return (
     <Card>
       <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between pb-3">
         <CardTitle className="text-lg font-medium">Inventory Management</CardTitle>
         <div className="mt-3 sm:mt-0 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
-          <Button asChild>
-            <a href="/inventory/add">
-              <PlusCircle className="h-4 w-4 mr-2" /> Add Item
-            </a>
-          </Button>
-          <Button variant="outline">
-            <Download className="h-4 w-4 mr-2" /> Export
-          </Button>
+          {can('inventory:write') && (
+            <>
+              <Button asChild>
+                <a href="/inventory/add">
+                  <PlusCircle className="h-4 w-4 mr-2" /> Add Item
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href="/inventory/import">
+                  <Upload className="h-4 w-4 mr-2" /> Import
+                </a>
+              </Button>
+            </>
+          )}
+          {selectedIds.length > 0 && (
+            <>
+              <PrintLabelsDialog itemIds={selectedIds}>
+                <Button variant="outline">
+                  <Printer className="h-4 w-4 mr-2" /> Print Labels ({selectedIds.length})
+                </Button>
+              </PrintLabelsDialog>
+              <Button variant="ghost" onClick={() => setSelectedIds([])}>
+                Clear selection
+              </Button>
+            </>
+          )}
+          <ExportMenu datasets={[{ dataset: 'inventory' }]} params={{ ...filters, page: undefined }} />
         </div>
       </CardHeader>
       <CardContent>
-        <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-3 md:space-y-0 mb-4">
-          <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
-            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
-              <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Category" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Categories</SelectItem>
-                <SelectItem value="Electronics">Electronics</SelectItem>
-                <SelectItem value="Equipment">Equipment</SelectItem>
-                <SelectItem value="Tools">Tools</SelectItem>
-                <SelectItem value="Furniture">Furniture</SelectItem>
-                <SelectItem value="Software">Software</SelectItem>
-                <SelectItem value="Other">Other</SelectItem>
-              </SelectContent>
-            </Select>
-            
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
-              <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="Available">Available</SelectItem>
-                <SelectItem value="In Use">In Use</SelectItem>
-                <SelectItem value="Loaned Out">Loaned Out</SelectItem>
-                <SelectItem value="Damaged">Damaged</SelectItem>
-                <SelectItem value="Maintenance">Maintenance</SelectItem>
-              </SelectContent>
-            </Select>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between space-y-3 md:space-y-0 md:space-x-4 mb-4">
+          <div className="flex flex-wrap gap-2">
+            <MultiSelectFilter
+              label="Category"
+              options={categoryOptions(categories).map((option) => option.name)}
+              selected={filters.category}
+              onChange={(category) => updateFilters({ category })}
+            />
+            <MultiSelectFilter
+              label="Status"
+              options={itemStatusEnum.options}
+              selected={filters.status}
+              onChange={(status) => updateFilters({ status })}
+            />
+            <MultiSelectFilter
+              label="Usage"
+              options={itemUsageEnum.options}
+              selected={filters.usage}
+              onChange={(usage) => updateFilters({ usage })}
+            />
+            <MultiSelectFilter
+              label="Location"
+              options={locations}
+              selected={filters.location}
+              onChange={(location) => updateFilters({ location })}
+            />
+
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline">
+                  <ListFilter className="h-4 w-4 mr-2" /> More
+                  {rangeFilterCount > 0 && (
+                    <span className="ml-2 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+                      {rangeFilterCount}
+                    </span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-72 space-y-4">
+                <div className="space-y-2">
+                  <Label>Price (€)</Label>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder="Min"
+                      value={filters.priceMin}
+                      onChange={(e) => updateFilters({ priceMin: e.target.value })}
+                    />
+                    <span className="text-gray-500">–</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder="Max"
+                      value={filters.priceMax}
+                      onChange={(e) => updateFilters({ priceMax: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Added between</Label>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="date"
+                      value={filters.createdFrom}
+                      onChange={(e) => updateFilters({ createdFrom: e.target.value })}
+                    />
+                    <span className="text-gray-500">–</span>
+                    <Input
+                      type="date"
+                      value={filters.createdTo}
+                      onChange={(e) => updateFilters({ createdTo: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </PopoverContent>
+            </Popover>
+
+            {hasFilters && (
+              <Button variant="ghost" onClick={() => navigate('/inventory', { replace: true })}>
+                <X className="h-4 w-4 mr-2" /> Clear
+              </Button>
+            )}
           </div>
-          
-          <div className="relative w-full md:w-64">
+
+          <div className="relative w-full md:w-64 shrink-0">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
             <Input
               placeholder="Search inventory..."
@@ -123,10 +334,21 @@ export default function Inventory() {
             />
           </div>
         </div>
-        
-        <InventoryTable 
-          items={filteredItems} 
-          isLoading={isLoading} 
+
+        <InventoryTable
+          items={data?.items}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          page={data?.page ?? filters.page}
+          pageSize={PAGE_SIZE}
+          total={data?.total ?? 0}
+          totalPages={data?.totalPages ?? 1}
+          onPageChange={(page) => updateFilters({ page })}
+          sort={filters.sort}
+          order={filters.order}
+          onSortChange={(sort, order) => updateFilters({ sort, order })}
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
         />
       </CardContent>
     </Card>
@@ -1,10 +1,9 @@
 import { useState } from 'react';
-import { useLocation } from 'wouter';
-import { useQuery, useMutation } from '@tanstack/react-query';
-import { queryClient, apiRequest } from '@/lib/queryClient';
-import { useToast } from '@/hooks/use-toast';
-import { PlusCircle, Download, Search, Package, Users, Eye, FileText } from 'lucide-react';
-import { format, isAfter, parseISO } from 'date-fns';
+import { Link, useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { PlusCircle, Search, Package, Users, Eye, FileText, ScanLine } from 'lucide-react';
+import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -15,8 +14,17 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import LoanTable from '@/components/loans/LoanTable';
+import LoanStatusBadge, { withPartialReturns } from '@/components/loans/LoanStatusBadge';
+import LoanReturnHistory from '@/components/loans/LoanReturnHistory';
+import BorrowerHistory from '@/components/loans/BorrowerHistory';
+import ReturnLoanDialog from '@/components/loans/ReturnLoanDialog';
+import ExtendLoanDialog from '@/components/loans/ExtendLoanDialog';
+import LoanExtensionHistory from '@/components/loans/LoanExtensionHistory';
+import PendingExtensions from '@/components/loans/PendingExtensions';
 import LoanForm from '@/components/loans/LoanForm';
 import MultiItemLoanForm from '@/components/loans/MultiItemLoanForm';
+import ReturnItems from '@/components/loans/ReturnItems';
+import ExportMenu from '@/components/ExportMenu';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   DropdownMenu,
@@ -35,7 +43,6 @@ import {
 } from "@/components/ui/table";
 import {
   AlertDialog,
-  AlertDialogAction,
   AlertDialogCancel,
   AlertDialogContent,
   AlertDialogDescription,
@@ -49,13 +56,15 @@ export default function Loans() {
   const [location] = useLocation();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
-  const { toast } = useToast();
+  const { can } = useAuth();
   
   // Check if we're on a sub-route
   const isNewLoan = location === '/loans/new' || location.startsWith('/loans/new?');
   const isMultiItemLoan = location === '/loans/new-multi' || location.startsWith('/loans/new-multi?');
+  const isReturn = location === '/loans/return';
   const itemIdParam = new URLSearchParams(location.split('?')[1]).get('itemId');
   const [returnLoanGroupId, setReturnLoanGroupId] = useState<number | null>(null);
+  const [extendLoanGroupId, setExtendLoanGroupId] = useState<number | null>(null);
   
   // Fetch individual loans
   const { data: loans, isLoading: isLoadingLoans } = useQuery({
@@ -67,37 +76,12 @@ export default function Loans() {
     queryKey: ['/api/loan-groups'],
   });
   
-  // Return loan group mutation
-  const returnLoanGroup = useMutation({
-    mutationFn: async (id: number) => {
-      const response = await apiRequest('PUT', `/api/loan-groups/${id}/return`, {
-        actualReturnDate: new Date()
-      });
-      return response.json();
-    },
-    onSuccess: () => {
-      // Invalidate relevant queries
-      queryClient.invalidateQueries({ queryKey: ['/api/loan-groups'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/loans'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
-      
-      toast({
-        title: 'Items Returned',
-        description: 'All items in this loan group have been marked as returned and are now available.',
-      });
-      
-      setReturnLoanGroupId(null);
-    },
-    onError: (error) => {
-      toast({
-        title: 'Error',
-        description: 'Failed to return the items. Please try again.',
-        variant: 'destructive',
-      });
-      console.error('Error returning loan group:', error);
-    },
-  });
+  const returnGroup = Array.isArray(loanGroups)
+    ? loanGroups.find((group: any) => group.id === returnLoanGroupId)
+    : undefined;
+  const extendGroup = Array.isArray(loanGroups)
+    ? loanGroups.find((group: any) => group.id === extendLoanGroupId)
+    : undefined;
   
   // Filter individual loans based on search term and status filter
   const filteredLoans = Array.isArray(loans) ? loans.filter((loan: any) => {
@@ -108,7 +92,7 @@ export default function Loans() {
       loan.itemId?.toString().includes(searchTerm);
     
     // Status filter
-    const matchesStatus = statusFilter === 'all' || loan.status === statusFilter;
+    const matchesStatus = statusFilter === 'all' || withPartialReturns(loan.status, [loan]) === statusFilter;
     
     return matchesSearch && matchesStatus;
   }) : [];
@@ -121,8 +105,8 @@ export default function Loans() {
       group.borrowerContact?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       group.loanGroupId?.includes(searchTerm);
     
-    // Status filter
-    const matchesStatus = statusFilter === 'all' || group.status === statusFilter;
+    // Status filter, on the status derived from the group's lines
+    const matchesStatus = statusFilter === 'all' || withPartialReturns(group.status, group.items) === statusFilter;
     
     return matchesSearch && matchesStatus;
   }) : [];
@@ -135,38 +119,58 @@ export default function Loans() {
     return <MultiItemLoanForm preselectedItemId={itemIdParam ? parseInt(itemIdParam) : undefined} />;
   }
   
+  if (isReturn) {
+    return <ReturnItems />;
+  }
+  
   return (
     <Card>
       <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between pb-3">
         <CardTitle className="text-lg font-medium">Loan Management</CardTitle>
         <div className="mt-3 sm:mt-0 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button>
-                <PlusCircle className="h-4 w-4 mr-2" /> Process New Loan
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem asChild>
-                <a href="/loans/new" className="flex items-center cursor-pointer">
-                  <FileText className="h-4 w-4 mr-2" />
-                  Single Item Loan
-                </a>
-              </DropdownMenuItem>
-              <DropdownMenuItem asChild>
-                <a href="/loans/new-multi" className="flex items-center cursor-pointer">
-                  <Package className="h-4 w-4 mr-2" />
-                  Multi-Item Loan
-                </a>
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
-          <Button variant="outline">
-            <Download className="h-4 w-4 mr-2" /> Export Loan Records
-          </Button>
+          {can('loans:write') && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button>
+                  <PlusCircle className="h-4 w-4 mr-2" /> Process New Loan
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <a href="/loans/new" className="flex items-center cursor-pointer">
+                    <FileText className="h-4 w-4 mr-2" />
+                    Single Item Loan
+                  </a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href="/loans/new-multi" className="flex items-center cursor-pointer">
+                    <Package className="h-4 w-4 mr-2" />
+                    Multi-Item Loan
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {can('loans:return') && (
+            <Button variant="outline" asChild>
+              <a href="/loans/return">
+                <ScanLine className="h-4 w-4 mr-2" /> Return Items
+              </a>
+            </Button>
+          )}
+          <ExportMenu
+            label="Export Loan Records"
+            datasets={[
+              { dataset: 'loans', label: 'Individual Loans' },
+              { dataset: 'loan-groups', label: 'Multi-Item Loans' },
+            ]}
+            params={{ q: searchTerm.trim(), status: statusFilter === 'all' ? undefined : statusFilter }}
+          />
         </div>
       </CardHeader>
       <CardContent>
+        {can('loans:approve') && <PendingExtensions />}
+        
         <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-3 md:space-y-0 mb-4">
           <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
             <Select value={statusFilter} onValueChange={setStatusFilter}>
@@ -176,6 +180,7 @@ export default function Loans() {
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="Ongoing">Ongoing</SelectItem>
+                <SelectItem value="Partially Returned">Partially Returned</SelectItem>
                 <SelectItem value="Returned">Returned</SelectItem>
                 <SelectItem value="Overdue">Overdue</SelectItem>
               </SelectContent>
@@ -273,7 +278,7 @@ export default function Loans() {
                         </TableCell>
                         <TableCell>
                           <span className="px-2.5 py-1 bg-blue-100 text-blue-800 rounded-full text-xs font-medium">
-                            {Array.isArray(group.items) ? group.items.length : "?"} items
+                            {group.items.length} items
                           </span>
                         </TableCell>
                         <TableCell>
@@ -283,19 +288,13 @@ export default function Loans() {
                           {group.expectedReturnDate ? format(new Date(group.expectedReturnDate), 'MMM dd, yyyy') : '—'}
                         </TableCell>
                         <TableCell>
-                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                            group.status === 'Returned' 
-                              ? 'bg-green-100 text-green-800' 
-                              : group.expectedReturnDate && isAfter(new Date(), new Date(group.expectedReturnDate))
-                              ? 'bg-red-100 text-red-800'
-                              : 'bg-amber-100 text-amber-800'
-                          }`}>
-                            {group.status === 'Returned' 
-                              ? 'Returned' 
-                              : group.expectedReturnDate && isAfter(new Date(), new Date(group.expectedReturnDate))
-                              ? 'Overdue'
-                              : 'Ongoing'}
-                          </span>
+                          <LoanStatusBadge status={withPartialReturns(group.status, group.items)} expectedReturnDate={group.expectedReturnDate} />
+                          {group.status !== 'Returned' && group.items.some((loan: any) => loan.quantityReturned > 0) && (
+                            <p className="text-xs text-gray-500 mt-0.5">
+                              {group.items.reduce((sum: number, loan: any) => sum + loan.quantityReturned, 0)} of{' '}
+                              {group.items.reduce((sum: number, loan: any) => sum + loan.quantityLoaned, 0)} units returned
+                            </p>
+                          )}
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end space-x-2">
@@ -322,25 +321,17 @@ export default function Loans() {
                                             ID: {group.loanGroupId}
                                           </p>
                                           <p className="text-sm text-gray-600">
-                                            Status: <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                                              group.status === 'Returned' 
-                                                ? 'bg-green-100 text-green-800' 
-                                                : group.expectedReturnDate && isAfter(new Date(), new Date(group.expectedReturnDate))
-                                                ? 'bg-red-100 text-red-800'
-                                                : 'bg-amber-100 text-amber-800'
-                                            }`}>
-                                              {group.status === 'Returned' 
-                                                ? 'Returned' 
-                                                : group.expectedReturnDate && isAfter(new Date(), new Date(group.expectedReturnDate))
-                                                ? 'Overdue'
-                                                : 'Ongoing'}
-                                            </span>
+                                            Status: <LoanStatusBadge status={withPartialReturns(group.status, group.items)} />
                                           </p>
                                         </div>
                                         <div>
                                           <h4 className="font-semibold text-gray-900">Borrower Information</h4>
                                           <p className="text-sm text-gray-600">
-                                            Name: {group.borrowerName}
+                                            Name: {group.borrowerId ? (
+                                              <Link href={`/borrowers/view/${group.borrowerId}`} className="text-primary hover:underline">
+                                                {group.borrowerName}
+                                              </Link>
+                                            ) : group.borrowerName}
                                           </p>
                                           <p className="text-sm text-gray-600">
                                             Type: {group.borrowerType}
@@ -362,11 +353,16 @@ export default function Loans() {
                                           <p className="text-sm text-gray-600">
                                             Expected Return: {group.expectedReturnDate ? format(new Date(group.expectedReturnDate), 'MMM dd, yyyy') : '—'}
                                           </p>
+                                          {group.originalExpectedReturnDate && (
+                                            <p className="text-sm text-gray-600">
+                                              Originally Due: {format(new Date(group.originalExpectedReturnDate), 'MMM dd, yyyy')}
+                                            </p>
+                                          )}
                                         </div>
                                         <div>
                                           <h4 className="font-semibold text-gray-900">Items Count</h4>
                                           <p className="text-sm text-gray-600">
-                                            Total Items: {Array.isArray(group.items) ? group.items.length : "Unknown"}
+                                            Total Items: {group.items.length}
                                           </p>
                                         </div>
                                       </div>
@@ -387,36 +383,34 @@ export default function Loans() {
                                                 <TableHead className="w-[100px]">Item ID</TableHead>
                                                 <TableHead>Name</TableHead>
                                                 <TableHead>Quantity</TableHead>
+                                                <TableHead>Returned</TableHead>
                                                 <TableHead>Status</TableHead>
                                               </TableRow>
                                             </TableHeader>
                                             <TableBody>
-                                              {Array.isArray(group.items) && group.items.length > 0 ? (
-                                                group.items.map((item: any, idx: number) => (
-                                                  <TableRow key={idx}>
+                                              {group.items.length > 0 ? (
+                                                group.items.map((loan: any) => (
+                                                  <TableRow key={loan.id}>
                                                     <TableCell className="font-medium">
-                                                      {item.itemId || `Item #${item.id}`}
+                                                      {loan.item.itemId}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                      {loan.item.name}
                                                     </TableCell>
                                                     <TableCell>
-                                                      {item.name || 'Unknown Item'}
+                                                      {loan.quantityLoaned || 1}
                                                     </TableCell>
                                                     <TableCell>
-                                                      {item.quantityLoaned || 1}
+                                                      {loan.quantityReturned}
                                                     </TableCell>
                                                     <TableCell>
-                                                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                                                        item.status === 'Returned' 
-                                                          ? 'bg-green-100 text-green-800' 
-                                                          : 'bg-amber-100 text-amber-800'
-                                                      }`}>
-                                                        {item.status || 'Ongoing'}
-                                                      </span>
+                                                      <LoanStatusBadge status={withPartialReturns(loan.status, [loan])} />
                                                     </TableCell>
                                                   </TableRow>
                                                 ))
                                               ) : (
                                                 <TableRow>
-                                                  <TableCell colSpan={4} className="h-24 text-center">
+                                                  <TableCell colSpan={5} className="h-24 text-center">
                                                     No items found for this loan group.
                                                   </TableCell>
                                                 </TableRow>
@@ -425,6 +419,25 @@ export default function Loans() {
                                           </Table>
                                         </div>
                                       </div>
+                                      
+                                      <div>
+                                        <h4 className="font-semibold text-gray-900 mb-2">Returns</h4>
+                                        <LoanReturnHistory url={`/api/loan-groups/${group.id}/returns`} />
+                                      </div>
+                                      
+                                      <div>
+                                        <h4 className="font-semibold text-gray-900 mb-2">Extensions</h4>
+                                        <LoanExtensionHistory url={`/api/loan-groups/${group.id}/extensions`} />
+                                      </div>
+
+                                      <div>
+                                        <h4 className="font-semibold text-gray-900 mb-2">Borrower History</h4>
+                                        <BorrowerHistory
+                                          borrowerId={group.borrowerId}
+                                          borrowerName={group.borrowerName}
+                                          excludeLoanIds={group.items.map((loan: any) => loan.id)}
+                                        />
+                                      </div>
                                     </div>
                                   </AlertDialogDescription>
                                 </AlertDialogHeader>
@@ -434,36 +447,25 @@ export default function Loans() {
                               </AlertDialogContent>
                             </AlertDialog>
                             
-                            {group.status !== 'Returned' ? (
-                              <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                  <Button 
-                                    variant="outline" 
-                                    size="sm" 
-                                    className="text-green-600 hover:text-green-700"
-                                  >
-                                    Return All Items
-                                  </Button>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>Return All Items</AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      Are you sure you want to mark all items in this loan group as returned? 
-                                      This will update the inventory status for all loaned items.
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                    <AlertDialogAction 
-                                      onClick={() => returnLoanGroup.mutate(group.id)}
-                                      className="bg-green-600 hover:bg-green-700"
-                                    >
-                                      Return All Items
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
+                            {group.status !== 'Returned' && can('loans:write') && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setExtendLoanGroupId(group.id)}
+                              >
+                                Extend
+                              </Button>
+                            )}
+                            
+                            {group.status !== 'Returned' ? can('loans:return') && (
+                              <Button 
+                                variant="outline" 
+                                size="sm" 
+                                className="text-green-600 hover:text-green-700"
+                                onClick={() => setReturnLoanGroupId(group.id)}
+                              >
+                                Return Items
+                              </Button>
                             ) : (
                               <Button 
                                 variant="outline" 
@@ -489,6 +491,21 @@ export default function Loans() {
             </div>
           </TabsContent>
         </Tabs>
+        
+        <ReturnLoanDialog
+          target={returnGroup ? { loanGroupId: returnGroup.id, code: returnGroup.loanGroupId } : null}
+          lines={returnGroup ? returnGroup.items.map((loan: any) => ({
+            loanId: loan.id,
+            label: `${loan.item.itemId} - ${loan.item.name}`,
+            quantityLoaned: loan.quantityLoaned,
+            quantityReturned: loan.quantityReturned,
+          })) : []}
+          onClose={() => setReturnLoanGroupId(null)}
+        />
+        <ExtendLoanDialog
+          target={extendGroup ? { loanGroupId: extendGroup.id, code: extendGroup.loanGroupId, dueDate: extendGroup.expectedReturnDate } : null}
+          onClose={() => setExtendLoanGroupId(null)}
+        />
       </CardContent>
     </Card>
   );
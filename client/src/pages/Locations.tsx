@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Edit, MapPin, Plus, Trash } from 'lucide-react';
+import type { Location, LocationStockLine } from '@shared/schema';
+import { childKind, locationAncestry, locationOptions, locationPath } from '@shared/locations';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+type LocationForm = { name: string; notes: string };
+
+// null: closed; { parent }: adding a location under parent (undefined for a site); otherwise editing
+type DialogState = { parent?: Location } | Location | null;
+
+export default function Locations() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can('inventory:write');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [form, setForm] = useState<LocationForm>({ name: '', notes: '' });
+
+  const { data: locations = [], isLoading } = useQuery<Location[]>({
+    queryKey: ['/api/locations'],
+  });
+  const { data: stock = [], isLoading: isStockLoading } = useQuery<LocationStockLine[]>({
+    queryKey: [`/api/locations/${selectedId}/stock`],
+    enabled: selectedId !== null,
+    // Items move between locations elsewhere in the app
+    staleTime: 0,
+  });
+
+  const editing = dialog && 'id' in dialog ? dialog : null;
+  const parent = dialog && !('id' in dialog) ? dialog.parent : undefined;
+
+  const showError = (error: unknown) => {
+    toast({ title: 'Error', description: parseApiError(error).message, variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: LocationForm) => {
+      const body = { name: values.name.trim(), notes: values.notes.trim() || null };
+      if (editing) {
+        return apiRequest('PUT', `/api/locations/${editing.id}`, body);
+      }
+      return apiRequest('POST', '/api/locations', { ...body, parentId: parent?.id ?? null });
+    },
+    onSuccess: () => {
+      toast({ title: 'Success', description: editing ? 'Location updated' : 'Location added' });
+      queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
+      // Renaming changes the location shown on items
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      setDialog(null);
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (location: Location) => apiRequest('DELETE', `/api/locations/${location.id}`),
+    onSuccess: (_, location) => {
+      toast({ title: 'Success', description: 'Location deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
+      if (selectedId === location.id) setSelectedId(null);
+    },
+    onError: showError,
+  });
+
+  const openDialog = (target: DialogState) => {
+    setForm(target && 'id' in target ? { name: target.name, notes: target.notes ?? '' } : { name: '', notes: '' });
+    setDialog(target);
+  };
+
+  const handleDelete = (location: Location) => {
+    if (confirm(`Delete ${locationPath(locations, location.id)}?`)) {
+      deleteMutation.mutate(location);
+    }
+  };
+
+  const byId = new Map(locations.map((location) => [location.id, location]));
+  const selected = selectedId !== null ? byId.get(selectedId) : undefined;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between pb-3">
+          <CardTitle className="text-lg font-medium">Locations</CardTitle>
+          {canEdit && (
+            <Button onClick={() => openDialog({})}>
+              <Plus className="h-4 w-4 mr-2" /> Add Site
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-500 mb-4">
+            Sites contain rooms and rooms contain shelves or bins. Select a location to see what is kept there.
+          </p>
+          {isLoading ? (
+            <div className="h-4 w-full bg-gray-200 animate-pulse rounded"></div>
+          ) : locations.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No locations yet</p>
+          ) : (
+            <div className="rounded-md border divide-y">
+              {locationOptions(locations).map((option) => {
+                const location = byId.get(option.id)!;
+                const depth = locationAncestry(locations, location.id).length - 1;
+                const kind = childKind(location);
+                return (
+                  <div
+                    key={location.id}
+                    className={`flex items-center justify-between px-3 py-2 cursor-pointer hover:bg-gray-50 ${
+                      selectedId === location.id ? 'bg-gray-100' : ''
+                    }`}
+                    style={{ paddingLeft: `${0.75 + depth * 1.5}rem` }}
+                    onClick={() => setSelectedId(location.id)}
+                  >
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <MapPin className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                      <span className="font-medium truncate">{location.name}</span>
+                      <Badge variant="outline">{location.kind}</Badge>
+                      {location.notes && <span className="text-sm text-gray-500 truncate">{location.notes}</span>}
+                    </div>
+                    {canEdit && (
+                      <div className="flex space-x-1" onClick={(e) => e.stopPropagation()}>
+                        {kind && (
+                          <Button variant="ghost" size="sm" className="h-8" onClick={() => openDialog({ parent: location })}>
+                            <Plus className="h-4 w-4 mr-1" /> {kind}
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openDialog(location)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => handleDelete(location)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg font-medium">Stock at {locationPath(locations, selected.id)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isStockLoading ? (
+              <div className="h-4 w-full bg-gray-200 animate-pulse rounded"></div>
+            ) : stock.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">Nothing is kept here</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item ID</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stock.map((line) => (
+                      <TableRow key={`${line.item.id}-${line.locationId}`}>
+                        <TableCell className="font-mono">{line.item.itemId}</TableCell>
+                        <TableCell>
+                          <Link href={`/inventory/view/${line.item.id}`} className="text-primary hover:underline">
+                            {line.item.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{line.path}</TableCell>
+                        <TableCell className="text-right">{line.quantity}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? `Edit ${editing.kind}` : `Add ${childKind(parent)}`}
+            </DialogTitle>
+            {parent && <DialogDescription>Inside {locationPath(locations, parent.id)}</DialogDescription>}
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="location-name">Name</Label>
+              <Input
+                id="location-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-notes">Notes</Label>
+              <Textarea
+                id="location-notes"
+                rows={2}
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setDialog(null)}>
+                Cancel
+              </Button>
+              <Button onClick={() => saveMutation.mutate(form)} disabled={!form.name.trim() || saveMutation.isPending}>
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -21,6 +21,8 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { parseApiError } from '@/lib/queryClient';
 
 const loginSchema = z.object({
   username: z.string().min(1, 'Username is required'),
@@ -28,8 +30,13 @@ const loginSchema = z.object({
 });
 
 export default function Login() {
-  const { login, isLoading } = useAuth();
+  const { login, verifyTwoFactor, isLoading } = useAuth();
   const [error, setError] = useState('');
+  // Second step, shown when the account has two-factor authentication enabled
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
 
   const form = useForm<z.infer<typeof loginSchema>>({
     resolver: zodResolver(loginSchema),
@@ -42,12 +49,41 @@ export default function Login() {
   const onSubmit = async (values: z.infer<typeof loginSchema>) => {
     setError('');
     try {
-      await login(values.username, values.password);
+      const { twoFactorRequired } = await login(values.username, values.password);
+      if (twoFactorRequired) {
+        setTwoFactorStep(true);
+      }
     } catch (err) {
-      setError('Invalid username or password');
+      // The server answers with a generic message, or how long a lockout lasts
+      setError(parseApiError(err).message || 'Invalid username or password');
     }
   };
 
+  const onVerify = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError('');
+    try {
+      await verifyTwoFactor(useRecoveryCode ? { recoveryCode } : { code });
+    } catch (err) {
+      const { message, body } = parseApiError(err);
+      if (body?.code === 'TWO_FACTOR_EXPIRED') {
+        // Start over from the password
+        setTwoFactorStep(false);
+        form.reset();
+      }
+      setCode('');
+      setError(message || 'Invalid code');
+    }
+  };
+
+  const backToCredentials = () => {
+    setTwoFactorStep(false);
+    setUseRecoveryCode(false);
+    setCode('');
+    setRecoveryCode('');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <Card className="w-full max-w-md">
@@ -59,7 +95,11 @@ export default function Login() {
           </div>
           <CardTitle className="text-2xl font-bold">BONEVET Inventory</CardTitle>
           <CardDescription>
-            Enter your credentials to access the inventory system
+            {twoFactorStep
+              ? useRecoveryCode
+                ? 'Enter one of your recovery codes'
+                : 'Enter the 6-digit code from your authenticator app'
+              : 'Enter your credentials to access the inventory system'}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -68,52 +108,105 @@ export default function Login() {
               {error}
             </div>
           )}
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="Enter your username"
-                        {...field}
-                        disabled={isLoading}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="password"
-                        placeholder="Enter your password"
-                        {...field}
-                        disabled={isLoading}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+          {twoFactorStep ? (
+            <form onSubmit={onVerify} className="space-y-4">
+              {useRecoveryCode ? (
+                <Input
+                  placeholder="xxxxx-xxxxx"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  disabled={isLoading}
+                  autoFocus
+                />
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    value={code}
+                    onChange={setCode}
+                    disabled={isLoading}
+                    autoFocus
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
               <Button
                 type="submit"
                 className="w-full"
-                disabled={isLoading}
+                disabled={isLoading || (useRecoveryCode ? !recoveryCode : code.length !== 6)}
               >
-                {isLoading ? 'Logging in...' : 'Log In'}
+                {isLoading ? 'Verifying...' : 'Verify'}
               </Button>
+              <div className="flex justify-between text-sm">
+                <Button type="button" variant="link" className="px-0" onClick={backToCredentials}>
+                  Back
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="px-0"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setError('');
+                  }}
+                >
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                </Button>
+              </div>
             </form>
-          </Form>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Enter your username"
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="Enter your password"
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Logging in...' : 'Log In'}
+                </Button>
+              </form>
+            </Form>
+          )}
         </CardContent>
         <CardFooter className="text-center text-sm text-gray-500">
           <p className="w-full">Default credentials: admin / admin123</p>
@@ -1,5 +1,6 @@
 import { useRequireAuth } from '@/hooks/useAuth';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
 import { 
   Card, 
   CardContent, 
@@ -29,18 +30,41 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useToast } from '@/hooks/use-toast';
-import { useTheme } from '@/contexts/ThemeContext';
-import { Monitor, Moon, Sun } from 'lucide-react';
+import { useTheme, accentColors } from '@/contexts/ThemeContext';
+import { useSettings } from '@/hooks/useSettings';
+import { apiRequest, parseApiError, queryClient } from '@/lib/queryClient';
+import {
+  accentColorEnum,
+  organizationSettingsSchema,
+  type AppSettings,
+  type NotificationSettings,
+  type UpdateAppSettings,
+} from '@shared/schema';
+import { Monitor, Moon, Sun, ShieldAlert } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import ChangePasswordForm from '@/components/settings/ChangePasswordForm';
+import SessionList from '@/components/settings/SessionList';
+import TwoFactorSettings from '@/components/settings/TwoFactorSettings';
+import ApiTokenList from '@/components/settings/ApiTokenList';
+import ItemIdSettingsForm from '@/components/settings/ItemIdSettingsForm';
+import CategorySettings from '@/components/settings/CategorySettings';
+import LendingRulesForm from '@/components/settings/LendingRulesForm';
+import { downloadExport } from '@/components/ExportMenu';
 
 // Settings form schema
-const generalSettingsSchema = z.object({
-  organizationName: z.string().min(1, "Organization name is required"),
-  organizationPrefix: z.string().min(1, "Prefix is required").max(5, "Prefix cannot be longer than 5 characters"),
-  contactEmail: z.string().email("Must be a valid email"),
-  enableNotifications: z.boolean().default(true),
-  enableAuditLogs: z.boolean().default(true)
+const generalSettingsSchema = organizationSettingsSchema.pick({
+  organizationName: true,
+  contactEmail: true,
+  enableAuditLogs: true
 });
 
+const notificationOptions: { key: Exclude<keyof NotificationSettings, 'enabled'>; label: string; description: string }[] = [
+  { key: 'loanReminders', label: 'Loan Reminders', description: 'Receive notifications when loans are due' },
+  { key: 'inventoryAlerts', label: 'Inventory Alerts', description: 'Notifications for low stock or maintenance' },
+  { key: 'documentUpdates', label: 'Document Updates', description: 'Alerts when documents need signatures' },
+  { key: 'userActivity', label: 'User Activity', description: 'Notifications about user actions' },
+];
+
 function ThemeSelector() {
   const { theme, setTheme } = useTheme();
 
@@ -78,29 +102,62 @@ function ThemeSelector() {
 }
 
 export default function Settings() {
-  const { user } = useRequireAuth('admin'); // Require admin role
+  const { user, can } = useRequireAuth();
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState('general');
+  const canManageSettings = can('settings:manage');
+  const twoFactorSetupOwed = !!user?.twoFactorRequired && !user?.twoFactorEnabled;
+  const setupOwed = !!user?.mustChangePassword || twoFactorSetupOwed;
+  const [activeTab, setActiveTab] = useState(canManageSettings && !setupOwed ? 'general' : 'account');
+  const { settings } = useSettings();
+  const [notifications, setNotifications] = useState<NotificationSettings>(settings.notifications);
+  const [accentColor, setAccentColor] = useState(settings.organization.accentColor);
   
   // General settings form
   const generalForm = useForm<z.infer<typeof generalSettingsSchema>>({
     resolver: zodResolver(generalSettingsSchema),
     defaultValues: {
-      organizationName: 'BONEVET Gjakova',
-      organizationPrefix: 'BVGJK',
-      contactEmail: 'admin@bonevet.org',
-      enableNotifications: true,
-      enableAuditLogs: true
+      organizationName: settings.organization.organizationName,
+      contactEmail: settings.organization.contactEmail,
+      enableAuditLogs: settings.organization.enableAuditLogs
+    }
+  });
+  
+  // Keep the forms in step with the saved settings once they load
+  useEffect(() => {
+    generalForm.reset({
+      organizationName: settings.organization.organizationName,
+      contactEmail: settings.organization.contactEmail,
+      enableAuditLogs: settings.organization.enableAuditLogs
+    });
+    setNotifications(settings.notifications);
+    setAccentColor(settings.organization.accentColor);
+  }, [settings, generalForm]);
+  
+  const saveSettings = useMutation({
+    mutationFn: async (changes: UpdateAppSettings) => {
+      const response = await apiRequest('PUT', '/api/settings', changes);
+      return response.json() as Promise<AppSettings>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/settings'], data);
+      queryClient.invalidateQueries({ queryKey: ['/api/activity/recent'] });
+      toast({
+        title: "Settings Updated",
+        description: "Your settings have been saved successfully."
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message || "Failed to save settings.",
+        variant: "destructive"
+      });
     }
   });
   
   // Handle form submissions
   const onGeneralSubmit = (values: z.infer<typeof generalSettingsSchema>) => {
-    console.log("General settings:", values);
-    toast({
-      title: "Settings Updated",
-      description: "Your settings have been saved successfully."
-    });
+    saveSettings.mutate({ organization: values });
   };
   
   return (
@@ -114,12 +171,91 @@ export default function Settings() {
       
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList>
-          <TabsTrigger value="general">General</TabsTrigger>
+          {canManageSettings && <TabsTrigger value="general">General</TabsTrigger>}
+          {canManageSettings && <TabsTrigger value="categories">Categories</TabsTrigger>}
+          <TabsTrigger value="account">Account</TabsTrigger>
           <TabsTrigger value="appearance">Appearance</TabsTrigger>
-          <TabsTrigger value="notifications">Notifications</TabsTrigger>
-          <TabsTrigger value="advanced">Advanced</TabsTrigger>
+          {canManageSettings && <TabsTrigger value="notifications">Notifications</TabsTrigger>}
+          {canManageSettings && <TabsTrigger value="advanced">Advanced</TabsTrigger>}
         </TabsList>
         
+        <TabsContent value="account" className="space-y-4">
+          {user?.mustChangePassword && (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Password change required</AlertTitle>
+              <AlertDescription>
+                You are signed in with an initial password. Choose a new one to continue using the system.
+              </AlertDescription>
+            </Alert>
+          )}
+          
+          <Card>
+            <CardHeader>
+              <CardTitle>Change Password</CardTitle>
+              <CardDescription>
+                Update the password you use to sign in
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChangePasswordForm />
+            </CardContent>
+          </Card>
+          
+          {twoFactorSetupOwed && !user?.mustChangePassword && (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Two-factor authentication required</AlertTitle>
+              <AlertDescription>
+                An administrator requires two-factor authentication for your account. Set it up below to continue using the system.
+              </AlertDescription>
+            </Alert>
+          )}
+          
+          {!user?.mustChangePassword && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Two-Factor Authentication</CardTitle>
+                <CardDescription>
+                  Require a code from an authenticator app when signing in
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TwoFactorSettings />
+              </CardContent>
+            </Card>
+          )}
+          
+          {!setupOwed && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Active Sessions</CardTitle>
+                <CardDescription>
+                  Devices you are signed in on. Sign out any you don't recognise.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SessionList />
+              </CardContent>
+            </Card>
+          )}
+          
+          {!setupOwed && (
+            <Card>
+              <CardHeader>
+                <CardTitle>API Tokens</CardTitle>
+                <CardDescription>
+                  Personal tokens for scripts and integrations. They act as you, with read-only or full access.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ApiTokenList />
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+        
+        {canManageSettings && (
         <TabsContent value="general" className="space-y-4">
           <Card>
             <CardHeader>
@@ -148,23 +284,6 @@ export default function Settings() {
                     )}
                   />
                   
-                  <FormField
-                    control={generalForm.control}
-                    name="organizationPrefix"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Organization Prefix</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Enter prefix" maxLength={5} {...field} />
-                        </FormControl>
-                        <FormDescription>
-                          This prefix is used for generating unique item IDs (e.g., BVGJK0001)
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
                   <FormField
                     control={generalForm.control}
                     name="contactEmail"
@@ -192,7 +311,7 @@ export default function Settings() {
                             Enable Audit Logs
                           </FormLabel>
                           <FormDescription>
-                            Automatically track all user actions
+                            Track user actions in the activity log; sign-ins, user and settings changes, exports and rule overrides are always recorded
                           </FormDescription>
                         </div>
                         <FormControl>
@@ -206,13 +325,90 @@ export default function Settings() {
                   />
                   
                   <div className="flex justify-end">
-                    <Button type="submit">Save Changes</Button>
+                    <Button type="submit" disabled={saveSettings.isPending}>
+                      {saveSettings.isPending ? 'Saving...' : 'Save Changes'}
+                    </Button>
                   </div>
                 </form>
               </Form>
             </CardContent>
           </Card>
+          
+          <Card>
+            <CardHeader>
+              <CardTitle>Item IDs</CardTitle>
+              <CardDescription>
+                How the server numbers new inventory items. Existing IDs are never changed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ItemIdSettingsForm />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Loans</CardTitle>
+              <CardDescription>
+                Rules for changing loans once they are out.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between rounded-lg border border-gray-200 p-4">
+                <div>
+                  <p className="font-medium">Require Approval for Extensions</p>
+                  <p className="text-sm text-gray-500">
+                    Extensions asked for by staff without approval rights wait for an approver or administrator
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.loans.extensionApprovalRequired}
+                  disabled={saveSettings.isPending}
+                  onCheckedChange={(extensionApprovalRequired) => saveSettings.mutate({ loans: { extensionApprovalRequired } })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Lending Rules</CardTitle>
+              <CardDescription>
+                Checked when a loan is made. Administrators can override a rule with a reason, which is logged.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between rounded-lg border border-gray-200 p-4">
+                <div>
+                  <p className="font-medium">Block Overdue Borrowers</p>
+                  <p className="text-sm text-gray-500">
+                    Borrowers with a loan out past its due date cannot borrow more
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.loans.blockOverdueBorrowers}
+                  disabled={saveSettings.isPending}
+                  onCheckedChange={(blockOverdueBorrowers) => saveSettings.mutate({ loans: { blockOverdueBorrowers } })}
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-lg border border-gray-200 p-4">
+                <div>
+                  <p className="font-medium">Block Unresolved Damage</p>
+                  <p className="text-sm text-gray-500">
+                    Borrowers who returned units damaged or missing cannot borrow more until the return is resolved
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.loans.blockUnresolvedDamage}
+                  disabled={saveSettings.isPending}
+                  onCheckedChange={(blockUnresolvedDamage) => saveSettings.mutate({ loans: { blockUnresolvedDamage } })}
+                />
+              </div>
+              <LendingRulesForm />
+            </CardContent>
+          </Card>
         </TabsContent>
+        )}
         
         <TabsContent value="appearance" className="space-y-4">
           <Card>
@@ -229,31 +425,57 @@ export default function Settings() {
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Primary Color</label>
                   <div className="flex flex-wrap gap-2">
-                    {['blue', 'green', 'purple', 'orange', 'red'].map((color) => (
-                      <div 
+                    {accentColorEnum.options.map((color) => (
+                      <button
                         key={color}
-                        className={`w-8 h-8 rounded-full cursor-pointer border-2 ${color === 'blue' ? 'border-blue-600' : 'border-transparent'}`}
-                        style={{ 
-                          backgroundColor: 
-                            color === 'blue' ? '#3B82F6' : 
-                            color === 'green' ? '#10B981' : 
-                            color === 'purple' ? '#8B5CF6' : 
-                            color === 'orange' ? '#F59E0B' : 
-                            '#EF4444' 
-                        }}
+                        type="button"
+                        aria-label={color}
+                        disabled={!canManageSettings}
+                        onClick={() => setAccentColor(color)}
+                        className={`w-8 h-8 rounded-full border-2 ${canManageSettings ? 'cursor-pointer' : 'cursor-default'} ${color === accentColor ? 'border-foreground' : 'border-transparent'}`}
+                        style={{ backgroundColor: accentColors[color].hex }}
                       />
                     ))}
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    {canManageSettings
+                      ? 'The primary color applies to everyone in the organization'
+                      : 'Set by an administrator for the whole organization'}
+                  </p>
                 </div>
                 
-                <div className="flex justify-end">
-                  <Button>Apply Changes</Button>
-                </div>
+                {canManageSettings && (
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={() => saveSettings.mutate({ organization: { accentColor } })}
+                      disabled={saveSettings.isPending || accentColor === settings.organization.accentColor}
+                    >
+                      Apply Changes
+                    </Button>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
         </TabsContent>
         
+        {canManageSettings && (
+        <TabsContent value="categories" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Categories</CardTitle>
+              <CardDescription>
+                Item categories and the extra fields recorded for items in each of them
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CategorySettings />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        )}
+        
+        {canManageSettings && (
         <TabsContent value="notifications" className="space-y-4">
           <Card>
             <CardHeader>
@@ -267,45 +489,45 @@ export default function Settings() {
                 <div className="rounded-lg border border-gray-200 divide-y">
                   <div className="flex items-center justify-between p-4">
                     <div>
-                      <p className="font-medium">Loan Reminders</p>
-                      <p className="text-sm text-gray-500">Receive notifications when loans are due</p>
-                    </div>
-                    <Switch defaultChecked={true} />
-                  </div>
-                  
-                  <div className="flex items-center justify-between p-4">
-                    <div>
-                      <p className="font-medium">Inventory Alerts</p>
-                      <p className="text-sm text-gray-500">Notifications for low stock or maintenance</p>
+                      <p className="font-medium">Enable Notifications</p>
+                      <p className="text-sm text-gray-500">Turn all of the notifications below on or off</p>
                     </div>
-                    <Switch defaultChecked={true} />
+                    <Switch
+                      checked={notifications.enabled}
+                      onCheckedChange={(enabled) => setNotifications({ ...notifications, enabled })}
+                    />
                   </div>
                   
-                  <div className="flex items-center justify-between p-4">
-                    <div>
-                      <p className="font-medium">Document Updates</p>
-                      <p className="text-sm text-gray-500">Alerts when documents need signatures</p>
-                    </div>
-                    <Switch defaultChecked={true} />
-                  </div>
-                  
-                  <div className="flex items-center justify-between p-4">
-                    <div>
-                      <p className="font-medium">User Activity</p>
-                      <p className="text-sm text-gray-500">Notifications about user actions</p>
+                  {notificationOptions.map((option) => (
+                    <div key={option.key} className="flex items-center justify-between p-4">
+                      <div>
+                        <p className="font-medium">{option.label}</p>
+                        <p className="text-sm text-gray-500">{option.description}</p>
+                      </div>
+                      <Switch
+                        checked={notifications[option.key]}
+                        disabled={!notifications.enabled}
+                        onCheckedChange={(checked) => setNotifications({ ...notifications, [option.key]: checked })}
+                      />
                     </div>
-                    <Switch defaultChecked={false} />
-                  </div>
+                  ))}
                 </div>
                 
                 <div className="flex justify-end">
-                  <Button>Save Preferences</Button>
+                  <Button
+                    onClick={() => saveSettings.mutate({ notifications })}
+                    disabled={saveSettings.isPending}
+                  >
+                    Save Preferences
+                  </Button>
                 </div>
               </div>
             </CardContent>
           </Card>
         </TabsContent>
+        )}
         
+        {canManageSettings && (
         <TabsContent value="advanced" className="space-y-4">
           <Card>
             <CardHeader>
@@ -321,10 +543,11 @@ export default function Settings() {
                   <div className="rounded-lg border border-gray-200 p-4 space-y-4">
                     <div className="space-y-1">
                       <p className="font-medium">Data Export</p>
-                      <p className="text-sm text-gray-500">Export all inventory data to CSV or JSON format</p>
+                      <p className="text-sm text-gray-500">Export all inventory data to CSV, Excel or JSON format</p>
                       <div className="flex space-x-2 mt-2">
-                        <Button variant="outline" size="sm">Export as CSV</Button>
-                        <Button variant="outline" size="sm">Export as JSON</Button>
+                        <Button variant="outline" size="sm" onClick={() => downloadExport('inventory', 'csv')}>Export as CSV</Button>
+                        <Button variant="outline" size="sm" onClick={() => downloadExport('inventory', 'xlsx')}>Export as Excel</Button>
+                        <Button variant="outline" size="sm" onClick={() => downloadExport('inventory', 'json')}>Export as JSON</Button>
                       </div>
                     </div>
                     
@@ -366,6 +589,7 @@ export default function Settings() {
             </CardContent>
           </Card>
         </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -10,7 +10,7 @@ import UserForm from '@/components/users/UserForm';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 
 export default function Users() {
-  useRequireAuth('admin'); // Require admin role
+  useRequireAuth('users:manage');
   
   const [location] = useLocation();
   const [searchTerm, setSearchTerm] = useState('');
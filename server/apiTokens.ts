@@ -0,0 +1,42 @@
+import { createHash, randomBytes } from "crypto";
+import type { ApiToken, ApiTokenScope, PublicApiToken } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with "Authorization: Bearer <token>" instead of a session
+      apiToken?: { id: number; name: string; scope: ApiTokenScope };
+    }
+  }
+}
+
+// Tokens look like "bvt_<43 base64url characters>"; the prefix makes leaked ones easy to grep for
+const TOKEN_PREFIX = "bvt_";
+const TOKEN_BYTES = 32;
+// Enough of the token to tell tokens apart in the list without weakening it
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = TOKEN_PREFIX + randomBytes(TOKEN_BYTES).toString("base64url");
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+// Tokens are random enough that a plain digest is safe to store and fast to look up
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The bearer token from the Authorization header, if there is one
+export function bearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+export function isApiTokenUsable(token: ApiToken, now: Date = new Date()): boolean {
+  return !token.revokedAt && (!token.expiresAt || token.expiresAt > now);
+}
+
+export function toPublicApiToken(token: ApiToken): PublicApiToken {
+  const { tokenHash, ...publicToken } = token;
+  return publicToken;
+}
@@ -0,0 +1,105 @@
+import type { AssetUnit, AssetUnitStatus, InventoryItem, Loan } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { HttpError } from "./errors";
+
+// Optional `unitIds` from a request body: absent, or a list of unit ids
+export function parseUnitIds(value: unknown): number[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every((id) => Number.isInteger(id) && id > 0)) {
+    throw new HttpError(400, "unitIds must be a list of unit ids");
+  }
+  return Array.from(new Set(value as number[]));
+}
+
+// Serial numbers for messages and activity logs
+export function describeUnits(units: AssetUnit[]): string {
+  return units.map((unit) => unit.serialNumber).join(", ");
+}
+
+// The named units of a serialized item, each of which must currently be in `status`
+export async function namedUnits(
+  store: IStorage,
+  item: InventoryItem,
+  unitIds: number[],
+  status: AssetUnitStatus,
+  action: string,
+): Promise<AssetUnit[]> {
+  if (!item.serialized) {
+    if (unitIds.length > 0) {
+      throw new HttpError(400, `${item.name} (${item.itemId}) is not tracked by serial number`);
+    }
+    return [];
+  }
+  if (unitIds.length === 0) {
+    throw new HttpError(400, `Select the units of ${item.name} (${item.itemId}) to ${action}`);
+  }
+
+  const units = await store.listAssetUnits(item.id);
+  const selected = unitIds.map((id) => units.find((unit) => unit.id === id));
+  const missing = unitIds.filter((_, index) => !selected[index]);
+  if (missing.length > 0) {
+    throw new HttpError(400, `Unit(s) ${missing.join(", ")} do not belong to ${item.name} (${item.itemId})`);
+  }
+  const wrongStatus = (selected as AssetUnit[]).filter((unit) => unit.status !== status);
+  if (wrongStatus.length > 0) {
+    throw new HttpError(400, `Only ${status.toLowerCase()} units can be selected to ${action}: ${describeUnits(wrongStatus)}`);
+  }
+  return selected as AssetUnit[];
+}
+
+// Units of a serialized item to lend: the named ones first, then the lowest serial numbers still available
+export async function pickUnits(
+  store: IStorage,
+  item: InventoryItem,
+  quantity: number,
+  unitIds: number[] = [],
+): Promise<AssetUnit[]> {
+  if (unitIds.length > quantity) {
+    throw new HttpError(400, `${unitIds.length} units were selected for a quantity of ${quantity}`);
+  }
+  const named = unitIds.length > 0 ? await namedUnits(store, item, unitIds, "Available", "lend") : [];
+  const others = (await store.listAssetUnits(item.id))
+    .filter((unit) => unit.status === "Available" && !unitIds.includes(unit.id));
+
+  const picked = [...named, ...others].slice(0, quantity);
+  if (picked.length < quantity) {
+    throw new HttpError(400, `Insufficient quantity available. Requested: ${quantity}, Available: ${named.length + others.length}`);
+  }
+  return picked;
+}
+
+// Moves units to a new status and recounts the item's quantities from them
+export async function moveUnits(
+  store: IStorage,
+  item: InventoryItem,
+  units: AssetUnit[],
+  status: AssetUnitStatus,
+): Promise<InventoryItem> {
+  for (const unit of units) {
+    await store.updateAssetUnit(unit.id, { status });
+  }
+  return (await store.syncUnitTotals(item.id))!;
+}
+
+// Puts units of a loan back in stock, by default all still out; the caller holds the item's lock
+export async function restockLoan(
+  store: IStorage,
+  loan: Loan,
+  quantity = loan.quantityLoaned - loan.quantityReturned,
+): Promise<void> {
+  const item = await store.getInventoryItem(loan.itemId);
+  if (!item) return;
+
+  if (loan.unitId !== null) {
+    const unit = await store.getAssetUnit(loan.unitId);
+    // A unit retired or deleted while out stays as it is
+    if (unit?.status === "Loaned Out") {
+      await store.updateAssetUnit(unit.id, { status: "Available" });
+    }
+    if (item.serialized) {
+      await store.syncUnitTotals(item.id);
+      return;
+    }
+  }
+  await store.updateItemQuantities(item.id, Math.max(0, item.quantityLoaned - quantity), item.quantityDamaged);
+}
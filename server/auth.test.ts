@@ -0,0 +1,100 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { registerRoutes } from "./routes";
+import { sessionStore } from "./sessions";
+import { storage } from "./storage";
+import { generateTotpSecret, hashRecoveryCode } from "./totp";
+
+const PASSWORD = "correct horse battery";
+const RECOVERY_CODE = "3f9a1-c07e2";
+
+let server: Server;
+let baseUrl: string;
+
+// A client with its own cookie jar, so each one carries its own session
+function client() {
+  let cookie = "";
+  return async (path: string, body: unknown) => {
+    const response = await fetch(baseUrl + path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(cookie ? { Cookie: cookie } : {}) },
+      body: JSON.stringify(body),
+    });
+    const setCookie = response.headers.get("set-cookie");
+    if (setCookie) cookie = setCookie.split(";")[0];
+    return response;
+  };
+}
+
+async function createUser(username: string, twoFactor: boolean) {
+  const user = await storage.createUser({ username, password: PASSWORD, name: username, role: "viewer" });
+  if (twoFactor) {
+    await storage.updateUserTwoFactor(user.id, {
+      twoFactorEnabled: true,
+      twoFactorSecret: generateTotpSecret(),
+      twoFactorRecoveryCodes: [hashRecoveryCode(RECOVERY_CODE)],
+    });
+  }
+}
+
+async function failLogins(username: string, times: number) {
+  for (let i = 0; i < times; i++) {
+    const response = await client()("/api/auth/login", { username, password: "wrong password" });
+    assert.equal(response.status, 401);
+  }
+}
+
+// Usernames lock after 5 failures in a row. The client address locks after 20, and every test
+// here logs in from the same one, so together they stay below that.
+describe("login throttling", () => {
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    (sessionStore as { stopInterval?: () => void }).stopInterval?.();
+  });
+
+  it("clears the failure count on a login without two-factor", async () => {
+    await createUser("plain", false);
+    await failLogins("plain", 4);
+
+    const login = await client()("/api/auth/login", { username: "plain", password: PASSWORD });
+    assert.equal(login.status, 200);
+
+    await failLogins("plain", 1);
+  });
+
+  it("keeps counting failures while the second factor is pending", async () => {
+    await createUser("pending", true);
+    await failLogins("pending", 4);
+
+    const post = client();
+    const login = await post("/api/auth/login", { username: "pending", password: PASSWORD });
+    assert.deepEqual(await login.json(), { twoFactorRequired: true });
+
+    const verify = await post("/api/auth/2fa/verify", { code: "000000" });
+    assert.equal(verify.status, 429);
+    assert.equal((await verify.json()).code, "LOGIN_LOCKED");
+  });
+
+  it("clears the failure count once the second factor succeeds", async () => {
+    await createUser("verified", true);
+    await failLogins("verified", 4);
+
+    const post = client();
+    await post("/api/auth/login", { username: "verified", password: PASSWORD });
+    const verify = await post("/api/auth/2fa/verify", { recoveryCode: RECOVERY_CODE });
+    assert.equal(verify.status, 200);
+
+    await failLogins("verified", 1);
+  });
+});
@@ -0,0 +1,721 @@
+import { type Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { fromZodError } from "zod-validation-error";
+import QRCode from "qrcode";
+import { changePasswordSchema, twoFactorCodeSchema, createApiTokenSchema, type User, type PublicUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { storage } from "./storage";
+import { hashPassword, verifyPassword, needsRehash } from "./passwords";
+import { checkLoginThrottle, recordLoginFailure, recordLoginSuccess, type LoginLockout } from "./loginThrottle";
+import { generateTotpSecret, totpUri, verifyTotp, generateRecoveryCodes, hashRecoveryCode } from "./totp";
+import { generateApiToken, hashApiToken, bearerToken, isApiTokenUsable, toPublicApiToken } from "./apiTokens";
+import {
+  sessionStore,
+  sessionCookie,
+  establishSession,
+  enforceSessionLifetime,
+  listUserSessions,
+  revokeUserSession,
+  revokeUserSessions,
+} from "./sessions";
+
+// Strip credentials before a user object goes anywhere near a response
+export function toPublicUser(user: User | PublicUser): PublicUser {
+  const { password, twoFactorSecret, twoFactorRecoveryCodes, twoFactorLastCounter, ...publicUser } = user as User;
+  return publicUser;
+}
+
+const TWO_FACTOR_ISSUER = "BONEVET Inventory";
+// How long a password-checked login may wait for its second factor, and how many guesses it gets
+const TWO_FACTOR_CHALLENGE_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+// Every login failure gets the same answer so the response doesn't reveal which usernames exist
+const LOGIN_FAILED_MESSAGE = "Invalid username or password";
+// Checked against when the username is unknown, so that case takes as long as a wrong password
+const dummyPasswordHash = hashPassword("not-a-real-password-0");
+// Don't write to the token row on every request just to move lastUsedAt along
+const TOKEN_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Authentication middleware. Account self-service (password, 2FA, sessions, tokens) needs a
+// real login, so API tokens are turned away here.
+export const requireLogin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (req.apiToken) {
+    return res.status(403).json({ message: "API tokens cannot be used for this action" });
+  }
+  next();
+};
+
+// Like requireLogin, but also holds back users who still owe a password change or 2FA enrollment
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  const user = req.user as User;
+  if (user.mustChangePassword) {
+    return res.status(403).json({
+      message: "You must change your password before continuing",
+      code: "PASSWORD_CHANGE_REQUIRED"
+    });
+  }
+  if (user.twoFactorRequired && !user.twoFactorEnabled) {
+    return res.status(403).json({
+      message: "You must set up two-factor authentication before continuing",
+      code: "TWO_FACTOR_SETUP_REQUIRED"
+    });
+  }
+  if (req.apiToken?.scope === "read" && !["GET", "HEAD", "OPTIONS"].includes(req.method)) {
+    return res.status(403).json({
+      message: "This API token is read-only",
+      code: "TOKEN_SCOPE"
+    });
+  }
+  next();
+};
+
+// Signs in requests carrying "Authorization: Bearer <token>" as the token's owner, for this
+// request only. No session is created, so everything they do is attributed to the owner.
+async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const token = bearerToken(req.get("authorization"));
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+    const user = apiToken && isApiTokenUsable(apiToken) ? await storage.getUser(apiToken.userId) : undefined;
+    if (!apiToken || !user || !user.active) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    const now = new Date();
+    if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > TOKEN_LAST_USED_RESOLUTION_MS) {
+      await storage.updateApiToken(apiToken.id, { lastUsedAt: now });
+    }
+
+    req.user = toPublicUser(user);
+    req.apiToken = { id: apiToken.id, name: apiToken.name, scope: apiToken.scope === "write" ? "write" : "read" };
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+// Permission middleware, see the role matrix in shared/permissions.ts
+export const requirePermission = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    requireAuth(req, res, () => {
+      if (!hasPermission((req.user as User).role, permission)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      next();
+    });
+  };
+};
+
+// Sign-in events carry usernames and client addresses, so only audit:read sees them
+export const authEventActions = ["Login", "Logout", "Failed Login", "Lockout", "Two-Factor Success", "Two-Factor Failure"];
+
+// Authentication events go to the activity log; attempts on unknown usernames are logged as user 0
+async function logAuthEvent(req: Request, action: string, user: User | undefined, username: string, details: string) {
+  await storage.createActivityLog({
+    userId: user?.id ?? 0,
+    action,
+    entityType: "User",
+    entityId: user ? user.id.toString() : username,
+    details: `${details} (from ${req.ip ?? "unknown address"})`
+  });
+}
+
+function lockoutResponse(res: Response, lockout: LoginLockout) {
+  const minutes = Math.ceil(lockout.retryAfterMs / 60000);
+  res.set("Retry-After", Math.ceil(lockout.retryAfterMs / 1000).toString());
+  return res.status(429).json({
+    message: `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    code: "LOGIN_LOCKED"
+  });
+}
+
+// Counts a failed password or second-factor attempt, logging it (unless the caller already has)
+// and any lockout it triggers. Returns the response when the attempt ended in a lockout.
+async function handleLoginFailure(req: Request, res: Response, username: string, reason: string | null) {
+  const user = username ? await storage.getUserByUsername(username) : undefined;
+  const lockout = recordLoginFailure(username, req.ip ?? "");
+  if (reason) {
+    await logAuthEvent(req, "Failed Login", user, username, `Failed login for "${username}": ${reason}`);
+  }
+
+  if (lockout) {
+    const minutes = Math.ceil(lockout.retryAfterMs / 60000);
+    await logAuthEvent(req, "Lockout", user, username,
+      lockout.scope === "username"
+        ? `Locked out "${username}" for ${minutes} minute(s) after repeated failures`
+        : `Locked out address after repeated failures (last username "${username}") for ${minutes} minute(s)`);
+    return lockoutResponse(res, lockout);
+  }
+  return null;
+}
+
+function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+  await storage.updateUserTwoFactor(userId, { twoFactorRecoveryCodes: codes.map(hashRecoveryCode) });
+  return codes;
+}
+
+export function setupAuth(app: Express) {
+  // Session setup
+  app.use(
+    session({
+      secret: process.env.SESSION_SECRET || "bonevet-inventory-secret",
+      resave: false,
+      saveUninitialized: false,
+      rolling: true, // every request pushes the idle timeout back
+      cookie: sessionCookie,
+      store: sessionStore,
+    })
+  );
+
+  // Configure passport
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(enforceSessionLifetime);
+  app.use(authenticateApiToken);
+
+  // Passport strategy setup
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        // The message is only used for the audit log; clients always get LOGIN_FAILED_MESSAGE
+        const user = await storage.getUserByUsername(username);
+        if (!user) {
+          await verifyPassword(password, await dummyPasswordHash);
+          return done(null, false, { message: "unknown username" });
+        }
+        if (!await verifyPassword(password, user.password)) {
+          return done(null, false, { message: "wrong password" });
+        }
+        if (!user.active) {
+          return done(null, false, { message: "account is deactivated" });
+        }
+
+        // Upgrade legacy plaintext rows (and outdated hashes) now that we know the password
+        if (needsRehash(user.password)) {
+          const rehashedUser = await storage.updateUser(user.id, { password });
+          return done(null, rehashedUser ?? user);
+        }
+
+        return done(null, user);
+      } catch (err) {
+        return done(err);
+      }
+    })
+  );
+
+  passport.serializeUser((user: any, done) => {
+    done(null, user.id);
+  });
+
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Deactivating (or deleting) a user ends their existing sessions too
+      if (!user || !user.active) {
+        return done(null, false);
+      }
+      done(null, toPublicUser(user));
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  // Auth routes
+  app.post("/api/auth/login", (req, res, next) => {
+    const username = String(req.body?.username ?? "");
+    const lockout = checkLoginThrottle(username, req.ip ?? "");
+    if (lockout) {
+      return lockoutResponse(res, lockout);
+    }
+
+    passport.authenticate("local", async (err: unknown, user: User | false, info?: { message?: string }) => {
+      if (err) return next(err);
+
+      try {
+        if (!user) {
+          const locked = await handleLoginFailure(req, res, username, info?.message ?? "missing credentials");
+          if (locked) return;
+          return res.status(401).json({ message: LOGIN_FAILED_MESSAGE });
+        }
+
+        if (user.twoFactorEnabled) {
+          // Hold the login until /api/auth/2fa/verify; the session carries no user until then, and
+          // failures keep counting until the second factor succeeds
+          await regenerateSession(req);
+          req.session.pendingTwoFactor = { userId: user.id, startedAt: Date.now(), attempts: 0 };
+          return res.json({ twoFactorRequired: true });
+        }
+
+        recordLoginSuccess(username);
+        await establishSession(req, user);
+        await logAuthEvent(req, "Login", user, user.username, `Logged in: ${user.username}`);
+        res.json({ user: toPublicUser(user) });
+      } catch (error) {
+        next(error);
+      }
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", async (req, res, next) => {
+    try {
+      // A token request has no session to end; revoke the token instead
+      if (req.apiToken) {
+        return res.status(400).json({ message: "API tokens cannot log out; revoke the token instead" });
+      }
+      const user = req.user as User | undefined;
+      if (user) {
+        await logAuthEvent(req, "Logout", user, user.username, `Logged out: ${user.username}`);
+      }
+      req.logout(() => {
+        res.json({ message: "Logged out successfully" });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (req.isAuthenticated()) {
+      res.json({ user: req.user });
+    } else {
+      res.status(401).json({ message: "Not authenticated" });
+    }
+  });
+
+  // Self-service password change, also used to clear a forced change
+  app.post("/api/auth/change-password", requireLogin, async (req, res) => {
+    try {
+      const result = changePasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({
+          message: "Validation error",
+          errors: validationError.details
+        });
+      }
+
+      const { currentPassword, newPassword } = result.data;
+      const user = await storage.getUser((req.user as User).id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!await verifyPassword(currentPassword, user.password)) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, {
+        password: newPassword,
+        mustChangePassword: false
+      });
+
+      // Anyone holding the old password is signed out everywhere but here
+      await revokeUserSessions(user.id, req.sessionID);
+
+      // Log the activity
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "Password Change",
+        entityType: "User",
+        entityId: user.id.toString(),
+        details: `Changed password for user: ${user.username}`
+      });
+
+      res.json({ user: updatedUser && toPublicUser(updatedUser) });
+    } catch (error) {
+      console.error("Error changing password:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // The signed-in user's own sessions, one per device
+  app.get("/api/auth/sessions", requireLogin, async (req, res) => {
+    try {
+      res.json(await listUserSessions((req.user as User).id, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out every other device
+  app.delete("/api/auth/sessions", requireLogin, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const revoked = await revokeUserSessions(user.id, req.sessionID);
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "Session Revoke",
+        entityType: "User",
+        entityId: user.id.toString(),
+        details: `Signed out ${revoked} other session(s) of user: ${user.username}`
+      });
+
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireLogin, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const current = (await listUserSessions(user.id, req.sessionID)).find((s) => s.current);
+      if (current?.id === req.params.id) {
+        return res.status(400).json({ message: "Use Log Out to end the current session" });
+      }
+
+      if (!await revokeUserSession(user.id, req.params.id)) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "Session Revoke",
+        entityType: "User",
+        entityId: user.id.toString(),
+        details: `Signed out a session of user: ${user.username}`
+      });
+
+      res.json({ revoked: 1 });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  // Personal API tokens
+  app.get("/api/auth/tokens", requireLogin, async (req, res) => {
+    try {
+      const tokens = await storage.listApiTokens((req.user as User).id);
+      res.json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  // The token itself is only in this response; the server keeps its digest
+  app.post("/api/auth/tokens", requireLogin, async (req, res) => {
+    try {
+      const result = createApiTokenSchema.safeParse(req.body);
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({
+          message: "Validation error",
+          errors: validationError.details
+        });
+      }
+
+      const user = req.user as User;
+      const { name, scope, expiresInDays } = result.data;
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        userId: user.id,
+        name,
+        scope,
+        tokenHash,
+        tokenPrefix,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+      });
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "API Token Create",
+        entityType: "User",
+        entityId: user.id.toString(),
+        details: `Created ${scope} API token "${name}" for user: ${user.username}`
+      });
+
+      res.status(201).json({ ...toPublicApiToken(apiToken), token });
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/auth/tokens/:id", requireLogin, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const id = parseInt(req.params.id);
+      const apiToken = (await storage.listApiTokens(user.id)).find((token) => token.id === id);
+      if (!apiToken) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      if (!apiToken.revokedAt) {
+        await storage.updateApiToken(apiToken.id, { revokedAt: new Date() });
+        await storage.createActivityLog({
+          userId: user.id,
+          action: "API Token Revoke",
+          entityType: "User",
+          entityId: user.id.toString(),
+          details: `Revoked API token "${apiToken.name}" of user: ${user.username}`
+        });
+      }
+
+      res.json({ message: "API token revoked" });
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  // Two-factor authentication
+  app.get("/api/auth/2fa", requireLogin, async (req, res) => {
+    try {
+      const user = await storage.getUser((req.user as User).id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({
+        enabled: user.twoFactorEnabled,
+        required: user.twoFactorRequired,
+        recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length ?? 0
+      });
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Second login step; accepts an authenticator code or a one-time recovery code
+  app.post("/api/auth/2fa/verify", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || Date.now() - pending.startedAt > TWO_FACTOR_CHALLENGE_MS) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your login has expired, please sign in again", code: "TWO_FACTOR_EXPIRED" });
+      }
+
+      const result = twoFactorCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({
+          message: "Validation error",
+          errors: validationError.details
+        });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.active || !user.twoFactorEnabled || !user.twoFactorSecret) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your login has expired, please sign in again", code: "TWO_FACTOR_EXPIRED" });
+      }
+
+      // Code guesses count towards the same lockout as password guesses
+      const lockout = checkLoginThrottle(user.username, req.ip ?? "");
+      if (lockout) {
+        delete req.session.pendingTwoFactor;
+        return lockoutResponse(res, lockout);
+      }
+
+      const { code, recoveryCode } = result.data;
+      let method: string | null = null;
+      if (code) {
+        const counter = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastCounter);
+        if (counter !== null) {
+          await storage.updateUserTwoFactor(user.id, { twoFactorLastCounter: counter });
+          method = "authenticator code";
+        }
+      } else if (recoveryCode) {
+        const digest = hashRecoveryCode(recoveryCode);
+        const remaining = user.twoFactorRecoveryCodes ?? [];
+        if (remaining.includes(digest)) {
+          await storage.updateUserTwoFactor(user.id, {
+            twoFactorRecoveryCodes: remaining.filter((stored) => stored !== digest)
+          });
+          method = `recovery code (${remaining.length - 1} left)`;
+        }
+      }
+
+      if (!method) {
+        pending.attempts += 1;
+        const exhausted = pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS;
+        if (exhausted) {
+          delete req.session.pendingTwoFactor;
+        }
+
+        await storage.createActivityLog({
+          userId: user.id,
+          action: "Two-Factor Failure",
+          entityType: "User",
+          entityId: user.id.toString(),
+          details: `Invalid ${code ? "authenticator" : "recovery"} code for user: ${user.username}` +
+            (exhausted ? " (login abandoned after too many attempts)" : "")
+        });
+        const locked = await handleLoginFailure(req, res, user.username, null);
+        if (locked) {
+          delete req.session.pendingTwoFactor;
+          return;
+        }
+
+        return res.status(401).json(exhausted
+          ? { message: "Too many invalid codes, please sign in again", code: "TWO_FACTOR_EXPIRED" }
+          : { message: "Invalid code" });
+      }
+
+      recordLoginSuccess(user.username);
+      await establishSession(req, user);
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "Two-Factor Success",
+        entityType: "User",
+        entityId: user.id.toString(),
+        details: `Signed in with ${method}: ${user.username}`
+      });
+      await logAuthEvent(req, "Login", user, user.username, `Logged in: ${user.username}`);
+
+      res.json({ user: toPublicUser(user) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Enrollment, step 1: a fresh secret kept in the session until a code from it is confirmed
+  app.post("/api/auth/2fa/setup", requireLogin, async (req, res) => {
+    try {
+      const user = req.user as User;
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      req.session.twoFactorSetupSecret = secret;
+      const otpauthUrl = totpUri(secret, user.username, TWO_FACTOR_ISSUER);
+
+      res.json({
+        secret,
+        otpauthUrl,
+        qrCode: await QRCode.toDataURL(otpauthUrl)
+      });
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Enrollment, step 2: confirm a code, switch 2FA on and hand out the recovery codes once
+  app.post("/api/auth/2fa/enable", requireLogin, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const secret = req.session.twoFactorSetupSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const counter = verifyTotp(secret, String(req.body?.code ?? "").trim());
+      if (counter === null) {
+        return res.status(400).json({ message: "Invalid code, check your authenticator app and try again" });
+      }
+
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorEnabled: true,
+        twoFactorSecret: secret,
+        twoFactorLastCounter: counter
+      });
+      const recoveryCodes = await issueRecoveryCodes(user.id);
+      delete req.session.twoFactorSetupSecret;
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "Two-Factor Enrollment",
+        entityType: "User",
+        entityId: user.id.toString(),
+        details: `Enabled two-factor authentication for user: ${user.username}`
+      });
+
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", requireLogin, async (req, res) => {
+    try {
+      const user = await storage.getUser((req.user as User).id);
+      if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      const counter = verifyTotp(user.twoFactorSecret, String(req.body?.code ?? "").trim(), user.twoFactorLastCounter);
+      if (counter === null) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+      await storage.updateUserTwoFactor(user.id, { twoFactorLastCounter: counter });
+      const recoveryCodes = await issueRecoveryCodes(user.id);
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "Two-Factor Recovery Codes",
+        entityType: "User",
+        entityId: user.id.toString(),
+        details: `Generated new recovery codes for user: ${user.username}`
+      });
+
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", requireLogin, async (req, res) => {
+    try {
+      const user = await storage.getUser((req.user as User).id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.twoFactorRequired) {
+        return res.status(400).json({ message: "Two-factor authentication is required for your account" });
+      }
+      if (!await verifyPassword(String(req.body?.password ?? ""), user.password)) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: null,
+        twoFactorLastCounter: null
+      });
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "Two-Factor Disable",
+        entityType: "User",
+        entityId: user.id.toString(),
+        details: `Disabled two-factor authentication for user: ${user.username}`
+      });
+
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+}
@@ -0,0 +1,156 @@
+import type { Borrower, BorrowerKind, BorrowerLoan, BorrowerSummary, InsertBorrower } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { HttpError } from "./errors";
+import { loanReturnEntries } from "./loanReturns";
+import { daysLate } from "./overdueLoans";
+import { withGroupDetails } from "./scanning";
+
+// Names match ignoring case and repeated spaces, so "Ana Berisha" and "ana  berisha" are one borrower
+export function borrowerKey(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function borrowerKind(borrowerType: string): BorrowerKind {
+  return borrowerType === "Other Organization" ? "Organization" : "Person";
+}
+
+// Loans had a single free-text contact; an email address goes to email and anything else to phone
+export function splitContact(contact: string | null | undefined): { email: string | null; phone: string | null } {
+  const value = contact?.trim();
+  if (!value) return { email: null, phone: null };
+  return value.includes("@") ? { email: value, phone: null } : { email: null, phone: value };
+}
+
+// The contact copied onto a loan
+export function borrowerContact(borrower: Borrower): string | null {
+  return [borrower.phone, borrower.email].filter(Boolean).join(", ") || null;
+}
+
+// Names and membership numbers each identify one borrower
+export async function checkBorrowerUnique(
+  store: IStorage,
+  borrower: Partial<Pick<InsertBorrower, "name" | "membershipNumber">>,
+  borrowerId?: number,
+): Promise<void> {
+  const others = (await store.listBorrowers()).filter((other) => other.id !== borrowerId);
+  const sameName = borrower.name && others.find((other) => borrowerKey(other.name) === borrowerKey(borrower.name!));
+  if (sameName) {
+    throw new HttpError(409, `There is already a borrower called ${sameName.name}`, { borrowerId: sameName.id });
+  }
+  const membershipNumber = borrower.membershipNumber?.trim().toLowerCase();
+  const sameMember = membershipNumber && others.find((other) => other.membershipNumber?.trim().toLowerCase() === membershipNumber);
+  if (sameMember) {
+    throw new HttpError(409, `Membership number ${borrower.membershipNumber} belongs to ${sameMember.name}`, { borrowerId: sameMember.id });
+  }
+}
+
+export async function registerBorrower(tx: IStorage, borrower: InsertBorrower, userId: number): Promise<Borrower> {
+  await checkBorrowerUnique(tx, borrower);
+  const created = await tx.createBorrower(borrower);
+  await tx.createActivityLog({
+    userId,
+    action: "Create",
+    entityType: "Borrower",
+    entityId: created.id.toString(),
+    details: `Registered borrower: ${created.name} (${created.borrowerType})`,
+  });
+  return created;
+}
+
+type LoanBorrower = {
+  borrowerId?: number | null;
+  borrowerName?: string | null;
+  borrowerType?: string | null;
+  borrowerContact?: string | null;
+};
+
+// Who a new loan goes to: the registered borrower picked, or the one with the typed name, who is
+// registered first if nobody by that name is. The loan keeps a copy of the borrower's name and type,
+// and of the contact given on the loan or else the registered one. Call inside storage.transaction.
+export async function resolveBorrower(
+  tx: IStorage,
+  loan: LoanBorrower,
+  userId: number,
+): Promise<{ borrowerId: number; borrowerName: string; borrowerType: string; borrowerContact?: string }> {
+  let borrower: Borrower | undefined;
+  if (loan.borrowerId) {
+    borrower = await tx.getBorrower(loan.borrowerId);
+    if (!borrower) {
+      throw new HttpError(400, "Borrower not found");
+    }
+  } else {
+    const name = loan.borrowerName?.trim().replace(/\s+/g, " ");
+    if (!name) {
+      throw new HttpError(400, "Borrower name is required");
+    }
+    borrower = (await tx.listBorrowers()).find((other) => borrowerKey(other.name) === borrowerKey(name));
+    if (!borrower) {
+      const borrowerType = loan.borrowerType?.trim() || "Other";
+      borrower = await registerBorrower(tx, {
+        kind: borrowerKind(borrowerType),
+        name,
+        borrowerType,
+        ...splitContact(loan.borrowerContact),
+      }, userId);
+    }
+  }
+  return {
+    borrowerId: borrower.id,
+    borrowerName: borrower.name,
+    borrowerType: borrower.borrowerType,
+    borrowerContact: loan.borrowerContact?.trim() || borrowerContact(borrower) || undefined,
+  };
+}
+
+// Registered borrowers with how many loans they have had, are still out and came back late.
+// A multi-item loan counts once, and as late when any of its lines was.
+export async function borrowerSummaries(store: IStorage): Promise<BorrowerSummary[]> {
+  const lines = await withGroupDetails(store, await store.listLoans());
+  const now = new Date();
+  const loansByBorrower = new Map<number, Map<string, { open: boolean; late: boolean }>>();
+  for (const line of lines) {
+    if (line.borrowerId === null) continue;
+    const loans = loansByBorrower.get(line.borrowerId) ?? new Map<string, { open: boolean; late: boolean }>();
+    const key = line.loanGroupCode ?? `loan-${line.id}`;
+    const loan = loans.get(key) ?? { open: false, late: false };
+    loans.set(key, { open: loan.open || line.status !== "Returned", late: loan.late || daysLate(line, now) > 0 });
+    loansByBorrower.set(line.borrowerId, loans);
+  }
+
+  return (await store.listBorrowers()).map((borrower) => {
+    const loans = Array.from(loansByBorrower.get(borrower.id)?.values() ?? []);
+    return {
+      ...borrower,
+      openLoans: loans.filter((loan) => loan.open).length,
+      totalLoans: loans.length,
+      lateLoans: loans.filter((loan) => loan.late).length,
+    };
+  });
+}
+
+// Every loan to a borrower, newest first, with the condition each return came back in and how late
+// it was. Loans are matched on the registered borrower, or by name ignoring case.
+export async function borrowerHistory(
+  store: IStorage,
+  borrower: { borrowerId: number } | { name: string },
+): Promise<BorrowerLoan[]> {
+  const matches = "borrowerId" in borrower
+    ? (loan: { borrowerId: number | null }) => loan.borrowerId === borrower.borrowerId
+    : (loan: { borrowerName: string | null }) => !!loan.borrowerName && borrowerKey(loan.borrowerName) === borrowerKey(borrower.name);
+  const loans = (await withGroupDetails(store, await store.listLoans())).filter((loan) => matches(loan));
+  const returns = await loanReturnEntries(store, loans);
+  const now = new Date();
+
+  const history: BorrowerLoan[] = [];
+  for (const loan of loans) {
+    const item = await store.getInventoryItem(loan.itemId);
+    history.push({
+      ...loan,
+      itemName: item ? `${item.itemId} - ${item.name}` : `Item #${loan.itemId}`,
+      returns: returns.filter((entry) => entry.loanId === loan.id),
+      daysLate: daysLate(loan, now),
+    });
+  }
+  const loanTime = (loan: BorrowerLoan) => loan.loanDate ? new Date(loan.loanDate).getTime() : 0;
+  return history.sort((a, b) => loanTime(b) - loanTime(a) || b.id - a.id);
+}
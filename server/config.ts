@@ -0,0 +1,82 @@
+// Runtime configuration, read once from the environment at startup.
+
+export type StorageBackend = "database" | "memory";
+
+function parseStorageBackend(value: string | undefined): StorageBackend {
+  if (value === "database" || value === "memory") {
+    return value;
+  }
+  if (value) {
+    throw new Error(`Unknown STORAGE_BACKEND "${value}", expected "database" or "memory"`);
+  }
+  // Default to Postgres whenever a database has been provisioned
+  return process.env.DATABASE_URL ? "database" : "memory";
+}
+
+function parseSessionStore(value: string | undefined, storageBackend: StorageBackend): StorageBackend {
+  if (value === "database" || value === "memory") {
+    return value;
+  }
+  if (value) {
+    throw new Error(`Unknown SESSION_STORE "${value}", expected "database" or "memory"`);
+  }
+  // Keep sessions next to the rest of the data unless told otherwise
+  return storageBackend;
+}
+
+function parseMinutes(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+  const minutes = Number(value);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new Error(`${name} must be a positive number of minutes, got "${value}"`);
+  }
+  return minutes;
+}
+
+// Origin printed into QR labels, e.g. "https://inventory.example.org"; without it the request's own origin is used
+function parsePublicUrl(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return new URL(value).origin;
+  } catch {
+    throw new Error(`PUBLIC_URL must be an absolute URL, got "${value}"`);
+  }
+}
+
+// Express "trust proxy": how many proxies in front of the app to trust (e.g. "1"), "true" for all, or
+// a list of addresses/subnets. Without it req.ip is the proxy's address, which the per-IP login
+// limit and the auth log would then share between every client.
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === "false") {
+    return false;
+  }
+  if (value === "true") {
+    return true;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+const storageBackend = parseStorageBackend(process.env.STORAGE_BACKEND);
+
+export const config = {
+  // "database" persists to Postgres via Drizzle, "memory" keeps everything in-process (tests, demos)
+  storageBackend,
+  // "database" keeps sessions in the Postgres "session" table so they survive restarts and are shared between instances
+  sessionStore: parseSessionStore(process.env.SESSION_STORE, storageBackend),
+  // Sessions end after this long without a request...
+  sessionIdleTimeoutMinutes: parseMinutes("SESSION_IDLE_TIMEOUT_MINUTES", 60),
+  // ...and after this long regardless of activity
+  sessionAbsoluteTimeoutMinutes: parseMinutes("SESSION_ABSOLUTE_TIMEOUT_MINUTES", 12 * 60),
+  publicUrl: parsePublicUrl(process.env.PUBLIC_URL),
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
+  // How often open loans are checked against their expected return date
+  overdueCheckIntervalMinutes: parseMinutes("OVERDUE_CHECK_INTERVAL_MINUTES", 15),
+};
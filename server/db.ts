@@ -2,10 +2,11 @@ import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
+import { config } from "./config";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+if (!process.env.DATABASE_URL && (config.storageBackend === "database" || config.sessionStore === "database")) {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
@@ -0,0 +1,17 @@
+// Error carrying an HTTP status, thrown from inside a unit of work to roll it back
+// and let the route answer with a specific response instead of a generic 500.
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// Postgres unique_violation, e.g. two requests racing to insert the same item ID
+export function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+}
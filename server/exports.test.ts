@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Writable } from "node:stream";
+import type { Response } from "express";
+import { streamExport } from "./exports";
+
+// A client that reads slowly: tiny buffer, each chunk accepted on a later tick
+function slowResponse() {
+  const chunks: string[] = [];
+  const stream = new Writable({
+    highWaterMark: 16,
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk.toString());
+      setImmediate(callback);
+    },
+  });
+  let peakCloseListeners = 0;
+  stream.on("newListener", (event) => {
+    if (event === "close") peakCloseListeners = Math.max(peakCloseListeners, stream.listenerCount("close") + 1);
+  });
+  const res = Object.assign(stream, { setHeader: () => res }) as unknown as Response;
+  return { res, chunks, peakCloseListeners: () => peakCloseListeners, closeListeners: () => stream.listenerCount("close") };
+}
+
+async function* numbers(count: number) {
+  for (let n = 1; n <= count; n++) yield n;
+}
+
+describe("export streaming", () => {
+  it("waits for the client without piling up listeners", async () => {
+    const { res, chunks, peakCloseListeners, closeListeners } = slowResponse();
+    const before = closeListeners();
+
+    const count = await streamExport(res, {
+      name: "numbers",
+      format: "csv",
+      columns: [{ key: "n", header: "Number", value: (n: number) => n }],
+      rows: numbers(2000),
+    });
+
+    assert.equal(count, 2000);
+    assert.equal(chunks.join("").split("\r\n").length, 2002); // header, rows and the trailing empty line
+    assert.ok(peakCloseListeners() <= before + 1, `at most one close listener at a time, saw ${peakCloseListeners()}`);
+    assert.equal(closeListeners(), before);
+  });
+});
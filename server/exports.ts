@@ -0,0 +1,370 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import { z, type ZodType, type ZodTypeDef } from "zod";
+import {
+  activityLogQuerySchema,
+  exportFormats,
+  inventoryQuerySchema,
+  lifecycleHistoryQuerySchema,
+  loanQuerySchema,
+  type ActivityLog,
+  type ActivityLogQuery,
+  type ExportFormat,
+  type InventoryItem,
+  type InventoryQuery,
+  type LifecycleHistory,
+  type LifecycleHistoryQuery,
+  type Loan,
+  type LoanGroup,
+  type LoanQuery,
+} from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import type { IStorage } from "./storage";
+
+// Rows are read from storage in batches of this size and written out as they arrive
+const BATCH_SIZE = 500;
+
+export const exportFormatSchema = z.enum(exportFormats).default("csv");
+
+export type ExportColumn<T> = { key: string; header: string; value: (row: T) => unknown };
+
+type ExportDataset<Q, T> = {
+  label: string; // e.g. "inventory items", for the activity log
+  entityType: string;
+  permission: Permission;
+  query: ZodType<Q, ZodTypeDef, unknown>;
+  columns: ExportColumn<T>[];
+  // Columns that depend on the data, appended after the fixed ones
+  extraColumns?: (store: IStorage) => Promise<ExportColumn<T>[]>;
+  rows: (store: IStorage, query: Q) => AsyncIterable<T>;
+};
+
+// Erases the row and query types so the datasets can share one table
+function dataset<Q, T>(definition: ExportDataset<Q, T>): ExportDataset<any, any> {
+  return definition;
+}
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+// Spreadsheet cells hold plain values; lists become "a; b"
+function cellValue(value: unknown): string | number | boolean | Date | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.join("; ");
+  if (value instanceof Date || typeof value === "number" || typeof value === "boolean") return value;
+  return String(value);
+}
+
+// Quotes where needed, and defuses text that a spreadsheet would otherwise run as a formula
+function csvField(value: unknown): string {
+  const cell = cellValue(value);
+  if (cell === null) return "";
+  let text = cell instanceof Date ? cell.toISOString() : String(cell);
+  if (typeof cell === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Waits for the client to catch up when the response buffer is full
+async function write(res: Response, chunk: string): Promise<void> {
+  if (!res.write(chunk)) {
+    // Each wait removes both of its listeners once either fires, so long exports don't pile them up
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        res.off("close", onClose);
+        resolve();
+      };
+      const onClose = () => {
+        res.off("drain", onDrain);
+        reject(new Error("Client closed the connection"));
+      };
+      res.once("drain", onDrain);
+      res.once("close", onClose);
+    });
+  }
+}
+
+// Streams the rows to the response as an attachment and returns how many were written
+export async function streamExport<T>(
+  res: Response,
+  { name, format, columns, rows }: { name: string; format: ExportFormat; columns: ExportColumn<T>[]; rows: AsyncIterable<T> },
+): Promise<number> {
+  const fileName = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Type", contentTypes[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+  let count = 0;
+
+  if (format === "xlsx") {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true, useSharedStrings: false });
+    const worksheet = workbook.addWorksheet(name);
+    worksheet.columns = columns.map((column) => ({ header: column.header, key: column.key, width: 20 }));
+    worksheet.getRow(1).font = { bold: true };
+    for await (const row of rows) {
+      worksheet.addRow(columns.map((column) => cellValue(column.value(row)))).commit();
+      count++;
+    }
+    worksheet.commit();
+    await workbook.commit();
+    return count;
+  }
+
+  if (format === "csv") {
+    // The byte order mark makes Excel read the file as UTF-8
+    await write(res, "\uFEFF" + columns.map((column) => csvField(column.header)).join(",") + "\r\n");
+    for await (const row of rows) {
+      await write(res, columns.map((column) => csvField(column.value(row))).join(",") + "\r\n");
+      count++;
+    }
+  } else {
+    await write(res, "[");
+    for await (const row of rows) {
+      const record = Object.fromEntries(columns.map((column) => [column.key, column.value(row) ?? null]));
+      await write(res, (count > 0 ? ",\n" : "\n") + JSON.stringify(record));
+      count++;
+    }
+    await write(res, "\n]\n");
+  }
+  res.end();
+  return count;
+}
+
+// Filters on the date part of a timestamp or date column, both ends inclusive
+function withinDates(value: Date | string | null, from?: string, to?: string): boolean {
+  if (!from && !to) return true;
+  if (!value) return false;
+  const day = (value instanceof Date ? value.toISOString() : value).slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+}
+
+function searchTerms(q: string | undefined): string[] {
+  return q ? q.toLowerCase().split(/\s+/).filter(Boolean) : [];
+}
+
+function matchesTerms(terms: string[], fields: (string | null | undefined)[]): boolean {
+  const haystack = fields.filter(Boolean).join("\n").toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+// Looks up each item once however many rows refer to it
+function itemLookup(store: IStorage) {
+  const items = new Map<number, Promise<InventoryItem | undefined>>();
+  return (id: number) => {
+    if (!items.has(id)) items.set(id, store.getInventoryItem(id));
+    return items.get(id)!;
+  };
+}
+
+async function* inventoryRows(store: IStorage, query: InventoryQuery): AsyncIterable<InventoryItem> {
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { items } = await store.searchInventoryItems(query, { limit: BATCH_SIZE, offset });
+    yield* items;
+    if (items.length < BATCH_SIZE) return;
+  }
+}
+
+// One column per custom field key across all categories, headed by the field's label
+async function customFieldColumns(store: IStorage): Promise<ExportColumn<InventoryItem>[]> {
+  const columns = new Map<string, ExportColumn<InventoryItem>>();
+  for (const category of await store.listCategories()) {
+    for (const field of category.fields) {
+      if (columns.has(field.key)) continue;
+      columns.set(field.key, {
+        key: `customFields.${field.key}`,
+        header: field.label,
+        value: (item) => item.customFields[field.key],
+      });
+    }
+  }
+  return Array.from(columns.values());
+}
+
+type LoanGroupLine = { group: LoanGroup; loan?: Loan & { item: InventoryItem } };
+
+async function* loanGroupRows(store: IStorage, query: LoanQuery): AsyncIterable<LoanGroupLine> {
+  const terms = searchTerms(query.q);
+  const groups = (await store.listLoanGroups()).sort((a, b) => a.id - b.id);
+  for (const group of groups) {
+    if (query.status && !query.status.includes(group.status)) continue;
+    if (!withinDates(group.loanDate, query.loanFrom, query.loanTo)) continue;
+    const loans = await store.getLoansByLoanGroupId(group.id);
+    const searchable = [group.loanGroupId, group.borrowerName, group.borrowerContact, ...loans.map((loan) => loan.item.itemId)];
+    if (!matchesTerms(terms, searchable)) continue;
+
+    if (loans.length === 0) {
+      yield { group };
+    }
+    for (const loan of loans) {
+      yield { group, loan };
+    }
+  }
+}
+
+type IndividualLoan = Loan & { item?: InventoryItem };
+
+// Loans made on their own; lines of loan groups are exported with their group
+async function* loanRows(store: IStorage, query: LoanQuery): AsyncIterable<IndividualLoan> {
+  const terms = searchTerms(query.q);
+  const getItem = itemLookup(store);
+  const loans = (await store.listLoans())
+    .filter((loan) => loan.loanGroupId === null)
+    .sort((a, b) => a.id - b.id);
+  for (const loan of loans) {
+    if (query.status && !query.status.includes(loan.status)) continue;
+    if (!withinDates(loan.loanDate, query.loanFrom, query.loanTo)) continue;
+    const item = await getItem(loan.itemId);
+    if (!matchesTerms(terms, [loan.borrowerName, loan.borrowerContact, item?.itemId, item?.name])) continue;
+    yield { ...loan, item };
+  }
+}
+
+type LifecycleRow = LifecycleHistory & { item?: InventoryItem };
+
+async function* lifecycleRows(store: IStorage, query: LifecycleHistoryQuery): AsyncIterable<LifecycleRow> {
+  const getItem = itemLookup(store);
+  const history = query.itemId
+    ? await store.getLifecycleHistoryByItemId(query.itemId)
+    : await store.listLifecycleHistory();
+  for (const entry of history.sort((a, b) => a.id - b.id)) {
+    if (!withinDates(entry.lifecycleDate, query.from, query.to)) continue;
+    yield { ...entry, item: await getItem(entry.itemId) };
+  }
+}
+
+type ActivityRow = ActivityLog & { username?: string };
+
+async function* activityRows(store: IStorage, query: ActivityLogQuery): AsyncIterable<ActivityRow> {
+  const usernames = new Map((await store.listUsers()).map((user) => [user.id, user.username]));
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { logs } = await store.searchActivityLogs(query, { limit: BATCH_SIZE, offset });
+    for (const log of logs) {
+      yield { ...log, username: usernames.get(log.userId) };
+    }
+    if (logs.length < BATCH_SIZE) return;
+  }
+}
+
+export const exportDatasets: Record<string, ExportDataset<any, any>> = {
+  inventory: dataset<InventoryQuery, InventoryItem>({
+    label: "inventory items",
+    entityType: "InventoryItem",
+    permission: "inventory:read",
+    query: inventoryQuerySchema,
+    rows: inventoryRows,
+    extraColumns: customFieldColumns,
+    columns: [
+      { key: "itemId", header: "Item ID", value: (item) => item.itemId },
+      { key: "name", header: "Name", value: (item) => item.name },
+      { key: "model", header: "Model", value: (item) => item.model },
+      { key: "category", header: "Category", value: (item) => item.category },
+      { key: "status", header: "Status", value: (item) => item.status },
+      { key: "location", header: "Location", value: (item) => item.location },
+      { key: "quantity", header: "Quantity", value: (item) => item.quantity },
+      { key: "quantityAvailable", header: "Available", value: (item) => item.quantityAvailable },
+      { key: "quantityLoaned", header: "Loaned", value: (item) => item.quantityLoaned },
+      { key: "quantityDamaged", header: "Damaged", value: (item) => item.quantityDamaged },
+      { key: "quantityLifecycled", header: "Lifecycled", value: (item) => item.quantityLifecycled },
+      { key: "price", header: "Price", value: (item) => item.price },
+      { key: "usage", header: "Usage", value: (item) => item.usage },
+      { key: "lifecycleStatuses", header: "Lifecycle Statuses", value: (item) => item.lifecycleStatuses },
+      { key: "notes", header: "Notes", value: (item) => item.notes },
+      { key: "createdAt", header: "Created", value: (item) => item.createdAt },
+      { key: "updatedAt", header: "Updated", value: (item) => item.updatedAt },
+    ],
+  }),
+
+  "loan-groups": dataset<LoanQuery, LoanGroupLine>({
+    label: "loan group lines",
+    entityType: "LoanGroup",
+    permission: "loans:read",
+    query: loanQuerySchema,
+    rows: loanGroupRows,
+    columns: [
+      { key: "loanGroupId", header: "Loan Group ID", value: ({ group }) => group.loanGroupId },
+      { key: "borrowerName", header: "Borrower", value: ({ group }) => group.borrowerName },
+      { key: "borrowerType", header: "Borrower Type", value: ({ group }) => group.borrowerType },
+      { key: "borrowerContact", header: "Contact", value: ({ group }) => group.borrowerContact },
+      { key: "loanDate", header: "Loan Date", value: ({ group }) => group.loanDate },
+      { key: "expectedReturnDate", header: "Expected Return", value: ({ group }) => group.expectedReturnDate },
+      { key: "originalExpectedReturnDate", header: "Original Expected Return", value: ({ group }) => group.originalExpectedReturnDate },
+      { key: "groupStatus", header: "Group Status", value: ({ group }) => group.status },
+      { key: "itemId", header: "Item ID", value: ({ loan }) => loan?.item.itemId },
+      { key: "itemName", header: "Item Name", value: ({ loan }) => loan?.item.name },
+      { key: "quantityLoaned", header: "Quantity", value: ({ loan }) => loan?.quantityLoaned },
+      { key: "quantityReturned", header: "Quantity Returned", value: ({ loan }) => loan?.quantityReturned },
+      { key: "status", header: "Item Status", value: ({ loan }) => loan?.status },
+      { key: "actualReturnDate", header: "Returned On", value: ({ loan }) => loan?.actualReturnDate },
+      { key: "notes", header: "Notes", value: ({ group }) => group.notes },
+    ],
+  }),
+
+  loans: dataset<LoanQuery, IndividualLoan>({
+    label: "loans",
+    entityType: "Loan",
+    permission: "loans:read",
+    query: loanQuerySchema,
+    rows: loanRows,
+    columns: [
+      { key: "id", header: "Loan", value: (loan) => loan.id },
+      { key: "itemId", header: "Item ID", value: (loan) => loan.item?.itemId },
+      { key: "itemName", header: "Item Name", value: (loan) => loan.item?.name },
+      { key: "quantityLoaned", header: "Quantity", value: (loan) => loan.quantityLoaned },
+      { key: "quantityReturned", header: "Quantity Returned", value: (loan) => loan.quantityReturned },
+      { key: "borrowerName", header: "Borrower", value: (loan) => loan.borrowerName },
+      { key: "borrowerType", header: "Borrower Type", value: (loan) => loan.borrowerType },
+      { key: "borrowerContact", header: "Contact", value: (loan) => loan.borrowerContact },
+      { key: "loanDate", header: "Loan Date", value: (loan) => loan.loanDate },
+      { key: "expectedReturnDate", header: "Expected Return", value: (loan) => loan.expectedReturnDate },
+      { key: "originalExpectedReturnDate", header: "Original Expected Return", value: (loan) => loan.originalExpectedReturnDate },
+      { key: "actualReturnDate", header: "Returned On", value: (loan) => loan.actualReturnDate },
+      { key: "status", header: "Status", value: (loan) => loan.status },
+      { key: "notes", header: "Notes", value: (loan) => loan.notes },
+    ],
+  }),
+
+  "lifecycle-history": dataset<LifecycleHistoryQuery, LifecycleRow>({
+    label: "lifecycle history entries",
+    entityType: "LifecycleHistory",
+    permission: "inventory:read",
+    query: lifecycleHistoryQuerySchema,
+    rows: lifecycleRows,
+    columns: [
+      { key: "itemId", header: "Item ID", value: (entry) => entry.item?.itemId },
+      { key: "itemName", header: "Item Name", value: (entry) => entry.item?.name },
+      { key: "lifecycleStatuses", header: "Statuses", value: (entry) => entry.lifecycleStatuses },
+      { key: "quantityLifecycled", header: "Quantity", value: (entry) => entry.quantityLifecycled },
+      { key: "lifecycleDate", header: "Date", value: (entry) => entry.lifecycleDate },
+      { key: "lifecycleReason", header: "Reason", value: (entry) => entry.lifecycleReason },
+      { key: "createdBy", header: "Recorded By", value: (entry) => entry.createdBy },
+      { key: "createdAt", header: "Recorded At", value: (entry) => entry.createdAt },
+    ],
+  }),
+
+  activity: dataset<ActivityLogQuery, ActivityRow>({
+    label: "activity log entries",
+    entityType: "ActivityLog",
+    permission: "audit:read",
+    query: activityLogQuerySchema,
+    rows: activityRows,
+    columns: [
+      { key: "timestamp", header: "Timestamp", value: (log) => log.timestamp },
+      { key: "userId", header: "User ID", value: (log) => log.userId || null },
+      { key: "username", header: "User", value: (log) => log.username },
+      { key: "action", header: "Action", value: (log) => log.action },
+      { key: "entityType", header: "Entity Type", value: (log) => log.entityType },
+      { key: "entityId", header: "Entity ID", value: (log) => log.entityId },
+      { key: "details", header: "Details", value: (log) => log.details },
+    ],
+  }),
+};
+
+// For the activity log, e.g. "category=Tools, Furniture; q=drill"
+export function describeExportFilters(query: Record<string, unknown>): string {
+  return Object.entries(query)
+    .filter(([key, value]) => value !== undefined && !["sort", "order", "page", "pageSize"].includes(key))
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(", ") : value}`)
+    .join("; ");
+}
@@ -1,8 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage, ensureDefaultAdmin, ensureDefaultCategories, ensureItemLocations, ensureBorrowers } from "./storage";
+import { startOverdueLoanCheck } from "./overdueLoans";
+import { config } from "./config";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Set through TRUST_PROXY when a proxy sits in front, so req.ip (login throttling, auth log) is the client's address
+app.set("trust proxy", config.trustProxy);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -21,7 +26,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Auth responses can carry secrets: TOTP secrets, recovery codes, new API tokens
+      if (capturedJsonResponse && !path.startsWith("/api/auth/")) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -37,7 +43,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await ensureDefaultAdmin();
+  await ensureDefaultCategories();
+  await ensureItemLocations();
+  await ensureBorrowers();
   const server = await registerRoutes(app);
+  startOverdueLoanCheck(storage, config.overdueCheckIntervalMinutes);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,316 @@
+import path from "path";
+import ExcelJS from "exceljs";
+import Papa from "papaparse";
+import {
+  insertInventoryItemSchema,
+  inventoryImportFields,
+  itemStatusEnum,
+  itemUsageEnum,
+  type InsertInventoryItem,
+  type InventoryImportField,
+  type InventoryImportMapping,
+  type InventoryImportResult,
+  type InventoryImportRow,
+  type InventoryItem,
+} from "@shared/schema";
+import { categoryFields, validateCustomFields } from "@shared/categories";
+import { findLocation, locationPath } from "@shared/locations";
+import type { IStorage } from "./storage";
+import { HttpError } from "./errors";
+import { allocateItemId } from "./itemIds";
+import { isSplitAcrossLocations } from "./locations";
+
+const MAX_ROWS = 5000;
+
+export type Spreadsheet = {
+  columns: string[];
+  rows: { row: number; values: Record<string, string> }[];
+};
+
+// Reads the first worksheet (or the CSV) with the first row as the column headers. Blank rows are
+// dropped but the others keep their spreadsheet row numbers so errors can point at them.
+export async function readSpreadsheet(buffer: Buffer, fileName: string): Promise<Spreadsheet> {
+  const extension = path.extname(fileName).toLowerCase();
+  let sheet: Spreadsheet;
+  if (extension === ".csv") {
+    sheet = readCsv(buffer);
+  } else if (extension === ".xlsx") {
+    sheet = await readXlsx(buffer);
+  } else {
+    throw new HttpError(400, "Only .csv and .xlsx files can be imported");
+  }
+
+  if (sheet.columns.length === 0) {
+    throw new HttpError(400, "The file has no header row");
+  }
+  if (sheet.rows.length > MAX_ROWS) {
+    throw new HttpError(400, `The file has ${sheet.rows.length} rows; split it into files of at most ${MAX_ROWS}`);
+  }
+  return sheet;
+}
+
+function readCsv(buffer: Buffer): Spreadsheet {
+  const parsed = Papa.parse<Record<string, string>>(buffer.toString("utf8").replace(/^\uFEFF/, ""), {
+    header: true,
+    transformHeader: (header) => header.trim(),
+  });
+  const columns = (parsed.meta.fields ?? []).filter(Boolean);
+  const rows = parsed.data
+    .map((values, index) => ({ row: index + 2, values: trimValues(values, columns) }))
+    .filter(({ values }) => Object.values(values).some(Boolean));
+  return { columns, rows };
+}
+
+async function readXlsx(buffer: Buffer): Promise<Spreadsheet> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as any);
+  } catch {
+    throw new HttpError(400, "The file is not a readable XLSX workbook");
+  }
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return { columns: [], rows: [] };
+
+  const headers = new Map<number, string>();
+  worksheet.getRow(1).eachCell((cell, column) => {
+    const header = cell.text.trim();
+    if (header && !Array.from(headers.values()).includes(header)) headers.set(column, header);
+  });
+
+  const rows: Spreadsheet["rows"] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      values[header] = row.getCell(column).text.trim();
+    });
+    if (Object.values(values).some(Boolean)) rows.push({ row: rowNumber, values });
+  });
+  return { columns: Array.from(headers.values()), rows };
+}
+
+function trimValues(values: Record<string, string>, columns: string[]): Record<string, string> {
+  return Object.fromEntries(columns.map((column) => [column, (values[column] ?? "").trim()]));
+}
+
+// Header spellings recognised when suggesting a mapping, compared ignoring case and punctuation
+const fieldAliases: Record<InventoryImportField, string[]> = {
+  itemId: ["itemid", "id", "assetid", "assettag", "tag", "code"],
+  name: ["name", "itemname", "item", "title"],
+  model: ["model", "modelnumber", "modelno"],
+  category: ["category", "type"],
+  status: ["status", "state"],
+  location: ["location", "room", "place"],
+  quantity: ["quantity", "qty", "count", "units"],
+  price: ["price", "cost", "value", "unitprice"],
+  usage: ["usage", "usedby"],
+  notes: ["notes", "note", "comments", "remarks", "description"],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function suggestMapping(columns: string[]): InventoryImportMapping {
+  const mapping: InventoryImportMapping = {};
+  const used = new Set<string>();
+  for (const field of inventoryImportFields) {
+    const column = columns.find((column) => !used.has(column) && fieldAliases[field].includes(normalizeHeader(column)));
+    if (column) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  }
+  return mapping;
+}
+
+// Accepts "1,299.50", "€ 45" and "12,5"; anything else is passed on for the schema to reject
+function parseNumber(value: string): number | string {
+  let cleaned = value.replace(/[€$£\s]/g, "");
+  if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(cleaned)) {
+    cleaned = cleaned.replace(/,/g, "");
+  } else if (/^-?\d+,\d+$/.test(cleaned)) {
+    cleaned = cleaned.replace(",", ".");
+  }
+  const number = Number(cleaned);
+  return cleaned !== "" && Number.isFinite(number) ? number : value;
+}
+
+// Spreadsheets are often typed by hand, so "electronics" is taken as "Electronics"
+function matchOption(value: string, options: readonly string[]): string {
+  return options.find((option) => option.toLowerCase() === value.toLowerCase()) ?? value;
+}
+
+function rowInput(values: Record<string, string>, mapping: InventoryImportMapping, categoryNames: string[]): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const field of inventoryImportFields) {
+    const column = mapping[field];
+    const value = column ? values[column] : "";
+    if (!value) continue;
+
+    if (field === "quantity" || field === "price") {
+      input[field] = parseNumber(value);
+    } else if (field === "category") {
+      input[field] = matchOption(value, categoryNames);
+    } else if (field === "status") {
+      input[field] = matchOption(value, itemStatusEnum.options);
+    } else if (field === "usage") {
+      input[field] = matchOption(value, itemUsageEnum.options);
+    } else {
+      input[field] = value;
+    }
+  }
+  return input;
+}
+
+function importableFields(item: InventoryItem): Record<string, unknown> {
+  return Object.fromEntries(inventoryImportFields.map((field) => [field, item[field] ?? undefined]));
+}
+
+const newItemDefaults = { status: "Available", usage: "None", quantity: 1 };
+
+export type ImportChange =
+  | { action: "create"; data: InsertInventoryItem }
+  | { action: "update"; item: InventoryItem; data: Partial<InsertInventoryItem> };
+
+// Validates every row against the item schema. Rows whose item ID already exists update that
+// item with the mapped columns only; the rest create new items.
+export async function planImport(
+  store: IStorage,
+  sheet: Spreadsheet,
+  mapping: InventoryImportMapping,
+): Promise<{ rows: InventoryImportRow[]; changes: ImportChange[] }> {
+  for (const column of Object.values(mapping)) {
+    if (column && !sheet.columns.includes(column)) {
+      throw new HttpError(400, `Column "${column}" is not in the file`);
+    }
+  }
+
+  const rows: InventoryImportRow[] = [];
+  const changes: ImportChange[] = [];
+  const seenItemIds = new Map<string, number>();
+  const categories = await store.listCategories();
+  const categoryNames = categories.map((category) => category.name);
+  const locations = await store.listLocations();
+
+  for (const { row, values } of sheet.rows) {
+    const input = rowInput(values, mapping, categoryNames);
+    const itemId = typeof input.itemId === "string" ? input.itemId : undefined;
+    const existing = itemId ? await store.getInventoryItemByItemId(itemId) : undefined;
+    const result: InventoryImportRow = {
+      row,
+      action: existing ? "update" : "create",
+      itemId,
+      name: typeof input.name === "string" ? input.name : existing?.name,
+      errors: [],
+    };
+    rows.push(result);
+
+    if (itemId) {
+      const firstRow = seenItemIds.get(itemId);
+      if (firstRow !== undefined) {
+        result.errors.push({ field: "itemId", message: `Item ID ${itemId} is also on row ${firstRow}` });
+      } else {
+        seenItemIds.set(itemId, row);
+      }
+    }
+
+    // Updates are checked as the whole item they would produce; new items get the same defaults as the add form
+    const parsed = insertInventoryItemSchema.safeParse(
+      existing ? { ...importableFields(existing), ...input } : { ...newItemDefaults, ...input }
+    );
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        result.errors.push({ field: issue.path.join(".") || "row", message: issue.message });
+      }
+      continue;
+    }
+
+    if (!categoryNames.includes(parsed.data.category)) {
+      result.errors.push({ field: "category", message: `Unknown category "${parsed.data.category}"` });
+    }
+    // Custom fields aren't imported, so a new item (or one moved to another category) can't fill in required ones
+    let customFields;
+    if (!existing || input.category !== undefined) {
+      const checked = validateCustomFields(categoryFields(categories, parsed.data.category), existing?.customFields);
+      for (const error of checked.errors) {
+        result.errors.push({ field: "category", message: `${error.message}; fill it in on the item instead of importing` });
+      }
+      customFields = checked.values;
+    }
+    // Locations must already exist; a path or a name used only once finds them, ignoring case
+    let placement: { locationId: number; location: string } | undefined;
+    if (typeof input.location === "string") {
+      const location = findLocation(locations, input.location);
+      if (!location) {
+        result.errors.push({ field: "location", message: `Unknown location "${input.location}"; add it under Locations first` });
+      } else {
+        placement = { locationId: location.id, location: locationPath(locations, location.id) };
+        if (existing && location.id !== existing.locationId && await isSplitAcrossLocations(store, existing)) {
+          result.errors.push({ field: "location", message: `${existing.itemId} is kept at several locations; use a transfer to move it` });
+        }
+      }
+    }
+
+    if (existing) {
+      const committed = existing.quantityLoaned + existing.quantityDamaged + existing.quantityLifecycled;
+      if (existing.serialized && input.quantity !== undefined && parsed.data.quantity !== existing.quantity) {
+        result.errors.push({
+          field: "quantity",
+          message: `${existing.itemId} is tracked by serial number; its quantity is the number of units (${existing.quantity})`,
+        });
+      } else if (parsed.data.quantity !== undefined && parsed.data.quantity < committed) {
+        result.errors.push({
+          field: "quantity",
+          message: `Cannot be less than the ${committed} units currently loaned, damaged or lifecycled`,
+        });
+      }
+    }
+    if (result.errors.length > 0) continue;
+
+    if (existing) {
+      const data = Object.fromEntries(
+        Object.keys(input).filter((field) => field !== "itemId").map((field) => [field, parsed.data[field as keyof typeof parsed.data]])
+      ) as Partial<InsertInventoryItem>;
+      if (customFields) data.customFields = customFields;
+      changes.push({ action: "update", item: existing, data: { ...data, ...placement } });
+    } else {
+      changes.push({ action: "create", data: { ...parsed.data, customFields, ...placement } });
+    }
+  }
+
+  return { rows, changes };
+}
+
+// Call inside storage.transaction so a failure part-way leaves nothing imported
+export async function applyImport(tx: IStorage, changes: ImportChange[]): Promise<InventoryItem[]> {
+  const items: InventoryItem[] = [];
+  for (const change of changes) {
+    if (change.action === "create") {
+      const data = { ...change.data };
+      data.itemId = data.itemId || await allocateItemId(tx, data.category);
+      items.push(await tx.createInventoryItem(data));
+    } else {
+      const updated = await tx.updateInventoryItem(change.item.id, change.data);
+      if (updated) items.push(updated);
+      // Its stock moves along with it, as when the item is edited
+      if (change.data.locationId !== undefined && change.data.locationId !== change.item.locationId) {
+        await tx.replaceItemStock(change.item.id, []);
+      }
+    }
+  }
+  return items;
+}
+
+export function importResult(fileName: string, dryRun: boolean, rows: InventoryImportRow[]): InventoryImportResult {
+  const valid = rows.filter((row) => row.errors.length === 0);
+  return {
+    dryRun,
+    fileName,
+    summary: {
+      total: rows.length,
+      created: valid.filter((row) => row.action === "create").length,
+      updated: valid.filter((row) => row.action === "update").length,
+      invalid: rows.length - valid.length,
+    },
+    rows,
+  };
+}
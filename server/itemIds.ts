@@ -0,0 +1,36 @@
+import type { ItemIdSettings } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getSettingsSection } from "./settings";
+
+const NUMBER_WIDTH = 4;
+
+// Everything before the number, e.g. "BVGJK" or "BVGJK-EL-"
+export function itemIdBase(settings: ItemIdSettings, category: string): string {
+  const categoryPrefix = settings.categoryPrefixes[category as keyof ItemIdSettings["categoryPrefixes"]];
+  return categoryPrefix
+    ? `${settings.organizationPrefix}-${categoryPrefix}-`
+    : settings.organizationPrefix;
+}
+
+// Highest number already used under a base, so a new or changed prefix continues after existing items
+function highestNumberInUse(itemIds: string[], base: string): number {
+  let highest = 0;
+  for (const itemId of itemIds) {
+    if (itemId.startsWith(base) && /^\d+$/.test(itemId.slice(base.length))) {
+      highest = Math.max(highest, parseInt(itemId.slice(base.length), 10));
+    }
+  }
+  return highest;
+}
+
+// Allocates the next item ID for a category. Call inside storage.transaction so a failed insert
+// hands the number back instead of leaving a gap; numbers of deleted items are never reused.
+export async function allocateItemId(tx: IStorage, category: string): Promise<string> {
+  const base = itemIdBase(await getSettingsSection(tx, "itemIds"), category);
+  const items = await tx.listInventoryItems();
+  const next = await tx.nextSequenceValue(
+    `item:${base}`,
+    highestNumberInUse(items.map((item) => item.itemId), base)
+  );
+  return `${base}${String(next).padStart(NUMBER_WIDTH, "0")}`;
+}
@@ -0,0 +1,166 @@
+import PDFDocument from "pdfkit";
+import bwipjs from "bwip-js/node";
+import QRCode from "qrcode";
+import type { InventoryItem, LabelCodes, LabelLayout } from "@shared/schema";
+import { HttpError } from "./errors";
+
+const MM = 72 / 25.4; // PDF points per millimetre
+
+// Sheet geometry in millimetres. A new sticker stock only needs an entry here and in labelLayoutEnum.
+type SheetLayout = {
+  page: [number, number];
+  columns: number;
+  rows: number;
+  label: [number, number];
+  marginTop: number;
+  marginLeft: number;
+  gap: [number, number]; // Between columns, between rows
+  padding: number; // Inside each label
+  fontSize: number; // Item name; the other lines are set a little smaller
+};
+
+const layouts: Record<LabelLayout, SheetLayout> = {
+  // 24 labels of 70 × 37 mm on A4, the common office label sheet
+  "a4-3x8": {
+    page: [210, 297],
+    columns: 3,
+    rows: 8,
+    label: [70, 37],
+    marginTop: 0.5,
+    marginLeft: 0,
+    gap: [0, 0],
+    padding: 3,
+    fontSize: 9,
+  },
+  // One 50 × 25 mm label per page, for roll-fed thermal printers
+  "thermal-50x25": {
+    page: [50, 25],
+    columns: 1,
+    rows: 1,
+    label: [50, 25],
+    marginTop: 0,
+    marginLeft: 0,
+    gap: [0, 0],
+    padding: 1.5,
+    fontSize: 7,
+  },
+};
+
+export function labelsPerSheet(layout: LabelLayout): number {
+  return layouts[layout].columns * layouts[layout].rows;
+}
+
+type LabelImages = { qr?: Buffer; barcode?: Buffer };
+
+async function labelImages(item: InventoryItem, codes: LabelCodes, itemUrl: string): Promise<LabelImages> {
+  const images: LabelImages = {};
+  if (codes !== "code128") {
+    images.qr = await QRCode.toBuffer(itemUrl, { margin: 0, width: 300, errorCorrectionLevel: "M" });
+  }
+  if (codes !== "qr") {
+    images.barcode = await bwipjs.toBuffer({
+      bcid: "code128",
+      text: item.itemId,
+      scale: 3,
+      height: 8,
+      includetext: true,
+      textxalign: "center",
+    });
+  }
+  return images;
+}
+
+function drawLabel(
+  doc: PDFKit.PDFDocument,
+  layout: SheetLayout,
+  x: number,
+  y: number,
+  item: InventoryItem,
+  images: LabelImages,
+  organizationName: string,
+) {
+  const padding = layout.padding * MM;
+  const left = x + padding;
+  const top = y + padding;
+  const width = layout.label[0] * MM - 2 * padding;
+  const height = layout.label[1] * MM - 2 * padding;
+
+  // The QR code takes a square on the left; text and barcode share the rest
+  let textLeft = left;
+  if (images.qr) {
+    doc.image(images.qr, left, top, { width: height, height });
+    textLeft = left + height + 2 * MM;
+  }
+  const textWidth = left + width - textLeft;
+
+  const line = (text: string, size: number, font: string, color: string) => {
+    doc.font(font).fontSize(size).fillColor(color);
+    doc.text(text, textLeft, doc.y, { width: textWidth, height: size * 1.2, ellipsis: true, lineBreak: false });
+    doc.moveDown(0.15);
+  };
+
+  const fontSize = layout.fontSize;
+  doc.y = top;
+  line(organizationName, fontSize - 2, "Helvetica", "#555555");
+  line(item.name, fontSize, "Helvetica-Bold", "#000000");
+  if (item.location) line(item.location, fontSize - 1.5, "Helvetica", "#333333");
+  // The barcode prints the ID under its bars; without one it is written out
+  if (!images.barcode) line(item.itemId, fontSize - 0.5, "Helvetica-Bold", "#000000");
+
+  if (images.barcode) {
+    const barcodeTop = Math.max(doc.y, top + height * 0.5);
+    doc.image(images.barcode, textLeft, barcodeTop, {
+      fit: [textWidth, top + height - barcodeTop],
+      valign: "bottom",
+    });
+  }
+}
+
+// Writes a PDF with `copies` labels per item, filling the sheet from position `start` (1-based,
+// row by row) so a part-used sheet can go back through the printer.
+export async function writeLabelPdf(
+  stream: NodeJS.WritableStream,
+  items: InventoryItem[],
+  options: {
+    layout: LabelLayout;
+    codes: LabelCodes;
+    copies: number;
+    start: number;
+    organizationName: string;
+    itemUrl: (item: InventoryItem) => string;
+  },
+): Promise<void> {
+  const layout = layouts[options.layout];
+  const perSheet = labelsPerSheet(options.layout);
+  if (options.start > perSheet) {
+    throw new HttpError(400, `This layout has ${perSheet} labels per sheet; start must be between 1 and ${perSheet}`);
+  }
+
+  // Render every code before writing so a failure can still be reported as an error response
+  const images = new Map<number, LabelImages>();
+  for (const item of items) {
+    images.set(item.id, await labelImages(item, options.codes, options.itemUrl(item)));
+  }
+
+  const doc = new PDFDocument({
+    size: [layout.page[0] * MM, layout.page[1] * MM],
+    margin: 0,
+    info: { Title: "Asset labels", Author: options.organizationName },
+  });
+  doc.pipe(stream);
+
+  let position = options.start - 1;
+  for (const item of items) {
+    for (let copy = 0; copy < options.copies; copy++, position++) {
+      const slot = position % perSheet;
+      if (slot === 0 && position > 0) doc.addPage();
+      const column = slot % layout.columns;
+      const row = Math.floor(slot / layout.columns);
+      const x = (layout.marginLeft + column * (layout.label[0] + layout.gap[0])) * MM;
+      const y = (layout.marginTop + row * (layout.label[1] + layout.gap[1])) * MM;
+      drawLabel(doc, layout, x, y, item, images.get(item.id)!, options.organizationName);
+    }
+  }
+
+  doc.end();
+}
@@ -0,0 +1,136 @@
+import type { Document, Loan, LoanExtension, LoanGroup, LoanReturn } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { loanReturnEntries } from "./loanReturns";
+import { documentHeader } from "./settings";
+
+const day = (date: Date | string) => new Date(date).toISOString().split("T")[0];
+
+// Agreements for individual loans and loan groups share one DOC-LOAN-<year>-<number> series, which
+// continues after documents numbered before it existed (from the loan or group id)
+export async function allocateLoanDocumentId(tx: IStorage, year: number): Promise<string> {
+  const base = `DOC-LOAN-${year}-`;
+  let highest = 0;
+  for (const document of await tx.listDocuments()) {
+    const number = document.documentId.slice(base.length);
+    if (document.documentId.startsWith(base) && /^\d+$/.test(number)) {
+      highest = Math.max(highest, parseInt(number, 10));
+    }
+  }
+  const next = await tx.nextSequenceValue(`loan-document:${year}`, highest);
+  return `${base}${String(next).padStart(3, "0")}`;
+}
+
+// Wording of a multi-item loan agreement, with the group's current due date
+export function groupAgreementText(loanGroup: LoanGroup, organizationName: string): string {
+  return `This document certifies that the items have been loaned by ${organizationName} to ${loanGroup.borrowerName} (${loanGroup.borrowerType}) from ${day(loanGroup.loanDate)} until ${day(loanGroup.expectedReturnDate)}.`;
+}
+
+// The agreement issued for an individual loan (its content names the loan) or a loan group (related
+// to the group's code), in its latest version
+export async function findLoanDocument(store: IStorage, target: Loan | LoanGroup): Promise<Document | undefined> {
+  const documents = (await store.listDocuments())
+    .filter((document) => document.type === "Loan")
+    .sort((a, b) => b.version - a.version);
+  // A group's loanGroupId is its code; a loan's is the id of its group, if any
+  const groupCode = typeof target.loanGroupId === "string" ? target.loanGroupId : null;
+  if (groupCode) {
+    return documents.find((document) => document.relatedItemId === groupCode);
+  }
+  return documents.find((document) => {
+    try {
+      return JSON.parse(document.content)?.loanDetails?.id === target.id;
+    } catch {
+      return false;
+    }
+  });
+}
+
+// Issues the next version of a loan's agreement after an extension, e.g. DOC-LOAN-2025-004-v2, with
+// the new due date and the extension history. Returns recorded on the previous version carry over;
+// signatures do not, as the new terms need signing again.
+export async function issueAgreementVersion(
+  tx: IStorage,
+  target: Loan | LoanGroup,
+  extension: LoanExtension,
+  issuedBy: number,
+): Promise<Document | undefined> {
+  const previous = await findLoanDocument(tx, target);
+  if (!previous) return undefined;
+
+  const header = await documentHeader(tx);
+  const userName = async (id: number | null) => {
+    const user = id !== null ? await tx.getUser(id) : undefined;
+    return user ? user.name : id !== null ? `User #${id}` : null;
+  };
+  const entry = {
+    previousDueDate: extension.previousDueDate,
+    newDueDate: extension.newDueDate,
+    reason: extension.reason,
+    requestedBy: await userName(extension.requestedBy),
+    approvedBy: await userName(extension.decidedBy),
+    extendedAt: extension.decidedAt ?? new Date(),
+  };
+
+  let content: string;
+  if (typeof target.loanGroupId === "string") {
+    const history = previous.content.split("\n").filter((line) => /^(Extended|Returned) /.test(line));
+    const extended = `Extended ${day(entry.extendedAt)}: due date moved from ${entry.previousDueDate} to ` +
+      `${entry.newDueDate} (${entry.reason}), approved by ${entry.approvedBy}`;
+    content = `${groupAgreementText(target as LoanGroup, header.organizationName)}\n\n${[...history, extended].join("\n")}`;
+  } else {
+    const parsed = JSON.parse(previous.content);
+    content = JSON.stringify({ ...parsed, header, loanDetails: target, extensions: [...(parsed.extensions ?? []), entry] });
+  }
+
+  const version = previous.version + 1;
+  return tx.createDocument({
+    documentId: `${previous.documentId.replace(/-v\d+$/, "")}-v${version}`,
+    type: "Loan",
+    title: `${previous.title.replace(/ \(v\d+\)$/, "")} (v${version})`,
+    relatedItemId: previous.relatedItemId,
+    content,
+    signedBy: [],
+    createdBy: issuedBy,
+    version,
+    previousVersionId: previous.id,
+  });
+}
+
+// Adds returns, with the condition units came back in, to the loan's document: structured documents
+// list them under `returns`, plain text ones (multi-item agreements) get a line per return
+export async function recordReturnsOnDocument(
+  tx: IStorage,
+  target: Loan | LoanGroup,
+  recorded: LoanReturn[],
+): Promise<void> {
+  const document = await findLoanDocument(tx, target);
+  if (!document || recorded.length === 0) return;
+
+  const loanIds = Array.from(new Set(recorded.map((loanReturn) => loanReturn.loanId)));
+  const loans = (await Promise.all(loanIds.map((id) => tx.getLoan(id)))).filter((loan): loan is Loan => !!loan);
+  const entries = (await loanReturnEntries(tx, loans))
+    .filter((entry) => recorded.some((loanReturn) => loanReturn.id === entry.id));
+
+  const returns = entries.map((entry) => ({
+    returnedAt: entry.returnedAt,
+    item: entry.itemName,
+    quantity: entry.quantity,
+    condition: entry.condition,
+    notes: entry.notes,
+    photos: entry.photos,
+    receivedBy: entry.receivedByName,
+  }));
+
+  let content: string;
+  try {
+    const parsed = JSON.parse(document.content);
+    content = JSON.stringify({ ...parsed, returns: [...(parsed.returns ?? []), ...returns] });
+  } catch {
+    const lines = returns.map((entry) =>
+      `Returned ${day(entry.returnedAt)}: ${entry.quantity} x ${entry.item} - ${entry.condition}` +
+      `${entry.notes ? ` (${entry.notes})` : ""}, received by ${entry.receivedBy}`
+    );
+    content = `${document.content}\n\n${lines.join("\n")}`;
+  }
+  await tx.updateDocument(document.id, { content });
+}
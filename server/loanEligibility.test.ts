@@ -0,0 +1,94 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Borrower, InventoryItem } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { enforceLoanRules, loanRuleViolations, logRuleOverride, type LoanRequest } from "./loanEligibility";
+import { updateSettings } from "./settings";
+import { backends, createTestItem, createTestLoan } from "./testStorage";
+
+function daysFromNow(days: number): Date {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+for (const backend of backends) {
+  describe(`lending rules (${backend.name})`, () => {
+    let store: IStorage;
+    let borrower: Borrower;
+    let item: InventoryItem;
+
+    // A loan of `quantity` chairs to the borrower for `days` days from today
+    const request = (quantity: number, days = 7): LoanRequest => ({
+      borrowerId: borrower.id,
+      loanDate: new Date(),
+      expectedReturnDate: daysFromNow(days),
+      lines: [{ item, quantity }],
+    });
+
+    const rules = async (loanRequest: LoanRequest) =>
+      (await loanRuleViolations(store, loanRequest)).map((violation) => violation.rule);
+
+    beforeEach(async () => {
+      store = await backend.create();
+      borrower = await store.createBorrower({ kind: "Person", name: "Ana Berisha", borrowerType: "Member" });
+      item = await createTestItem(store, 10);
+    });
+
+    it("finds nothing wrong with a loan inside the limits", async () => {
+      assert.deepEqual(await rules(request(2)), []);
+    });
+
+    it("refuses a blocklisted borrower", async () => {
+      await store.setBorrowerBlock(borrower.id, "Lost a projector");
+
+      assert.deepEqual(await rules(request(1)), ["blocked"]);
+    });
+
+    it("refuses a borrower with an overdue loan", async () => {
+      await createTestLoan(store, item, 1, {
+        borrowerId: borrower.id,
+        loanDate: daysFromNow(-10),
+        expectedReturnDate: daysFromNow(-3),
+      });
+
+      assert.deepEqual(await rules(request(1)), ["overdue"]);
+    });
+
+    it("counts the units already out against the borrower type's limit", async () => {
+      await updateSettings(store, { loans: { maxItemsPerBorrowerType: { Member: 4 } } }, 1);
+      await createTestLoan(store, item, 3, { borrowerId: borrower.id });
+
+      assert.deepEqual(await rules(request(1)), []);
+      assert.deepEqual(await rules(request(2)), ["maxItems"]);
+    });
+
+    it("limits the duration by the nearest category with a limit", async () => {
+      const equipment = await store.createCategory({ name: "Equipment" });
+      await store.createCategory({ name: "Projectors", parentId: equipment.id });
+      await updateSettings(store, { loans: { maxDaysPerCategory: { Equipment: 7 } } }, 1);
+      item = await createTestItem(store, 2, { category: "Projectors" });
+
+      assert.deepEqual(await rules(request(1, 7)), []);
+      assert.deepEqual(await rules(request(1, 8)), ["maxDuration"]);
+    });
+
+    it("needs loans:override and a reason to lend despite the rules", async () => {
+      await store.setBorrowerBlock(borrower.id, "Lost a projector");
+      const enforce = (override: { reason: string } | undefined, role: string) =>
+        store.transaction((tx) => enforceLoanRules(tx, request(1), override, { id: 1, role }));
+
+      await assert.rejects(enforce(undefined, "admin"), (error: { status: number; details: { violations: unknown[] } }) => {
+        assert.equal(error.status, 400);
+        assert.equal(error.details.violations.length, 1);
+        return true;
+      });
+      await assert.rejects(enforce({ reason: "Paid for it" }, "loan_officer"), { status: 403 });
+
+      const overridden = await enforce({ reason: "Paid for it" }, "admin");
+      assert.deepEqual(overridden.map((violation) => violation.rule), ["blocked"]);
+
+      await logRuleOverride(store, "Loan", 1, overridden, "Paid for it", 1);
+      const [entry] = (await store.listActivityLogs()).filter((log) => log.action === "Rule Override");
+      assert.match(entry.details!, /Lost a projector.*: Paid for it$/);
+    });
+  });
+}
@@ -0,0 +1,141 @@
+import type { InventoryItem, LoanRuleViolation, User } from "@shared/schema";
+import { categoryAncestry } from "@shared/categories";
+import { hasPermission } from "@shared/permissions";
+import type { IStorage } from "./storage";
+import { HttpError } from "./errors";
+import { getSettingsSection } from "./settings";
+import { isPastDue } from "./overdueLoans";
+import { withGroupDetails } from "./scanning";
+
+// A loan about to be made, after its borrower has been resolved
+export type LoanRequest = {
+  borrowerId: number;
+  loanDate: Date;
+  expectedReturnDate: Date | null; // Loans without a due date have no duration to limit
+  lines: { item: InventoryItem; quantity: number }[];
+};
+
+function day(date: Date): number {
+  return Date.parse(date.toISOString().slice(0, 10));
+}
+
+// Calendar days from the loan date to the due date
+export function loanDays(loanDate: Date, expectedReturnDate: Date): number {
+  return Math.round((day(expectedReturnDate) - day(loanDate)) / (24 * 60 * 60 * 1000));
+}
+
+// The lending rules a new loan breaks, as set in the loans section of the settings. Limits count
+// the units the borrower still has out, and a category without a duration limit takes its
+// nearest parent's.
+export async function loanRuleViolations(tx: IStorage, request: LoanRequest, now = new Date()): Promise<LoanRuleViolation[]> {
+  const settings = await getSettingsSection(tx, "loans");
+  const borrower = await tx.getBorrower(request.borrowerId);
+  if (!borrower) {
+    throw new HttpError(400, "Borrower not found");
+  }
+  const violations: LoanRuleViolation[] = [];
+
+  if (borrower.blockedAt) {
+    violations.push({ rule: "blocked", message: `${borrower.name} is on the blocklist: ${borrower.blockedReason}` });
+  }
+
+  const lines = (await withGroupDetails(tx, await tx.listLoans())).filter((line) => line.borrowerId === borrower.id);
+  const openLines = lines.filter((line) => line.status !== "Returned");
+
+  if (settings.blockOverdueBorrowers) {
+    const overdue = new Set(
+      openLines
+        .filter((line) => isPastDue(line.expectedReturnDate, now))
+        .map((line) => line.loanGroupCode ?? `Loan #${line.id}`)
+    );
+    if (overdue.size > 0) {
+      violations.push({
+        rule: "overdue",
+        message: `${borrower.name} has ${overdue.size} overdue loan(s): ${Array.from(overdue).join(", ")}`,
+      });
+    }
+  }
+
+  if (settings.blockUnresolvedDamage) {
+    const unresolved = (await tx.listLoanReturns(lines.map((line) => line.id)))
+      .filter((entry) => (entry.condition === "Damaged" || entry.condition === "Missing") && !entry.resolvedAt);
+    if (unresolved.length > 0) {
+      const units = unresolved.reduce((sum, entry) => sum + entry.quantity, 0);
+      violations.push({
+        rule: "unresolvedDamage",
+        message: `${borrower.name} returned ${units} unit(s) damaged or missing that are not resolved yet`,
+      });
+    }
+  }
+
+  const maxItems = settings.maxItemsPerBorrowerType[borrower.borrowerType];
+  if (maxItems !== undefined) {
+    const out = openLines.reduce((sum, line) => sum + line.quantityLoaned - line.quantityReturned, 0);
+    const requested = request.lines.reduce((sum, line) => sum + line.quantity, 0);
+    if (out + requested > maxItems) {
+      violations.push({
+        rule: "maxItems",
+        message: `${borrower.borrowerType} borrowers may have at most ${maxItems} unit(s) out at once; ` +
+          `${borrower.name} has ${out} out and this loan adds ${requested}`,
+      });
+    }
+  }
+
+  const days = request.expectedReturnDate ? loanDays(request.loanDate, request.expectedReturnDate) : 0;
+  const categories = await tx.listCategories();
+  const tooLong = new Map<string, { maxDays: number; items: string[] }>();
+  for (const { item } of days > 0 ? request.lines : []) {
+    const limited = categoryAncestry(categories, item.category)
+      .find((category) => settings.maxDaysPerCategory[category.name] !== undefined);
+    if (!limited || days <= settings.maxDaysPerCategory[limited.name]) continue;
+    const entry = tooLong.get(limited.name) ?? { maxDays: settings.maxDaysPerCategory[limited.name], items: [] };
+    if (!entry.items.includes(item.name)) entry.items.push(item.name);
+    tooLong.set(limited.name, entry);
+  }
+  for (const [category, { maxDays, items }] of Array.from(tooLong)) {
+    violations.push({
+      rule: "maxDuration",
+      message: `${category} items may be lent for at most ${maxDays} day(s), not ${days}: ${items.join(", ")}`,
+    });
+  }
+
+  return violations;
+}
+
+// Checks a new loan against the lending rules. A loan that breaks them is refused with the
+// violations listed, unless it comes with an override by someone with loans:override; the
+// violations overridden are returned for logRuleOverride once the loan exists.
+// Call inside storage.transaction.
+export async function enforceLoanRules(
+  tx: IStorage,
+  request: LoanRequest,
+  override: { reason: string } | undefined,
+  user: Pick<User, "id" | "role">,
+): Promise<LoanRuleViolation[]> {
+  const violations = await loanRuleViolations(tx, request);
+  if (violations.length === 0) return [];
+  if (!override) {
+    throw new HttpError(400, "This loan breaks the lending rules", { violations });
+  }
+  if (!hasPermission(user.role, "loans:override")) {
+    throw new HttpError(403, "You do not have permission to override the lending rules", { violations });
+  }
+  return violations;
+}
+
+export async function logRuleOverride(
+  tx: IStorage,
+  entityType: "Loan" | "LoanGroup",
+  entityId: number,
+  violations: LoanRuleViolation[],
+  reason: string,
+  userId: number,
+): Promise<void> {
+  await tx.createActivityLog({
+    userId,
+    action: "Rule Override",
+    entityType,
+    entityId: entityId.toString(),
+    details: `Lent despite the lending rules (${violations.map((violation) => violation.message).join("; ")}): ${reason}`,
+  });
+}
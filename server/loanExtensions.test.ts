@@ -0,0 +1,62 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { IStorage } from "./storage";
+import { requestExtension } from "./loanExtensions";
+import { backends, createTestItem, createTestLoan } from "./testStorage";
+
+const admin = { id: 1, role: "admin" };
+
+function daysFromNow(days: number): Date {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+function dateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+for (const backend of backends) {
+  describe(`loan extensions (${backend.name})`, () => {
+    let store: IStorage;
+
+    beforeEach(async () => {
+      store = await backend.create();
+    });
+
+    it("refuses a due date that reaches a later loan of the same item", async () => {
+      const item = await createTestItem(store, 5);
+      const loan = await createTestLoan(store, item, 2, { expectedReturnDate: daysFromNow(3) });
+      await createTestLoan(store, item, 2, { loanDate: daysFromNow(10), expectedReturnDate: daysFromNow(14) });
+
+      const extend = (days: number) => store.transaction(async (tx) =>
+        requestExtension(tx, (await tx.getLoan(loan.id))!, { newDueDate: dateString(daysFromNow(days)), reason: "Event moved" }, admin));
+
+      await assert.rejects(extend(10), { status: 400, message: /reserved by loan #\d+ from/ });
+      assert.equal((await extend(9)).status, "Approved");
+      assert.equal(dateString((await store.getLoan(loan.id))!.expectedReturnDate!), dateString(daysFromNow(9)));
+    });
+
+    it("ignores later loans of other items", async () => {
+      const item = await createTestItem(store, 5);
+      const other = await createTestItem(store, 5);
+      const loan = await createTestLoan(store, item, 2, { expectedReturnDate: daysFromNow(3) });
+      await createTestLoan(store, other, 2, { loanDate: daysFromNow(5), expectedReturnDate: daysFromNow(8) });
+
+      const extension = await store.transaction(async (tx) =>
+        requestExtension(tx, (await tx.getLoan(loan.id))!, { newDueDate: dateString(daysFromNow(20)), reason: "Event moved" }, admin));
+      assert.equal(extension.status, "Approved");
+    });
+
+    it("re-checks the overdue status of the extended loan only", async () => {
+      const item = await createTestItem(store, 5);
+      const loan = await createTestLoan(store, item, 1, { loanDate: daysFromNow(-10), expectedReturnDate: daysFromNow(-2) });
+      const untouched = await createTestLoan(store, item, 1, { loanDate: daysFromNow(-10), expectedReturnDate: daysFromNow(-2) });
+      await store.setLoanStatus(loan.id, "Overdue");
+
+      await store.transaction(async (tx) =>
+        requestExtension(tx, (await tx.getLoan(loan.id))!, { newDueDate: dateString(daysFromNow(5)), reason: "Still in use" }, admin));
+
+      assert.equal((await store.getLoan(loan.id))!.status, "Ongoing");
+      assert.equal((await store.getLoan(untouched.id))!.status, "Ongoing");
+    });
+  });
+}
@@ -0,0 +1,206 @@
+import type { ExtendLoan, Loan, LoanExtension, LoanExtensionEntry, LoanGroup, User } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import type { IStorage } from "./storage";
+import { HttpError } from "./errors";
+import { getSettingsSection } from "./settings";
+import { issueAgreementVersion } from "./loanDocuments";
+import { refreshOverdueLoan, refreshOverdueLoanGroup } from "./overdueLoans";
+import { withGroupDetails } from "./scanning";
+
+// An individual loan or a loan group, whose loanGroupId is its code
+type ExtensionTarget = Loan | LoanGroup;
+
+function isGroup(target: ExtensionTarget): target is LoanGroup {
+  return typeof target.loanGroupId === "string";
+}
+
+function isFor(extension: LoanExtension, target: ExtensionTarget): boolean {
+  return isGroup(target) ? extension.loanGroupId === target.id : extension.loanId === target.id;
+}
+
+function describeTarget(target: ExtensionTarget): string {
+  return isGroup(target)
+    ? `loan ${target.loanGroupId} (${target.borrowerName})`
+    : `loan #${target.id} (${target.borrowerName || "Borrower"})`;
+}
+
+// Only open loans with a due date can be extended, and only to a later day. Lines of a multi-item
+// loan follow the group's date. Returns the current due date.
+function checkExtendable(target: ExtensionTarget, newDueDate: string): string {
+  if (target.status === "Returned") {
+    throw new HttpError(400, "Returned loans cannot be extended");
+  }
+  if (!isGroup(target) && target.loanGroupId !== null) {
+    throw new HttpError(400, "This item is part of a multi-item loan; extend the multi-item loan instead");
+  }
+  if (!target.expectedReturnDate) {
+    throw new HttpError(400, "This loan has no due date to extend");
+  }
+  const dueDate = new Date(target.expectedReturnDate).toISOString().split("T")[0];
+  if (newDueDate <= dueDate) {
+    throw new HttpError(400, `The new due date must be after the current one (${dueDate})`);
+  }
+  return dueDate;
+}
+
+function day(date: Date | string): string {
+  return typeof date === "string" ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+// Loans recorded ahead of their loan date hold their items from that day on, so they serve as
+// reservations: the new due date may not reach the start of one for any item still out on this loan.
+async function checkReservations(tx: IStorage, target: ExtensionTarget, newDueDate: string, now = new Date()): Promise<void> {
+  const lines = await withGroupDetails(tx, await tx.listLoans());
+  const isOwn = (line: Loan) => isGroup(target) ? line.loanGroupId === target.id : line.id === target.id;
+  const itemIds = new Set(lines.filter((line) => isOwn(line) && line.status !== "Returned").map((line) => line.itemId));
+  const today = day(now);
+
+  const reservations = lines.filter((line) =>
+    !isOwn(line) &&
+    line.status !== "Returned" &&
+    itemIds.has(line.itemId) &&
+    line.loanDate !== null &&
+    day(line.loanDate) > today &&
+    day(line.loanDate) <= newDueDate
+  );
+  if (reservations.length > 0) {
+    const held = new Set(reservations.map((line) => `${line.loanGroupCode ?? `loan #${line.id}`} from ${day(line.loanDate!)}`));
+    throw new HttpError(400, `Items on this loan are reserved by ${Array.from(held).join(", ")}; choose an earlier due date`);
+  }
+}
+
+async function extensionTarget(tx: IStorage, extension: LoanExtension): Promise<ExtensionTarget> {
+  const target = extension.loanGroupId !== null
+    ? (await tx.listLoanGroups()).find((group) => group.id === extension.loanGroupId)
+    : await tx.getLoan(extension.loanId!);
+  if (!target) {
+    throw new HttpError(404, "Loan not found");
+  }
+  return target;
+}
+
+// Moves the due date, issues the next agreement version and re-checks overdue status, which an
+// overdue loan leaves once its new date is in the future
+async function applyExtension(
+  tx: IStorage,
+  target: ExtensionTarget,
+  extension: LoanExtension,
+  userId: number,
+): Promise<LoanExtension> {
+  const extended = isGroup(target)
+    ? await tx.setLoanGroupDueDate(target.id, extension.newDueDate)
+    : await tx.setLoanDueDate(target.id, new Date(extension.newDueDate));
+  const document = await issueAgreementVersion(tx, extended!, extension, userId);
+  if (isGroup(target)) {
+    await refreshOverdueLoanGroup(tx, extended as LoanGroup);
+  } else {
+    await refreshOverdueLoan(tx, extended as Loan);
+  }
+  return document ? (await tx.updateLoanExtension(extension.id, { documentId: document.documentId }))! : extension;
+}
+
+// Records an extension request. It applies at once unless settings require approval and the user
+// cannot approve, in which case it waits as Pending. Call inside storage.transaction.
+export async function requestExtension(
+  tx: IStorage,
+  target: ExtensionTarget,
+  request: ExtendLoan,
+  user: Pick<User, "id" | "role">,
+): Promise<LoanExtension> {
+  const previousDueDate = checkExtendable(target, request.newDueDate);
+  await checkReservations(tx, target, request.newDueDate);
+  if ((await tx.listLoanExtensions()).some((extension) => extension.status === "Pending" && isFor(extension, target))) {
+    throw new HttpError(400, "An extension of this loan is already waiting for approval");
+  }
+
+  const { extensionApprovalRequired } = await getSettingsSection(tx, "loans");
+  const approved = !extensionApprovalRequired || hasPermission(user.role, "loans:approve");
+  const now = new Date();
+  const extension = await tx.createLoanExtension({
+    loanId: isGroup(target) ? null : target.id,
+    loanGroupId: isGroup(target) ? target.id : null,
+    previousDueDate,
+    newDueDate: request.newDueDate,
+    reason: request.reason,
+    status: approved ? "Approved" : "Pending",
+    requestedBy: user.id,
+    requestedAt: now,
+    decidedBy: approved ? user.id : null,
+    decidedAt: approved ? now : null,
+  });
+
+  await tx.createActivityLog({
+    userId: user.id,
+    action: approved ? "Extend" : "Extension Requested",
+    entityType: isGroup(target) ? "LoanGroup" : "Loan",
+    entityId: target.id.toString(),
+    details: `${approved ? "Extended" : "Asked to extend"} ${describeTarget(target)} from ${previousDueDate} to ${request.newDueDate}: ${request.reason}`,
+  });
+
+  return approved ? applyExtension(tx, target, extension, user.id) : extension;
+}
+
+// Approves or rejects a Pending extension; approving re-checks it against the loan as it is now.
+// Call inside storage.transaction.
+export async function decideExtension(
+  tx: IStorage,
+  extension: LoanExtension,
+  decision: { approved: boolean; note?: string },
+  userId: number,
+): Promise<LoanExtension> {
+  if (extension.status !== "Pending") {
+    throw new HttpError(400, `This extension was already ${extension.status.toLowerCase()}`);
+  }
+  const target = await extensionTarget(tx, extension);
+  if (decision.approved) {
+    checkExtendable(target, extension.newDueDate);
+    await checkReservations(tx, target, extension.newDueDate);
+  }
+
+  const decided = (await tx.updateLoanExtension(extension.id, {
+    status: decision.approved ? "Approved" : "Rejected",
+    decidedBy: userId,
+    decidedAt: new Date(),
+    decisionNote: decision.note || null,
+  }))!;
+
+  await tx.createActivityLog({
+    userId,
+    action: decision.approved ? "Extension Approved" : "Extension Rejected",
+    entityType: isGroup(target) ? "LoanGroup" : "Loan",
+    entityId: target.id.toString(),
+    details: `${decision.approved ? "Approved" : "Rejected"} extending ${describeTarget(target)} from ${extension.previousDueDate} ` +
+      `to ${extension.newDueDate}${decision.note ? `: ${decision.note}` : ""}`,
+  });
+
+  return decision.approved ? applyExtension(tx, target, decided, userId) : decided;
+}
+
+// Extensions as listed, with the loan they are for and who asked for and decided them
+export async function loanExtensionEntries(store: IStorage, extensions: LoanExtension[]): Promise<LoanExtensionEntry[]> {
+  const [groups, loans] = await Promise.all([store.listLoanGroups(), store.listLoans()]);
+  const names = new Map<number, string>();
+  const userName = async (id: number) => {
+    if (!names.has(id)) {
+      const user = await store.getUser(id);
+      names.set(id, user ? user.name : `User #${id}`);
+    }
+    return names.get(id)!;
+  };
+
+  const entries: LoanExtensionEntry[] = [];
+  for (const extension of extensions) {
+    const group = groups.find((group) => group.id === extension.loanGroupId);
+    const loan = loans.find((loan) => loan.id === extension.loanId);
+    const item = loan ? await store.getInventoryItem(loan.itemId) : undefined;
+    entries.push({
+      ...extension,
+      loanLabel: group
+        ? `${group.loanGroupId} (${group.borrowerName})`
+        : `Loan #${extension.loanId}${item ? ` - ${item.name}` : ""} (${loan?.borrowerName || "Borrower"})`,
+      requestedByName: await userName(extension.requestedBy),
+      decidedByName: extension.decidedBy !== null ? await userName(extension.decidedBy) : null,
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ReturnCondition } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { receiveReturn } from "./loanReturns";
+import { backends, createTestItem, createTestLoan } from "./testStorage";
+
+async function giveBack(store: IStorage, loanId: number, quantity: number, condition: ReturnCondition = "Good") {
+  await store.transaction(async (tx) => {
+    const loan = (await tx.getLoan(loanId))!;
+    await receiveReturn(tx, [{ loan, quantity, condition }], { returnedAt: new Date(), receivedBy: 1 });
+  });
+}
+
+async function quantities(store: IStorage, itemId: number) {
+  const item = (await store.getInventoryItem(itemId))!;
+  // Every unit is in exactly one bucket
+  assert.equal(
+    item.quantityAvailable + item.quantityLoaned + item.quantityDamaged + (item.quantityLifecycled ?? 0),
+    item.quantity,
+    "quantities add up to the total",
+  );
+  return {
+    available: item.quantityAvailable,
+    loaned: item.quantityLoaned,
+    damaged: item.quantityDamaged,
+    lifecycled: item.quantityLifecycled ?? 0,
+  };
+}
+
+for (const backend of backends) {
+  describe(`loan quantities (${backend.name})`, () => {
+    let store: IStorage;
+
+    beforeEach(async () => {
+      store = await backend.create();
+    });
+
+    it("moves lent units from available to loaned", async () => {
+      const item = await createTestItem(store, 5);
+      await createTestLoan(store, item, 3);
+
+      assert.deepEqual(await quantities(store, item.id), { available: 2, loaned: 3, damaged: 0, lifecycled: 0 });
+    });
+
+    it("restocks a partial return and closes the loan with the last units", async () => {
+      const item = await createTestItem(store, 5);
+      const loan = await createTestLoan(store, item, 5);
+
+      await giveBack(store, loan.id, 2);
+      assert.deepEqual(await quantities(store, item.id), { available: 2, loaned: 3, damaged: 0, lifecycled: 0 });
+      assert.equal((await store.getLoan(loan.id))!.quantityReturned, 2);
+      assert.notEqual((await store.getLoan(loan.id))!.status, "Returned");
+
+      await giveBack(store, loan.id, 3);
+      assert.deepEqual(await quantities(store, item.id), { available: 5, loaned: 0, damaged: 0, lifecycled: 0 });
+      assert.equal((await store.getLoan(loan.id))!.status, "Returned");
+    });
+
+    it("moves units returned damaged to damaged stock", async () => {
+      const item = await createTestItem(store, 5);
+      const loan = await createTestLoan(store, item, 5);
+
+      await giveBack(store, loan.id, 2, "Damaged");
+      assert.deepEqual(await quantities(store, item.id), { available: 0, loaned: 3, damaged: 2, lifecycled: 0 });
+
+      await giveBack(store, loan.id, 3);
+      assert.deepEqual(await quantities(store, item.id), { available: 3, loaned: 0, damaged: 2, lifecycled: 0 });
+    });
+
+    it("keeps units returned missing written off when the rest come back", async () => {
+      const item = await createTestItem(store, 5);
+      const loan = await createTestLoan(store, item, 5);
+
+      await store.transaction(async (tx) => {
+        const current = (await tx.getLoan(loan.id))!;
+        await receiveReturn(tx, [
+          { loan: current, quantity: 2, condition: "Damaged" },
+          { loan: current, quantity: 1, condition: "Missing" },
+        ], { returnedAt: new Date(), receivedBy: 2 });
+      });
+      assert.deepEqual(await quantities(store, item.id), { available: 0, loaned: 2, damaged: 2, lifecycled: 1 });
+      assert.deepEqual((await store.getLifecycleHistoryByItemId(item.id)).map((history) => history.createdBy), [2]);
+
+      await giveBack(store, loan.id, 2);
+      assert.deepEqual(await quantities(store, item.id), { available: 2, loaned: 0, damaged: 2, lifecycled: 1 });
+      assert.equal((await store.getLoan(loan.id))!.status, "Returned");
+    });
+
+    it("refuses to return more units than are still out", async () => {
+      const item = await createTestItem(store, 5);
+      const loan = await createTestLoan(store, item, 2);
+
+      await assert.rejects(giveBack(store, loan.id, 3), { status: 400 });
+      assert.deepEqual(await quantities(store, item.id), { available: 3, loaned: 2, damaged: 0, lifecycled: 0 });
+    });
+  });
+}
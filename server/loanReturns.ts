@@ -0,0 +1,160 @@
+import type { InventoryItem, Loan, LoanReturn, LoanReturnEntry, ReturnCondition } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { HttpError } from "./errors";
+import { moveUnits, restockLoan } from "./assetUnits";
+
+// Units coming back on one loan line, and the state they came back in
+export type ReturnLine = {
+  loan: Loan;
+  quantity: number;
+  condition?: ReturnCondition; // Good when not given
+  notes?: string;
+  photos?: string[];
+};
+
+// Units of a loan line not yet returned
+export function outstandingQuantity(loan: Loan): number {
+  return loan.quantityLoaned - loan.quantityReturned;
+}
+
+// e.g. "3 of 5 unit(s) of Folding Chair (BVGJK0007)", with the condition unless it is Good
+export function describeReturnLine(line: ReturnLine, item: InventoryItem | undefined): string {
+  const name = item ? `${item.name} (${item.itemId})` : `item #${line.loan.itemId}`;
+  const condition = line.condition && line.condition !== "Good" ? ` - ${line.condition}` : "";
+  return `${line.quantity} of ${line.loan.quantityLoaned} unit(s) of ${name}${condition}`;
+}
+
+// Checks in units on loan lines: each line is restocked by its quantity and gets a loan_returns row,
+// and becomes Returned once all its units are back. A loan group closes with its last open line.
+// Units back Damaged move to damaged stock and Missing ones are written off as Lost Items, so they
+// settle the loan without becoming available. A loan may be listed more than once to split its units
+// between conditions. Call inside storage.transaction with the lines' items locked and the loans
+// re-read under the lock.
+export async function receiveReturn(
+  tx: IStorage,
+  lines: ReturnLine[],
+  receipt: { returnedAt: Date; receivedBy: number; notes?: string },
+): Promise<LoanReturn[]> {
+  const listed = new Map<number, number>();
+  for (const { loan, quantity } of lines) {
+    if (loan.status === "Returned") {
+      throw new HttpError(400, `Loan #${loan.id} is already returned`);
+    }
+    const total = (listed.get(loan.id) ?? 0) + quantity;
+    if (total > outstandingQuantity(loan)) {
+      throw new HttpError(400, `Only ${outstandingQuantity(loan)} unit(s) of loan #${loan.id} are still out`);
+    }
+    listed.set(loan.id, total);
+  }
+
+  const recorded: LoanReturn[] = [];
+  const groupIds = new Set<number>();
+  for (const line of lines) {
+    // Re-read, as an earlier line may have returned units of the same loan
+    const loan = (await tx.getLoan(line.loan.id))!;
+    const condition = line.condition ?? "Good";
+    const notes = line.notes || receipt.notes;
+    recorded.push(await tx.createLoanReturn({
+      loanId: loan.id,
+      loanGroupId: loan.loanGroupId,
+      quantity: line.quantity,
+      condition,
+      photos: line.photos ?? [],
+      returnedAt: receipt.returnedAt,
+      receivedBy: receipt.receivedBy,
+      notes: notes || null,
+    }));
+    if (line.quantity === outstandingQuantity(loan)) {
+      await tx.markLoanReturned(loan.id, receipt.returnedAt);
+    }
+    // After marking the line, which resets the item status, so restocking leaves the right one
+    await restockLoan(tx, loan, line.quantity);
+    await applyReturnCondition(tx, { loan, quantity: line.quantity, condition, notes }, receipt);
+    if (loan.loanGroupId !== null) groupIds.add(loan.loanGroupId);
+  }
+
+  for (const groupId of Array.from(groupIds)) {
+    const loanGroup = await tx.getLoanGroup(groupId);
+    if (loanGroup.status !== "Returned" && loanGroup.items.every((line) => line.status === "Returned")) {
+      await tx.markLoanGroupReturned(loanGroup.id, receipt.returnedAt);
+    }
+  }
+  return recorded;
+}
+
+// Moves restocked units on to damaged stock or the Lost Items lifecycle, logged as the damage and
+// lifecycle routes do. Worn units of a serialized item are marked Fair.
+async function applyReturnCondition(
+  tx: IStorage,
+  line: ReturnLine & { condition: ReturnCondition },
+  receipt: { returnedAt: Date; receivedBy: number },
+): Promise<void> {
+  const item = await tx.getInventoryItem(line.loan.itemId);
+  if (!item || line.condition === "Good") return;
+  const unit = line.loan.unitId !== null ? await tx.getAssetUnit(line.loan.unitId) : undefined;
+  // A unit retired or deleted while out is left as it is
+  const units = item.serialized && unit?.status === "Available" ? [unit] : [];
+  const serials = units.length > 0 ? ` (${units[0].serialNumber})` : "";
+  const reason = `Returned ${line.condition.toLowerCase()} on loan #${line.loan.id}${line.notes ? `: ${line.notes}` : ""}`;
+
+  if (line.condition === "Worn") {
+    for (const worn of units) {
+      await tx.updateAssetUnit(worn.id, { condition: "Fair" });
+    }
+    return;
+  }
+
+  const quantity = item.serialized ? units.length : line.quantity;
+  if (quantity === 0) return;
+
+  if (line.condition === "Damaged") {
+    if (item.serialized) {
+      await moveUnits(tx, item, units, "Damaged");
+    } else {
+      await tx.markItemDamaged(item.id, quantity);
+    }
+    await tx.createActivityLog({
+      userId: receipt.receivedBy,
+      action: "Damage",
+      entityType: "InventoryItem",
+      entityId: item.id.toString(),
+      details: `Marked ${quantity} unit(s) of ${item.name} as damaged${serials}: ${reason}`,
+    });
+    return;
+  }
+
+  // Missing: the lifecycle entry records the count, then serialized units are retired
+  const lifecycleDate = receipt.returnedAt.toISOString().split("T")[0];
+  const updatedItem = (await tx.updateItemLifecycle(item.id, ["Lost Items"], lifecycleDate, reason, quantity, receipt.receivedBy))!;
+  if (item.serialized) {
+    await moveUnits(tx, updatedItem, units, "Retired");
+  }
+  await tx.createActivityLog({
+    userId: receipt.receivedBy,
+    action: "Lifecycle Update",
+    entityType: "InventoryItem",
+    entityId: item.id.toString(),
+    details: `Updated lifecycle status for ${item.name}: ${quantity} unit(s)${serials} - Lost Items - ${reason}`,
+  });
+}
+
+// Return history of the given loan lines, oldest first, with item names and who received each return
+export async function loanReturnEntries(store: IStorage, loans: Loan[]): Promise<LoanReturnEntry[]> {
+  const returns = await store.listLoanReturns(loans.map((loan) => loan.id));
+  const names = new Map<number, string>();
+  const entries: LoanReturnEntry[] = [];
+  for (const loanReturn of returns) {
+    const loan = loans.find((line) => line.id === loanReturn.loanId)!;
+    const item = await store.getInventoryItem(loan.itemId);
+    if (!names.has(loanReturn.receivedBy)) {
+      const user = await store.getUser(loanReturn.receivedBy);
+      names.set(loanReturn.receivedBy, user ? user.name : `User #${loanReturn.receivedBy}`);
+    }
+    entries.push({
+      ...loanReturn,
+      itemName: item ? `${item.itemId} - ${item.name}` : `Item #${loan.itemId}`,
+      receivedByName: names.get(loanReturn.receivedBy)!,
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,167 @@
+import { findLocation, locationPath } from "@shared/locations";
+import type { InventoryItem, Location, StockLine, TransferStock } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { HttpError } from "./errors";
+import { documentHeader } from "./settings";
+
+// Where an item's units are, main location first. Recorded stock is trimmed to the item's quantity and
+// anything not recorded anywhere is counted at the main location, or as unassigned when it has none,
+// so items created or restocked before they were split always add up.
+export async function stockBreakdown(
+  store: IStorage,
+  item: InventoryItem,
+  locations?: Location[],
+): Promise<StockLine[]> {
+  const allLocations = locations ?? await store.listLocations();
+  const rows = (await store.listItemStock(item.id))
+    .sort((a, b) =>
+      Number(b.locationId === item.locationId) - Number(a.locationId === item.locationId) || b.quantity - a.quantity
+    );
+
+  const lines: StockLine[] = [];
+  let remaining = item.quantity;
+  for (const row of rows) {
+    const quantity = Math.min(row.quantity, remaining);
+    if (quantity <= 0) break;
+    lines.push({ locationId: row.locationId, path: locationPath(allLocations, row.locationId), quantity });
+    remaining -= quantity;
+  }
+  if (remaining > 0) {
+    const main = lines.find((line) => line.locationId !== null && line.locationId === item.locationId);
+    if (main) {
+      main.quantity += remaining;
+    } else if (item.locationId !== null) {
+      lines.unshift({ locationId: item.locationId, path: locationPath(allLocations, item.locationId), quantity: remaining });
+    } else {
+      lines.push({ locationId: null, path: "Unassigned", quantity: remaining });
+    }
+  }
+  return lines;
+}
+
+// Moves units of an item between locations and records a transfer document. The item's main location
+// becomes wherever most of its units now are. Call inside storage.transaction with the item locked.
+export async function transferStock(
+  tx: IStorage,
+  item: InventoryItem,
+  transfer: TransferStock,
+  userId: number,
+): Promise<{ item: InventoryItem; stock: StockLine[]; documentId: string }> {
+  const locations = await tx.listLocations();
+  const destination = locations.find((location) => location.id === transfer.toLocationId);
+  if (!destination) {
+    throw new HttpError(400, "Destination location not found");
+  }
+  // Units without a location would otherwise be counted at the destination once it became the main location
+  if (item.locationId === null) {
+    throw new HttpError(400, `Give ${item.name} a location before moving its units`);
+  }
+  if (transfer.fromLocationId === transfer.toLocationId) {
+    throw new HttpError(400, "Source and destination are the same location");
+  }
+  if (transfer.quantity > item.quantityAvailable) {
+    throw new HttpError(400, `Only ${item.quantityAvailable} unit(s) of ${item.name} are on hand to move`);
+  }
+
+  const stock = await stockBreakdown(tx, item, locations);
+  const source = stock.find((line) => line.locationId === transfer.fromLocationId);
+  if (!source || source.quantity < transfer.quantity) {
+    const path = locationPath(locations, transfer.fromLocationId) || "The source location";
+    throw new HttpError(400, `${path} holds ${source?.quantity ?? 0} unit(s) of ${item.name}`);
+  }
+
+  source.quantity -= transfer.quantity;
+  const target = stock.find((line) => line.locationId === destination.id);
+  if (target) {
+    target.quantity += transfer.quantity;
+  } else {
+    stock.push({ locationId: destination.id, path: locationPath(locations, destination.id), quantity: transfer.quantity });
+  }
+
+  await tx.replaceItemStock(
+    item.id,
+    stock.map((line) => ({ locationId: line.locationId!, quantity: line.quantity }))
+  );
+  const main = [...stock].sort((a, b) => b.quantity - a.quantity)[0];
+  const updatedItem = main.locationId !== item.locationId
+    ? (await tx.updateInventoryItem(item.id, { locationId: main.locationId, location: main.path }))!
+    : item;
+
+  const year = new Date().getFullYear();
+  const sequence = await tx.nextSequenceValue(`transfer:${year}`, 0);
+  const documentId = `DOC-TRF-${year}-${String(sequence).padStart(3, "0")}`;
+  await tx.createDocument({
+    documentId,
+    type: "Transfer",
+    title: `Transfer of ${item.name}`,
+    relatedItemId: item.itemId,
+    content: JSON.stringify({
+      header: await documentHeader(tx),
+      itemDetails: updatedItem,
+      transferDetails: {
+        quantity: transfer.quantity,
+        from: source.path,
+        to: locationPath(locations, destination.id),
+        notes: transfer.notes || null,
+        transferredAt: new Date(),
+      },
+    }),
+    signedBy: [],
+    createdBy: userId,
+  });
+
+  await tx.createActivityLog({
+    userId,
+    action: "Transfer",
+    entityType: "InventoryItem",
+    entityId: item.id.toString(),
+    details: `Moved ${transfer.quantity} unit(s) of ${item.name} (${item.itemId}) from ${source.path} to ${locationPath(locations, destination.id)} (${documentId})`,
+  });
+
+  return { item: updatedItem, stock: await stockBreakdown(tx, updatedItem, locations), documentId };
+}
+
+// Rewrites the location text of items kept anywhere in the given locations, after a rename
+export async function refreshItemLocations(tx: IStorage, locationIds: number[]): Promise<number> {
+  const locations = await tx.listLocations();
+  const items = (await tx.listInventoryItems())
+    .filter((item) => item.locationId !== null && locationIds.includes(item.locationId));
+  for (const item of items) {
+    await tx.updateInventoryItem(item.id, { location: locationPath(locations, item.locationId!) });
+  }
+  return items.length;
+}
+
+// The location fields of an item form or API call: a locationId, or location text naming an existing
+// location. Undefined when neither was sent; an empty value clears the location.
+export async function resolveItemLocation(
+  store: IStorage,
+  input: { locationId?: unknown; location?: unknown },
+): Promise<{ locationId: number | null; location: string | null } | undefined> {
+  const locations = await store.listLocations();
+  if (input.locationId !== undefined) {
+    if (input.locationId === null || input.locationId === "" || input.locationId === "none") {
+      return { locationId: null, location: null };
+    }
+    const id = Number(input.locationId);
+    if (!locations.some((location) => location.id === id)) {
+      throw new HttpError(400, "Location not found");
+    }
+    return { locationId: id, location: locationPath(locations, id) };
+  }
+  if (input.location !== undefined) {
+    const text = typeof input.location === "string" ? input.location.trim() : "";
+    if (!text) return { locationId: null, location: null };
+    const location = findLocation(locations, text);
+    if (!location) {
+      throw new HttpError(400, `Unknown location "${text}"; add it under Locations first`);
+    }
+    return { locationId: location.id, location: locationPath(locations, location.id) };
+  }
+  return undefined;
+}
+
+// An item whose units are spread over several locations changes location through transfers, not edits
+export async function isSplitAcrossLocations(store: IStorage, item: InventoryItem): Promise<boolean> {
+  return (await stockBreakdown(store, item)).length > 1;
+}
@@ -0,0 +1,115 @@
+// Failed-login bookkeeping for the login routes. Attempts are counted per username and per
+// client IP; crossing a limit locks that key out, and each further lockout doubles in length.
+// State lives in process memory, so a restart clears it and every instance counts on its own.
+
+const WINDOW_MS = 15 * 60 * 1000;         // failures older than this no longer count
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000; // a quiet day resets the lockout escalation
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+const USERNAME_LIMIT = 5;
+const IP_LIMIT = 20; // higher, since offices share an address
+
+type Entry = {
+  failures: number;
+  windowStart: number;
+  lastFailureAt: number;
+  lockouts: number;
+  lockedUntil: number;
+};
+
+export type LoginLockout = { scope: "username" | "ip"; retryAfterMs: number };
+
+class AttemptTracker {
+  private entries = new Map<string, Entry>();
+
+  constructor(private readonly limit: number) {}
+
+  retryAfter(key: string, now: number): number {
+    const entry = this.entries.get(key);
+    return entry && entry.lockedUntil > now ? entry.lockedUntil - now : 0;
+  }
+
+  // Returns the lockout length when this failure crossed the limit, otherwise 0
+  recordFailure(key: string, now: number): number {
+    let entry = this.entries.get(key);
+    if (!entry || now - entry.lastFailureAt > FORGET_AFTER_MS) {
+      entry = { failures: 0, windowStart: now, lastFailureAt: now, lockouts: 0, lockedUntil: 0 };
+      this.entries.set(key, entry);
+    }
+    if (now - entry.windowStart > WINDOW_MS) {
+      entry.failures = 0;
+      entry.windowStart = now;
+    }
+
+    entry.failures += 1;
+    entry.lastFailureAt = now;
+    if (entry.failures < this.limit) {
+      return 0;
+    }
+
+    const lockoutMs = Math.min(BASE_LOCKOUT_MS * 2 ** entry.lockouts, MAX_LOCKOUT_MS);
+    entry.lockouts += 1;
+    entry.lockedUntil = now + lockoutMs;
+    entry.failures = 0;
+    entry.windowStart = now;
+    return lockoutMs;
+  }
+
+  reset(key: string) {
+    this.entries.delete(key);
+  }
+
+  prune(now: number) {
+    this.entries.forEach((entry, key) => {
+      if (entry.lockedUntil <= now && now - entry.lastFailureAt > FORGET_AFTER_MS) {
+        this.entries.delete(key);
+      }
+    });
+  }
+}
+
+const byUsername = new AttemptTracker(USERNAME_LIMIT);
+const byIp = new AttemptTracker(IP_LIMIT);
+
+setInterval(() => {
+  const now = Date.now();
+  byUsername.prune(now);
+  byIp.prune(now);
+}, 10 * 60 * 1000).unref();
+
+function usernameKey(username: string) {
+  return username.trim().toLowerCase();
+}
+
+// The lockout currently blocking this attempt, if any
+export function checkLoginThrottle(username: string, ip: string): LoginLockout | null {
+  const now = Date.now();
+  const usernameWait = byUsername.retryAfter(usernameKey(username), now);
+  if (usernameWait > 0) {
+    return { scope: "username", retryAfterMs: usernameWait };
+  }
+  const ipWait = byIp.retryAfter(ip, now);
+  if (ipWait > 0) {
+    return { scope: "ip", retryAfterMs: ipWait };
+  }
+  return null;
+}
+
+// Counts a failed attempt; returns the lockout it triggered, if any
+export function recordLoginFailure(username: string, ip: string): LoginLockout | null {
+  const now = Date.now();
+  const usernameLockout = byUsername.recordFailure(usernameKey(username), now);
+  const ipLockout = byIp.recordFailure(ip, now);
+  if (usernameLockout > 0) {
+    return { scope: "username", retryAfterMs: usernameLockout };
+  }
+  if (ipLockout > 0) {
+    return { scope: "ip", retryAfterMs: ipLockout };
+  }
+  return null;
+}
+
+// A successful login clears the username's record; the IP's is left to expire on its own
+export function recordLoginSuccess(username: string) {
+  byUsername.reset(usernameKey(username));
+}
@@ -0,0 +1,129 @@
+import type { Loan, LoanGroup, LoanStatus, OverdueCounts } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Due dates are days, so a loan is overdue from the day after it was due back
+export function isPastDue(expectedReturnDate: Date | string | null, now = new Date()): boolean {
+  if (!expectedReturnDate) return false;
+  const due = typeof expectedReturnDate === "string"
+    ? expectedReturnDate.slice(0, 10)
+    : expectedReturnDate.toISOString().slice(0, 10);
+  return due < now.toISOString().slice(0, 10);
+}
+
+// Days between the due date and the day the loan came back, or today while it is still out; 0 when on time
+export function daysLate(loan: Pick<Loan, "expectedReturnDate" | "actualReturnDate" | "status">, now = new Date()): number {
+  if (!loan.expectedReturnDate) return 0;
+  const day = (date: Date | string) => Date.parse(typeof date === "string" ? date.slice(0, 10) : date.toISOString().slice(0, 10));
+  const end = loan.actualReturnDate ?? (loan.status === "Returned" ? null : now);
+  if (!end) return 0;
+  return Math.max(0, Math.round((day(end) - day(loan.expectedReturnDate)) / (24 * 60 * 60 * 1000)));
+}
+
+function dueStatus(expectedReturnDate: Date | string | null, now: Date): LoanStatus {
+  return isPastDue(expectedReturnDate, now) ? "Overdue" : "Ongoing";
+}
+
+function formatDue(expectedReturnDate: Date | string | null): string {
+  if (!expectedReturnDate) return "no date";
+  return typeof expectedReturnDate === "string" ? expectedReturnDate.slice(0, 10) : expectedReturnDate.toISOString().slice(0, 10);
+}
+
+// Scheduled checks have no signed-in user, like failed logins for unknown usernames
+async function logTransition(
+  tx: IStorage,
+  entityType: "Loan" | "LoanGroup",
+  record: Loan | LoanGroup,
+  label: string,
+  status: LoanStatus,
+  expectedReturnDate: Date | string | null,
+) {
+  await tx.createActivityLog({
+    userId: 0,
+    action: status === "Overdue" ? "Overdue" : "No Longer Overdue",
+    entityType,
+    entityId: record.id.toString(),
+    details: status === "Overdue"
+      ? `${label} is overdue: due back ${formatDue(expectedReturnDate)}`
+      : `${label} is no longer overdue: now due back ${formatDue(expectedReturnDate)}`,
+  });
+}
+
+// Sets an open group and its open lines to the status its due date calls for. Returns whether the group changed.
+async function refreshGroup(tx: IStorage, group: LoanGroup, lines: Loan[], now: Date): Promise<boolean> {
+  const status = dueStatus(group.expectedReturnDate, now);
+  const changed = group.status !== status;
+  if (changed) {
+    await tx.setLoanGroupStatus(group.id, status);
+    await logTransition(tx, "LoanGroup", group, `Loan ${group.loanGroupId} (${group.borrowerName})`, status, group.expectedReturnDate);
+  }
+  for (const loan of lines) {
+    if (loan.status !== "Returned" && loan.status !== status) {
+      await tx.setLoanStatus(loan.id, status);
+    }
+  }
+  return changed;
+}
+
+async function refreshLoan(tx: IStorage, loan: Loan, now: Date): Promise<boolean> {
+  const status = dueStatus(loan.expectedReturnDate, now);
+  if (loan.status === status) return false;
+  await tx.setLoanStatus(loan.id, status);
+  await logTransition(tx, "Loan", loan, `Loan #${loan.id} (${loan.borrowerName || "Borrower"})`, status, loan.expectedReturnDate);
+  return true;
+}
+
+// Flips open loans between Ongoing and Overdue by their expected return date and logs each change.
+// Loans in a group follow the group's date. Returns the number of loans and groups that changed.
+export async function refreshOverdueLoans(tx: IStorage, now = new Date()): Promise<number> {
+  const [groups, loans] = await Promise.all([tx.listLoanGroups(), tx.listLoans()]);
+  let changed = 0;
+
+  for (const group of groups.filter((group) => group.status !== "Returned")) {
+    if (await refreshGroup(tx, group, loans.filter((loan) => loan.loanGroupId === group.id), now)) {
+      changed++;
+    }
+  }
+
+  for (const loan of loans.filter((loan) => loan.loanGroupId === null && loan.status !== "Returned")) {
+    if (await refreshLoan(tx, loan, now)) {
+      changed++;
+    }
+  }
+  return changed;
+}
+
+// The same check for one open loan group and its lines, e.g. after its due date moved
+export async function refreshOverdueLoanGroup(tx: IStorage, group: LoanGroup, now = new Date()): Promise<boolean> {
+  if (group.status === "Returned") return false;
+  return refreshGroup(tx, group, await tx.getLoansByLoanGroupId(group.id), now);
+}
+
+// The same check for one open individual loan
+export async function refreshOverdueLoan(tx: IStorage, loan: Loan, now = new Date()): Promise<boolean> {
+  if (loan.status === "Returned" || loan.loanGroupId !== null) return false;
+  return refreshLoan(tx, loan, now);
+}
+
+// Runs the check at startup and then on an interval, each run in one transaction
+export function startOverdueLoanCheck(store: IStorage, intervalMinutes: number): void {
+  const run = async () => {
+    try {
+      await store.transaction((tx) => refreshOverdueLoans(tx));
+    } catch (error) {
+      console.error("Error checking overdue loans:", error);
+    }
+  };
+  void run();
+  setInterval(run, intervalMinutes * 60 * 1000).unref();
+}
+
+// For the dashboard: overdue individual loans and loan groups, and the units still out on them
+export async function countOverdueLoans(store: IStorage): Promise<OverdueCounts> {
+  const [groups, loans] = await Promise.all([store.listLoanGroups(), store.listLoans()]);
+  const overdueLoans = loans.filter((loan) => loan.status === "Overdue");
+  return {
+    loans: overdueLoans.filter((loan) => loan.loanGroupId === null).length,
+    loanGroups: groups.filter((group) => group.status === "Overdue").length,
+    units: overdueLoans.reduce((sum, loan) => sum + loan.quantityLoaned - loan.quantityReturned, 0),
+  };
+}
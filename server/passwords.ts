@@ -0,0 +1,53 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+
+// Stored format: scrypt$<N>$<r>$<p>$<salt, base64>$<hash, base64>
+// Keeping the parameters in the hash lets us raise them later and rehash on login.
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const PREFIX = "scrypt";
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${PREFIX}$`) && stored.split("$").length === 6;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return [PREFIX, N, r, p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    // Legacy rows still hold the plaintext password
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(password);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  const [, N, r, p, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "base64");
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// True for plaintext rows and for hashes made with weaker parameters than today's
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHash(stored)) return true;
+  const [, N, r, p] = stored.split("$");
+  return Number(N) < SCRYPT_PARAMS.N || Number(r) < SCRYPT_PARAMS.r || Number(p) < SCRYPT_PARAMS.p;
+}
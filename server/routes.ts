@@ -1,25 +1,76 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import session from "express-session";
-import passport from "passport";
-import { Strategy as LocalStrategy } from "passport-local";
-import MemoryStore from "memorystore";
 import { storage } from "./storage";
+import { setupAuth, requireAuth, requirePermission, toPublicUser, authEventActions } from "./auth";
+import { HttpError, isUniqueViolation } from "./errors";
+import { listUserSessions, revokeUserSessions } from "./sessions";
+import { allocateItemId } from "./itemIds";
+import { readSpreadsheet, suggestMapping, planImport, applyImport, importResult } from "./inventoryImport";
+import { exportDatasets, exportFormatSchema, streamExport, describeExportFilters } from "./exports";
+import { writeLabelPdf } from "./labels";
+import { findScannedItem, openLoansForItem } from "./scanning";
+import { parseUnitIds, namedUnits, pickUnits, moveUnits, describeUnits } from "./assetUnits";
+import { receiveReturn, outstandingQuantity, describeReturnLine, loanReturnEntries } from "./loanReturns";
+import { resolveBorrower, registerBorrower, checkBorrowerUnique, borrowerSummaries, borrowerHistory } from "./borrowers";
+import { recordReturnsOnDocument, allocateLoanDocumentId } from "./loanDocuments";
+import { requestExtension, decideExtension, loanExtensionEntries } from "./loanExtensions";
+import { enforceLoanRules, logRuleOverride } from "./loanEligibility";
+import { stockBreakdown, transferStock, refreshItemLocations, resolveItemLocation, isSplitAcrossLocations } from "./locations";
+import { countOverdueLoans } from "./overdueLoans";
+import { config } from "./config";
+import { getSettings, getSettingsSection, updateSettings, describeSettingsChanges, documentHeader, withDocumentHeader } from "./settings";
+import { categoryAncestry, categoryFields, validateCustomFields } from "@shared/categories";
+import { hasPermission } from "@shared/permissions";
+import { childKind, locationPath, locationSubtree } from "@shared/locations";
 import { 
   insertUserSchema, 
+  updateUserSchema,
   insertInventoryItemSchema, 
+  insertBorrowerSchema,
+  updateBorrowerSchema,
+  blockBorrowerSchema,
   insertLoanSchema,
   insertLoanGroupSchema,
   insertDocumentSchema,
-  insertActivityLogSchema
+  insertActivityLogSchema,
+  updateAppSettingsSchema,
+  inventoryQuerySchema,
+  inventoryImportMappingSchema,
+  labelQuerySchema,
+  createAssetUnitsSchema,
+  updateAssetUnitSchema,
+  insertCategorySchema,
+  updateCategorySchema,
+  insertLocationSchema,
+  updateLocationSchema,
+  transferStockSchema,
+  loanStatusEnum,
+  returnLoanSchema,
+  returnLoanGroupSchema,
+  extendLoanSchema,
+  decideLoanExtensionSchema,
+  loanRuleOverrideSchema,
+  resolveLoanReturnSchema,
+  loanExtensionStatusEnum,
+  type InventoryItem,
+  type LocationStockLine,
+  type InventoryStats,
+  type InventoryPage,
+  type InventoryImportColumns,
+  type ScanLookup,
+  type AssetUnit,
+  type AssetUnitDetails,
+  type InsertAssetUnit,
+  type ReturnLoan,
+  type ReturnLoanGroup,
+  type ExtendLoan,
+  type InsertBorrower
 } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import multer from "multer";
 import path from "path";
 
-const Session = MemoryStore(session);
-
 // Configure multer for file uploads
 const storage_config = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -47,80 +98,48 @@ const upload = multer({
   }
 });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Serve uploaded images
-  app.use('/uploads', express.static('uploads'));
-  
-  // Session setup
-  app.use(
-    session({
-      secret: process.env.SESSION_SECRET || "bonevet-inventory-secret",
-      resave: false,
-      saveUninitialized: false,
-      cookie: { secure: process.env.NODE_ENV === "production" },
-      store: new Session({
-        checkPeriod: 86400000, // prune expired entries every 24h
-      }),
-    })
-  );
-
-  // Configure passport
-  app.use(passport.initialize());
-  app.use(passport.session());
-
-  // Passport strategy setup
-  passport.use(
-    new LocalStrategy(async (username, password, done) => {
-      try {
-        const user = await storage.getUserByUsername(username);
-        if (!user) {
-          return done(null, false, { message: "Invalid username" });
-        }
-        if (user.password !== password) { // In a real app, use proper password hashing
-          return done(null, false, { message: "Invalid password" });
-        }
-        return done(null, user);
-      } catch (err) {
-        return done(err);
-      }
-    })
-  );
-
-  passport.serializeUser((user: any, done) => {
-    done(null, user.id);
-  });
+// Spreadsheets for the inventory import are only read, never kept
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+});
 
-  passport.deserializeUser(async (id: number, done) => {
-    try {
-      const user = await storage.getUser(id);
-      done(null, user);
-    } catch (err) {
-      done(err);
+// Upload problems (e.g. a file over the limit) are reported as a bad request rather than a server error
+const receiveSpreadsheet = (req: Request, res: Response, next: (error?: unknown) => void) => {
+  importUpload.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : "Upload failed" });
     }
-  });
-
-  // Authentication middleware
-  const requireAuth = (req: Request, res: Response, next: any) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
+    if (!req.file) {
+      return res.status(400).json({ message: "Choose a CSV or XLSX file to import" });
     }
     next();
-  };
+  });
+};
 
-  // Admin middleware
-  const requireAdmin = (req: Request, res: Response, next: any) => {
-    if (!req.isAuthenticated() || (req.user as any).role !== "admin") {
-      return res.status(403).json({ message: "Forbidden" });
+// Up to five photos per return line, reported like spreadsheet upload problems
+const receiveReturnPhotos = (req: Request, res: Response, next: (error?: unknown) => void) => {
+  upload.array('photos', 5)(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : "Upload failed" });
+    }
+    if (!Array.isArray(req.files) || req.files.length === 0) {
+      return res.status(400).json({ message: "Choose at least one photo" });
     }
     next();
-  };
+  });
+};
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Serve uploaded images
+  app.use('/uploads', express.static('uploads'));
+  
+  setupAuth(app);
 
   // Error handling middleware for Zod validation
   const validateSchema = (schema: any) => {
     return (req: Request, res: Response, next: any) => {
       try {
-        // Log the incoming request body for debugging
-        console.log("Validating request body:", req.body);
         const result = schema.safeParse(req.body);
         
         if (!result.success) {
@@ -149,36 +168,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     };
   };
 
-  // Auth routes
-  app.post("/api/auth/login", passport.authenticate("local"), (req, res) => {
-    res.json({ user: req.user });
-  });
-
-  app.post("/api/auth/logout", (req, res) => {
-    req.logout(() => {
-      res.json({ message: "Logged out successfully" });
-    });
-  });
+  // User routes
+  
+  // There must always be at least one active admin left to manage the system
+  const isLastActiveAdmin = async (userId: number) => {
+    const admins = (await storage.listUsers()).filter((user) => user.role === "admin" && user.active);
+    return admins.length === 1 && admins[0].id === userId;
+  };
 
-  app.get("/api/auth/me", (req, res) => {
-    if (req.isAuthenticated()) {
-      res.json({ user: req.user });
-    } else {
-      res.status(401).json({ message: "Not authenticated" });
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.listUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
     }
   });
 
-  // User routes
-  app.get("/api/users", requireAdmin, async (req, res) => {
+  app.get("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
     try {
-      const users = await storage.listUsers();
-      res.json(users);
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch users" });
+      res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
-  app.post("/api/users", requireAdmin, validateSchema(insertUserSchema), async (req, res) => {
+  app.post("/api/users", requirePermission("users:manage"), validateSchema(insertUserSchema), async (req, res) => {
     try {
       const existingUser = await storage.getUserByUsername(req.body.username);
       if (existingUser) {
@@ -195,298 +214,1054 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: `Created user: ${user.username}`
       });
       
-      res.status(201).json(user);
+      res.status(201).json(toPublicUser(user));
     } catch (error) {
       res.status(500).json({ message: "Failed to create user" });
     }
   });
 
-  // Inventory routes
-  app.get("/api/inventory", requireAuth, async (req, res) => {
-    try {
-      const items = await storage.listInventoryItems();
-      res.json(items);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch inventory items" });
-    }
-  });
-
-  app.get("/api/inventory/stats", requireAuth, async (req, res) => {
-    try {
-      const counts = await storage.countInventoryItems();
-      const categories = await storage.getInventoryItemsByCategory();
-      res.json({ counts, categories });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch inventory stats" });
-    }
-  });
-
-  app.get("/api/inventory/:id", requireAuth, async (req, res) => {
-    try {
-      const item = await storage.getInventoryItem(parseInt(req.params.id));
-      if (!item) {
-        return res.status(404).json({ message: "Item not found" });
-      }
-      res.json(item);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch inventory item" });
-    }
-  });
-
-  app.post("/api/inventory", requireAuth, upload.single('image'), async (req, res) => {
+  app.put("/api/users/:id", requirePermission("users:manage"), validateSchema(updateUserSchema), async (req, res) => {
     try {
-      // Convert form data fields to proper types
-      const formData = { ...req.body };
+      const id = parseInt(req.params.id);
+      const existingUser = await storage.getUser(id);
       
-      // Convert quantity to number
-      if (formData.quantity) {
-        formData.quantity = parseInt(formData.quantity);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      // Convert price to number
-      if (formData.price && formData.price !== '') {
-        formData.price = parseFloat(formData.price);
-      } else {
-        delete formData.price; // Remove empty price field
+      const demoted = req.body.role !== undefined && req.body.role !== "admin";
+      const deactivated = req.body.active === false;
+      if ((demoted || deactivated) && await isLastActiveAdmin(id)) {
+        return res.status(400).json({ message: "Cannot demote or deactivate the last active admin" });
       }
       
-      // Validate the form data
-      const validatedData = insertInventoryItemSchema.parse(formData);
-      
-      // Generate a unique BVGJK#### ID if not provided
-      if (!validatedData.itemId) {
-        const items = await storage.listInventoryItems();
-        const lastId = items.length > 0 
-          ? parseInt(items[items.length - 1].itemId.replace("BVGJK", "")) 
-          : 0;
-        validatedData.itemId = `BVGJK${String(lastId + 1).padStart(4, "0")}`;
-      }
+      const updatedUser = await storage.updateUser(id, req.body);
       
-      // Add image path if uploaded
-      if (req.file) {
-        validatedData.imagePath = `/uploads/${req.file.filename}`;
+      // A deactivated user is signed out everywhere straight away
+      if (deactivated) {
+        await revokeUserSessions(id);
       }
       
-      const item = await storage.createInventoryItem(validatedData);
-      
       // Log the activity
       await storage.createActivityLog({
         userId: (req.user as any).id,
-        action: "Create",
-        entityType: "InventoryItem",
-        entityId: item.id.toString(),
-        details: `Added item: ${item.name} (${item.itemId})`
+        action: "Update",
+        entityType: "User",
+        entityId: id.toString(),
+        details: `Updated user: ${existingUser.username} (${Object.keys(req.body).join(', ')})`
       });
       
-      res.status(201).json(item);
+      res.json(updatedUser && toPublicUser(updatedUser));
     } catch (error) {
-      console.error('Error creating inventory item:', error);
-      if (error instanceof ZodError) {
-        const validationError = fromZodError(error);
-        return res.status(400).json({ message: validationError.message });
-      }
-      res.status(500).json({ message: "Failed to create inventory item" });
+      console.error('Error updating user:', error);
+      res.status(500).json({ message: "Failed to update user" });
     }
   });
 
-  app.put("/api/inventory/:id", requireAuth, upload.single('image'), async (req, res) => {
+  app.delete("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const existingItem = await storage.getInventoryItem(id);
+      const existingUser = await storage.getUser(id);
       
-      if (!existingItem) {
-        return res.status(404).json({ message: "Item not found" });
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      // Convert form data fields to proper types
-      const updateData = { ...req.body };
+      if (id === (req.user as any).id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
       
-      // Convert quantity to number
-      if (updateData.quantity) {
-        updateData.quantity = parseInt(updateData.quantity);
+      if (await isLastActiveAdmin(id)) {
+        return res.status(400).json({ message: "Cannot delete the last active admin" });
       }
       
-      // Convert price to number
-      if (updateData.price && updateData.price !== '') {
-        updateData.price = parseFloat(updateData.price);
-      } else if (updateData.price === '') {
-        delete updateData.price; // Remove empty price field
+      await storage.deleteUser(id);
+      await revokeUserSessions(id);
+      
+      // Log the activity
+      await storage.createActivityLog({
+        userId: (req.user as any).id,
+        action: "Delete",
+        entityType: "User",
+        entityId: id.toString(),
+        details: `Deleted user: ${existingUser.username}`
+      });
+      
+      res.json({ message: "User deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  app.get("/api/users/:id/sessions", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getUser(id)) {
+        return res.status(404).json({ message: "User not found" });
       }
+      res.json(await listUserSessions(id, req.sessionID));
+    } catch (error) {
+      console.error('Error fetching user sessions:', error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Signs a user out on every device, e.g. after deactivating them or losing a laptop
+  app.delete("/api/users/:id/sessions", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingUser = await storage.getUser(id);
       
-      // Add image path if uploaded
-      if (req.file) {
-        updateData.imagePath = `/uploads/${req.file.filename}`;
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      const updatedItem = await storage.updateInventoryItem(id, updateData);
+      const revoked = await revokeUserSessions(id, req.sessionID);
       
       // Log the activity
       await storage.createActivityLog({
         userId: (req.user as any).id,
-        action: "Update",
-        entityType: "InventoryItem",
+        action: "Session Revoke",
+        entityType: "User",
         entityId: id.toString(),
-        details: `Updated item: ${existingItem.name} (${existingItem.itemId})`
+        details: `Revoked ${revoked} session(s) of user: ${existingUser.username}`
       });
       
-      res.json(updatedItem);
+      res.json({ revoked });
     } catch (error) {
-      console.error('Error updating inventory item:', error);
-      res.status(500).json({ message: "Failed to update inventory item" });
+      console.error('Error revoking user sessions:', error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
     }
   });
 
-  app.delete("/api/inventory/:id", requireAuth, async (req, res) => {
+  // For users who lost their authenticator; they enroll again on next login if 2FA is required
+  app.delete("/api/users/:id/two-factor", requirePermission("users:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const existingItem = await storage.getInventoryItem(id);
+      const existingUser = await storage.getUser(id);
       
-      if (!existingItem) {
-        return res.status(404).json({ message: "Item not found" });
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      await storage.deleteInventoryItem(id);
+      const updatedUser = await storage.updateUserTwoFactor(id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: null,
+        twoFactorLastCounter: null
+      });
       
       // Log the activity
       await storage.createActivityLog({
         userId: (req.user as any).id,
-        action: "Delete",
-        entityType: "InventoryItem",
+        action: "Two-Factor Reset",
+        entityType: "User",
         entityId: id.toString(),
-        details: `Deleted item: ${existingItem.name} (${existingItem.itemId})`
+        details: `Reset two-factor authentication for user: ${existingUser.username}`
       });
       
-      res.json({ message: "Item deleted successfully" });
+      res.json(updatedUser && toPublicUser(updatedUser));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete inventory item" });
+      console.error('Error resetting two-factor authentication:', error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
     }
   });
 
-  // Partial delete inventory item
-  app.post("/api/inventory/:id/partial-delete", requireAuth, async (req, res) => {
+  // Category routes
+  
+  // A category's parent must exist and can't be the category itself or one of its subcategories
+  const checkCategoryParent = async (parentId: number | null | undefined, categoryId?: number) => {
+    if (parentId === null || parentId === undefined) return;
+    const categories = await storage.listCategories();
+    const parent = categories.find((category) => category.id === parentId);
+    if (!parent) {
+      throw new HttpError(400, "Parent category not found");
+    }
+    if (categoryId !== undefined && categoryAncestry(categories, parent.name).some((category) => category.id === categoryId)) {
+      throw new HttpError(400, "A category cannot be placed under itself or one of its subcategories");
+    }
+  };
+  
+  app.get("/api/categories", requirePermission("inventory:read"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const { quantityToDelete } = req.body;
+      res.json(await storage.listCategories());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch categories" });
+    }
+  });
+  
+  app.post("/api/categories", requirePermission("settings:manage"), validateSchema(insertCategorySchema), async (req, res) => {
+    try {
+      await checkCategoryParent(req.body.parentId);
+      const category = await storage.createCategory(req.body);
       
-      if (!quantityToDelete || quantityToDelete <= 0) {
-        return res.status(400).json({ message: "Quantity to delete must be a positive number" });
-      }
+      // Log the activity
+      await storage.createActivityLog({
+        userId: (req.user as any).id,
+        action: "Create",
+        entityType: "Category",
+        entityId: category.id.toString(),
+        details: `Created category: ${category.name}` +
+          (category.fields.length > 0 ? ` (fields: ${category.fields.map((field) => field.label).join(", ")})` : "")
+      });
       
-      const existingItem = await storage.getInventoryItem(id);
-      if (!existingItem) {
-        return res.status(404).json({ message: "Item not found" });
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
       }
-      
-      if (quantityToDelete > existingItem.quantity) {
-        return res.status(400).json({ message: "Cannot delete more items than available" });
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A category with this name already exists" });
       }
+      console.error('Error creating category:', error);
+      res.status(500).json({ message: "Failed to create category" });
+    }
+  });
+  
+  // Renaming a category moves its items and its item ID prefix along with it
+  app.put("/api/categories/:id", requirePermission("settings:manage"), validateSchema(updateCategorySchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = (req.user as any).id;
+      const existingCategory = await storage.getCategory(id);
       
-      const newQuantity = existingItem.quantity - quantityToDelete;
+      if (!existingCategory) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      await checkCategoryParent(req.body.parentId, id);
       
-      if (newQuantity === 0) {
-        // Delete the entire item if quantity becomes 0
-        await storage.deleteInventoryItem(id);
-        
-        // Log the activity
-        await storage.createActivityLog({
-          userId: (req.user as any).id,
-          action: "Delete",
-          entityType: "InventoryItem",
-          entityId: id.toString(),
-          details: `Deleted all remaining ${quantityToDelete} unit(s) of ${existingItem.name} (${existingItem.itemId})`
-        });
+      const category = await storage.transaction(async (tx) => {
+        const category = (await tx.updateCategory(id, req.body))!;
         
-        res.json({ message: "Item deleted successfully" });
-      } else {
-        // Update the quantity
-        const updatedItem = await storage.updateInventoryItem(id, { quantity: newQuantity });
+        let details = `Updated category: ${existingCategory.name} (${Object.keys(req.body).join(', ')})`;
+        if (category.name !== existingCategory.name) {
+          const moved = await tx.renameItemCategory(existingCategory.name, category.name);
+          details += `; renamed to ${category.name}, ${moved} item(s) moved`;
+          
+          const { categoryPrefixes } = await getSettingsSection(tx, "itemIds");
+          if (categoryPrefixes[existingCategory.name] !== undefined) {
+            const { [existingCategory.name]: prefix, ...otherPrefixes } = categoryPrefixes;
+            await updateSettings(tx, { itemIds: { categoryPrefixes: { ...otherPrefixes, [category.name]: prefix } } }, userId);
+          }
+        }
         
         // Log the activity
-        await storage.createActivityLog({
-          userId: (req.user as any).id,
+        await tx.createActivityLog({
+          userId,
           action: "Update",
-          entityType: "InventoryItem",
+          entityType: "Category",
           entityId: id.toString(),
-          details: `Deleted ${quantityToDelete} unit(s) of ${existingItem.name} (${existingItem.itemId}), ${newQuantity} remaining`
+          details
         });
         
-        res.json(updatedItem);
-      }
+        return category;
+      });
+      
+      res.json(category);
     } catch (error) {
-      console.error('Error partially deleting inventory item:', error);
-      res.status(500).json({ message: "Failed to delete inventory item" });
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A category with this name already exists" });
+      }
+      console.error('Error updating category:', error);
+      res.status(500).json({ message: "Failed to update category" });
     }
   });
-
-  // Mark item as damaged
-  app.post("/api/inventory/:id/damage", requireAuth, async (req, res) => {
+  
+  app.delete("/api/categories/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { quantity, reason } = req.body;
+      const categories = await storage.listCategories();
+      const existingCategory = categories.find((category) => category.id === id);
       
-      if (!quantity || quantity <= 0) {
-        return res.status(400).json({ message: "Quantity must be a positive number" });
+      if (!existingCategory) {
+        return res.status(404).json({ message: "Category not found" });
       }
       
-      const updatedItem = await storage.markItemDamaged(id, quantity);
-      
-      if (!updatedItem) {
-        return res.status(404).json({ message: "Item not found" });
+      const subcategories = categories.filter((category) => category.parentId === id);
+      if (subcategories.length > 0) {
+        return res.status(400).json({
+          message: `Move or delete its subcategories first: ${subcategories.map((category) => category.name).join(", ")}`
+        });
+      }
+      const itemCount = (await storage.getInventoryItemsByCategory())
+        .find(({ category }) => category === existingCategory.name)?.count ?? 0;
+      if (itemCount > 0) {
+        return res.status(400).json({ message: `${itemCount} item(s) are in this category; move them to another category first` });
       }
       
+      await storage.deleteCategory(id);
+      
       // Log the activity
       await storage.createActivityLog({
         userId: (req.user as any).id,
-        action: "Damage",
-        entityType: "InventoryItem",
+        action: "Delete",
+        entityType: "Category",
         entityId: id.toString(),
-        details: `Marked ${quantity} unit(s) of ${updatedItem.name} as damaged${reason ? `: ${reason}` : ''}`
+        details: `Deleted category: ${existingCategory.name}`
       });
       
-      res.json(updatedItem);
+      res.json({ message: "Category deleted successfully" });
     } catch (error) {
-      console.error('Error marking item as damaged:', error);
-      res.status(500).json({ message: error.message || "Failed to mark item as damaged" });
+      console.error('Error deleting category:', error);
+      res.status(500).json({ message: "Failed to delete category" });
     }
   });
 
-  // Mark item as repaired
-  app.post("/api/inventory/:id/repair", requireAuth, async (req, res) => {
+  // Location routes
+  
+  // Names are unique among the locations that share a parent, ignoring case
+  const checkLocationName = async (name: string, parentId: number | null, locationId?: number) => {
+    const siblings = (await storage.listLocations())
+      .filter((location) => location.parentId === parentId && location.id !== locationId);
+    if (siblings.some((location) => location.name.toLowerCase() === name.toLowerCase())) {
+      throw new HttpError(409, `There is already a location called ${name} here`);
+    }
+  };
+  
+  app.get("/api/locations", requirePermission("inventory:read"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const { quantity, reason } = req.body;
-      
-      if (!quantity || quantity <= 0) {
-        return res.status(400).json({ message: "Quantity must be a positive number" });
+      res.json(await storage.listLocations());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch locations" });
+    }
+  });
+  
+  app.post("/api/locations", requirePermission("inventory:write"), validateSchema(insertLocationSchema), async (req, res) => {
+    try {
+      const parentId = req.body.parentId ?? null;
+      const parent = parentId !== null ? await storage.getLocation(parentId) : undefined;
+      if (parentId !== null && !parent) {
+        return res.status(400).json({ message: "Parent location not found" });
       }
-      
-      const updatedItem = await storage.markItemRepaired(id, quantity);
-      
-      if (!updatedItem) {
-        return res.status(404).json({ message: "Item not found" });
+      const kind = childKind(parent);
+      if (!kind) {
+        return res.status(400).json({ message: `A ${parent!.kind.toLowerCase()} cannot contain other locations` });
       }
+      await checkLocationName(req.body.name, parentId);
+      
+      const location = await storage.createLocation({ ...req.body, parentId, kind });
       
       // Log the activity
       await storage.createActivityLog({
         userId: (req.user as any).id,
-        action: "Repair",
-        entityType: "InventoryItem",
-        entityId: id.toString(),
-        details: `Returned ${quantity} unit(s) of ${updatedItem.name} to available stock${reason ? `: ${reason}` : ''}`
+        action: "Create",
+        entityType: "Location",
+        entityId: location.id.toString(),
+        details: `Created ${kind.toLowerCase()}: ${locationPath(await storage.listLocations(), location.id)}`
       });
       
-      res.json(updatedItem);
+      res.status(201).json(location);
     } catch (error) {
-      console.error('Error marking item as repaired:', error);
-      res.status(500).json({ message: error.message || "Failed to mark item as repaired" });
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error creating location:', error);
+      res.status(500).json({ message: "Failed to create location" });
     }
   });
-
-  // Update item lifecycle status
-  app.post("/api/inventory/:id/lifecycle", requireAuth, async (req, res) => {
+  
+  // Renaming a location rewrites the location shown on the items kept in it and below it
+  app.put("/api/locations/:id", requirePermission("inventory:write"), validateSchema(updateLocationSchema), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { lifecycleStatuses, lifecycleDate, lifecycleReason, quantityLifecycled } = req.body;
+      const existingLocation = await storage.getLocation(id);
+      
+      if (!existingLocation) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      if (req.body.name !== undefined) {
+        await checkLocationName(req.body.name, existingLocation.parentId, id);
+      }
+      
+      const location = await storage.transaction(async (tx) => {
+        const location = (await tx.updateLocation(id, req.body))!;
+        
+        let details = `Updated location: ${existingLocation.name} (${Object.keys(req.body).join(', ')})`;
+        if (location.name !== existingLocation.name) {
+          const moved = await refreshItemLocations(tx, locationSubtree(await tx.listLocations(), id));
+          details += `; renamed to ${location.name}, ${moved} item(s) updated`;
+        }
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Update",
+          entityType: "Location",
+          entityId: id.toString(),
+          details
+        });
+        
+        return location;
+      });
+      
+      res.json(location);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error updating location:', error);
+      res.status(500).json({ message: "Failed to update location" });
+    }
+  });
+  
+  app.delete("/api/locations/:id", requirePermission("inventory:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const locations = await storage.listLocations();
+      const existingLocation = locations.find((location) => location.id === id);
+      
+      if (!existingLocation) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      
+      const children = locations.filter((location) => location.parentId === id);
+      if (children.length > 0) {
+        return res.status(400).json({
+          message: `Move or delete the locations inside it first: ${children.map((location) => location.name).join(", ")}`
+        });
+      }
+      const itemCount = (await storage.listInventoryItems()).filter((item) => item.locationId === id).length;
+      const stockCount = (await storage.listItemStock()).filter((stock) => stock.locationId === id).length;
+      if (itemCount > 0 || stockCount > 0) {
+        return res.status(400).json({ message: "Items are kept at this location; move them elsewhere first" });
+      }
+      
+      await storage.deleteLocation(id);
+      
+      // Log the activity
+      await storage.createActivityLog({
+        userId: (req.user as any).id,
+        action: "Delete",
+        entityType: "Location",
+        entityId: id.toString(),
+        details: `Deleted location: ${locationPath(locations, id)}`
+      });
+      
+      res.json({ message: "Location deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting location:', error);
+      res.status(500).json({ message: "Failed to delete location" });
+    }
+  });
+  
+  // Everything kept at a location or anywhere inside it, one line per item and location
+  app.get("/api/locations/:id/stock", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const locations = await storage.listLocations();
+      if (!locations.some((location) => location.id === id)) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      
+      const subtree = locationSubtree(locations, id);
+      const stockedItemIds = new Set(
+        (await storage.listItemStock()).filter((stock) => subtree.includes(stock.locationId)).map((stock) => stock.itemId)
+      );
+      const lines: LocationStockLine[] = [];
+      for (const item of await storage.listInventoryItems()) {
+        if (!stockedItemIds.has(item.id) && (item.locationId === null || !subtree.includes(item.locationId))) continue;
+        for (const line of await stockBreakdown(storage, item, locations)) {
+          if (line.locationId !== null && subtree.includes(line.locationId)) {
+            lines.push({ ...line, item });
+          }
+        }
+      }
+      lines.sort((a, b) => a.path.localeCompare(b.path) || a.item.name.localeCompare(b.item.name));
+      res.json(lines);
+    } catch (error) {
+      console.error('Error fetching location stock:', error);
+      res.status(500).json({ message: "Failed to fetch location stock" });
+    }
+  });
+
+  // Inventory routes
+  
+  // Checks the item's category exists and returns its custom fields in stored form.
+  // Multipart forms send the fields as a JSON string.
+  const validItemFields = async (category: string, submitted: unknown) => {
+    const categories = await storage.listCategories();
+    if (!categories.some((existing) => existing.name === category)) {
+      throw new HttpError(400, `Unknown category "${category}"`);
+    }
+    let values = submitted;
+    if (typeof values === "string") {
+      try {
+        values = JSON.parse(values);
+      } catch {
+        values = null;
+      }
+    }
+    if (values !== undefined && (typeof values !== "object" || values === null || Array.isArray(values))) {
+      throw new HttpError(400, "customFields must be an object keyed by field");
+    }
+    const result = validateCustomFields(categoryFields(categories, category), values as Record<string, unknown> | undefined);
+    if (result.errors.length > 0) {
+      throw new HttpError(400, result.errors.map((error) => error.message).join("; "), { errors: result.errors });
+    }
+    return result.values;
+  };
+  
+  app.get("/api/inventory", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const query = inventoryQuerySchema.parse(req.query);
+      
+      // Callers that don't ask for a page get every match as a plain array
+      if (query.page === undefined && query.pageSize === undefined) {
+        const { items } = await storage.searchInventoryItems(query);
+        return res.json(items);
+      }
+      
+      const page = query.page ?? 1;
+      const pageSize = query.pageSize ?? 25;
+      const { items, total } = await storage.searchInventoryItems(query, {
+        limit: pageSize,
+        offset: (page - 1) * pageSize
+      });
+      const result: InventoryPage = {
+        items,
+        total,
+        page,
+        pageSize,
+        totalPages: Math.max(1, Math.ceil(total / pageSize))
+      };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to fetch inventory items" });
+    }
+  });
+
+  app.get("/api/inventory/locations", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      res.json(await storage.listInventoryLocations());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch inventory locations" });
+    }
+  });
+
+  // Printable labels for one or more items as a PDF, e.g. ?ids=3&ids=7&layout=a4-3x8&codes=both
+  app.get("/api/inventory/labels", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const query = labelQuerySchema.parse(req.query);
+      
+      const items: InventoryItem[] = [];
+      for (const id of query.ids) {
+        const item = await storage.getInventoryItem(id);
+        if (!item) {
+          return res.status(404).json({ message: `Item ${id} not found` });
+        }
+        items.push(item);
+      }
+      
+      // QR codes open the item in the app, so they need the address people reach it on
+      const origin = config.publicUrl ?? `${req.protocol}://${req.get("host")}`;
+      const { organizationName } = await documentHeader(storage);
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="labels-${new Date().toISOString().slice(0, 10)}.pdf"`);
+      await writeLabelPdf(res, items, {
+        layout: query.layout,
+        codes: query.codes,
+        copies: query.copies,
+        start: query.start,
+        organizationName,
+        itemUrl: (item) => `${origin}/inventory/view/${item.id}`
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error generating labels:', error);
+      if (!res.headersSent) {
+        return res.status(500).json({ message: "Failed to generate labels" });
+      }
+      res.destroy();
+    }
+  });
+
+  // Resolves a scanned label or typed item ID, e.g. ?code=BVGJK0001 or ?code=https://.../inventory/view/1
+  app.get("/api/inventory/lookup", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const code = typeof req.query.code === "string" ? req.query.code.trim() : "";
+      if (!code) {
+        return res.status(400).json({ message: "Scan or type an item code" });
+      }
+      
+      const item = await findScannedItem(storage, code);
+      if (!item) {
+        return res.status(404).json({ message: `No item found for code "${code}"` });
+      }
+      
+      const lookup: ScanLookup = { item, openLoans: await openLoansForItem(storage, item.id) };
+      res.json(lookup);
+    } catch (error) {
+      console.error('Error looking up scanned code:', error);
+      res.status(500).json({ message: "Failed to look up item" });
+    }
+  });
+
+  app.get("/api/inventory/stats", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const counts = await storage.countInventoryItems();
+      const categories = await storage.getInventoryItemsByCategory();
+      const overdue = await countOverdueLoans(storage);
+      const stats: InventoryStats = { counts, categories, overdue };
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch inventory stats" });
+    }
+  });
+
+  app.get("/api/inventory/:id", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const item = await storage.getInventoryItem(parseInt(req.params.id));
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      res.json(item);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch inventory item" });
+    }
+  });
+
+  app.post("/api/inventory", requirePermission("inventory:write"), upload.single('image'), async (req, res) => {
+    try {
+      // Convert form data fields to proper types
+      const formData = { ...req.body };
+      
+      // Convert quantity to number
+      if (formData.quantity) {
+        formData.quantity = parseInt(formData.quantity);
+      }
+      
+      // Convert price to number
+      if (formData.price && formData.price !== '') {
+        formData.price = parseFloat(formData.price);
+      } else {
+        delete formData.price; // Remove empty price field
+      }
+      
+      // Custom fields are checked against the category once it is known
+      const submittedFields = formData.customFields;
+      delete formData.customFields;
+      // The location is picked from the location tree; text must name an existing location
+      const placement = await resolveItemLocation(storage, formData);
+      delete formData.locationId;
+      delete formData.location;
+      
+      // Validate the form data
+      const validatedData = insertInventoryItemSchema.parse(formData);
+      validatedData.customFields = await validItemFields(validatedData.category, submittedFields);
+      Object.assign(validatedData, placement);
+      
+      // Add image path if uploaded
+      if (req.file) {
+        validatedData.imagePath = `/uploads/${req.file.filename}`;
+      }
+      
+      const item = await storage.transaction(async (tx) => {
+        // IDs are normally assigned here; an explicit one (e.g. from an old register) must be unused
+        if (validatedData.itemId) {
+          if (await tx.getInventoryItemByItemId(validatedData.itemId)) {
+            throw new HttpError(409, `Item ID ${validatedData.itemId} is already in use`);
+          }
+        } else {
+          validatedData.itemId = await allocateItemId(tx, validatedData.category);
+        }
+        
+        const item = await tx.createInventoryItem(validatedData);
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Create",
+          entityType: "InventoryItem",
+          entityId: item.id.toString(),
+          details: `Added item: ${item.name} (${item.itemId})`
+        });
+        
+        return item;
+      });
+      
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "Item ID is already in use" });
+      }
+      console.error('Error creating inventory item:', error);
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Failed to create inventory item" });
+    }
+  });
+
+  // Inventory import, step 1: read the column headers and suggest how they map onto item fields
+  app.post("/api/inventory/import/columns", requirePermission("inventory:write"), receiveSpreadsheet, async (req, res) => {
+    try {
+      const file = req.file!;
+      const sheet = await readSpreadsheet(file.buffer, file.originalname);
+      const result: InventoryImportColumns = {
+        fileName: file.originalname,
+        columns: sheet.columns,
+        rowCount: sheet.rows.length,
+        mapping: suggestMapping(sheet.columns),
+        sample: sheet.rows.slice(0, 5).map(({ values }) => values)
+      };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error reading import file:', error);
+      res.status(500).json({ message: "Failed to read the import file" });
+    }
+  });
+
+  // Inventory import, step 2: validate every row with the chosen mapping. Nothing is written unless
+  // dryRun is "false", and then only if every row is valid, all in one transaction.
+  app.post("/api/inventory/import", requirePermission("inventory:write"), receiveSpreadsheet, async (req, res) => {
+    try {
+      const file = req.file!;
+      let mapping;
+      try {
+        mapping = inventoryImportMappingSchema.parse(JSON.parse(req.body.mapping || "{}"));
+      } catch (error) {
+        const message = error instanceof ZodError ? fromZodError(error).message : "Mapping must be a JSON object";
+        return res.status(400).json({ message });
+      }
+      const dryRun = req.body.dryRun !== "false";
+      const sheet = await readSpreadsheet(file.buffer, file.originalname);
+      
+      if (dryRun) {
+        const { rows } = await planImport(storage, sheet, mapping);
+        return res.json(importResult(file.originalname, true, rows));
+      }
+      
+      const result = await storage.transaction(async (tx) => {
+        const { rows, changes } = await planImport(tx, sheet, mapping);
+        const result = importResult(file.originalname, false, rows);
+        if (result.summary.invalid > 0) {
+          throw new HttpError(400, `${result.summary.invalid} of ${result.summary.total} rows have errors; nothing was imported`, result);
+        }
+        
+        const items = await applyImport(tx, changes);
+        // Every row is valid here, so rows and items line up; report the IDs assigned to new items
+        rows.forEach((row, index) => {
+          row.itemId = items[index].itemId;
+        });
+        
+        const itemIds = items.map(item => item.itemId);
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Import",
+          entityType: "InventoryItem",
+          entityId: file.originalname,
+          details: `Imported ${file.originalname}: ${result.summary.created} created, ${result.summary.updated} updated` +
+            (itemIds.length > 0 ? ` (${itemIds.slice(0, 20).join(", ")}${itemIds.length > 20 ? ` and ${itemIds.length - 20} more` : ""})` : "")
+        });
+        
+        return result;
+      });
+      
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "An item ID in the file was taken while importing; try again" });
+      }
+      console.error('Error importing inventory:', error);
+      res.status(500).json({ message: "Failed to import inventory" });
+    }
+  });
+
+  app.put("/api/inventory/:id", requirePermission("inventory:write"), upload.single('image'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingItem = await storage.getInventoryItem(id);
+      
+      if (!existingItem) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      // Convert form data fields to proper types
+      const updateData = { ...req.body };
+      
+      // Convert quantity to number
+      if (updateData.quantity) {
+        updateData.quantity = parseInt(updateData.quantity);
+      }
+      
+      // Convert price to number
+      if (updateData.price && updateData.price !== '') {
+        updateData.price = parseFloat(updateData.price);
+      } else if (updateData.price === '') {
+        delete updateData.price; // Remove empty price field
+      }
+      
+      // Item IDs are printed on labels and documents, so they never change once assigned
+      delete updateData.itemId;
+      // Serialized items become so by adding units, and their quantity is the number of units
+      delete updateData.serialized;
+      if (existingItem.serialized && updateData.quantity !== undefined && updateData.quantity !== existingItem.quantity) {
+        return res.status(400).json({ message: "The quantity of a serialized item follows its units; add or remove units instead" });
+      }
+      // Moving to another category re-checks the fields the item already has against the new one
+      if (updateData.category !== undefined || updateData.customFields !== undefined) {
+        updateData.customFields = await validItemFields(
+          updateData.category ?? existingItem.category,
+          updateData.customFields ?? existingItem.customFields
+        );
+      }
+      // Stock spread over several locations is moved with transfers; otherwise it all moves with the item
+      const placement = await resolveItemLocation(storage, updateData);
+      delete updateData.locationId;
+      delete updateData.location;
+      const relocated = placement !== undefined && placement.locationId !== existingItem.locationId;
+      if (relocated && await isSplitAcrossLocations(storage, existingItem)) {
+        return res.status(400).json({ message: "This item is kept at several locations; use a transfer to move its units" });
+      }
+      Object.assign(updateData, placement);
+      
+      // Add image path if uploaded
+      if (req.file) {
+        updateData.imagePath = `/uploads/${req.file.filename}`;
+      }
+      
+      const updatedItem = await storage.transaction(async (tx) => {
+        const updatedItem = await tx.updateInventoryItem(id, updateData);
+        if (relocated) {
+          await tx.replaceItemStock(id, []);
+        }
+        return updatedItem;
+      });
+      
+      // Log the activity
+      await storage.createActivityLog({
+        userId: (req.user as any).id,
+        action: "Update",
+        entityType: "InventoryItem",
+        entityId: id.toString(),
+        details: `Updated item: ${existingItem.name} (${existingItem.itemId})`
+      });
+      
+      res.json(updatedItem);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error updating inventory item:', error);
+      res.status(500).json({ message: "Failed to update inventory item" });
+    }
+  });
+
+  app.delete("/api/inventory/:id", requirePermission("inventory:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingItem = await storage.getInventoryItem(id);
+      
+      if (!existingItem) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      await storage.deleteInventoryItem(id);
+      
+      // Log the activity
+      await storage.createActivityLog({
+        userId: (req.user as any).id,
+        action: "Delete",
+        entityType: "InventoryItem",
+        entityId: id.toString(),
+        details: `Deleted item: ${existingItem.name} (${existingItem.itemId})`
+      });
+      
+      res.json({ message: "Item deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete inventory item" });
+    }
+  });
+
+  // Partial delete inventory item
+  app.post("/api/inventory/:id/partial-delete", requirePermission("inventory:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { quantityToDelete } = req.body;
+      
+      if (!quantityToDelete || quantityToDelete <= 0) {
+        return res.status(400).json({ message: "Quantity to delete must be a positive number" });
+      }
+      
+      const result = await storage.transaction(async (tx) => {
+        const existingItem = await tx.lockInventoryItem(id);
+        if (!existingItem) {
+          throw new HttpError(404, "Item not found");
+        }
+        
+        if (quantityToDelete > existingItem.quantity) {
+          throw new HttpError(400, "Cannot delete more items than available");
+        }
+        if (existingItem.serialized) {
+          throw new HttpError(400, "Remove units of a serialized item individually");
+        }
+        
+        const newQuantity = existingItem.quantity - quantityToDelete;
+        
+        if (newQuantity === 0) {
+          // Delete the entire item if quantity becomes 0
+          await tx.deleteInventoryItem(id);
+          
+          // Log the activity
+          await tx.createActivityLog({
+            userId: (req.user as any).id,
+            action: "Delete",
+            entityType: "InventoryItem",
+            entityId: id.toString(),
+            details: `Deleted all remaining ${quantityToDelete} unit(s) of ${existingItem.name} (${existingItem.itemId})`
+          });
+          
+          return { message: "Item deleted successfully" };
+        }
+        
+        // Update the quantity
+        const updatedItem = await tx.updateInventoryItem(id, { quantity: newQuantity });
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Update",
+          entityType: "InventoryItem",
+          entityId: id.toString(),
+          details: `Deleted ${quantityToDelete} unit(s) of ${existingItem.name} (${existingItem.itemId}), ${newQuantity} remaining`
+        });
+        
+        return updatedItem;
+      });
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error partially deleting inventory item:', error);
+      res.status(500).json({ message: "Failed to delete inventory item" });
+    }
+  });
+
+  // Mark item as damaged
+  app.post("/api/inventory/:id/damage", requirePermission("inventory:damage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { quantity, reason } = req.body;
+      
+      if (!quantity || quantity <= 0) {
+        return res.status(400).json({ message: "Quantity must be a positive number" });
+      }
+      
+      const unitIds = parseUnitIds(req.body.unitIds);
+      
+      const updatedItem = await storage.transaction(async (tx) => {
+        const item = await tx.lockInventoryItem(id);
+        if (!item) {
+          throw new HttpError(404, "Item not found");
+        }
+        
+        // Serialized items are damaged unit by unit
+        const units = await namedUnits(tx, item, unitIds, "Available", "mark as damaged");
+        const updatedItem = item.serialized
+          ? await moveUnits(tx, item, units, "Damaged")
+          : (await tx.markItemDamaged(id, quantity))!;
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Damage",
+          entityType: "InventoryItem",
+          entityId: id.toString(),
+          details: item.serialized
+            ? `Marked ${units.length} unit(s) of ${updatedItem.name} as damaged (${describeUnits(units)})${reason ? `: ${reason}` : ''}`
+            : `Marked ${quantity} unit(s) of ${updatedItem.name} as damaged${reason ? `: ${reason}` : ''}`
+        });
+        
+        return updatedItem;
+      });
+      
+      res.json(updatedItem);
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error marking item as damaged:', error);
+      res.status(500).json({ message: error.message || "Failed to mark item as damaged" });
+    }
+  });
+
+  // Mark item as repaired
+  app.post("/api/inventory/:id/repair", requirePermission("inventory:damage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { quantity, reason } = req.body;
+      
+      if (!quantity || quantity <= 0) {
+        return res.status(400).json({ message: "Quantity must be a positive number" });
+      }
+      
+      const unitIds = parseUnitIds(req.body.unitIds);
+      
+      const updatedItem = await storage.transaction(async (tx) => {
+        const item = await tx.lockInventoryItem(id);
+        if (!item) {
+          throw new HttpError(404, "Item not found");
+        }
+        
+        const units = await namedUnits(tx, item, unitIds, "Damaged", "repair");
+        const updatedItem = item.serialized
+          ? await moveUnits(tx, item, units, "Available")
+          : (await tx.markItemRepaired(id, quantity))!;
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Repair",
+          entityType: "InventoryItem",
+          entityId: id.toString(),
+          details: item.serialized
+            ? `Returned ${units.length} unit(s) of ${updatedItem.name} to available stock (${describeUnits(units)})${reason ? `: ${reason}` : ''}`
+            : `Returned ${quantity} unit(s) of ${updatedItem.name} to available stock${reason ? `: ${reason}` : ''}`
+        });
+        
+        return updatedItem;
+      });
+      
+      res.json(updatedItem);
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error marking item as repaired:', error);
+      res.status(500).json({ message: error.message || "Failed to mark item as repaired" });
+    }
+  });
+
+  // Update item lifecycle status
+  app.post("/api/inventory/:id/lifecycle", requirePermission("inventory:lifecycle"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { lifecycleStatuses, lifecycleDate, lifecycleReason, quantityLifecycled } = req.body;
       
       if (!lifecycleStatuses || !Array.isArray(lifecycleStatuses) || lifecycleStatuses.length === 0) {
         return res.status(400).json({ message: "At least one lifecycle status must be selected" });
@@ -500,51 +1275,423 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Quantity must be a positive number" });
       }
       
-      const updatedItem = await storage.updateItemLifecycle(id, lifecycleStatuses, lifecycleDate, lifecycleReason, quantityLifecycled);
+      const unitIds = parseUnitIds(req.body.unitIds);
+      
+      const updatedItem = await storage.transaction(async (tx) => {
+        const item = await tx.lockInventoryItem(id);
+        if (!item) {
+          throw new HttpError(404, "Item not found");
+        }
+        
+        // The history entry records the units' count; the units themselves are then retired
+        const units = await namedUnits(tx, item, unitIds, "Available", "retire");
+        let updatedItem = (await tx.updateItemLifecycle(id, lifecycleStatuses, lifecycleDate, lifecycleReason, item.serialized ? units.length : quantityLifecycled, (req.user as any).id))!;
+        if (item.serialized) {
+          updatedItem = await moveUnits(tx, updatedItem, units, "Retired");
+        }
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Lifecycle Update",
+          entityType: "InventoryItem",
+          entityId: id.toString(),
+          details: item.serialized
+            ? `Updated lifecycle status for ${updatedItem.name}: ${units.length} unit(s) (${describeUnits(units)}) - ${lifecycleStatuses.join(', ')} - ${lifecycleReason}`
+            : `Updated lifecycle status for ${updatedItem.name}: ${quantityLifecycled} unit(s) - ${lifecycleStatuses.join(', ')} - ${lifecycleReason}`
+        });
+        
+        return updatedItem;
+      });
       
-      if (!updatedItem) {
+      res.json(updatedItem);
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error updating item lifecycle:', error);
+      res.status(500).json({ message: error.message || "Failed to update item lifecycle" });
+    }
+  });
+
+  // Get lifecycle history for an item
+  app.get("/api/inventory/:id/lifecycle-history", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const itemId = parseInt(req.params.id);
+      const history = await storage.getLifecycleHistoryByItemId(itemId);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching lifecycle history:', error);
+      res.status(500).json({ message: "Failed to fetch lifecycle history" });
+    }
+  });
+
+  // How many units of the item are kept where
+  app.get("/api/inventory/:id/stock", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const item = await storage.getInventoryItem(parseInt(req.params.id));
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      res.json(await stockBreakdown(storage, item));
+    } catch (error) {
+      console.error('Error fetching item stock:', error);
+      res.status(500).json({ message: "Failed to fetch item stock" });
+    }
+  });
+
+  // Moves units between locations and generates a transfer document
+  app.post("/api/inventory/:id/transfer", requirePermission("inventory:write"), validateSchema(transferStockSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const result = await storage.transaction(async (tx) => {
+        const item = await tx.lockInventoryItem(id);
+        if (!item) {
+          throw new HttpError(404, "Item not found");
+        }
+        return transferStock(tx, item, req.body, (req.user as any).id);
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error transferring stock:', error);
+      res.status(500).json({ message: "Failed to transfer stock" });
+    }
+  });
+
+  // Asset units of a serialized item, with the loan each unit is out on
+  app.get("/api/inventory/:id/units", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const itemId = parseInt(req.params.id);
+      if (!await storage.getInventoryItem(itemId)) {
         return res.status(404).json({ message: "Item not found" });
       }
       
+      const [units, openLoans] = await Promise.all([storage.listAssetUnits(itemId), openLoansForItem(storage, itemId)]);
+      const details: AssetUnitDetails[] = units.map((unit) => ({
+        ...unit,
+        currentLoan: openLoans.find((loan) => loan.unitId === unit.id) ?? null
+      }));
+      res.json(details);
+    } catch (error) {
+      console.error('Error fetching asset units:', error);
+      res.status(500).json({ message: "Failed to fetch asset units" });
+    }
+  });
+
+  // Adding the first units turns an item into a serialized one
+  app.post("/api/inventory/:id/units", requirePermission("inventory:write"), validateSchema(createAssetUnitsSchema), async (req, res) => {
+    try {
+      const itemId = parseInt(req.params.id);
+      const { units }: { units: InsertAssetUnit[] } = req.body;
+      
+      const result = await storage.transaction(async (tx) => {
+        const item = await tx.lockInventoryItem(itemId);
+        if (!item) {
+          throw new HttpError(404, "Item not found");
+        }
+        // Loans and damage recorded as bare quantities could not be matched to units
+        if (!item.serialized && item.quantityLoaned + item.quantityDamaged + item.quantityLifecycled > 0) {
+          throw new HttpError(400, "Return, repair or clear the lifecycle of every unit before tracking this item by serial number");
+        }
+        
+        const existingSerials = new Set((await tx.listAssetUnits(itemId)).map((unit) => unit.serialNumber.toLowerCase()));
+        const duplicates = units
+          .map((unit) => unit.serialNumber)
+          .filter((serialNumber, index, all) =>
+            existingSerials.has(serialNumber.toLowerCase()) ||
+            all.findIndex((other) => other.toLowerCase() === serialNumber.toLowerCase()) !== index);
+        if (duplicates.length > 0) {
+          throw new HttpError(409, `Serial number(s) already used for this item: ${Array.from(new Set(duplicates)).join(", ")}`);
+        }
+        
+        const created: AssetUnit[] = [];
+        for (const unit of units) {
+          created.push(await tx.createAssetUnit(itemId, unit));
+        }
+        await tx.syncUnitTotals(itemId);
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Update",
+          entityType: "InventoryItem",
+          entityId: itemId.toString(),
+          details: `Added ${created.length} unit(s) of ${item.name} (${item.itemId}): ${describeUnits(created)}`
+        });
+        
+        return created;
+      });
+      
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A serial number is already used for this item" });
+      }
+      console.error('Error adding asset units:', error);
+      res.status(500).json({ message: "Failed to add asset units" });
+    }
+  });
+
+  app.put("/api/inventory/:id/units/:unitId", requirePermission("inventory:write"), validateSchema(updateAssetUnitSchema), async (req, res) => {
+    try {
+      const itemId = parseInt(req.params.id);
+      const unitId = parseInt(req.params.unitId);
+      
+      const unit = await storage.getAssetUnit(unitId);
+      if (!unit || unit.itemId !== itemId) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      
+      const serialNumber: string | undefined = req.body.serialNumber;
+      if (serialNumber && serialNumber.toLowerCase() !== unit.serialNumber.toLowerCase()) {
+        const taken = (await storage.listAssetUnits(itemId)).some((other) => other.serialNumber.toLowerCase() === serialNumber.toLowerCase());
+        if (taken) {
+          return res.status(409).json({ message: `Serial number ${serialNumber} is already used for this item` });
+        }
+      }
+      
+      const updatedUnit = await storage.updateAssetUnit(unitId, req.body);
+      
+      // Log the activity
+      await storage.createActivityLog({
+        userId: (req.user as any).id,
+        action: "Update",
+        entityType: "InventoryItem",
+        entityId: itemId.toString(),
+        details: `Updated unit ${unit.serialNumber}${serialNumber && serialNumber !== unit.serialNumber ? ` (now ${serialNumber})` : ''}`
+      });
+      
+      res.json(updatedUnit);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A serial number is already used for this item" });
+      }
+      console.error('Error updating asset unit:', error);
+      res.status(500).json({ message: "Failed to update asset unit" });
+    }
+  });
+
+  // Only units entered by mistake can be removed; units with a history are retired through the lifecycle instead
+  app.delete("/api/inventory/:id/units/:unitId", requirePermission("inventory:write"), async (req, res) => {
+    try {
+      const itemId = parseInt(req.params.id);
+      const unitId = parseInt(req.params.unitId);
+      
+      const unit = await storage.transaction(async (tx) => {
+        const item = await tx.lockInventoryItem(itemId);
+        const unit = await tx.getAssetUnit(unitId);
+        if (!item || !unit || unit.itemId !== itemId) {
+          throw new HttpError(404, "Unit not found");
+        }
+        
+        const everLoaned = (await tx.listLoans()).some((loan) => loan.unitId === unitId);
+        if (unit.status !== "Available" || everLoaned) {
+          throw new HttpError(400, `Unit ${unit.serialNumber} has a history; retire it through the lifecycle instead`);
+        }
+        
+        await tx.deleteAssetUnit(unitId);
+        await tx.syncUnitTotals(itemId);
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Update",
+          entityType: "InventoryItem",
+          entityId: itemId.toString(),
+          details: `Removed unit ${unit.serialNumber} of ${item.name} (${item.itemId})`
+        });
+        
+        return unit;
+      });
+      
+      res.json({ message: `Unit ${unit.serialNumber} removed` });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error removing asset unit:', error);
+      res.status(500).json({ message: "Failed to remove asset unit" });
+    }
+  });
+
+  // Borrower routes
+  app.get("/api/borrowers", requirePermission("loans:read"), async (req, res) => {
+    try {
+      res.json(await borrowerSummaries(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch borrowers" });
+    }
+  });
+  
+  app.get("/api/borrowers/:id", requirePermission("loans:read"), async (req, res) => {
+    try {
+      const borrower = await storage.getBorrower(parseInt(req.params.id));
+      if (!borrower) {
+        return res.status(404).json({ message: "Borrower not found" });
+      }
+      res.json(borrower);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch borrower" });
+    }
+  });
+  
+  app.post("/api/borrowers", requirePermission("loans:write"), validateSchema(insertBorrowerSchema), async (req, res) => {
+    try {
+      const borrower = await storage.transaction((tx) => registerBorrower(tx, req.body as InsertBorrower, (req.user as any).id));
+      res.status(201).json(borrower);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error creating borrower:', error);
+      res.status(500).json({ message: "Failed to create borrower" });
+    }
+  });
+  
+  // Loans already made keep the name and contact they were made with
+  app.put("/api/borrowers/:id", requirePermission("loans:write"), validateSchema(updateBorrowerSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const borrower = await storage.transaction(async (tx) => {
+        const existingBorrower = await tx.getBorrower(id);
+        if (!existingBorrower) {
+          throw new HttpError(404, "Borrower not found");
+        }
+        await checkBorrowerUnique(tx, req.body, id);
+        
+        const borrower = (await tx.updateBorrower(id, req.body))!;
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Update",
+          entityType: "Borrower",
+          entityId: id.toString(),
+          details: `Updated borrower: ${existingBorrower.name} (${Object.keys(req.body).join(', ')})`
+        });
+        
+        return borrower;
+      });
+      
+      res.json(borrower);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Error updating borrower:', error);
+      res.status(500).json({ message: "Failed to update borrower" });
+    }
+  });
+  
+  // New loans to a blocked borrower break the lending rules until they are unblocked
+  app.put("/api/borrowers/:id/block", requirePermission("loans:override"), validateSchema(blockBorrowerSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingBorrower = await storage.getBorrower(id);
+      
+      if (!existingBorrower) {
+        return res.status(404).json({ message: "Borrower not found" });
+      }
+      
+      const borrower = await storage.setBorrowerBlock(id, req.body.reason);
+      
+      // Log the activity
+      await storage.createActivityLog({
+        userId: (req.user as any).id,
+        action: "Block",
+        entityType: "Borrower",
+        entityId: id.toString(),
+        details: `Blocked borrower: ${existingBorrower.name}: ${req.body.reason}`
+      });
+      
+      res.json(borrower);
+    } catch (error) {
+      console.error('Error blocking borrower:', error);
+      res.status(500).json({ message: "Failed to block borrower" });
+    }
+  });
+  
+  app.put("/api/borrowers/:id/unblock", requirePermission("loans:override"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingBorrower = await storage.getBorrower(id);
+      
+      if (!existingBorrower) {
+        return res.status(404).json({ message: "Borrower not found" });
+      }
+      if (!existingBorrower.blockedAt) {
+        return res.status(400).json({ message: `${existingBorrower.name} is not blocked` });
+      }
+      
+      const borrower = await storage.setBorrowerBlock(id, null);
+      
+      // Log the activity
+      await storage.createActivityLog({
+        userId: (req.user as any).id,
+        action: "Unblock",
+        entityType: "Borrower",
+        entityId: id.toString(),
+        details: `Unblocked borrower: ${existingBorrower.name}`
+      });
+      
+      res.json(borrower);
+    } catch (error) {
+      console.error('Error unblocking borrower:', error);
+      res.status(500).json({ message: "Failed to unblock borrower" });
+    }
+  });
+  
+  app.delete("/api/borrowers/:id", requirePermission("loans:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingBorrower = await storage.getBorrower(id);
+      
+      if (!existingBorrower) {
+        return res.status(404).json({ message: "Borrower not found" });
+      }
+      
+      const groupCount = (await storage.listLoanGroups()).filter((group) => group.borrowerId === id).length;
+      const loanCount = (await storage.listLoans()).filter((loan) => loan.borrowerId === id).length;
+      if (groupCount > 0 || loanCount > 0) {
+        return res.status(400).json({ message: `${existingBorrower.name} has loans on record and cannot be deleted` });
+      }
+      
+      await storage.deleteBorrower(id);
+      
       // Log the activity
       await storage.createActivityLog({
         userId: (req.user as any).id,
-        action: "Lifecycle Update",
-        entityType: "InventoryItem",
+        action: "Delete",
+        entityType: "Borrower",
         entityId: id.toString(),
-        details: `Updated lifecycle status for ${updatedItem.name}: ${quantityLifecycled} unit(s) - ${lifecycleStatuses.join(', ')} - ${lifecycleReason}`
+        details: `Deleted borrower: ${existingBorrower.name}`
       });
       
-      res.json(updatedItem);
-    } catch (error) {
-      console.error('Error updating item lifecycle:', error);
-      res.status(500).json({ message: error.message || "Failed to update item lifecycle" });
-    }
-  });
-
-  // Get lifecycle history for an item
-  app.get("/api/inventory/:id/lifecycle-history", requireAuth, async (req, res) => {
-    try {
-      const itemId = parseInt(req.params.id);
-      const history = await storage.getLifecycleHistoryByItemId(itemId);
-      res.json(history);
+      res.json({ message: "Borrower deleted successfully" });
     } catch (error) {
-      console.error('Error fetching lifecycle history:', error);
-      res.status(500).json({ message: "Failed to fetch lifecycle history" });
+      console.error('Error deleting borrower:', error);
+      res.status(500).json({ message: "Failed to delete borrower" });
     }
   });
 
   // Loan Group routes
-  app.get("/api/loan-groups", requireAuth, async (req, res) => {
+  app.get("/api/loan-groups", requirePermission("loans:read"), async (req, res) => {
     try {
       const loanGroups = await storage.listLoanGroups();
-      res.json(loanGroups);
+      // With their lines, so the list can tell partly returned groups apart
+      res.json(await Promise.all(loanGroups.map((group) => storage.getLoanGroup(group.id))));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch loan groups" });
     }
   });
 
-  app.get("/api/loan-groups/recent", requireAuth, async (req, res) => {
+  app.get("/api/loan-groups/recent", requirePermission("loans:read"), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 5;
       const loanGroups = await storage.getRecentLoanGroups(limit);
@@ -554,7 +1701,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/loan-groups/:id", requireAuth, async (req, res) => {
+  app.get("/api/loan-groups/:id", requirePermission("loans:read"), async (req, res) => {
     try {
       const loanGroup = await storage.getLoanGroup(parseInt(req.params.id));
       res.json(loanGroup);
@@ -563,10 +1710,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/loan-groups", requireAuth, async (req, res) => {
+  app.get("/api/loan-groups/:id/returns", requirePermission("loans:read"), async (req, res) => {
+    try {
+      const loanGroup = await storage.getLoanGroup(parseInt(req.params.id));
+      res.json(await loanReturnEntries(storage, loanGroup.items));
+    } catch (error) {
+      res.status(404).json({ message: "Loan group not found" });
+    }
+  });
+
+  app.get("/api/loan-groups/:id/extensions", requirePermission("loans:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const extensions = (await storage.listLoanExtensions()).filter((extension) => extension.loanGroupId === id);
+      res.json(await loanExtensionEntries(storage, extensions));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch loan extensions" });
+    }
+  });
+
+  app.post("/api/loan-groups/:id/extensions", requirePermission("loans:write"), validateSchema(extendLoanSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const extension = await storage.transaction(async (tx) => {
+        const loanGroup = (await tx.listLoanGroups()).find((group) => group.id === id);
+        if (!loanGroup) {
+          throw new HttpError(404, "Loan group not found");
+        }
+        return requestExtension(tx, loanGroup, req.body as ExtendLoan, req.user as any);
+      });
+      const [entry] = await loanExtensionEntries(storage, [extension]);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error("Error extending loan group:", error);
+      res.status(500).json({ message: "Failed to extend loan group" });
+    }
+  });
+
+  app.post("/api/loan-groups", requirePermission("loans:write"), async (req, res) => {
     try {
       // Validate the loan group data (schema handles date transformation)
-      const validatedData = insertLoanGroupSchema.parse(req.body);
+      const { override, ...validatedData } = insertLoanGroupSchema.parse(req.body);
       
       // Convert date strings to Date objects for storage
       const loanGroupData = {
@@ -575,51 +1762,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expectedReturnDate: new Date(validatedData.expectedReturnDate)
       };
       
-      // Check if all items exist and are available with sufficient quantities
-      const itemsData = validatedData.items;
-      const unavailableItems = [];
-      
-      for (const itemData of itemsData) {
-        const item = await storage.getInventoryItem(itemData.id);
-        if (!item) {
-          return res.status(404).json({ message: `Item with ID ${itemData.id} not found` });
+      // Combine repeated lines for the same item so stock is checked against the total requested
+      const requestedQuantities = new Map<number, { quantity: number; unitIds: number[] }>();
+      for (const itemData of validatedData.items) {
+        const requested = requestedQuantities.get(itemData.id) ?? { quantity: 0, unitIds: [] };
+        requestedQuantities.set(itemData.id, {
+          quantity: requested.quantity + itemData.quantity,
+          unitIds: Array.from(new Set([...requested.unitIds, ...(itemData.unitIds ?? [])]))
+        });
+      }
+      const itemsData = Array.from(requestedQuantities, ([id, { quantity, unitIds }]) => ({ id, quantity, unitIds }));
+      
+      const loanGroup = await storage.transaction(async (tx) => {
+        // Lock every item (in id order to avoid deadlocks) before checking stock
+        const lockedItems = [];
+        for (const itemData of [...itemsData].sort((a, b) => a.id - b.id)) {
+          const item = await tx.lockInventoryItem(itemData.id);
+          if (!item) {
+            throw new HttpError(404, `Item with ID ${itemData.id} not found`);
+          }
+          lockedItems.push({ item, quantity: itemData.quantity, unitIds: itemData.unitIds });
         }
         
-        if (item.quantityAvailable < itemData.quantity) {
-          unavailableItems.push({
+        const unavailableItems = lockedItems
+          .filter(({ item, quantity }) => item.quantityAvailable < quantity)
+          .map(({ item, quantity }) => ({
             id: item.id,
             name: item.name,
             itemId: item.itemId,
-            requested: itemData.quantity,
+            requested: quantity,
             available: item.quantityAvailable
-          });
+          }));
+        
+        if (unavailableItems.length > 0) {
+          throw new HttpError(400, "Some items don't have sufficient quantity available for loan", { unavailableItems });
         }
-      }
-      
-      if (unavailableItems.length > 0) {
-        return res.status(400).json({ 
-          message: "Some items don't have sufficient quantity available for loan",
-          unavailableItems
+        
+        // Serialized items go out as one line per unit
+        const loanLines: Array<{ id: number; quantity: number; unitId?: number }> = [];
+        const lentUnits = new Map<number, AssetUnit[]>();
+        for (const { item, quantity, unitIds } of lockedItems) {
+          if (!item.serialized) {
+            if (unitIds.length > 0) {
+              throw new HttpError(400, `${item.name} (${item.itemId}) is not tracked by serial number`);
+            }
+            loanLines.push({ id: item.id, quantity });
+            continue;
+          }
+          const units = await pickUnits(tx, item, quantity, unitIds);
+          lentUnits.set(item.id, units);
+          loanLines.push(...units.map((unit) => ({ id: item.id, quantity: 1, unitId: unit.id })));
+        }
+        
+        // Create the loan group with quantities
+        const borrower = await resolveBorrower(tx, loanGroupData, (req.user as any).id);
+        const overridden = await enforceLoanRules(tx, {
+          borrowerId: borrower.borrowerId,
+          loanDate: loanGroupData.loanDate,
+          expectedReturnDate: loanGroupData.expectedReturnDate,
+          lines: lockedItems,
+        }, override, req.user as any);
+        const loanGroup = await tx.createLoanGroup(
+          { ...loanGroupData, ...borrower, createdBy: (req.user as any).id }, 
+          loanLines
+        );
+        
+        // Update inventory quantities (reduce available, increase loaned)
+        for (const { item, quantity } of lockedItems) {
+          const units = lentUnits.get(item.id);
+          if (units) {
+            await moveUnits(tx, item, units, "Loaned Out");
+          } else {
+            await tx.updateItemQuantities(item.id, item.quantityLoaned + quantity, item.quantityDamaged);
+          }
+        }
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Create",
+          entityType: "LoanGroup",
+          entityId: loanGroup.id.toString(),
+          details: `Created loan group with ${itemsData.length} items for ${loanGroup.borrowerName}`
         });
-      }
-      
-      // Create the loan group with quantities
-      const loanGroup = await storage.createLoanGroup(
-        { ...loanGroupData, createdBy: (req.user as any).id }, 
-        itemsData
-      );
-      
-      // Log the activity
-      await storage.createActivityLog({
-        userId: (req.user as any).id,
-        action: "Create",
-        entityType: "LoanGroup",
-        entityId: loanGroup.id.toString(),
-        details: `Created loan group with ${itemsData.length} items for ${loanGroup.borrowerName}`
+        if (override && overridden.length > 0) {
+          await logRuleOverride(tx, "LoanGroup", loanGroup.id, overridden, override.reason, (req.user as any).id);
+        }
+        
+        return loanGroup;
       });
       
       res.status(201).json(loanGroup);
     } catch (error: any) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       console.error("Error creating loan group:", error);
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
@@ -629,34 +1866,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/loan-groups/:id/return", requireAuth, async (req, res) => {
+  app.put("/api/loan-groups/:id/return", requirePermission("loans:return"), validateSchema(returnLoanGroupSchema), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const loanGroup = await storage.getLoanGroup(id);
-      
-      if (loanGroup.status === "Returned") {
-        return res.status(400).json({ message: "Loan group is already returned" });
-      }
+      const { lines, actualReturnDate, notes } = req.body as ReturnLoanGroup;
       
-      const updatedLoanGroup = await storage.markLoanGroupReturned(id, new Date());
-      
-      // Log the activity
-      await storage.createActivityLog({
-        userId: (req.user as any).id,
-        action: "Update",
-        entityType: "LoanGroup",
-        entityId: id.toString(),
-        details: `Marked loan group as returned`
+      const updatedLoanGroup = await storage.transaction(async (tx) => {
+        const { items } = await tx.getLoanGroup(id);
+        
+        // Lock the loaned items first, then re-read the group so a concurrent return is seen
+        const itemIds = Array.from(new Set(items.map((loan) => loan.itemId))).sort((a, b) => a - b);
+        for (const itemId of itemIds) {
+          await tx.lockInventoryItem(itemId);
+        }
+        
+        const loanGroup = await tx.getLoanGroup(id);
+        if (loanGroup.status === "Returned") {
+          throw new HttpError(400, "Loan group is already returned");
+        }
+        
+        // Without lines, everything still out comes back
+        const returnLines = lines
+          ? lines.map((line) => {
+              const loan = loanGroup.items.find((item) => item.id === line.loanId);
+              if (!loan) {
+                throw new HttpError(400, `Loan line #${line.loanId} is not part of ${loanGroup.loanGroupId}`);
+              }
+              return { ...line, loan };
+            })
+          : loanGroup.items
+              .filter((loan) => loan.status !== "Returned")
+              .map((loan) => ({ loan, quantity: outstandingQuantity(loan) }));
+        
+        // Restores inventory quantities, routes damaged and missing units and closes the group once every
+        // line is back; the outcome goes on the group's loan agreement
+        const recorded = await receiveReturn(tx, returnLines, { returnedAt: actualReturnDate ?? new Date(), receivedBy: (req.user as any).id, notes });
+        await recordReturnsOnDocument(tx, loanGroup, recorded);
+        const updatedLoanGroup = await tx.getLoanGroup(id);
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Update",
+          entityType: "LoanGroup",
+          entityId: id.toString(),
+          details: updatedLoanGroup.status === "Returned" && !lines
+            ? `Marked loan group as returned`
+            : `Recorded ${updatedLoanGroup.status === "Returned" ? "the final" : "a partial"} return of ${loanGroup.loanGroupId}: ${returnLines.map((line) => describeReturnLine(line, line.loan.item)).join("; ")}`
+        });
+        
+        return updatedLoanGroup;
       });
       
       res.json(updatedLoanGroup);
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       res.status(500).json({ message: "Failed to update loan group" });
     }
   });
 
   // Individual Loan routes
-  app.get("/api/loans", requireAuth, async (req, res) => {
+  app.get("/api/loans", requirePermission("loans:read"), async (req, res) => {
     try {
       const allLoans = await storage.listLoans();
       
@@ -693,10 +1965,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/loans/recent", requireAuth, async (req, res) => {
+  app.get("/api/loans/recent", requirePermission("loans:read"), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 5;
-      const loans = await storage.getRecentLoans(limit);
+      const status = loanStatusEnum.safeParse(req.query.status);
+      const loans = await storage.getRecentLoans(limit, status.success ? status.data : undefined);
       
       // Enhance loans with item names and complete borrower information
       const enhancedLoans = await Promise.all(loans.map(async (loan) => {
@@ -743,7 +2016,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/loans/:id", requireAuth, async (req, res) => {
+  app.get("/api/loans/:id", requirePermission("loans:read"), async (req, res) => {
     try {
       const loan = await storage.getLoan(parseInt(req.params.id));
       if (!loan) {
@@ -755,7 +2028,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/loans", requireAuth, async (req, res) => {
+  app.post("/api/loans", requirePermission("loans:write"), async (req, res) => {
     try {
       // Convert date strings to Date objects
       const loanData = { ...req.body };
@@ -768,58 +2041,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validate the loan data
       const validatedData = insertLoanSchema.parse(loanData);
+      const override = req.body.override === undefined ? undefined : loanRuleOverrideSchema.parse(req.body.override);
       
-      // Check if item exists and has sufficient quantity
       const itemId = validatedData.itemId;
       const quantityLoaned = validatedData.quantityLoaned || 1;
-      const item = await storage.getInventoryItem(itemId);
-      
-      if (!item) {
-        return res.status(404).json({ message: "Item not found" });
-      }
       
-      // Check if there's enough quantity available (don't check status for quantity-based loans)
-      if (item.quantityAvailable < quantityLoaned) {
-        return res.status(400).json({ 
-          message: `Insufficient quantity available. Requested: ${quantityLoaned}, Available: ${item.quantityAvailable}` 
+      const loan = await storage.transaction(async (tx) => {
+        // Check if item exists and has sufficient quantity
+        const item = await tx.lockInventoryItem(itemId);
+        
+        if (!item) {
+          throw new HttpError(404, "Item not found");
+        }
+        
+        // Check if there's enough quantity available (don't check status for quantity-based loans)
+        if (item.quantityAvailable < quantityLoaned) {
+          throw new HttpError(400, `Insufficient quantity available. Requested: ${quantityLoaned}, Available: ${item.quantityAvailable}`);
+        }
+        
+        // A serialized item is lent one unit per loan, the requested one or the next available
+        if (item.serialized && quantityLoaned > 1) {
+          throw new HttpError(400, "Serialized items are loaned one unit at a time; use a multi-item loan for several units");
+        }
+        const units = item.serialized
+          ? await pickUnits(tx, item, 1, validatedData.unitId ? [validatedData.unitId] : [])
+          : await namedUnits(tx, item, validatedData.unitId ? [validatedData.unitId] : [], "Available", "lend");
+        
+        // Create the loan
+        const borrower = await resolveBorrower(tx, validatedData, (req.user as any).id);
+        const overridden = await enforceLoanRules(tx, {
+          borrowerId: borrower.borrowerId,
+          loanDate: validatedData.loanDate ?? new Date(),
+          expectedReturnDate: validatedData.expectedReturnDate ?? null,
+          lines: [{ item, quantity: quantityLoaned }],
+        }, override, req.user as any);
+        const loan = await tx.createLoan({
+          ...validatedData,
+          ...borrower,
+          unitId: units[0]?.id ?? null,
+          createdBy: (req.user as any).id
         });
-      }
-      
-      // Create the loan
-      const loan = await storage.createLoan({
-        ...validatedData,
-        createdBy: (req.user as any).id
-      });
-      
-      // Update inventory quantities (reduce available, increase loaned)
-      await storage.updateItemQuantities(itemId, item.quantityLoaned + quantityLoaned, item.quantityDamaged);
-      
-      // Create a loan document
-      const documentId = `DOC-LOAN-${new Date().getFullYear()}-${String(loan.id).padStart(3, "0")}`;
-      await storage.createDocument({
-        documentId,
-        type: "Loan",
-        title: `Loan Document for ${item.name}`,
-        relatedItemId: item.itemId,
-        content: JSON.stringify({
-          itemDetails: item,
-          loanDetails: loan
-        }),
-        signedBy: [],
-        createdBy: (req.user as any).id
-      });
-      
-      // Log the activity
-      await storage.createActivityLog({
-        userId: (req.user as any).id,
-        action: "Create",
-        entityType: "Loan",
-        entityId: loan.id.toString(),
-        details: `Created loan for: ${quantityLoaned} unit(s) of ${item.name} (${item.itemId}) to ${validatedData.borrowerName || 'Borrower'}`
+        
+        // Update inventory quantities (reduce available, increase loaned)
+        if (item.serialized) {
+          await moveUnits(tx, item, units, "Loaned Out");
+        } else {
+          await tx.updateItemQuantities(itemId, item.quantityLoaned + quantityLoaned, item.quantityDamaged);
+        }
+        
+        // Create a loan document
+        const documentId = await allocateLoanDocumentId(tx, new Date().getFullYear());
+        await tx.createDocument({
+          documentId,
+          type: "Loan",
+          title: `Loan Document for ${item.name}`,
+          relatedItemId: item.itemId,
+          content: JSON.stringify({
+            header: await documentHeader(tx),
+            itemDetails: item,
+            loanDetails: loan
+          }),
+          signedBy: [],
+          createdBy: (req.user as any).id
+        });
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Create",
+          entityType: "Loan",
+          entityId: loan.id.toString(),
+          details: `Created loan for: ${quantityLoaned} unit(s) of ${item.name} (${item.itemId}) to ${loan.borrowerName}`
+        });
+        if (override && overridden.length > 0) {
+          await logRuleOverride(tx, "Loan", loan.id, overridden, override.reason, (req.user as any).id);
+        }
+        
+        return loan;
       });
       
       res.status(201).json(loan);
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       console.error('Error creating loan:', error);
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
@@ -829,53 +2134,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/loans/:id/return", requireAuth, async (req, res) => {
+  // Photos taken when items come back; returns then list the stored paths per line
+  app.post("/api/loan-returns/photos", requirePermission("loans:return"), receiveReturnPhotos, async (req, res) => {
+    const files = req.files as Express.Multer.File[];
+    res.status(201).json({ photos: files.map((file) => `/uploads/${file.filename}`) });
+  });
+
+  // ?borrowerId= for a registered borrower, or ?name= for loans by borrower name
+  app.get("/api/borrower-history", requirePermission("loans:read"), async (req, res) => {
+    try {
+      const borrowerId = typeof req.query.borrowerId === "string" ? parseInt(req.query.borrowerId) : NaN;
+      const name = typeof req.query.name === "string" ? req.query.name.trim() : "";
+      if (!borrowerId && !name) {
+        return res.status(400).json({ message: "Borrower name is required" });
+      }
+      res.json(await borrowerHistory(storage, borrowerId ? { borrowerId } : { name }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch borrower history" });
+    }
+  });
+
+  // Settles units that came back Damaged or Missing with the borrower, e.g. once the repair is paid for
+  app.put("/api/loan-returns/:id/resolve", requirePermission("loans:return"), validateSchema(resolveLoanReturnSchema), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const loan = await storage.getLoan(id);
+      const loanReturn = await storage.getLoanReturn(id);
       
-      if (!loan) {
-        return res.status(404).json({ message: "Loan not found" });
+      if (!loanReturn) {
+        return res.status(404).json({ message: "Return not found" });
       }
-      
-      if (loan.status === "Returned") {
-        return res.status(400).json({ message: "Loan already marked as returned" });
+      if (loanReturn.condition !== "Damaged" && loanReturn.condition !== "Missing") {
+        return res.status(400).json({ message: `Units returned ${loanReturn.condition} have nothing to resolve` });
       }
-      
-      const actualReturnDate = req.body.actualReturnDate 
-        ? new Date(req.body.actualReturnDate) 
-        : new Date();
-      
-      const updatedLoan = await storage.markLoanReturned(id, actualReturnDate);
-      
-      // Restore inventory quantities (increase available, decrease loaned)
-      const item = await storage.getInventoryItem(loan.itemId);
-      if (item) {
-        const quantityReturned = loan.quantityLoaned || 1;
-        await storage.updateItemQuantities(
-          loan.itemId, 
-          item.quantityLoaned - quantityReturned, 
-          item.quantityDamaged
-        );
+      if (loanReturn.resolvedAt) {
+        return res.status(400).json({ message: "This return is already resolved" });
       }
       
+      const resolved = await storage.resolveLoanReturn(id, (req.user as any).id, req.body.note);
+      
       // Log the activity
       await storage.createActivityLog({
         userId: (req.user as any).id,
-        action: "Update",
+        action: "Resolve",
         entityType: "Loan",
-        entityId: id.toString(),
-        details: `Marked loan as returned: ${loan.quantityLoaned || 1} unit(s) of item #${loan.itemId}`
+        entityId: loanReturn.loanId.toString(),
+        details: `Resolved ${loanReturn.quantity} unit(s) returned ${loanReturn.condition} on loan #${loanReturn.loanId}: ${req.body.note}`
+      });
+      
+      res.json(resolved);
+    } catch (error) {
+      console.error('Error resolving return:', error);
+      res.status(500).json({ message: "Failed to resolve return" });
+    }
+  });
+
+  app.get("/api/loans/:id/returns", requirePermission("loans:read"), async (req, res) => {
+    try {
+      const loan = await storage.getLoan(parseInt(req.params.id));
+      if (!loan) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      res.json(await loanReturnEntries(storage, [loan]));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch loan returns" });
+    }
+  });
+
+  app.get("/api/loans/:id/extensions", requirePermission("loans:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const extensions = (await storage.listLoanExtensions()).filter((extension) => extension.loanId === id);
+      res.json(await loanExtensionEntries(storage, extensions));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch loan extensions" });
+    }
+  });
+
+  app.post("/api/loans/:id/extensions", requirePermission("loans:write"), validateSchema(extendLoanSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const extension = await storage.transaction(async (tx) => {
+        const loan = await tx.getLoan(id);
+        if (!loan) {
+          throw new HttpError(404, "Loan not found");
+        }
+        return requestExtension(tx, loan, req.body as ExtendLoan, req.user as any);
+      });
+      const [entry] = await loanExtensionEntries(storage, [extension]);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error("Error extending loan:", error);
+      res.status(500).json({ message: "Failed to extend loan" });
+    }
+  });
+
+  // Every extension, oldest first, or only those in one status (e.g. Pending for the approval queue)
+  app.get("/api/loan-extensions", requirePermission("loans:read"), async (req, res) => {
+    const status = loanExtensionStatusEnum.optional().safeParse(req.query.status || undefined);
+    if (!status.success) {
+      return res.status(400).json({ message: "Unknown extension status" });
+    }
+    try {
+      const extensions = (await storage.listLoanExtensions())
+        .filter((extension) => !status.data || extension.status === status.data);
+      res.json(await loanExtensionEntries(storage, extensions));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch loan extensions" });
+    }
+  });
+
+  app.put("/api/loan-extensions/:id/approve", requirePermission("loans:approve"), validateSchema(decideLoanExtensionSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const extension = await storage.transaction(async (tx) => {
+        const extension = await tx.getLoanExtension(id);
+        if (!extension) {
+          throw new HttpError(404, "Extension not found");
+        }
+        return decideExtension(tx, extension, { approved: true, note: req.body.note }, (req.user as any).id);
+      });
+      const [entry] = await loanExtensionEntries(storage, [extension]);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error("Error approving loan extension:", error);
+      res.status(500).json({ message: "Failed to approve loan extension" });
+    }
+  });
+
+  app.put("/api/loan-extensions/:id/reject", requirePermission("loans:approve"), validateSchema(decideLoanExtensionSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const extension = await storage.transaction(async (tx) => {
+        const extension = await tx.getLoanExtension(id);
+        if (!extension) {
+          throw new HttpError(404, "Extension not found");
+        }
+        return decideExtension(tx, extension, { approved: false, note: req.body.note }, (req.user as any).id);
+      });
+      const [entry] = await loanExtensionEntries(storage, [extension]);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error("Error rejecting loan extension:", error);
+      res.status(500).json({ message: "Failed to reject loan extension" });
+    }
+  });
+
+  app.put("/api/loans/:id/return", requirePermission("loans:return"), validateSchema(returnLoanSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingLoan = await storage.getLoan(id);
+      
+      if (!existingLoan) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      
+      const { quantity, condition, photos, actualReturnDate, notes } = req.body as ReturnLoan;
+      
+      const updatedLoan = await storage.transaction(async (tx) => {
+        // Lock the item, then re-read the loan so a concurrent return is seen
+        const item = await tx.lockInventoryItem(existingLoan.itemId);
+        const loan = (await tx.getLoan(id))!;
+        
+        if (loan.status === "Returned") {
+          throw new HttpError(400, "Loan already marked as returned");
+        }
+        
+        // Restores inventory quantities and routes damaged and missing units; lines of a multi-item loan
+        // can be checked in one by one and the last one closes the group
+        const line = { loan, quantity: quantity ?? outstandingQuantity(loan), condition, photos };
+        const recorded = await receiveReturn(tx, [line], { returnedAt: actualReturnDate ?? new Date(), receivedBy: (req.user as any).id, notes });
+        await recordReturnsOnDocument(tx, loan.loanGroupId !== null ? await tx.getLoanGroup(loan.loanGroupId) : loan, recorded);
+        const updatedLoan = (await tx.getLoan(id))!;
+        
+        // Log the activity
+        await tx.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Update",
+          entityType: "Loan",
+          entityId: id.toString(),
+          details: updatedLoan.status === "Returned" && line.quantity === loan.quantityLoaned
+            ? `Marked loan as returned: ${loan.quantityLoaned || 1} unit(s) of ${item ? `${item.name} (${item.itemId})` : `item #${loan.itemId}`}${condition !== "Good" ? ` - ${condition}` : ""}`
+            : `Recorded ${updatedLoan.status === "Returned" ? "the final" : "a partial"} return: ${describeReturnLine(line, item)}`
+        });
+        
+        return updatedLoan;
       });
       
       res.json(updatedLoan);
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       res.status(500).json({ message: "Failed to update loan" });
     }
   });
 
   // Document routes
-  app.get("/api/documents", requireAuth, async (req, res) => {
+  app.get("/api/documents", requirePermission("documents:read"), async (req, res) => {
     try {
       const documents = await storage.listDocuments();
       res.json(documents);
@@ -884,7 +2348,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/documents/:id", requireAuth, async (req, res) => {
+  app.get("/api/documents/:id", requirePermission("documents:read"), async (req, res) => {
     try {
       const document = await storage.getDocument(parseInt(req.params.id));
       if (!document) {
@@ -896,7 +2360,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/documents", requireAuth, validateSchema(insertDocumentSchema), async (req, res) => {
+  app.post("/api/documents", requirePermission("documents:write"), validateSchema(insertDocumentSchema), async (req, res) => {
     try {
       // Generate a unique document ID if not provided
       if (!req.body.documentId) {
@@ -908,6 +2372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const document = await storage.createDocument({
         ...req.body,
+        content: withDocumentHeader(req.body.content, await documentHeader(storage)),
         createdBy: (req.user as any).id
       });
       
@@ -926,7 +2391,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/documents/:id/sign", requireAuth, async (req, res) => {
+  app.put("/api/documents/:id/sign", requirePermission("documents:sign"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const document = await storage.getDocument(id);
@@ -962,8 +2427,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Organization settings
+  app.get("/api/settings", requireAuth, async (req, res) => {
+    try {
+      res.json(await getSettings(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  // Accepts any subset of sections and fields; changing the item ID format only affects new items
+  app.put("/api/settings", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const changes = updateAppSettingsSchema.parse(req.body);
+      const userId = (req.user as any).id;
+      
+      const { settings } = await storage.transaction(async (tx) => {
+        const result = await updateSettings(tx, changes, userId);
+        
+        if (result.changed.length > 0) {
+          await tx.createActivityLog({
+            userId,
+            action: "Update",
+            entityType: "Settings",
+            entityId: Array.from(new Set(result.changed.map((change) => change.section))).join(","),
+            details: `Updated settings: ${describeSettingsChanges(result.changed)}`
+          });
+        }
+        
+        return result;
+      });
+      
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error('Error updating settings:', error);
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
   // Activity logs
-  app.get("/api/activity", requireAuth, async (req, res) => {
+  app.get("/api/activity", requirePermission("audit:read"), async (req, res) => {
     try {
       const logs = await storage.listActivityLogs();
       res.json(logs);
@@ -972,16 +2479,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The dashboard feed is open to every user, less the sign-in events of the audit log
   app.get("/api/activity/recent", requireAuth, async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 5;
-      const logs = await storage.getRecentActivityLogs(limit);
+      const canAudit = hasPermission((req.user as any).role, "audit:read");
+      const logs = await storage.getRecentActivityLogs(limit, canAudit ? [] : authEventActions);
       res.json(logs);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch recent activity logs" });
     }
   });
 
+  // Exports: /api/export/<dataset>?format=csv|xlsx|json plus the filters of that dataset's list.
+  // Rows are streamed as they are read; each dataset needs the permission that lets the user list it.
+  for (const [name, exportDataset] of Object.entries(exportDatasets)) {
+    app.get(`/api/export/${name}`, requirePermission(exportDataset.permission), async (req, res) => {
+      let format, query;
+      try {
+        format = exportFormatSchema.parse(req.query.format);
+        query = exportDataset.query.parse(req.query);
+      } catch (error) {
+        const message = error instanceof ZodError ? fromZodError(error).message : "Invalid export parameters";
+        return res.status(400).json({ message });
+      }
+      
+      try {
+        const count = await streamExport(res, {
+          name,
+          format,
+          columns: [...exportDataset.columns, ...(await exportDataset.extraColumns?.(storage) ?? [])],
+          rows: exportDataset.rows(storage, query)
+        });
+        
+        const filters = describeExportFilters(query);
+        await storage.createActivityLog({
+          userId: (req.user as any).id,
+          action: "Export",
+          entityType: exportDataset.entityType,
+          entityId: name,
+          details: `Exported ${count} ${exportDataset.label} as ${format.toUpperCase()}${filters ? ` (${filters})` : ""}`
+        });
+      } catch (error) {
+        console.error(`Error exporting ${name}:`, error);
+        // Once rows have been sent the status can't change, so cut the download short instead
+        if (!res.headersSent) {
+          return res.status(500).json({ message: `Failed to export ${exportDataset.label}` });
+        }
+        res.destroy();
+      }
+    });
+  }
+
   const httpServer = createServer(app);
   return httpServer;
 }
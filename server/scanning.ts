@@ -0,0 +1,48 @@
+import type { InventoryItem, Loan, LoanGroup, ScannedLoan } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Label QR codes hold the item URL (".../inventory/view/12"); barcodes and typed codes hold the item ID
+export async function findScannedItem(store: IStorage, code: string): Promise<InventoryItem | undefined> {
+  const url = code.match(/\/inventory\/view\/(\d+)\/?(?:[?#].*)?$/);
+  if (url) {
+    return store.getInventoryItem(parseInt(url[1], 10));
+  }
+  // Scanners left in the wrong keyboard mode send lower case
+  return (await store.getInventoryItemByItemId(code)) ?? store.getInventoryItemByItemId(code.toUpperCase());
+}
+
+// Loans the item is still out on, soonest due first
+export async function openLoansForItem(store: IStorage, itemId: number): Promise<ScannedLoan[]> {
+  const openLoans = (await store.listLoans()).filter((loan) => loan.itemId === itemId && loan.status !== "Returned");
+  const scannedLoans = await withGroupDetails(store, openLoans);
+  
+  const dueTime = (loan: ScannedLoan) => loan.expectedReturnDate ? new Date(loan.expectedReturnDate).getTime() : Infinity;
+  return scannedLoans.sort((a, b) => dueTime(a) - dueTime(b) || a.id - b.id);
+}
+
+// Lines of a multi-item loan carry no borrower or dates of their own, so those are taken from the group
+export async function withGroupDetails(store: IStorage, loans: Loan[]): Promise<ScannedLoan[]> {
+  const groups = new Map<number, LoanGroup>();
+  const scannedLoans: ScannedLoan[] = [];
+  for (const loan of loans) {
+    if (loan.loanGroupId === null) {
+      scannedLoans.push({ ...loan, loanGroupCode: null });
+      continue;
+    }
+    if (!groups.has(loan.loanGroupId)) {
+      groups.set(loan.loanGroupId, await store.getLoanGroup(loan.loanGroupId));
+    }
+    const group = groups.get(loan.loanGroupId)!;
+    scannedLoans.push({
+      ...loan,
+      borrowerId: group.borrowerId,
+      borrowerName: group.borrowerName,
+      borrowerType: group.borrowerType,
+      borrowerContact: group.borrowerContact,
+      loanDate: new Date(group.loanDate),
+      expectedReturnDate: new Date(group.expectedReturnDate),
+      loanGroupCode: group.loanGroupId,
+    });
+  }
+  return scannedLoans;
+}
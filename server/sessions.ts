@@ -0,0 +1,170 @@
+import session, { type SessionData, type Store } from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import MemoryStore from "memorystore";
+import { createHash } from "crypto";
+import { and, gt, sql } from "drizzle-orm";
+import type { Request, Response, NextFunction } from "express";
+import { sessions, type UserSession } from "@shared/schema";
+import { config } from "./config";
+import { db, pool } from "./db";
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+    createdAt?: number;
+    lastSeenAt?: number;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+    // Password checked, waiting for the second factor (see /api/auth/2fa/verify)
+    pendingTwoFactor?: { userId: number; startedAt: number; attempts: number };
+    // Secret shown during enrollment, saved to the user once a code from it is confirmed
+    twoFactorSetupSecret?: string;
+  }
+}
+
+const IDLE_TIMEOUT_MS = config.sessionIdleTimeoutMinutes * 60 * 1000;
+const ABSOLUTE_TIMEOUT_MS = config.sessionAbsoluteTimeoutMinutes * 60 * 1000;
+// Don't rewrite the session on every request just to move lastSeenAt along
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+function createSessionStore(): Store {
+  if (config.sessionStore === "database") {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({
+      pool: pool as any, // the Neon pool is wire-compatible with pg's
+      tableName: "session",
+      pruneSessionInterval: 15 * 60,
+    });
+  }
+  const Memory = MemoryStore(session);
+  return new Memory({ checkPeriod: 15 * 60 * 1000 });
+}
+
+export const sessionStore = createSessionStore();
+
+export const sessionCookie = {
+  secure: process.env.NODE_ENV === "production",
+  httpOnly: true,
+  sameSite: "lax" as const,
+  maxAge: IDLE_TIMEOUT_MS, // refreshed on every request, see "rolling" in setupAuth
+};
+
+// Sessions are listed and revoked by a digest so the real session id never leaves the server
+function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+type StoredSession = { sid: string; data: SessionData; expiresAt: Date };
+
+async function storedSessionsForUser(userId: number): Promise<StoredSession[]> {
+  if (config.sessionStore === "database") {
+    const rows = await db
+      .select()
+      .from(sessions)
+      .where(and(
+        gt(sessions.expire, new Date()),
+        sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`
+      ));
+    return rows.map((row) => ({ sid: row.sid, data: row.sess as SessionData, expiresAt: row.expire }));
+  }
+
+  const all = await new Promise<Record<string, SessionData>>((resolve, reject) => {
+    sessionStore.all!((err, result) => {
+      if (err) reject(err);
+      else resolve((result ?? {}) as Record<string, SessionData>);
+    });
+  });
+  const now = Date.now();
+  return Object.entries(all)
+    .filter(([, data]) => data.passport?.user === userId)
+    .map(([sid, data]) => ({
+      sid,
+      data,
+      expiresAt: data.cookie?.expires ? new Date(data.cookie.expires) : new Date(now + IDLE_TIMEOUT_MS),
+    }))
+    .filter((stored) => stored.expiresAt.getTime() > now);
+}
+
+function destroySession(sid: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+export async function listUserSessions(userId: number, currentSid?: string): Promise<UserSession[]> {
+  const stored = await storedSessionsForUser(userId);
+  return stored
+    .map(({ sid, data, expiresAt }) => {
+      const createdAt = new Date(data.createdAt ?? expiresAt.getTime() - IDLE_TIMEOUT_MS);
+      return {
+        id: publicSessionId(sid),
+        userId,
+        userAgent: data.userAgent ?? null,
+        ipAddress: data.ipAddress ?? null,
+        createdAt: createdAt.toISOString(),
+        lastSeenAt: new Date(data.lastSeenAt ?? createdAt).toISOString(),
+        // Whichever timeout comes first ends the session
+        expiresAt: new Date(Math.min(expiresAt.getTime(), createdAt.getTime() + ABSOLUTE_TIMEOUT_MS)).toISOString(),
+        current: sid === currentSid,
+      };
+    })
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+// Returns false when the user has no such session
+export async function revokeUserSession(userId: number, id: string): Promise<boolean> {
+  const stored = await storedSessionsForUser(userId);
+  const match = stored.find((s) => publicSessionId(s.sid) === id);
+  if (!match) {
+    return false;
+  }
+  await destroySession(match.sid);
+  return true;
+}
+
+// Ends every session of a user, optionally sparing the one making the request
+export async function revokeUserSessions(userId: number, exceptSid?: string): Promise<number> {
+  const stored = await storedSessionsForUser(userId);
+  const revoked = stored.filter((s) => s.sid !== exceptSid);
+  for (const s of revoked) {
+    await destroySession(s.sid);
+  }
+  return revoked.length;
+}
+
+// Logs the user in (passport regenerates the session id) and stamps the new session
+export function establishSession(req: Request, user: Express.User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, (err) => {
+      if (err) return reject(err);
+      const now = Date.now();
+      req.session.createdAt = now;
+      req.session.lastSeenAt = now;
+      req.session.userAgent = req.get("user-agent") ?? null;
+      req.session.ipAddress = req.ip ?? null;
+      resolve();
+    });
+  });
+}
+
+// Logs out sessions past the absolute timeout and keeps lastSeenAt current for the sessions view
+export function enforceSessionLifetime(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return next();
+  }
+
+  const now = Date.now();
+  // Sessions from before timeouts were tracked start counting now
+  const createdAt = req.session.createdAt ?? now;
+  if (now - createdAt > ABSOLUTE_TIMEOUT_MS) {
+    return req.logout((err) => next(err));
+  }
+
+  if (req.session.createdAt === undefined) {
+    req.session.createdAt = createdAt;
+  }
+  if (!req.session.lastSeenAt || now - req.session.lastSeenAt > LAST_SEEN_RESOLUTION_MS) {
+    req.session.lastSeenAt = now;
+  }
+  next();
+}
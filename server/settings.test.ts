@@ -0,0 +1,42 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { IStorage } from "./storage";
+import { getSettingsSection, updateSettings } from "./settings";
+import { backends } from "./testStorage";
+
+for (const backend of backends) {
+  describe(`settings (${backend.name})`, () => {
+    let store: IStorage;
+
+    beforeEach(async () => {
+      store = await backend.create();
+    });
+
+    it("keeps only user, settings, export and override entries while audit logs are off", async () => {
+      await updateSettings(store, { organization: { enableAuditLogs: false } }, 1);
+
+      assert.equal(await store.createActivityLog({ userId: 1, action: "Create", entityType: "InventoryItem", entityId: "1" }), undefined);
+      assert.ok(await store.createActivityLog({ userId: 1, action: "Login", entityType: "User", entityId: "1" }));
+      assert.ok(await store.createActivityLog({ userId: 1, action: "Update", entityType: "Settings", entityId: "organization" }));
+      assert.ok(await store.createActivityLog({ userId: 1, action: "Export", entityType: "InventoryItem", entityId: "inventory" }));
+      assert.ok(await store.createActivityLog({ userId: 1, action: "Rule Override", entityType: "Loan", entityId: "1" }));
+      assert.deepEqual((await store.listActivityLogs()).map((log) => log.action), ["Login", "Update", "Export", "Rule Override"]);
+
+      await updateSettings(store, { organization: { enableAuditLogs: true } }, 1);
+      assert.ok(await store.createActivityLog({ userId: 1, action: "Create", entityType: "InventoryItem", entityId: "1" }));
+    });
+
+    it("saves notification preferences alongside the defaults", async () => {
+      const { changed } = await updateSettings(store, { notifications: { loanReminders: false } }, 1);
+
+      assert.deepEqual(changed, [{ section: "notifications", field: "loanReminders", from: true, to: false }]);
+      assert.deepEqual(await getSettingsSection(store, "notifications"), {
+        enabled: true,
+        loanReminders: false,
+        inventoryAlerts: true,
+        documentUpdates: true,
+        userActivity: false,
+      });
+    });
+  });
+}
@@ -0,0 +1,77 @@
+import { appSettingsSchema, defaultAppSettings, type AppSettings, type UpdateAppSettings } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+type Section = keyof AppSettings;
+const SECTIONS = Object.keys(appSettingsSchema.shape) as Section[];
+
+// A section that was never saved (or no longer parses after a schema change) reads as its defaults
+export async function getSettingsSection<S extends Section>(store: IStorage, section: S): Promise<AppSettings[S]> {
+  const setting = await store.getSetting(section);
+  if (!setting) {
+    return defaultAppSettings[section] as AppSettings[S];
+  }
+  const parsed = appSettingsSchema.shape[section].safeParse({ ...defaultAppSettings[section], ...(setting.value as object) });
+  return (parsed.success ? parsed.data : defaultAppSettings[section]) as AppSettings[S];
+}
+
+export async function getSettings(store: IStorage): Promise<AppSettings> {
+  const entries = await Promise.all(SECTIONS.map(async (section) => [section, await getSettingsSection(store, section)]));
+  return Object.fromEntries(entries) as AppSettings;
+}
+
+export type SettingsChange = { section: Section; field: string; from: unknown; to: unknown };
+
+// Merges the changes into the stored sections after validating the result. Returns the new
+// settings and the fields that actually changed, for the activity log.
+export async function updateSettings(
+  store: IStorage,
+  changes: UpdateAppSettings,
+  updatedBy: number,
+): Promise<{ settings: AppSettings; changed: SettingsChange[] }> {
+  const current = await getSettings(store);
+  const settings = { ...current };
+  const changed: SettingsChange[] = [];
+
+  for (const section of SECTIONS) {
+    const sectionChanges = changes[section];
+    if (!sectionChanges) continue;
+
+    const next = appSettingsSchema.shape[section].parse({ ...current[section], ...sectionChanges });
+    const previous = current[section] as Record<string, unknown>;
+    for (const [field, value] of Object.entries(next)) {
+      if (JSON.stringify(previous[field]) !== JSON.stringify(value)) {
+        changed.push({ section, field, from: previous[field], to: value });
+      }
+    }
+    if (changed.some((change) => change.section === section)) {
+      await store.putSetting(section, next, updatedBy);
+      (settings as Record<Section, unknown>)[section] = next;
+    }
+  }
+
+  return { settings, changed };
+}
+
+export function describeSettingsChanges(changed: SettingsChange[]): string {
+  const format = (value: unknown) => typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+  return changed.map(({ section, field, from, to }) => `${section}.${field}: ${format(from)} → ${format(to)}`).join("; ");
+}
+
+// Printed at the top of every generated document; stored with it so old documents keep the name they were issued under
+export async function documentHeader(store: IStorage): Promise<{ organizationName: string; contactEmail: string }> {
+  const { organizationName, contactEmail } = await getSettingsSection(store, "organization");
+  return { organizationName, contactEmail };
+}
+
+// Stamps the header into JSON document content; plain-text documents name the organization in their wording
+export function withDocumentHeader(content: string, header: { organizationName: string; contactEmail: string }): string {
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return JSON.stringify({ header, ...parsed });
+    }
+  } catch {
+    // Not JSON
+  }
+  return content;
+}
@@ -0,0 +1,83 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage, type IStorage } from "./storage";
+import { backends, createTestItem } from "./testStorage";
+
+for (const backend of backends) {
+  describe(`transactions (${backend.name})`, () => {
+    let store: IStorage;
+
+    beforeEach(async () => {
+      store = await backend.create();
+    });
+
+    it("undoes every write of a failed transaction", async () => {
+      const item = await createTestItem(store, 5);
+      const count = (await store.listInventoryItems()).length;
+
+      await assert.rejects(store.transaction(async (tx) => {
+        await tx.updateInventoryItem(item.id, { name: "Renamed" });
+        await createTestItem(tx, 3);
+        throw new Error("Failed");
+      }), /Failed/);
+
+      assert.equal((await store.getInventoryItem(item.id))!.name, "Folding Chair");
+      assert.equal((await store.listInventoryItems()).length, count);
+    });
+
+    it("undoes only the writes of a failed nested transaction", async () => {
+      const item = await createTestItem(store, 5);
+
+      await store.transaction(async (tx) => {
+        await tx.updateInventoryItem(item.id, { name: "Outer" });
+        await assert.rejects(tx.transaction(async (nested) => {
+          await nested.updateInventoryItem(item.id, { name: "Inner" });
+          throw new Error("Failed");
+        }), /Failed/);
+      });
+
+      assert.equal((await store.getInventoryItem(item.id))!.name, "Outer");
+    });
+
+    it("deletes an item together with its lifecycle history", async () => {
+      const item = await createTestItem(store, 5);
+      await store.updateItemLifecycle(item.id, ["Damaged"], "2026-01-15", "Broken leg", 1, 1);
+      assert.equal((await store.getLifecycleHistoryByItemId(item.id)).length, 1);
+
+      assert.equal(await store.deleteInventoryItem(item.id), true);
+      assert.equal(await store.getInventoryItem(item.id), undefined);
+      assert.deepEqual(await store.getLifecycleHistoryByItemId(item.id), []);
+    });
+
+    it("answers 404 for an unknown loan group", async () => {
+      await assert.rejects(store.getLoanGroup(999), { status: 404 });
+    });
+  });
+}
+
+describe("transactions (MemStorage)", () => {
+  it("keeps writes made alongside a transaction that fails", async () => {
+    const store = new MemStorage();
+    const item = await createTestItem(store, 5);
+    const other = await createTestItem(store, 5);
+
+    let started!: () => void;
+    let release!: () => void;
+    const running = new Promise<void>((resolve) => { started = resolve; });
+    const paused = new Promise<void>((resolve) => { release = resolve; });
+    const failing = store.transaction(async (tx) => {
+      await tx.updateInventoryItem(item.id, { name: "Inside" });
+      started();
+      await paused;
+      throw new Error("Failed");
+    });
+
+    await running;
+    await store.updateInventoryItem(other.id, { name: "Alongside" });
+    release();
+    await assert.rejects(failing, /Failed/);
+
+    assert.equal((await store.getInventoryItem(item.id))!.name, "Folding Chair");
+    assert.equal((await store.getInventoryItem(other.id))!.name, "Alongside");
+  });
+});
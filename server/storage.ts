@@ -1,12 +1,42 @@
 import { 
   users, User, InsertUser,
   inventoryItems, InventoryItem, InsertInventoryItem,
-  loanGroups, LoanGroup, InsertLoanGroup,
+  borrowers, Borrower, InsertBorrower,
+  loanGroups, LoanGroup, InsertLoanGroup, LoanStatus,
   loans, Loan, InsertLoan,
+  loanReturns, LoanReturn, InsertLoanReturn,
+  loanExtensions, LoanExtension, InsertLoanExtension,
   documents, Document, InsertDocument,
   activityLogs, ActivityLog, InsertActivityLog,
-  lifecycleHistory, LifecycleHistory, InsertLifecycleHistory
+  lifecycleHistory, LifecycleHistory, InsertLifecycleHistory,
+  assetUnits, AssetUnit, InsertAssetUnit, AssetUnitStatus,
+  categories, Category, InsertCategory, defaultCategoryNames,
+  locations, Location, InsertLocation, LocationKind,
+  itemStock, ItemStock,
+  apiTokens, ApiToken, InsertApiToken,
+  settings, Setting,
+  idSequences,
+  InventoryQuery,
+  ItemStatus,
+  ItemUsage,
+  ActivityLogQuery
 } from "@shared/schema";
+import * as schema from "@shared/schema";
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { NeonQueryResultHKT } from "drizzle-orm/neon-serverless";
+import { db } from "./db";
+import { config } from "./config";
+import { hashPassword, isPasswordHash } from "./passwords";
+import { HttpError } from "./errors";
+import { documentHeader, getSettingsSection } from "./settings";
+import { allocateLoanDocumentId, groupAgreementText } from "./loanDocuments";
+import { borrowerKey, borrowerKind, splitContact } from "./borrowers";
+import { withSubcategories } from "@shared/categories";
+import { and, asc, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, lte, ne, notInArray, or, sql, type SQL } from "drizzle-orm";
+
+// Two-factor columns, written only by the two-factor routes in server/auth.ts
+export type TwoFactorState = Pick<User, "twoFactorEnabled" | "twoFactorSecret" | "twoFactorRecoveryCodes" | "twoFactorLastCounter">;
 
 // Storage Interface
 export interface IStorage {
@@ -16,6 +46,7 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   listUsers(): Promise<User[]>;
   updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined>;
+  updateUserTwoFactor(id: number, state: Partial<TwoFactorState>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
 
   // Inventory Operations
@@ -27,27 +58,74 @@ export interface IStorage {
   deleteInventoryItem(id: number): Promise<boolean>;
   countInventoryItems(): Promise<{ total: number, available: number, loaned: number, damaged: number }>;
   getInventoryItemsByCategory(): Promise<{ category: string, count: number }[]>;
+  // Filters and sorts items; with a page, returns that slice plus the total number of matches.
+  // A category filter also matches the subcategories of each category.
+  searchInventoryItems(query: InventoryQuery, page?: PageRequest): Promise<{ items: InventoryItem[], total: number }>;
+  // Distinct locations in use, for the location filter
+  listInventoryLocations(): Promise<string[]>;
   
   // Quantity Management
   updateItemQuantities(itemId: number, quantityLoaned: number, quantityDamaged: number): Promise<InventoryItem | undefined>;
   markItemDamaged(itemId: number, quantity: number): Promise<InventoryItem | undefined>;
   markItemRepaired(itemId: number, quantity: number): Promise<InventoryItem | undefined>;
   
+  // Asset Unit Operations (serialized items), listed by serial number
+  listAssetUnits(itemId: number): Promise<AssetUnit[]>;
+  getAssetUnit(id: number): Promise<AssetUnit | undefined>;
+  createAssetUnit(itemId: number, unit: InsertAssetUnit): Promise<AssetUnit>;
+  updateAssetUnit(id: number, unitData: Partial<InsertAssetUnit> & { status?: AssetUnitStatus }): Promise<AssetUnit | undefined>;
+  deleteAssetUnit(id: number): Promise<boolean>;
+  // Marks the item serialized and recounts its quantities and status from its units
+  syncUnitTotals(itemId: number): Promise<InventoryItem | undefined>;
+  
+  // Category Operations, listed by name
+  listCategories(): Promise<Category[]>;
+  getCategory(id: number): Promise<Category | undefined>;
+  createCategory(category: InsertCategory): Promise<Category>;
+  updateCategory(id: number, categoryData: Partial<InsertCategory>): Promise<Category | undefined>;
+  deleteCategory(id: number): Promise<boolean>;
+  // Moves every item filed under one category name to another and returns how many moved
+  renameItemCategory(from: string, to: string): Promise<number>;
+  
+  // Location Operations, listed by name
+  listLocations(): Promise<Location[]>;
+  getLocation(id: number): Promise<Location | undefined>;
+  createLocation(location: InsertLocation & { kind: LocationKind }): Promise<Location>;
+  updateLocation(id: number, locationData: Partial<InsertLocation>): Promise<Location | undefined>;
+  deleteLocation(id: number): Promise<boolean>;
+  // Stock recorded per location, for one item or for every item
+  listItemStock(itemId?: number): Promise<ItemStock[]>;
+  // Replaces everything recorded for the item; lines without quantity are left out
+  replaceItemStock(itemId: number, lines: { locationId: number; quantity: number }[]): Promise<ItemStock[]>;
+  
   // Asset Lifecycle Management
-  updateItemLifecycle(itemId: number, lifecycleStatuses: string[], lifecycleDate: string, lifecycleReason: string, quantityLifecycled: number): Promise<InventoryItem | undefined>;
+  updateItemLifecycle(itemId: number, lifecycleStatuses: string[], lifecycleDate: string, lifecycleReason: string, quantityLifecycled: number, createdBy: number): Promise<InventoryItem | undefined>;
   
   // Lifecycle History Operations
   createLifecycleHistory(history: InsertLifecycleHistory): Promise<LifecycleHistory>;
   getLifecycleHistoryByItemId(itemId: number): Promise<LifecycleHistory[]>;
   listLifecycleHistory(): Promise<LifecycleHistory[]>;
 
+  // Borrower Operations, listed by name
+  listBorrowers(): Promise<Borrower[]>;
+  getBorrower(id: number): Promise<Borrower | undefined>;
+  createBorrower(borrower: InsertBorrower): Promise<Borrower>;
+  updateBorrower(id: number, borrowerData: Partial<InsertBorrower>): Promise<Borrower | undefined>;
+  // Puts the borrower on the blocklist with the reason given, or takes them off it with null
+  setBorrowerBlock(id: number, blockedReason: string | null): Promise<Borrower | undefined>;
+  deleteBorrower(id: number): Promise<boolean>;
+  
   // Loan Group Operations
   getLoanGroup(id: number): Promise<LoanGroup & { items: (Loan & { item: InventoryItem })[] }>;
   getLoanGroupByLoanGroupId(loanGroupId: string): Promise<LoanGroup & { items: (Loan & { item: InventoryItem })[] } | undefined>;
-  createLoanGroup(loanGroup: InsertLoanGroup, itemsData: Array<{ id: number; quantity: number }>): Promise<LoanGroup & { items: Loan[] }>;
+  createLoanGroup(loanGroup: InsertLoanGroup, itemsData: Array<{ id: number; quantity: number; unitId?: number }>): Promise<LoanGroup & { items: Loan[] }>;
   listLoanGroups(): Promise<LoanGroup[]>;
   updateLoanGroup(id: number, loanGroupData: Partial<Omit<InsertLoanGroup, 'items'>>): Promise<LoanGroup | undefined>;
   markLoanGroupReturned(id: number, actualReturnDate: Date): Promise<LoanGroup | undefined>;
+  // Ongoing <-> Overdue only; returns go through markLoanGroupReturned
+  setLoanGroupStatus(id: number, status: LoanStatus): Promise<LoanGroup | undefined>;
+  // For extensions; the first change keeps the date the loan was agreed with in originalExpectedReturnDate
+  setLoanGroupDueDate(id: number, expectedReturnDate: string): Promise<LoanGroup | undefined>;
   deleteLoanGroup(id: number): Promise<boolean>;
   getRecentLoanGroups(limit: number): Promise<LoanGroup[]>;
 
@@ -58,8 +136,25 @@ export interface IStorage {
   listLoans(): Promise<Loan[]>;
   updateLoan(id: number, loanData: Partial<InsertLoan>): Promise<Loan | undefined>;
   markLoanReturned(id: number, actualReturnDate: Date): Promise<Loan | undefined>;
+  // Ongoing <-> Overdue only; returns go through markLoanReturned
+  setLoanStatus(id: number, status: LoanStatus): Promise<Loan | undefined>;
+  // For extensions; the first change keeps the date the loan was agreed with in originalExpectedReturnDate
+  setLoanDueDate(id: number, expectedReturnDate: Date): Promise<Loan | undefined>;
   deleteLoan(id: number): Promise<boolean>;
-  getRecentLoans(limit: number): Promise<Loan[]>;
+  // Individual loans and loan groups, newest first; optionally only those in one status
+  getRecentLoans(limit: number, status?: LoanStatus): Promise<any[]>;
+
+  // Loan Return Operations; recording a return adds its quantity to the loan's quantityReturned
+  getLoanReturn(id: number): Promise<LoanReturn | undefined>;
+  createLoanReturn(loanReturn: InsertLoanReturn): Promise<LoanReturn>;
+  listLoanReturns(loanIds: number[]): Promise<LoanReturn[]>;
+  resolveLoanReturn(id: number, resolvedBy: number, resolutionNote: string): Promise<LoanReturn | undefined>;
+
+  // Loan Extension Operations; deleting a loan or loan group deletes its extensions
+  getLoanExtension(id: number): Promise<LoanExtension | undefined>;
+  createLoanExtension(extension: InsertLoanExtension): Promise<LoanExtension>;
+  listLoanExtensions(): Promise<LoanExtension[]>;
+  updateLoanExtension(id: number, extensionData: Partial<InsertLoanExtension>): Promise<LoanExtension | undefined>;
 
   // Document Operations
   getDocument(id: number): Promise<Document | undefined>;
@@ -69,55 +164,346 @@ export interface IStorage {
   updateDocument(id: number, documentData: Partial<InsertDocument>): Promise<Document | undefined>;
   deleteDocument(id: number): Promise<boolean>;
 
+  // API Token Operations
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  listApiTokens(userId: number): Promise<ApiToken[]>;
+  updateApiToken(id: number, tokenData: Partial<Pick<ApiToken, "lastUsedAt" | "revokedAt">>): Promise<ApiToken | undefined>;
+
+  // Settings Operations
+  getSetting(key: string): Promise<Setting | undefined>;
+  putSetting(key: string, value: unknown, updatedBy: number | null): Promise<Setting>;
+  // Advances the named sequence past max(current value, atLeast) and returns the new value.
+  // Inside a transaction the sequence stays locked until it ends and rolls back with it.
+  nextSequenceValue(name: string, atLeast: number): Promise<number>;
+
   // Activity Log Operations
-  createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
+  // Nothing is written, and undefined returned, when organization.enableAuditLogs turns this entry off
+  createActivityLog(log: InsertActivityLog): Promise<ActivityLog | undefined>;
   listActivityLogs(): Promise<ActivityLog[]>;
-  getRecentActivityLogs(limit: number): Promise<ActivityLog[]>;
+  // Newest first, leaving out entries whose action is in excludeActions
+  getRecentActivityLogs(limit: number, excludeActions?: string[]): Promise<ActivityLog[]>;
+  // Newest first; with a page, returns that slice plus the total number of matches
+  searchActivityLogs(query: ActivityLogQuery, page?: PageRequest): Promise<{ logs: ActivityLog[], total: number }>;
+
+  // Unit of Work
+  // Runs `work` against a transactional view of the storage: everything it writes
+  // commits together, or nothing does if it throws.
+  transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T>;
+  // Reads an item and holds it against concurrent stock changes until the surrounding transaction ends
+  lockInventoryItem(id: number): Promise<InventoryItem | undefined>;
+}
+
+// Quantity bookkeeping shared by both storage backends so they derive identical numbers
+
+function deriveItemStatus(quantityAvailable: number, quantityLoaned: number, quantityDamaged: number): string {
+  let status = "Available";
+  if (quantityAvailable <= 0) {
+    if (quantityLoaned > 0 && quantityDamaged === 0) {
+      status = "Loaned Out";
+    } else if (quantityDamaged > 0 && quantityLoaned === 0) {
+      status = "Damaged";
+    } else if (quantityDamaged > 0 && quantityLoaned > 0) {
+      status = "Partially Available";
+    }
+  } else if (quantityLoaned > 0 || quantityDamaged > 0) {
+    status = "Partially Available";
+  }
+  return status;
+}
+
+function calculateLoanQuantities(item: InventoryItem, quantityLoaned: number, quantityDamaged: number) {
+  // Units written off through lifecycle (lost, disposed, ...) never come back to stock
+  const quantityAvailable = item.quantity - quantityLoaned - quantityDamaged - (item.quantityLifecycled || 0);
+  return {
+    quantityLoaned,
+    quantityDamaged,
+    quantityAvailable,
+    status: deriveItemStatus(quantityAvailable, quantityLoaned, quantityDamaged)
+  };
+}
+
+function calculateDamageQuantities(item: InventoryItem, quantity: number) {
+  const quantityDamaged = item.quantityDamaged + quantity;
+  const quantityAvailable = item.quantityAvailable - quantity;
+  
+  if (quantityAvailable < 0) {
+    throw new Error("Not enough available quantity to mark as damaged");
+  }
+  
+  return { quantityDamaged, quantityAvailable };
+}
+
+function calculateRepairQuantities(item: InventoryItem, quantity: number) {
+  const quantityDamaged = item.quantityDamaged - quantity;
+  const quantityAvailable = item.quantityAvailable + quantity;
+  
+  if (quantityDamaged < 0) {
+    throw new Error("Cannot repair more items than are damaged");
+  }
+  
+  return { quantityDamaged, quantityAvailable };
+}
+
+function calculateLifecycleQuantities(item: InventoryItem, quantityLifecycled: number) {
+  if (quantityLifecycled > item.quantityAvailable) {
+    throw new Error("Cannot lifecycle more items than are available");
+  }
+  
+  return {
+    quantityLifecycled: (item.quantityLifecycled || 0) + quantityLifecycled,
+    quantityAvailable: item.quantityAvailable - quantityLifecycled
+  };
+}
+
+// Serialized items count their units instead; retired units stay in the total, as lifecycled ones do
+function calculateUnitQuantities(units: AssetUnit[]) {
+  const count = (status: AssetUnitStatus) => units.filter(unit => unit.status === status).length;
+  const quantityAvailable = count("Available");
+  const quantityLoaned = count("Loaned Out");
+  const quantityDamaged = count("Damaged");
+  return {
+    serialized: true,
+    quantity: units.length,
+    quantityAvailable,
+    quantityLoaned,
+    quantityDamaged,
+    quantityLifecycled: count("Retired"),
+    status: deriveItemStatus(quantityAvailable, quantityLoaned, quantityDamaged)
+  };
+}
+
+// Natural order, so "LT-2" comes before "LT-10"
+function compareSerialNumbers(a: AssetUnit, b: AssetUnit): number {
+  return a.serialNumber.localeCompare(b.serialNumber, undefined, { numeric: true }) || a.id - b.id;
+}
+
+// Available = Total - Loaned - Damaged - Lifecycled
+function calculateAvailableQuantity(item: InventoryItem, newQuantity: number, quantityLifecycled: number): number {
+  const quantityLoaned = item.quantityLoaned || 0;
+  const quantityDamaged = item.quantityDamaged || 0;
+  return Math.max(0, newQuantity - quantityLoaned - quantityDamaged - quantityLifecycled);
+}
+
+// Kept whatever the setting: exports, and lending rule overrides whose reason is recorded nowhere else
+const alwaysLoggedActions = ["Export", "Rule Override"];
+
+// With organization.enableAuditLogs off, only entries about users (sign-ins and account changes),
+// settings and the actions above are kept, so switching the log off is itself on record
+async function isActivityLogged(store: IStorage, log: InsertActivityLog): Promise<boolean> {
+  if (log.entityType === "User" || log.entityType === "Settings" || alwaysLoggedActions.includes(log.action)) return true;
+  return (await getSettingsSection(store, "organization")).enableAuditLogs;
+}
+
+// Passwords are only ever stored hashed; values that are already hashes pass through untouched
+async function withHashedPassword<T extends { password?: string }>(userData: T): Promise<T & { passwordChangedAt?: Date }> {
+  if (!userData.password || isPasswordHash(userData.password)) return userData;
+  return {
+    ...userData,
+    password: await hashPassword(userData.password),
+    passwordChangedAt: new Date()
+  };
+}
+
+// Inventory and activity log search, with the same semantics in both backends
+
+export type PageRequest = { limit: number; offset: number };
+
+// Whitespace-separated search words; each must appear in one of the searchable fields
+function searchTerms(q: string | undefined): string[] {
+  return q ? q.toLowerCase().split(/\s+/).filter(Boolean) : [];
+}
+
+// createdTo is inclusive, so it filters below the start of the following day
+function dayAfter(date: string): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+}
+
+function matchesActivityLogQuery(log: ActivityLog, query: ActivityLogQuery): boolean {
+  const haystack = [log.action, log.entityId, log.details].filter(Boolean).join("\n").toLowerCase();
+  if (!searchTerms(query.q).every(term => haystack.includes(term))) return false;
+  if (query.action && !query.action.includes(log.action)) return false;
+  if (query.entityType && !query.entityType.includes(log.entityType)) return false;
+  if (query.from && log.timestamp < new Date(query.from)) return false;
+  if (query.to && log.timestamp >= dayAfter(query.to)) return false;
+  return true;
+}
+
+// ILIKE pattern matching the search term literally
+function containsPattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function matchesInventoryQuery(item: InventoryItem, query: InventoryQuery): boolean {
+  const haystack = [item.itemId, item.name, item.model, item.location, item.notes, ...Object.values(item.customFields).map(String)]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+  if (!searchTerms(query.q).every(term => haystack.includes(term))) return false;
+  if (query.category && !query.category.includes(item.category)) return false;
+  // The columns are plain text; values outside the enums simply match no filter
+  if (query.status && !query.status.includes(item.status as ItemStatus)) return false;
+  if (query.usage && !query.usage.includes((item.usage ?? "None") as ItemUsage)) return false;
+  if (query.location && !query.location.includes(item.location ?? "")) return false;
+  if (query.priceMin !== undefined && (item.price === null || item.price < query.priceMin)) return false;
+  if (query.priceMax !== undefined && (item.price === null || item.price > query.priceMax)) return false;
+  if (query.createdFrom && item.createdAt < new Date(query.createdFrom)) return false;
+  if (query.createdTo && item.createdAt >= dayAfter(query.createdTo)) return false;
+  return true;
+}
+
+// Empty values sort last in either direction, then ties fall back to the row id
+function compareInventoryItems(query: InventoryQuery) {
+  const direction = query.order === "desc" ? -1 : 1;
+  return (a: InventoryItem, b: InventoryItem): number => {
+    const left = a[query.sort];
+    const right = b[query.sort];
+    if (left == null || right == null) {
+      if (left == null && right == null) return a.id - b.id;
+      return left == null ? 1 : -1;
+    }
+    const compared = left instanceof Date && right instanceof Date
+      ? left.getTime() - right.getTime()
+      : typeof left === "number" && typeof right === "number"
+        ? left - right
+        : String(left).localeCompare(String(right));
+    return compared !== 0 ? compared * direction : a.id - b.id;
+  };
+}
+
+function loanGroupCode(id: number, year: number): string {
+  return `LOAN-${year}-${id.toString().padStart(3, '0')}`;
+}
+
+function loanAgreementDocument(loanGroup: LoanGroup, loanGroupData: InsertLoanGroup, documentId: string, organizationName: string): InsertDocument {
+  return {
+    documentId,
+    type: "Loan",
+    title: `Loan Agreement - ${loanGroupData.borrowerName}`,
+    content: groupAgreementText(loanGroup, organizationName),
+    relatedItemId: loanGroup.loanGroupId,
+    signedBy: [],
+    createdBy: loanGroupData.createdBy || 1
+  };
+}
+
+// Undoes one write made inside a MemStorage transaction
+type UndoWrite = () => void;
+
+// A Map that, while a MemStorage transaction is open, records how to undo each write, so a failed
+// transaction rolls back its own writes and leaves those made alongside it alone
+class JournaledMap<K, V> extends Map<K, V> {
+  constructor(private readonly journal: () => UndoWrite[] | undefined) {
+    super();
+  }
+
+  set(key: K, value: V): this {
+    this.journal()?.push(this.undoWrite(key));
+    return super.set(key, value);
+  }
+
+  delete(key: K): boolean {
+    if (super.has(key)) {
+      this.journal()?.push(this.undoWrite(key));
+    }
+    return super.delete(key);
+  }
+
+  clear(): void {
+    Array.from(super.keys()).forEach((key) => this.delete(key));
+  }
+
+  private undoWrite(key: K): UndoWrite {
+    const existed = super.has(key);
+    const previous = super.get(key);
+    return () => {
+      if (existed) {
+        super.set(key, previous as V);
+      } else {
+        super.delete(key);
+      }
+    };
+  }
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private inventoryItems: Map<number, InventoryItem>;
+  private borrowers: Map<number, Borrower>;
   private loanGroups: Map<number, LoanGroup>;
   private loans: Map<number, Loan>;
+  private loanReturns: Map<number, LoanReturn>;
+  private loanExtensions: Map<number, LoanExtension>;
   private documents: Map<number, Document>;
   private activityLogs: Map<number, ActivityLog>;
   private lifecycleHistories: Map<number, LifecycleHistory>;
+  private assetUnits: Map<number, AssetUnit>;
+  private categories: Map<number, Category>;
+  private locations: Map<number, Location>;
+  private itemStock: Map<number, ItemStock>;
+  private apiTokens: Map<number, ApiToken>;
+  private settings: Map<string, Setting>;
+  private sequences: Map<string, number>;
   
   private userIdCounter: number;
   private inventoryIdCounter: number;
+  private borrowerIdCounter: number;
   private loanGroupIdCounter: number;
   private loanIdCounter: number;
+  private loanReturnIdCounter: number;
+  private loanExtensionIdCounter: number;
   private documentIdCounter: number;
   private activityLogIdCounter: number;
   private lifecycleHistoryIdCounter: number;
+  private assetUnitIdCounter: number;
+  private categoryIdCounter: number;
+  private locationIdCounter: number;
+  private itemStockIdCounter: number;
+  private apiTokenIdCounter: number;
+  
+  // Transactions run one at a time; the context carries the undo journal of the one work is inside
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  private transactionContext = new AsyncLocalStorage<UndoWrite[]>();
 
   constructor() {
-    this.users = new Map();
-    this.inventoryItems = new Map();
-    this.loanGroups = new Map();
-    this.loans = new Map();
-    this.documents = new Map();
-    this.activityLogs = new Map();
-    this.lifecycleHistories = new Map();
+    const journal = () => this.transactionContext.getStore();
+    this.users = new JournaledMap(journal);
+    this.inventoryItems = new JournaledMap(journal);
+    this.borrowers = new JournaledMap(journal);
+    this.loanGroups = new JournaledMap(journal);
+    this.loans = new JournaledMap(journal);
+    this.loanReturns = new JournaledMap(journal);
+    this.loanExtensions = new JournaledMap(journal);
+    this.documents = new JournaledMap(journal);
+    this.activityLogs = new JournaledMap(journal);
+    this.lifecycleHistories = new JournaledMap(journal);
+    this.assetUnits = new JournaledMap(journal);
+    this.categories = new JournaledMap(journal);
+    this.locations = new JournaledMap(journal);
+    this.itemStock = new JournaledMap(journal);
+    this.apiTokens = new JournaledMap(journal);
+    this.settings = new JournaledMap(journal);
+    this.sequences = new JournaledMap(journal);
     
     this.userIdCounter = 1;
     this.inventoryIdCounter = 1;
+    this.borrowerIdCounter = 1;
     this.loanGroupIdCounter = 1;
     this.loanIdCounter = 1;
+    this.loanReturnIdCounter = 1;
+    this.loanExtensionIdCounter = 1;
     this.documentIdCounter = 1;
     this.activityLogIdCounter = 1;
     this.lifecycleHistoryIdCounter = 1;
+    this.assetUnitIdCounter = 1;
+    this.categoryIdCounter = 1;
+    this.locationIdCounter = 1;
+    this.itemStockIdCounter = 1;
+    this.apiTokenIdCounter = 1;
     
-    // Add default admin user
-    this.createUser({
-      username: "admin",
-      password: "admin123", // In a real app, this would be hashed
-      name: "Admin User",
-      email: "admin@bonevet.org",
-      role: "admin",
-      active: true
-    });
+    // The default admin user is seeded by ensureDefaultAdmin, as for the database
     
     // Add some sample inventory items for testing
     this.createInventoryItem({
@@ -147,7 +533,20 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      // Same column defaults as the users table
+      active: true,
+      mustChangePassword: false,
+      passwordChangedAt: null,
+      twoFactorRequired: false,
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastCounter: null,
+      ...await withHashedPassword(insertUser),
+      role: insertUser.role ?? "user",
+      id
+    };
     this.users.set(id, user);
     return user;
   }
@@ -160,12 +559,25 @@ export class MemStorage implements IStorage {
     const user = this.users.get(id);
     if (!user) return undefined;
     
-    const updatedUser = { ...user, ...userData };
+    const updatedUser = { ...user, ...await withHashedPassword(userData) };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserTwoFactor(id: number, state: Partial<TwoFactorState>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...state };
     this.users.set(id, updatedUser);
     return updatedUser;
   }
 
   async deleteUser(id: number): Promise<boolean> {
+    // Mirrors the cascade from api_tokens.user_id
+    Array.from(this.apiTokens.values())
+      .filter(token => token.userId === id)
+      .forEach(token => this.apiTokens.delete(token.id));
     return this.users.delete(id);
   }
 
@@ -190,6 +602,9 @@ export class MemStorage implements IStorage {
       quantityAvailable: insertItem.quantity || 1,
       quantityLoaned: 0,
       quantityDamaged: 0,
+      serialized: false,
+      customFields: insertItem.customFields ?? {},
+      locationId: insertItem.locationId ?? null,
       createdAt: now,
       updatedAt: now
     };
@@ -213,17 +628,12 @@ export class MemStorage implements IStorage {
     
     // If quantity is being updated, recalculate quantityAvailable
     if (itemData.quantity !== undefined) {
-      const newQuantity = itemData.quantity;
-      const quantityLoaned = item.quantityLoaned || 0;
-      const quantityDamaged = item.quantityDamaged || 0;
-      
       // Calculate lifecycle quantities from history
       const lifecycleHistories = Array.from(this.lifecycleHistories.values())
         .filter(h => h.itemId === id);
       const quantityLifecycled = lifecycleHistories.reduce((sum, h) => sum + h.quantityLifecycled, 0);
       
-      // Available = Total - Loaned - Damaged - Lifecycled
-      updatedItem.quantityAvailable = Math.max(0, newQuantity - quantityLoaned - quantityDamaged - quantityLifecycled);
+      updatedItem.quantityAvailable = calculateAvailableQuantity(item, itemData.quantity, quantityLifecycled);
     }
     
     this.inventoryItems.set(id, updatedItem);
@@ -231,6 +641,17 @@ export class MemStorage implements IStorage {
   }
 
   async deleteInventoryItem(id: number): Promise<boolean> {
+    // Mirrors the cascades from asset_units.item_id and item_stock.item_id, and the lifecycle history
+    // the database backend deletes itself
+    Array.from(this.assetUnits.values())
+      .filter(unit => unit.itemId === id)
+      .forEach(unit => this.assetUnits.delete(unit.id));
+    Array.from(this.itemStock.values())
+      .filter(stock => stock.itemId === id)
+      .forEach(stock => this.itemStock.delete(stock.id));
+    Array.from(this.lifecycleHistories.values())
+      .filter(history => history.itemId === id)
+      .forEach(history => this.lifecycleHistories.delete(history.id));
     return this.inventoryItems.delete(id);
   }
 
@@ -259,11 +680,86 @@ export class MemStorage implements IStorage {
     }));
   }
 
+  async searchInventoryItems(query: InventoryQuery, page?: PageRequest): Promise<{ items: InventoryItem[], total: number }> {
+    if (query.category) {
+      query = { ...query, category: withSubcategories(await this.listCategories(), query.category) };
+    }
+    const matches = Array.from(this.inventoryItems.values())
+      .filter(item => matchesInventoryQuery(item, query))
+      .sort(compareInventoryItems(query));
+    
+    return {
+      items: page ? matches.slice(page.offset, page.offset + page.limit) : matches,
+      total: matches.length
+    };
+  }
+
+  async listInventoryLocations(): Promise<string[]> {
+    const locations = new Set<string>();
+    this.inventoryItems.forEach(item => {
+      if (item.location) locations.add(item.location);
+    });
+    return Array.from(locations).sort((a, b) => a.localeCompare(b));
+  }
+
+  // Borrower Operations
+  async listBorrowers(): Promise<Borrower[]> {
+    return Array.from(this.borrowers.values()).sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getBorrower(id: number): Promise<Borrower | undefined> {
+    return this.borrowers.get(id);
+  }
+
+  async createBorrower(insertBorrower: InsertBorrower): Promise<Borrower> {
+    const id = this.borrowerIdCounter++;
+    const now = new Date();
+    const borrower: Borrower = {
+      // Same column defaults as the borrowers table
+      email: null,
+      phone: null,
+      idDocument: null,
+      membershipNumber: null,
+      notes: null,
+      ...insertBorrower,
+      blockedAt: null,
+      blockedReason: null,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.borrowers.set(id, borrower);
+    return borrower;
+  }
+
+  async updateBorrower(id: number, borrowerData: Partial<InsertBorrower>): Promise<Borrower | undefined> {
+    const borrower = this.borrowers.get(id);
+    if (!borrower) return undefined;
+    
+    const updatedBorrower = { ...borrower, ...borrowerData, updatedAt: new Date() };
+    this.borrowers.set(id, updatedBorrower);
+    return updatedBorrower;
+  }
+
+  async setBorrowerBlock(id: number, blockedReason: string | null): Promise<Borrower | undefined> {
+    const borrower = this.borrowers.get(id);
+    if (!borrower) return undefined;
+    
+    const now = new Date();
+    const updatedBorrower = { ...borrower, blockedAt: blockedReason === null ? null : now, blockedReason, updatedAt: now };
+    this.borrowers.set(id, updatedBorrower);
+    return updatedBorrower;
+  }
+
+  async deleteBorrower(id: number): Promise<boolean> {
+    return this.borrowers.delete(id);
+  }
+
   // Loan Group Operations
   async getLoanGroup(id: number): Promise<LoanGroup & { items: (Loan & { item: InventoryItem })[] }> {
     const loanGroup = this.loanGroups.get(id);
     if (!loanGroup) {
-      throw new Error(`Loan group with ID ${id} not found`);
+      throw new HttpError(404, "Loan group not found");
     }
     
     const loans = await this.getLoansByLoanGroupId(id);
@@ -281,19 +777,21 @@ export class MemStorage implements IStorage {
     return { ...loanGroup, items: loans };
   }
   
-  async createLoanGroup(loanGroupData: InsertLoanGroup, itemsData: Array<{ id: number; quantity: number }>): Promise<LoanGroup & { items: Loan[] }> {
+  async createLoanGroup(loanGroupData: InsertLoanGroup, itemsData: Array<{ id: number; quantity: number; unitId?: number }>): Promise<LoanGroup & { items: Loan[] }> {
     // Create the loan group
     const id = this.loanGroupIdCounter++;
     const now = new Date();
     const year = now.getFullYear();
     
     // Generate a loan group ID in the format LOAN-2025-001
-    const loanGroupId = `LOAN-${year}-${id.toString().padStart(3, '0')}`;
+    const loanGroupId = loanGroupCode(id, year);
     
     const loanGroup: LoanGroup = {
       ...loanGroupData,
       id,
       loanGroupId,
+      borrowerId: loanGroupData.borrowerId ?? null,
+      originalExpectedReturnDate: null,
       status: "Ongoing",
       createdAt: now
     };
@@ -307,6 +805,7 @@ export class MemStorage implements IStorage {
       const loan = await this.createLoan({ 
         loanGroupId: id, 
         itemId: itemData.id, 
+        unitId: itemData.unitId,
         quantityLoaned: itemData.quantity,
         notes: loanGroupData.notes || null 
       });
@@ -315,15 +814,9 @@ export class MemStorage implements IStorage {
     }
     
     // Generate a loan document
-    await this.createDocument({
-      documentId: `DOC-LOAN-${year}-${id.toString().padStart(3, '0')}`,
-      type: "Loan",
-      title: `Loan Agreement - ${loanGroupData.borrowerName}`,
-      content: `This document certifies that the items have been loaned to ${loanGroupData.borrowerName} (${loanGroupData.borrowerType}) from ${new Date(loanGroup.loanDate).toISOString().split('T')[0]} until ${new Date(loanGroup.expectedReturnDate).toISOString().split('T')[0]}.`,
-      relatedItemId: loanGroupId,
-      signedBy: [],
-      createdBy: loanGroupData.createdBy || 1
-    });
+    const { organizationName } = await documentHeader(this);
+    const documentId = await allocateLoanDocumentId(this, year);
+    await this.createDocument(loanAgreementDocument(loanGroup, loanGroupData, documentId, organizationName));
     
     return { ...loanGroup, items: loanItems };
   }
@@ -364,7 +857,32 @@ export class MemStorage implements IStorage {
     return updatedLoanGroup;
   }
   
+  async setLoanGroupStatus(id: number, status: LoanStatus): Promise<LoanGroup | undefined> {
+    const loanGroup = this.loanGroups.get(id);
+    if (!loanGroup) return undefined;
+    
+    const updatedLoanGroup = { ...loanGroup, status };
+    this.loanGroups.set(id, updatedLoanGroup);
+    return updatedLoanGroup;
+  }
+
+  async setLoanGroupDueDate(id: number, expectedReturnDate: string): Promise<LoanGroup | undefined> {
+    const loanGroup = this.loanGroups.get(id);
+    if (!loanGroup) return undefined;
+
+    const updatedLoanGroup = {
+      ...loanGroup,
+      expectedReturnDate,
+      originalExpectedReturnDate: loanGroup.originalExpectedReturnDate ?? loanGroup.expectedReturnDate,
+    };
+    this.loanGroups.set(id, updatedLoanGroup);
+    return updatedLoanGroup;
+  }
+  
   async deleteLoanGroup(id: number): Promise<boolean> {
+    for (const extension of Array.from(this.loanExtensions.values())) {
+      if (extension.loanGroupId === id) this.loanExtensions.delete(extension.id);
+    }
     // Delete all associated loans first
     const loans = Array.from(this.loans.values()).filter(
       (loan) => loan.loanGroupId === id
@@ -411,10 +929,14 @@ export class MemStorage implements IStorage {
     const loan: Loan = { 
       ...insertLoan, 
       id,
+      quantityReturned: 0,
+      originalExpectedReturnDate: null,
       actualReturnDate: null,
       status: "Ongoing",
       // Ensure loanGroupId is defined for the database model
-      loanGroupId: insertLoan.loanGroupId || null
+      loanGroupId: insertLoan.loanGroupId || null,
+      unitId: insertLoan.unitId ?? null,
+      borrowerId: insertLoan.borrowerId ?? null
     };
     this.loans.set(id, loan);
     
@@ -460,16 +982,44 @@ export class MemStorage implements IStorage {
     return updatedLoan;
   }
 
+  async setLoanStatus(id: number, status: LoanStatus): Promise<Loan | undefined> {
+    const loan = this.loans.get(id);
+    if (!loan) return undefined;
+    
+    const updatedLoan = { ...loan, status };
+    this.loans.set(id, updatedLoan);
+    return updatedLoan;
+  }
+
+  async setLoanDueDate(id: number, expectedReturnDate: Date): Promise<Loan | undefined> {
+    const loan = this.loans.get(id);
+    if (!loan) return undefined;
+
+    const updatedLoan = {
+      ...loan,
+      expectedReturnDate,
+      originalExpectedReturnDate: loan.originalExpectedReturnDate ?? loan.expectedReturnDate,
+    };
+    this.loans.set(id, updatedLoan);
+    return updatedLoan;
+  }
+
   async deleteLoan(id: number): Promise<boolean> {
+    for (const loanReturn of Array.from(this.loanReturns.values())) {
+      if (loanReturn.loanId === id) this.loanReturns.delete(loanReturn.id);
+    }
+    for (const extension of Array.from(this.loanExtensions.values())) {
+      if (extension.loanId === id) this.loanExtensions.delete(extension.id);
+    }
     return this.loans.delete(id);
   }
 
-  async getRecentLoans(limit: number): Promise<any[]> {
+  async getRecentLoans(limit: number, status?: LoanStatus): Promise<any[]> {
     const allLoans = Array.from(this.loans.values());
     const combinedLoans = [];
 
     // First get individual loans (without a loan group)
-    const individualLoans = allLoans.filter(loan => loan.loanGroupId === null);
+    const individualLoans = allLoans.filter(loan => loan.loanGroupId === null && (!status || loan.status === status));
     
     // Add borrower information to individual loans
     for (const loan of individualLoans) {
@@ -483,7 +1033,7 @@ export class MemStorage implements IStorage {
     }
     
     // Then get loan groups
-    const loanGroups = Array.from(this.loanGroups.values());
+    const loanGroups = Array.from(this.loanGroups.values()).filter(group => !status || group.status === status);
     for (const group of loanGroups) {
       // Get the first item from the group to display
       const groupLoans = allLoans.filter(loan => loan.loanGroupId === group.id);
@@ -495,6 +1045,7 @@ export class MemStorage implements IStorage {
           borrowerType: group.borrowerType,
           loanDate: group.loanDate,
           expectedReturnDate: group.expectedReturnDate,
+          status: group.status,
           isGroupLoan: true,
           loanGroupId: group.id,
           itemCount: groupLoans.length
@@ -508,6 +1059,88 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  // Loan Return Operations
+  async getLoanReturn(id: number): Promise<LoanReturn | undefined> {
+    return this.loanReturns.get(id);
+  }
+
+  async createLoanReturn(insertLoanReturn: InsertLoanReturn): Promise<LoanReturn> {
+    const id = this.loanReturnIdCounter++;
+    // Same column defaults as the loan_returns table
+    const loanReturn: LoanReturn = {
+      id,
+      ...insertLoanReturn,
+      loanGroupId: insertLoanReturn.loanGroupId ?? null,
+      condition: insertLoanReturn.condition ?? "Good",
+      photos: insertLoanReturn.photos ?? [],
+      returnedAt: insertLoanReturn.returnedAt ?? new Date(),
+      notes: insertLoanReturn.notes ?? null,
+      resolvedAt: null,
+      resolvedBy: null,
+      resolutionNote: null,
+    };
+    this.loanReturns.set(id, loanReturn);
+
+    const loan = this.loans.get(loanReturn.loanId);
+    if (loan) {
+      this.loans.set(loan.id, { ...loan, quantityReturned: loan.quantityReturned + loanReturn.quantity });
+    }
+    return loanReturn;
+  }
+
+  async listLoanReturns(loanIds: number[]): Promise<LoanReturn[]> {
+    return Array.from(this.loanReturns.values())
+      .filter((loanReturn) => loanIds.includes(loanReturn.loanId))
+      .sort((a, b) => a.returnedAt.getTime() - b.returnedAt.getTime() || a.id - b.id);
+  }
+
+  async resolveLoanReturn(id: number, resolvedBy: number, resolutionNote: string): Promise<LoanReturn | undefined> {
+    const loanReturn = this.loanReturns.get(id);
+    if (!loanReturn) return undefined;
+    
+    const resolved = { ...loanReturn, resolvedAt: new Date(), resolvedBy, resolutionNote };
+    this.loanReturns.set(id, resolved);
+    return resolved;
+  }
+
+  // Loan Extension Operations
+  async getLoanExtension(id: number): Promise<LoanExtension | undefined> {
+    return this.loanExtensions.get(id);
+  }
+
+  async createLoanExtension(insertExtension: InsertLoanExtension): Promise<LoanExtension> {
+    const id = this.loanExtensionIdCounter++;
+    // Same column defaults as the loan_extensions table
+    const extension: LoanExtension = {
+      id,
+      ...insertExtension,
+      loanId: insertExtension.loanId ?? null,
+      loanGroupId: insertExtension.loanGroupId ?? null,
+      status: insertExtension.status ?? "Pending",
+      requestedAt: insertExtension.requestedAt ?? new Date(),
+      decidedBy: insertExtension.decidedBy ?? null,
+      decidedAt: insertExtension.decidedAt ?? null,
+      decisionNote: insertExtension.decisionNote ?? null,
+      documentId: insertExtension.documentId ?? null,
+    };
+    this.loanExtensions.set(id, extension);
+    return extension;
+  }
+
+  async listLoanExtensions(): Promise<LoanExtension[]> {
+    return Array.from(this.loanExtensions.values())
+      .sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime() || a.id - b.id);
+  }
+
+  async updateLoanExtension(id: number, extensionData: Partial<InsertLoanExtension>): Promise<LoanExtension | undefined> {
+    const extension = this.loanExtensions.get(id);
+    if (!extension) return undefined;
+
+    const updatedExtension = { ...extension, ...extensionData };
+    this.loanExtensions.set(id, updatedExtension);
+    return updatedExtension;
+  }
+
   // Document Operations
   async getDocument(id: number): Promise<Document | undefined> {
     return this.documents.get(id);
@@ -525,6 +1158,8 @@ export class MemStorage implements IStorage {
     const document: Document = { 
       ...insertDocument, 
       id,
+      version: insertDocument.version ?? 1,
+      previousVersionId: insertDocument.previousVersionId ?? null,
       createdAt: now
     };
     this.documents.set(id, document);
@@ -548,8 +1183,62 @@ export class MemStorage implements IStorage {
     return this.documents.delete(id);
   }
 
+  // API Token Operations
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenIdCounter++;
+    const token: ApiToken = {
+      // Same column defaults as the api_tokens table
+      scope: "read",
+      expiresAt: null,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+      ...insertToken,
+      id
+    };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async listApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateApiToken(id: number, tokenData: Partial<Pick<ApiToken, "lastUsedAt" | "revokedAt">>): Promise<ApiToken | undefined> {
+    const token = this.apiTokens.get(id);
+    if (!token) return undefined;
+    
+    const updatedToken = { ...token, ...tokenData };
+    this.apiTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  // Settings Operations
+  async getSetting(key: string): Promise<Setting | undefined> {
+    return this.settings.get(key);
+  }
+
+  async putSetting(key: string, value: unknown, updatedBy: number | null): Promise<Setting> {
+    const setting: Setting = { key, value, updatedAt: new Date(), updatedBy };
+    this.settings.set(key, setting);
+    return setting;
+  }
+
+  async nextSequenceValue(name: string, atLeast: number): Promise<number> {
+    const value = Math.max(this.sequences.get(name) ?? 0, atLeast) + 1;
+    this.sequences.set(name, value);
+    return value;
+  }
+
   // Activity Log Operations
-  async createActivityLog(insertLog: InsertActivityLog): Promise<ActivityLog> {
+  async createActivityLog(insertLog: InsertActivityLog): Promise<ActivityLog | undefined> {
+    if (!await isActivityLogged(this, insertLog)) return undefined;
     const id = this.activityLogIdCounter++;
     const now = new Date();
     const log: ActivityLog = { 
@@ -565,40 +1254,33 @@ export class MemStorage implements IStorage {
     return Array.from(this.activityLogs.values());
   }
 
-  async getRecentActivityLogs(limit: number): Promise<ActivityLog[]> {
+  async getRecentActivityLogs(limit: number, excludeActions: string[] = []): Promise<ActivityLog[]> {
     const allLogs = Array.from(this.activityLogs.values());
     return allLogs
+      .filter(log => !excludeActions.includes(log.action))
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
       .slice(0, limit);
   }
 
+  async searchActivityLogs(query: ActivityLogQuery, page?: PageRequest): Promise<{ logs: ActivityLog[], total: number }> {
+    const matches = Array.from(this.activityLogs.values())
+      .filter(log => matchesActivityLogQuery(log, query))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || b.id - a.id);
+    
+    return {
+      logs: page ? matches.slice(page.offset, page.offset + page.limit) : matches,
+      total: matches.length
+    };
+  }
+
   // Quantity Management Operations
   async updateItemQuantities(itemId: number, quantityLoaned: number, quantityDamaged: number): Promise<InventoryItem | undefined> {
     const item = this.inventoryItems.get(itemId);
     if (!item) return undefined;
     
-    const quantityAvailable = item.quantity - quantityLoaned - quantityDamaged;
-    
-    // Determine status based on quantities
-    let status = "Available";
-    if (quantityAvailable <= 0) {
-      if (quantityLoaned > 0 && quantityDamaged === 0) {
-        status = "Loaned Out";
-      } else if (quantityDamaged > 0 && quantityLoaned === 0) {
-        status = "Damaged";
-      } else if (quantityDamaged > 0 && quantityLoaned > 0) {
-        status = "Partially Available";
-      }
-    } else if (quantityLoaned > 0 || quantityDamaged > 0) {
-      status = "Partially Available";
-    }
-    
     const updatedItem = {
       ...item,
-      quantityLoaned,
-      quantityDamaged,
-      quantityAvailable,
-      status,
+      ...calculateLoanQuantities(item, quantityLoaned, quantityDamaged),
       updatedAt: new Date()
     };
     
@@ -610,17 +1292,9 @@ export class MemStorage implements IStorage {
     const item = this.inventoryItems.get(itemId);
     if (!item) return undefined;
     
-    const newQuantityDamaged = item.quantityDamaged + quantity;
-    const newQuantityAvailable = item.quantityAvailable - quantity;
-    
-    if (newQuantityAvailable < 0) {
-      throw new Error("Not enough available quantity to mark as damaged");
-    }
-    
     const updatedItem = {
       ...item,
-      quantityDamaged: newQuantityDamaged,
-      quantityAvailable: newQuantityAvailable,
+      ...calculateDamageQuantities(item, quantity),
       updatedAt: new Date()
     };
     
@@ -632,17 +1306,9 @@ export class MemStorage implements IStorage {
     const item = this.inventoryItems.get(itemId);
     if (!item) return undefined;
     
-    const newQuantityDamaged = item.quantityDamaged - quantity;
-    const newQuantityAvailable = item.quantityAvailable + quantity;
-    
-    if (newQuantityDamaged < 0) {
-      throw new Error("Cannot repair more items than are damaged");
-    }
-    
     const updatedItem = {
       ...item,
-      quantityDamaged: newQuantityDamaged,
-      quantityAvailable: newQuantityAvailable,
+      ...calculateRepairQuantities(item, quantity),
       updatedAt: new Date()
     };
     
@@ -650,14 +1316,12 @@ export class MemStorage implements IStorage {
     return updatedItem;
   }
 
-  async updateItemLifecycle(itemId: number, lifecycleStatuses: string[], lifecycleDate: string, lifecycleReason: string, quantityLifecycled: number): Promise<InventoryItem | undefined> {
+  async updateItemLifecycle(itemId: number, lifecycleStatuses: string[], lifecycleDate: string, lifecycleReason: string, quantityLifecycled: number, createdBy: number): Promise<InventoryItem | undefined> {
     const item = this.inventoryItems.get(itemId);
     if (!item) return undefined;
     
-    // Validate quantity
-    if (quantityLifecycled > item.quantityAvailable) {
-      throw new Error("Cannot lifecycle more items than are available");
-    }
+    // Validate quantity before recording anything
+    const quantities = calculateLifecycleQuantities(item, quantityLifecycled);
     
     // Create lifecycle history entry
     const historyId = this.lifecycleHistoryIdCounter++;
@@ -669,7 +1333,7 @@ export class MemStorage implements IStorage {
       lifecycleReason,
       quantityLifecycled,
       createdAt: new Date(),
-      createdBy: 1 // Admin user ID - in real app, this would be the current user
+      createdBy
     };
     
     this.lifecycleHistories.set(historyId, historyEntry);
@@ -680,8 +1344,7 @@ export class MemStorage implements IStorage {
       lifecycleStatuses,
       lifecycleDate,
       lifecycleReason,
-      quantityLifecycled: (item.quantityLifecycled || 0) + quantityLifecycled,
-      quantityAvailable: item.quantityAvailable - quantityLifecycled,
+      ...quantities,
       updatedAt: new Date()
     };
     
@@ -689,29 +1352,1198 @@ export class MemStorage implements IStorage {
     return updatedItem;
   }
 
-  // Lifecycle History Operations
-  async createLifecycleHistory(insertHistory: InsertLifecycleHistory): Promise<LifecycleHistory> {
-    const id = this.lifecycleHistoryIdCounter++;
-    const history: LifecycleHistory = {
+  // Asset Unit Operations
+  async listAssetUnits(itemId: number): Promise<AssetUnit[]> {
+    return Array.from(this.assetUnits.values())
+      .filter(unit => unit.itemId === itemId)
+      .sort(compareSerialNumbers);
+  }
+
+  async getAssetUnit(id: number): Promise<AssetUnit | undefined> {
+    return this.assetUnits.get(id);
+  }
+
+  async createAssetUnit(itemId: number, insertUnit: InsertAssetUnit): Promise<AssetUnit> {
+    const id = this.assetUnitIdCounter++;
+    const now = new Date();
+    const unit: AssetUnit = {
+      // Same column defaults as the asset_units table
+      location: null,
+      notes: null,
+      ...insertUnit,
       id,
-      ...insertHistory,
-      createdAt: new Date()
+      itemId,
+      status: "Available",
+      createdAt: now,
+      updatedAt: now
     };
+    this.assetUnits.set(id, unit);
+    return unit;
+  }
+
+  async updateAssetUnit(id: number, unitData: Partial<InsertAssetUnit> & { status?: AssetUnitStatus }): Promise<AssetUnit | undefined> {
+    const unit = this.assetUnits.get(id);
+    if (!unit) return undefined;
     
-    this.lifecycleHistories.set(id, history);
-    return history;
+    const updatedUnit = { ...unit, ...unitData, updatedAt: new Date() };
+    this.assetUnits.set(id, updatedUnit);
+    return updatedUnit;
   }
 
-  async getLifecycleHistoryByItemId(itemId: number): Promise<LifecycleHistory[]> {
-    return Array.from(this.lifecycleHistories.values())
-      .filter(history => history.itemId === itemId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  async deleteAssetUnit(id: number): Promise<boolean> {
+    return this.assetUnits.delete(id);
   }
 
-  async listLifecycleHistory(): Promise<LifecycleHistory[]> {
-    return Array.from(this.lifecycleHistories.values())
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  async syncUnitTotals(itemId: number): Promise<InventoryItem | undefined> {
+    const item = this.inventoryItems.get(itemId);
+    if (!item) return undefined;
+    
+    const updatedItem = {
+      ...item,
+      ...calculateUnitQuantities(await this.listAssetUnits(itemId)),
+      updatedAt: new Date()
+    };
+    this.inventoryItems.set(itemId, updatedItem);
+    return updatedItem;
+  }
+
+  // Category Operations
+  async listCategories(): Promise<Category[]> {
+    return Array.from(this.categories.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    return this.categories.get(id);
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    const id = this.categoryIdCounter++;
+    const now = new Date();
+    const category: Category = {
+      // Same column defaults as the categories table
+      parentId: null,
+      description: null,
+      ...insertCategory,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.categories.set(id, category);
+    return category;
   }
-}
 
-export const storage = new MemStorage();
+  async updateCategory(id: number, categoryData: Partial<InsertCategory>): Promise<Category | undefined> {
+    const category = this.categories.get(id);
+    if (!category) return undefined;
+    
+    const updatedCategory = { ...category, ...categoryData, updatedAt: new Date() };
+    this.categories.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteCategory(id: number): Promise<boolean> {
+    return this.categories.delete(id);
+  }
+
+  async renameItemCategory(from: string, to: string): Promise<number> {
+    const items = Array.from(this.inventoryItems.values()).filter(item => item.category === from);
+    const now = new Date();
+    items.forEach(item => this.inventoryItems.set(item.id, { ...item, category: to, updatedAt: now }));
+    return items.length;
+  }
+
+  // Location Operations
+  async listLocations(): Promise<Location[]> {
+    return Array.from(this.locations.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getLocation(id: number): Promise<Location | undefined> {
+    return this.locations.get(id);
+  }
+
+  async createLocation(insertLocation: InsertLocation & { kind: LocationKind }): Promise<Location> {
+    const id = this.locationIdCounter++;
+    const now = new Date();
+    const location: Location = {
+      // Same column defaults as the locations table
+      parentId: null,
+      notes: null,
+      ...insertLocation,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.locations.set(id, location);
+    return location;
+  }
+
+  async updateLocation(id: number, locationData: Partial<InsertLocation>): Promise<Location | undefined> {
+    const location = this.locations.get(id);
+    if (!location) return undefined;
+    
+    const updatedLocation = { ...location, ...locationData, updatedAt: new Date() };
+    this.locations.set(id, updatedLocation);
+    return updatedLocation;
+  }
+
+  async deleteLocation(id: number): Promise<boolean> {
+    return this.locations.delete(id);
+  }
+
+  async listItemStock(itemId?: number): Promise<ItemStock[]> {
+    return Array.from(this.itemStock.values())
+      .filter(stock => itemId === undefined || stock.itemId === itemId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async replaceItemStock(itemId: number, lines: { locationId: number; quantity: number }[]): Promise<ItemStock[]> {
+    Array.from(this.itemStock.values())
+      .filter(stock => stock.itemId === itemId)
+      .forEach(stock => this.itemStock.delete(stock.id));
+    const now = new Date();
+    for (const line of lines.filter(line => line.quantity > 0)) {
+      const id = this.itemStockIdCounter++;
+      this.itemStock.set(id, { id, itemId, locationId: line.locationId, quantity: line.quantity, updatedAt: now });
+    }
+    return this.listItemStock(itemId);
+  }
+
+
+  // Unit of Work
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    // A nested unit of work is a savepoint: on failure it undoes its own writes and the outer one decides
+    const outer = this.transactionContext.getStore();
+    if (outer) {
+      return this.undoOnFailure(outer, work);
+    }
+    
+    const run = () => {
+      const journal: UndoWrite[] = [];
+      return this.transactionContext.run(journal, () => this.undoOnFailure(journal, work));
+    };
+    
+    const result = this.transactionQueue.then(run, run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  async lockInventoryItem(id: number): Promise<InventoryItem | undefined> {
+    // Transactions are already serialized, so reading is enough
+    return this.inventoryItems.get(id);
+  }
+
+  // Records are replaced rather than mutated, so undoing the writes since the work began rolls it
+  // back. ID counters are not, as with database sequences.
+  private async undoOnFailure<T>(journal: UndoWrite[], work: (tx: IStorage) => Promise<T>): Promise<T> {
+    const start = journal.length;
+    try {
+      return await work(this);
+    } catch (error) {
+      journal.splice(start).reverse().forEach((undo) => undo());
+      throw error;
+    }
+  }
+
+  // Lifecycle History Operations
+  async createLifecycleHistory(insertHistory: InsertLifecycleHistory): Promise<LifecycleHistory> {
+    const id = this.lifecycleHistoryIdCounter++;
+    const history: LifecycleHistory = {
+      id,
+      ...insertHistory,
+      createdAt: new Date()
+    };
+    
+    this.lifecycleHistories.set(id, history);
+    return history;
+  }
+
+  async getLifecycleHistoryByItemId(itemId: number): Promise<LifecycleHistory[]> {
+    return Array.from(this.lifecycleHistories.values())
+      .filter(history => history.itemId === itemId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async listLifecycleHistory(): Promise<LifecycleHistory[]> {
+    return Array.from(this.lifecycleHistories.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
+
+
+// The root database or an open transaction; DatabaseStorage runs the same queries against either
+type DbExecutor = PgDatabase<NeonQueryResultHKT, typeof schema>;
+
+export class DatabaseStorage implements IStorage {
+  constructor(private readonly executor: DbExecutor = db) {}
+
+  // User Operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.executor.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.executor.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.executor.insert(users).values(await withHashedPassword(insertUser)).returning();
+    return user;
+  }
+
+  async listUsers(): Promise<User[]> {
+    return this.executor.select().from(users).orderBy(asc(users.id));
+  }
+
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.executor.update(users).set(await withHashedPassword(userData)).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async updateUserTwoFactor(id: number, state: Partial<TwoFactorState>): Promise<User | undefined> {
+    const [user] = await this.executor.update(users).set(state).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = await this.executor.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  // Inventory Operations
+  async getInventoryItem(id: number): Promise<InventoryItem | undefined> {
+    const [item] = await this.executor.select().from(inventoryItems).where(eq(inventoryItems.id, id));
+    return item;
+  }
+
+  async getInventoryItemByItemId(itemId: string): Promise<InventoryItem | undefined> {
+    const [item] = await this.executor.select().from(inventoryItems).where(eq(inventoryItems.itemId, itemId));
+    return item;
+  }
+
+  async createInventoryItem(insertItem: InsertInventoryItem): Promise<InventoryItem> {
+    const [item] = await this.executor.insert(inventoryItems).values({
+      ...insertItem,
+      itemId: insertItem.itemId!,
+      // Initialize quantity tracking
+      quantityAvailable: insertItem.quantity || 1,
+      quantityLoaned: 0,
+      quantityDamaged: 0
+    }).returning();
+    return item;
+  }
+
+  async listInventoryItems(): Promise<InventoryItem[]> {
+    return this.executor.select().from(inventoryItems).orderBy(asc(inventoryItems.id));
+  }
+
+  async updateInventoryItem(id: number, itemData: Partial<InsertInventoryItem>): Promise<InventoryItem | undefined> {
+    const item = await this.getInventoryItem(id);
+    if (!item) return undefined;
+    
+    const updates: Partial<InventoryItem> = { ...itemData, updatedAt: new Date() };
+    
+    // If quantity is being updated, recalculate quantityAvailable
+    if (itemData.quantity !== undefined) {
+      const [{ total }] = await this.executor
+        .select({ total: sql<number>`coalesce(sum(${lifecycleHistory.quantityLifecycled}), 0)::int` })
+        .from(lifecycleHistory)
+        .where(eq(lifecycleHistory.itemId, id));
+      
+      updates.quantityAvailable = calculateAvailableQuantity(item, itemData.quantity, total);
+    }
+    
+    const [updatedItem] = await this.executor.update(inventoryItems).set(updates).where(eq(inventoryItems.id, id)).returning();
+    return updatedItem;
+  }
+
+  async deleteInventoryItem(id: number): Promise<boolean> {
+    // lifecycle_history.item_id does not cascade, so the item's history goes first, in the same transaction
+    return this.executor.transaction(async (tx) => {
+      await tx.delete(lifecycleHistory).where(eq(lifecycleHistory.itemId, id));
+      const deleted = await tx.delete(inventoryItems).where(eq(inventoryItems.id, id)).returning({ id: inventoryItems.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async countInventoryItems(): Promise<{ total: number, available: number, loaned: number, damaged: number }> {
+    const [counts] = await this.executor
+      .select({
+        total: sql<number>`coalesce(sum(${inventoryItems.quantity}), 0)::int`,
+        available: sql<number>`coalesce(sum(${inventoryItems.quantityAvailable}), 0)::int`,
+        loaned: sql<number>`coalesce(sum(${inventoryItems.quantityLoaned}), 0)::int`,
+        damaged: sql<number>`coalesce(sum(${inventoryItems.quantityDamaged}), 0)::int`,
+      })
+      .from(inventoryItems);
+    return counts;
+  }
+
+  async getInventoryItemsByCategory(): Promise<{ category: string, count: number }[]> {
+    return this.executor
+      .select({
+        category: inventoryItems.category,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(inventoryItems)
+      .groupBy(inventoryItems.category);
+  }
+
+  async searchInventoryItems(query: InventoryQuery, page?: PageRequest): Promise<{ items: InventoryItem[], total: number }> {
+    if (query.category) {
+      query = { ...query, category: withSubcategories(await this.listCategories(), query.category) };
+    }
+    const conditions: (SQL | undefined)[] = searchTerms(query.q).map(term => {
+      const pattern = containsPattern(term);
+      return or(
+        ilike(inventoryItems.itemId, pattern),
+        ilike(inventoryItems.name, pattern),
+        ilike(inventoryItems.model, pattern),
+        ilike(inventoryItems.location, pattern),
+        ilike(inventoryItems.notes, pattern),
+        // Values only, so a term doesn't match the field keys
+        sql`exists (select 1 from json_each_text(${inventoryItems.customFields}) as field where field.value ilike ${pattern})`
+      );
+    });
+    if (query.category) conditions.push(inArray(inventoryItems.category, query.category));
+    if (query.status) conditions.push(inArray(inventoryItems.status, query.status));
+    if (query.usage) conditions.push(inArray(sql`coalesce(${inventoryItems.usage}, 'None')`, query.usage));
+    if (query.location) conditions.push(inArray(sql`coalesce(${inventoryItems.location}, '')`, query.location));
+    if (query.priceMin !== undefined) conditions.push(gte(inventoryItems.price, query.priceMin));
+    if (query.priceMax !== undefined) conditions.push(lte(inventoryItems.price, query.priceMax));
+    if (query.createdFrom) conditions.push(gte(inventoryItems.createdAt, new Date(query.createdFrom)));
+    if (query.createdTo) conditions.push(lt(inventoryItems.createdAt, dayAfter(query.createdTo)));
+    const where = and(...conditions);
+    
+    const column = inventoryItems[query.sort];
+    const ordered = this.executor
+      .select()
+      .from(inventoryItems)
+      .where(where)
+      .orderBy(
+        query.order === "desc" ? sql`${column} desc nulls last` : sql`${column} asc nulls last`,
+        asc(inventoryItems.id)
+      );
+    const items = page ? await ordered.limit(page.limit).offset(page.offset) : await ordered;
+    
+    const [{ total }] = await this.executor
+      .select({ total: sql<number>`count(*)::int` })
+      .from(inventoryItems)
+      .where(where);
+    
+    return { items, total };
+  }
+
+  async listInventoryLocations(): Promise<string[]> {
+    const rows = await this.executor
+      .selectDistinct({ location: inventoryItems.location })
+      .from(inventoryItems)
+      .where(and(isNotNull(inventoryItems.location), ne(inventoryItems.location, "")))
+      .orderBy(asc(inventoryItems.location));
+    return rows.map(row => row.location!);
+  }
+
+  // Loan Group Operations
+  async getLoanGroup(id: number): Promise<LoanGroup & { items: (Loan & { item: InventoryItem })[] }> {
+    const [loanGroup] = await this.executor.select().from(loanGroups).where(eq(loanGroups.id, id));
+    if (!loanGroup) {
+      throw new HttpError(404, "Loan group not found");
+    }
+    
+    const loans = await this.getLoansByLoanGroupId(id);
+    return { ...loanGroup, items: loans };
+  }
+
+  async getLoanGroupByLoanGroupId(loanGroupId: string): Promise<LoanGroup & { items: (Loan & { item: InventoryItem })[] } | undefined> {
+    const [loanGroup] = await this.executor.select().from(loanGroups).where(eq(loanGroups.loanGroupId, loanGroupId));
+    if (!loanGroup) return undefined;
+    
+    const loans = await this.getLoansByLoanGroupId(loanGroup.id);
+    return { ...loanGroup, items: loans };
+  }
+
+  async createLoanGroup(loanGroupData: InsertLoanGroup, itemsData: Array<{ id: number; quantity: number; unitId?: number }>): Promise<LoanGroup & { items: Loan[] }> {
+    const year = new Date().getFullYear();
+    
+    // Reserve the serial first so the LOAN-2025-001 code can be derived from it
+    const { rows } = await this.executor.execute<{ id: number }>(
+      sql`select nextval(pg_get_serial_sequence('loan_groups', 'id'))::int as id`
+    );
+    const id = rows[0].id;
+    
+    const [loanGroup] = await this.executor.insert(loanGroups).values({
+      id,
+      loanGroupId: loanGroupCode(id, year),
+      borrowerId: loanGroupData.borrowerId,
+      borrowerName: loanGroupData.borrowerName,
+      borrowerType: loanGroupData.borrowerType,
+      borrowerContact: loanGroupData.borrowerContact,
+      loanDate: loanGroupData.loanDate,
+      expectedReturnDate: loanGroupData.expectedReturnDate,
+      status: "Ongoing",
+      notes: loanGroupData.notes,
+      createdBy: loanGroupData.createdBy || 1,
+    }).returning();
+    
+    // Create individual loan entries for each item with quantities
+    const loanItems: Loan[] = [];
+    
+    for (const itemData of itemsData) {
+      const loan = await this.createLoan({ 
+        loanGroupId: id, 
+        itemId: itemData.id, 
+        unitId: itemData.unitId,
+        quantityLoaned: itemData.quantity,
+        notes: loanGroupData.notes || null 
+      });
+      
+      loanItems.push(loan);
+    }
+    
+    // Generate a loan document
+    const { organizationName } = await documentHeader(this);
+    const documentId = await allocateLoanDocumentId(this, year);
+    await this.createDocument(loanAgreementDocument(loanGroup, loanGroupData, documentId, organizationName));
+    
+    return { ...loanGroup, items: loanItems };
+  }
+
+  async listLoanGroups(): Promise<LoanGroup[]> {
+    return this.executor.select().from(loanGroups).orderBy(asc(loanGroups.id));
+  }
+
+  async updateLoanGroup(id: number, loanGroupData: Partial<Omit<InsertLoanGroup, 'items'>>): Promise<LoanGroup | undefined> {
+    const [loanGroup] = await this.executor.update(loanGroups).set(loanGroupData).where(eq(loanGroups.id, id)).returning();
+    return loanGroup;
+  }
+
+  async setLoanGroupStatus(id: number, status: LoanStatus): Promise<LoanGroup | undefined> {
+    const [loanGroup] = await this.executor.update(loanGroups).set({ status }).where(eq(loanGroups.id, id)).returning();
+    return loanGroup;
+  }
+
+  async setLoanGroupDueDate(id: number, expectedReturnDate: string): Promise<LoanGroup | undefined> {
+    const [loanGroup] = await this.executor
+      .update(loanGroups)
+      .set({
+        expectedReturnDate,
+        originalExpectedReturnDate: sql`coalesce(${loanGroups.originalExpectedReturnDate}, ${loanGroups.expectedReturnDate})`,
+      })
+      .where(eq(loanGroups.id, id))
+      .returning();
+    return loanGroup;
+  }
+
+  async markLoanGroupReturned(id: number, actualReturnDate: Date): Promise<LoanGroup | undefined> {
+    const [loanGroup] = await this.executor
+      .update(loanGroups)
+      .set({ status: "Returned" })
+      .where(eq(loanGroups.id, id))
+      .returning();
+    if (!loanGroup) return undefined;
+    
+    // Mark all associated loans as returned
+    const openLoans = await this.executor
+      .select()
+      .from(loans)
+      .where(and(eq(loans.loanGroupId, id), sql`${loans.status} <> 'Returned'`));
+    
+    for (const loan of openLoans) {
+      await this.markLoanReturned(loan.id, actualReturnDate);
+    }
+    
+    return loanGroup;
+  }
+
+  async deleteLoanGroup(id: number): Promise<boolean> {
+    await this.executor.delete(loanExtensions).where(eq(loanExtensions.loanGroupId, id));
+    await this.executor.delete(loanReturns).where(eq(loanReturns.loanGroupId, id));
+    // Delete all associated loans first
+    await this.executor.delete(loans).where(eq(loans.loanGroupId, id));
+    
+    const deleted = await this.executor.delete(loanGroups).where(eq(loanGroups.id, id)).returning({ id: loanGroups.id });
+    return deleted.length > 0;
+  }
+
+  async getRecentLoanGroups(limit: number): Promise<LoanGroup[]> {
+    return this.executor.select().from(loanGroups).orderBy(desc(loanGroups.createdAt)).limit(limit);
+  }
+
+  // Loan Operations (Individual items)
+  async getLoan(id: number): Promise<Loan | undefined> {
+    const [loan] = await this.executor.select().from(loans).where(eq(loans.id, id));
+    return loan;
+  }
+
+  async getLoansByLoanGroupId(loanGroupId: number): Promise<(Loan & { item: InventoryItem })[]> {
+    const rows = await this.executor
+      .select({ loan: loans, item: inventoryItems })
+      .from(loans)
+      .innerJoin(inventoryItems, eq(loans.itemId, inventoryItems.id))
+      .where(eq(loans.loanGroupId, loanGroupId))
+      .orderBy(asc(loans.id));
+    
+    return rows.map(({ loan, item }) => ({ ...loan, item }));
+  }
+
+  async createLoan(insertLoan: InsertLoan): Promise<Loan> {
+    const [loan] = await this.executor.insert(loans).values({
+      ...insertLoan,
+      status: "Ongoing",
+      loanGroupId: insertLoan.loanGroupId || null
+    }).returning();
+    
+    // Update inventory item status
+    const item = await this.getInventoryItem(insertLoan.itemId);
+    if (item) {
+      await this.updateInventoryItem(item.id, { status: "Loaned Out" });
+    }
+    
+    return loan;
+  }
+
+  async listLoans(): Promise<Loan[]> {
+    return this.executor.select().from(loans).orderBy(asc(loans.id));
+  }
+
+  async updateLoan(id: number, loanData: Partial<InsertLoan>): Promise<Loan | undefined> {
+    const [loan] = await this.executor.update(loans).set(loanData).where(eq(loans.id, id)).returning();
+    return loan;
+  }
+
+  async markLoanReturned(id: number, actualReturnDate: Date): Promise<Loan | undefined> {
+    const [loan] = await this.executor
+      .update(loans)
+      .set({
+        actualReturnDate: actualReturnDate.toISOString().split('T')[0],
+        status: "Returned"
+      })
+      .where(eq(loans.id, id))
+      .returning();
+    if (!loan) return undefined;
+    
+    // Update inventory item status
+    const item = await this.getInventoryItem(loan.itemId);
+    if (item) {
+      await this.updateInventoryItem(item.id, { status: "Available" });
+    }
+    
+    return loan;
+  }
+
+  async setLoanStatus(id: number, status: LoanStatus): Promise<Loan | undefined> {
+    const [loan] = await this.executor.update(loans).set({ status }).where(eq(loans.id, id)).returning();
+    return loan;
+  }
+
+  async setLoanDueDate(id: number, expectedReturnDate: Date): Promise<Loan | undefined> {
+    const [loan] = await this.executor
+      .update(loans)
+      .set({
+        expectedReturnDate,
+        originalExpectedReturnDate: sql`coalesce(${loans.originalExpectedReturnDate}, ${loans.expectedReturnDate})`,
+      })
+      .where(eq(loans.id, id))
+      .returning();
+    return loan;
+  }
+
+  async deleteLoan(id: number): Promise<boolean> {
+    await this.executor.delete(loanReturns).where(eq(loanReturns.loanId, id));
+    await this.executor.delete(loanExtensions).where(eq(loanExtensions.loanId, id));
+    const deleted = await this.executor.delete(loans).where(eq(loans.id, id)).returning({ id: loans.id });
+    return deleted.length > 0;
+  }
+
+  async getRecentLoans(limit: number, status?: LoanStatus): Promise<any[]> {
+    const combinedLoans = [];
+    
+    // First get individual loans (without a loan group)
+    const individualLoans = await this.executor
+      .select()
+      .from(loans)
+      .where(and(isNull(loans.loanGroupId), status ? eq(loans.status, status) : undefined))
+      .orderBy(desc(loans.id))
+      .limit(limit);
+    
+    for (const loan of individualLoans) {
+      combinedLoans.push({
+        ...loan,
+        borrowerName: "Individual Loan", // This will be replaced in routes.ts
+        borrowerType: "Individual",
+        loanDate: loan.loanDate || new Date().toISOString()
+      });
+    }
+    
+    // Then get loan groups, displaying the first item of each
+    const groups = (await this.listLoanGroups()).filter(group => !status || group.status === status);
+    for (const group of groups) {
+      const groupLoans = await this.executor
+        .select()
+        .from(loans)
+        .where(eq(loans.loanGroupId, group.id))
+        .orderBy(asc(loans.id));
+      if (groupLoans.length > 0) {
+        combinedLoans.push({
+          ...groupLoans[0],
+          borrowerName: group.borrowerName,
+          borrowerType: group.borrowerType,
+          loanDate: group.loanDate,
+          expectedReturnDate: group.expectedReturnDate,
+          status: group.status,
+          isGroupLoan: true,
+          loanGroupId: group.id,
+          itemCount: groupLoans.length
+        });
+      }
+    }
+    
+    // Sort by id descending (most recent first) and limit
+    return combinedLoans
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  // Loan Return Operations
+  async getLoanReturn(id: number): Promise<LoanReturn | undefined> {
+    const [loanReturn] = await this.executor.select().from(loanReturns).where(eq(loanReturns.id, id));
+    return loanReturn;
+  }
+
+  async createLoanReturn(insertLoanReturn: InsertLoanReturn): Promise<LoanReturn> {
+    const [loanReturn] = await this.executor.insert(loanReturns).values(insertLoanReturn).returning();
+    await this.executor
+      .update(loans)
+      .set({ quantityReturned: sql`${loans.quantityReturned} + ${loanReturn.quantity}` })
+      .where(eq(loans.id, loanReturn.loanId));
+    return loanReturn;
+  }
+
+  async listLoanReturns(loanIds: number[]): Promise<LoanReturn[]> {
+    if (loanIds.length === 0) return [];
+    return this.executor
+      .select()
+      .from(loanReturns)
+      .where(inArray(loanReturns.loanId, loanIds))
+      .orderBy(asc(loanReturns.returnedAt), asc(loanReturns.id));
+  }
+
+  async resolveLoanReturn(id: number, resolvedBy: number, resolutionNote: string): Promise<LoanReturn | undefined> {
+    const [loanReturn] = await this.executor
+      .update(loanReturns)
+      .set({ resolvedAt: new Date(), resolvedBy, resolutionNote })
+      .where(eq(loanReturns.id, id))
+      .returning();
+    return loanReturn;
+  }
+
+  // Loan Extension Operations
+  async getLoanExtension(id: number): Promise<LoanExtension | undefined> {
+    const [extension] = await this.executor.select().from(loanExtensions).where(eq(loanExtensions.id, id));
+    return extension;
+  }
+
+  async createLoanExtension(insertExtension: InsertLoanExtension): Promise<LoanExtension> {
+    const [extension] = await this.executor.insert(loanExtensions).values(insertExtension).returning();
+    return extension;
+  }
+
+  async listLoanExtensions(): Promise<LoanExtension[]> {
+    return this.executor.select().from(loanExtensions).orderBy(asc(loanExtensions.requestedAt), asc(loanExtensions.id));
+  }
+
+  async updateLoanExtension(id: number, extensionData: Partial<InsertLoanExtension>): Promise<LoanExtension | undefined> {
+    const [extension] = await this.executor.update(loanExtensions).set(extensionData).where(eq(loanExtensions.id, id)).returning();
+    return extension;
+  }
+
+  // Document Operations
+  async getDocument(id: number): Promise<Document | undefined> {
+    const [document] = await this.executor.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentByDocumentId(documentId: string): Promise<Document | undefined> {
+    const [document] = await this.executor.select().from(documents).where(eq(documents.documentId, documentId));
+    return document;
+  }
+
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    const [document] = await this.executor.insert(documents).values(insertDocument).returning();
+    return document;
+  }
+
+  async listDocuments(): Promise<Document[]> {
+    return this.executor.select().from(documents).orderBy(asc(documents.id));
+  }
+
+  async updateDocument(id: number, documentData: Partial<InsertDocument>): Promise<Document | undefined> {
+    const [document] = await this.executor.update(documents).set(documentData).where(eq(documents.id, id)).returning();
+    return document;
+  }
+
+  async deleteDocument(id: number): Promise<boolean> {
+    const deleted = await this.executor.delete(documents).where(eq(documents.id, id)).returning({ id: documents.id });
+    return deleted.length > 0;
+  }
+
+  // API Token Operations
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.executor.insert(apiTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.executor.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async listApiTokens(userId: number): Promise<ApiToken[]> {
+    return this.executor.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async updateApiToken(id: number, tokenData: Partial<Pick<ApiToken, "lastUsedAt" | "revokedAt">>): Promise<ApiToken | undefined> {
+    const [token] = await this.executor.update(apiTokens).set(tokenData).where(eq(apiTokens.id, id)).returning();
+    return token;
+  }
+
+  // Settings Operations
+  async getSetting(key: string): Promise<Setting | undefined> {
+    const [setting] = await this.executor.select().from(settings).where(eq(settings.key, key));
+    return setting;
+  }
+
+  async putSetting(key: string, value: unknown, updatedBy: number | null): Promise<Setting> {
+    const [setting] = await this.executor
+      .insert(settings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({ target: settings.key, set: { value, updatedBy, updatedAt: new Date() } })
+      .returning();
+    return setting;
+  }
+
+  async nextSequenceValue(name: string, atLeast: number): Promise<number> {
+    // The upsert takes the row lock, so concurrent allocations queue behind this transaction
+    const [sequence] = await this.executor
+      .insert(idSequences)
+      .values({ name, value: atLeast + 1 })
+      .onConflictDoUpdate({
+        target: idSequences.name,
+        set: { value: sql`greatest(${idSequences.value}, ${atLeast}) + 1` }
+      })
+      .returning();
+    return sequence.value;
+  }
+
+  // Activity Log Operations
+  async createActivityLog(insertLog: InsertActivityLog): Promise<ActivityLog | undefined> {
+    if (!await isActivityLogged(this, insertLog)) return undefined;
+    const [log] = await this.executor.insert(activityLogs).values(insertLog).returning();
+    return log;
+  }
+
+  async listActivityLogs(): Promise<ActivityLog[]> {
+    return this.executor.select().from(activityLogs).orderBy(asc(activityLogs.id));
+  }
+
+  async getRecentActivityLogs(limit: number, excludeActions: string[] = []): Promise<ActivityLog[]> {
+    return this.executor
+      .select()
+      .from(activityLogs)
+      .where(excludeActions.length > 0 ? notInArray(activityLogs.action, excludeActions) : undefined)
+      .orderBy(desc(activityLogs.timestamp))
+      .limit(limit);
+  }
+
+  async searchActivityLogs(query: ActivityLogQuery, page?: PageRequest): Promise<{ logs: ActivityLog[], total: number }> {
+    const conditions: (SQL | undefined)[] = searchTerms(query.q).map(term => {
+      const pattern = containsPattern(term);
+      return or(
+        ilike(activityLogs.action, pattern),
+        ilike(activityLogs.entityId, pattern),
+        ilike(activityLogs.details, pattern)
+      );
+    });
+    if (query.action) conditions.push(inArray(activityLogs.action, query.action));
+    if (query.entityType) conditions.push(inArray(activityLogs.entityType, query.entityType));
+    if (query.from) conditions.push(gte(activityLogs.timestamp, new Date(query.from)));
+    if (query.to) conditions.push(lt(activityLogs.timestamp, dayAfter(query.to)));
+    const where = and(...conditions);
+    
+    const ordered = this.executor
+      .select()
+      .from(activityLogs)
+      .where(where)
+      .orderBy(desc(activityLogs.timestamp), desc(activityLogs.id));
+    const logs = page ? await ordered.limit(page.limit).offset(page.offset) : await ordered;
+    
+    const [{ total }] = await this.executor
+      .select({ total: sql<number>`count(*)::int` })
+      .from(activityLogs)
+      .where(where);
+    
+    return { logs, total };
+  }
+
+  // Quantity Management Operations
+  async updateItemQuantities(itemId: number, quantityLoaned: number, quantityDamaged: number): Promise<InventoryItem | undefined> {
+    const item = await this.getInventoryItem(itemId);
+    if (!item) return undefined;
+    
+    const [updatedItem] = await this.executor
+      .update(inventoryItems)
+      .set({ ...calculateLoanQuantities(item, quantityLoaned, quantityDamaged), updatedAt: new Date() })
+      .where(eq(inventoryItems.id, itemId))
+      .returning();
+    return updatedItem;
+  }
+
+  async markItemDamaged(itemId: number, quantity: number): Promise<InventoryItem | undefined> {
+    const item = await this.getInventoryItem(itemId);
+    if (!item) return undefined;
+    
+    const [updatedItem] = await this.executor
+      .update(inventoryItems)
+      .set({ ...calculateDamageQuantities(item, quantity), updatedAt: new Date() })
+      .where(eq(inventoryItems.id, itemId))
+      .returning();
+    return updatedItem;
+  }
+
+  async markItemRepaired(itemId: number, quantity: number): Promise<InventoryItem | undefined> {
+    const item = await this.getInventoryItem(itemId);
+    if (!item) return undefined;
+    
+    const [updatedItem] = await this.executor
+      .update(inventoryItems)
+      .set({ ...calculateRepairQuantities(item, quantity), updatedAt: new Date() })
+      .where(eq(inventoryItems.id, itemId))
+      .returning();
+    return updatedItem;
+  }
+
+  async updateItemLifecycle(itemId: number, lifecycleStatuses: string[], lifecycleDate: string, lifecycleReason: string, quantityLifecycled: number, createdBy: number): Promise<InventoryItem | undefined> {
+    const item = await this.getInventoryItem(itemId);
+    if (!item) return undefined;
+    
+    // Validate quantity before recording anything
+    const quantities = calculateLifecycleQuantities(item, quantityLifecycled);
+    
+    await this.executor.insert(lifecycleHistory).values({
+      itemId,
+      lifecycleStatuses,
+      lifecycleDate,
+      lifecycleReason,
+      quantityLifecycled,
+      createdBy
+    });
+    
+    // Update item quantities and set latest lifecycle info for backward compatibility
+    const [updatedItem] = await this.executor
+      .update(inventoryItems)
+      .set({
+        lifecycleStatuses,
+        lifecycleDate,
+        lifecycleReason,
+        ...quantities,
+        updatedAt: new Date()
+      })
+      .where(eq(inventoryItems.id, itemId))
+      .returning();
+    return updatedItem;
+  }
+
+  // Asset Unit Operations
+  async listAssetUnits(itemId: number): Promise<AssetUnit[]> {
+    const units = await this.executor.select().from(assetUnits).where(eq(assetUnits.itemId, itemId));
+    return units.sort(compareSerialNumbers);
+  }
+
+  async getAssetUnit(id: number): Promise<AssetUnit | undefined> {
+    const [unit] = await this.executor.select().from(assetUnits).where(eq(assetUnits.id, id));
+    return unit;
+  }
+
+  async createAssetUnit(itemId: number, insertUnit: InsertAssetUnit): Promise<AssetUnit> {
+    const [unit] = await this.executor.insert(assetUnits).values({ ...insertUnit, itemId }).returning();
+    return unit;
+  }
+
+  async updateAssetUnit(id: number, unitData: Partial<InsertAssetUnit> & { status?: AssetUnitStatus }): Promise<AssetUnit | undefined> {
+    const [unit] = await this.executor
+      .update(assetUnits)
+      .set({ ...unitData, updatedAt: new Date() })
+      .where(eq(assetUnits.id, id))
+      .returning();
+    return unit;
+  }
+
+  async deleteAssetUnit(id: number): Promise<boolean> {
+    const deleted = await this.executor.delete(assetUnits).where(eq(assetUnits.id, id)).returning({ id: assetUnits.id });
+    return deleted.length > 0;
+  }
+
+  async syncUnitTotals(itemId: number): Promise<InventoryItem | undefined> {
+    const units = await this.listAssetUnits(itemId);
+    const [updatedItem] = await this.executor
+      .update(inventoryItems)
+      .set({ ...calculateUnitQuantities(units), updatedAt: new Date() })
+      .where(eq(inventoryItems.id, itemId))
+      .returning();
+    return updatedItem;
+  }
+
+  // Category Operations
+  async listCategories(): Promise<Category[]> {
+    return await this.executor.select().from(categories).orderBy(asc(categories.name));
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    const [category] = await this.executor.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    const [category] = await this.executor.insert(categories).values(insertCategory).returning();
+    return category;
+  }
+
+  async updateCategory(id: number, categoryData: Partial<InsertCategory>): Promise<Category | undefined> {
+    const [category] = await this.executor
+      .update(categories)
+      .set({ ...categoryData, updatedAt: new Date() })
+      .where(eq(categories.id, id))
+      .returning();
+    return category;
+  }
+
+  async deleteCategory(id: number): Promise<boolean> {
+    const deleted = await this.executor.delete(categories).where(eq(categories.id, id)).returning({ id: categories.id });
+    return deleted.length > 0;
+  }
+
+  async renameItemCategory(from: string, to: string): Promise<number> {
+    const renamed = await this.executor
+      .update(inventoryItems)
+      .set({ category: to, updatedAt: new Date() })
+      .where(eq(inventoryItems.category, from))
+      .returning({ id: inventoryItems.id });
+    return renamed.length;
+  }
+
+  // Borrower Operations
+  async listBorrowers(): Promise<Borrower[]> {
+    return await this.executor.select().from(borrowers).orderBy(asc(borrowers.name), asc(borrowers.id));
+  }
+
+  async getBorrower(id: number): Promise<Borrower | undefined> {
+    const [borrower] = await this.executor.select().from(borrowers).where(eq(borrowers.id, id));
+    return borrower;
+  }
+
+  async createBorrower(insertBorrower: InsertBorrower): Promise<Borrower> {
+    const [borrower] = await this.executor.insert(borrowers).values(insertBorrower).returning();
+    return borrower;
+  }
+
+  async updateBorrower(id: number, borrowerData: Partial<InsertBorrower>): Promise<Borrower | undefined> {
+    const [borrower] = await this.executor
+      .update(borrowers)
+      .set({ ...borrowerData, updatedAt: new Date() })
+      .where(eq(borrowers.id, id))
+      .returning();
+    return borrower;
+  }
+
+  async setBorrowerBlock(id: number, blockedReason: string | null): Promise<Borrower | undefined> {
+    const now = new Date();
+    const [borrower] = await this.executor
+      .update(borrowers)
+      .set({ blockedAt: blockedReason === null ? null : now, blockedReason, updatedAt: now })
+      .where(eq(borrowers.id, id))
+      .returning();
+    return borrower;
+  }
+
+  async deleteBorrower(id: number): Promise<boolean> {
+    const deleted = await this.executor.delete(borrowers).where(eq(borrowers.id, id)).returning({ id: borrowers.id });
+    return deleted.length > 0;
+  }
+
+  // Location Operations
+  async listLocations(): Promise<Location[]> {
+    return await this.executor.select().from(locations).orderBy(asc(locations.name));
+  }
+
+  async getLocation(id: number): Promise<Location | undefined> {
+    const [location] = await this.executor.select().from(locations).where(eq(locations.id, id));
+    return location;
+  }
+
+  async createLocation(insertLocation: InsertLocation & { kind: LocationKind }): Promise<Location> {
+    const [location] = await this.executor.insert(locations).values(insertLocation).returning();
+    return location;
+  }
+
+  async updateLocation(id: number, locationData: Partial<InsertLocation>): Promise<Location | undefined> {
+    const [location] = await this.executor
+      .update(locations)
+      .set({ ...locationData, updatedAt: new Date() })
+      .where(eq(locations.id, id))
+      .returning();
+    return location;
+  }
+
+  async deleteLocation(id: number): Promise<boolean> {
+    const deleted = await this.executor.delete(locations).where(eq(locations.id, id)).returning({ id: locations.id });
+    return deleted.length > 0;
+  }
+
+  async listItemStock(itemId?: number): Promise<ItemStock[]> {
+    return await this.executor
+      .select()
+      .from(itemStock)
+      .where(itemId === undefined ? undefined : eq(itemStock.itemId, itemId))
+      .orderBy(asc(itemStock.id));
+  }
+
+  async replaceItemStock(itemId: number, lines: { locationId: number; quantity: number }[]): Promise<ItemStock[]> {
+    await this.executor.delete(itemStock).where(eq(itemStock.itemId, itemId));
+    const rows = lines
+      .filter(line => line.quantity > 0)
+      .map(line => ({ itemId, locationId: line.locationId, quantity: line.quantity }));
+    if (rows.length === 0) return [];
+    return await this.executor.insert(itemStock).values(rows).returning();
+  }
+
+
+  // Unit of Work
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Inside an open transaction this becomes a savepoint
+    return this.executor.transaction((tx) => work(new DatabaseStorage(tx)));
+  }
+
+  async lockInventoryItem(id: number): Promise<InventoryItem | undefined> {
+    const [item] = await this.executor
+      .select()
+      .from(inventoryItems)
+      .where(eq(inventoryItems.id, id))
+      .for("update");
+    return item;
+  }
+
+  // Lifecycle History Operations
+  async createLifecycleHistory(insertHistory: InsertLifecycleHistory): Promise<LifecycleHistory> {
+    const [history] = await this.executor.insert(lifecycleHistory).values(insertHistory).returning();
+    return history;
+  }
+
+  async getLifecycleHistoryByItemId(itemId: number): Promise<LifecycleHistory[]> {
+    return this.executor
+      .select()
+      .from(lifecycleHistory)
+      .where(eq(lifecycleHistory.itemId, itemId))
+      .orderBy(desc(lifecycleHistory.createdAt));
+  }
+
+  async listLifecycleHistory(): Promise<LifecycleHistory[]> {
+    return this.executor.select().from(lifecycleHistory).orderBy(desc(lifecycleHistory.createdAt));
+  }
+}
+
+export const storage: IStorage = config.storageBackend === "database"
+  ? new DatabaseStorage()
+  : new MemStorage();
+
+// A fresh store has no accounts; seed a default admin who has to pick a new password on first login
+export async function ensureDefaultAdmin(): Promise<void> {
+  const existingUsers = await storage.listUsers();
+  if (existingUsers.length > 0) return;
+  
+  await storage.createUser({
+    username: "admin",
+    password: "admin123",
+    name: "Admin User",
+    email: "admin@bonevet.org",
+    role: "admin",
+    active: true,
+    mustChangePassword: true
+  });
+}
+
+// Seeds the categories on first start: the built-in ones plus any category name items already use
+export async function ensureDefaultCategories(): Promise<void> {
+  const existingCategories = await storage.listCategories();
+  if (existingCategories.length > 0) return;
+  
+  const itemCategories = (await storage.getInventoryItemsByCategory()).map(({ category }) => category);
+  const names = Array.from(new Set([...defaultCategoryNames, ...itemCategories]));
+  for (const name of names) {
+    await storage.createCategory({ name, fields: [] });
+  }
+}
+
+// Turns the free-text locations of items registered before the location tree into sites, so
+// "Main Workshop" and "main workshop" become one place, and links the items to them
+export async function ensureItemLocations(): Promise<void> {
+  const existingLocations = await storage.listLocations();
+  if (existingLocations.length > 0) return;
+  
+  await storage.transaction(async (tx) => {
+    const sites = new Map<string, Location>();
+    for (const item of await tx.listInventoryItems()) {
+      const name = item.location?.trim().replace(/\s+/g, " ").slice(0, 60);
+      if (!name) continue;
+      let site = sites.get(name.toLowerCase());
+      if (!site) {
+        site = await tx.createLocation({ name, kind: "Site", parentId: null });
+        sites.set(name.toLowerCase(), site);
+      }
+      await tx.updateInventoryItem(item.id, { locationId: site.id, location: site.name });
+    }
+  });
+}
+
+// Turns the free-text borrowers of loans made before the borrower registry into registered borrowers,
+// so "Ana Berisha" and "ana  berisha" become one, and links the loans to them. Each borrower takes the
+// name and type of their latest loan and the most recent contact given
+export async function ensureBorrowers(): Promise<void> {
+  const existingBorrowers = await storage.listBorrowers();
+  if (existingBorrowers.length > 0) return;
+  
+  await storage.transaction(async (tx) => {
+    const rows = [
+      ...(await tx.listLoanGroups())
+        .filter((group) => group.borrowerName.trim())
+        .map((group) => ({ group, loan: undefined, date: new Date(group.loanDate) })),
+      ...(await tx.listLoans())
+        .filter((loan) => loan.loanGroupId === null && loan.borrowerName?.trim())
+        .map((loan) => ({ group: undefined, loan, date: loan.loanDate ? new Date(loan.loanDate) : new Date(0) })),
+    ].sort((a, b) => b.date.getTime() - a.date.getTime());
+    
+    const registered = new Map<string, Borrower>();
+    for (const { group, loan } of rows) {
+      const row = (group ?? loan)!;
+      const name = row.borrowerName!.trim().replace(/\s+/g, " ");
+      let borrower = registered.get(borrowerKey(name));
+      if (!borrower) {
+        const borrowerType = row.borrowerType?.trim() || "Other";
+        borrower = await tx.createBorrower({
+          kind: borrowerKind(borrowerType),
+          name,
+          borrowerType,
+          ...splitContact(row.borrowerContact),
+        });
+        registered.set(borrowerKey(name), borrower);
+      } else if (!borrower.email && !borrower.phone && row.borrowerContact?.trim()) {
+        borrower = (await tx.updateBorrower(borrower.id, splitContact(row.borrowerContact)))!;
+        registered.set(borrowerKey(name), borrower);
+      }
+      if (group) {
+        await tx.updateLoanGroup(group.id, { borrowerId: borrower.id });
+      } else {
+        await tx.updateLoan(loan!.id, { borrowerId: borrower.id });
+      }
+    }
+  });
+}
@@ -0,0 +1,66 @@
+// Storage backends for the *.test.ts files: MemStorage, and DatabaseStorage on an in-process
+// Postgres (PGlite) built from shared/schema.ts, so behaviour tests run against both without a server
+import { createRequire } from "node:module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { InsertInventoryItem, InsertLoan, InventoryItem, Loan } from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit/api is CommonJS that requires Node built-ins, which its ESM build cannot
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+let database: { client: PGlite; statements: string[] } | undefined;
+
+// One PGlite instance per test file, emptied and rebuilt for each store
+async function createDatabaseStorage(): Promise<IStorage> {
+  if (!database) {
+    database = {
+      client: new PGlite(),
+      statements: await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema)),
+    };
+  }
+  const { client, statements } = database;
+  await client.exec("DROP SCHEMA public CASCADE; CREATE SCHEMA public;");
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return new DatabaseStorage(drizzle(client, { schema }) as unknown as ConstructorParameters<typeof DatabaseStorage>[0]);
+}
+
+export const backends: { name: string; create: () => Promise<IStorage> }[] = [
+  { name: "MemStorage", create: async () => new MemStorage() },
+  { name: "DatabaseStorage", create: createDatabaseStorage },
+];
+
+let itemCount = 0;
+
+// A quantity-tracked item with every unit available
+export async function createTestItem(store: IStorage, quantity: number, fields: Partial<InsertInventoryItem> = {}): Promise<InventoryItem> {
+  return store.createInventoryItem({
+    itemId: `TEST${(++itemCount).toString().padStart(4, "0")}`,
+    name: "Folding Chair",
+    category: "Equipment",
+    status: "Available",
+    usage: "None",
+    quantity,
+    ...fields,
+  });
+}
+
+// An individual loan with the item quantities updated as POST /api/loans does
+export async function createTestLoan(store: IStorage, item: InventoryItem, quantity: number, fields: Partial<InsertLoan> = {}): Promise<Loan> {
+  const loan = await store.createLoan({
+    itemId: item.id,
+    quantityLoaned: quantity,
+    borrowerName: "Ana Berisha",
+    borrowerType: "Member",
+    loanDate: new Date(),
+    expectedReturnDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    createdBy: 1,
+    ...fields,
+  });
+  const current = (await store.getInventoryItem(item.id))!;
+  await store.updateItemQuantities(item.id, current.quantityLoaned + quantity, current.quantityDamaged);
+  return loan;
+}
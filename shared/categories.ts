@@ -0,0 +1,107 @@
+import type { Category, CustomFieldDefinition, CustomFieldValue, CustomFieldValues } from "./schema";
+
+// The category followed by its parents, nearest first. A parent chain that loops stops where it repeats.
+export function categoryAncestry(categories: Category[], name: string): Category[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const chain: Category[] = [];
+  let current = categories.find((category) => category.name === name);
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+}
+
+// Categories for pick-lists in tree order, labelled with their path, e.g. "Electronics › Laptops"
+export function categoryOptions(categories: Category[]): { name: string; label: string }[] {
+  return categories
+    .map((category) => ({
+      name: category.name,
+      label: categoryAncestry(categories, category.name).reverse().map((ancestor) => ancestor.name).join(" › "),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// Fields an item of the category fills in: the top-level parent's first, down to the category's own.
+// A field redefined further down replaces the inherited one with the same key.
+export function categoryFields(categories: Category[], name: string): CustomFieldDefinition[] {
+  const fields = new Map<string, CustomFieldDefinition>();
+  for (const category of categoryAncestry(categories, name).reverse()) {
+    for (const field of category.fields) {
+      fields.delete(field.key);
+      fields.set(field.key, field);
+    }
+  }
+  return Array.from(fields.values());
+}
+
+// The named categories together with every category below them
+export function withSubcategories(categories: Category[], names: string[]): string[] {
+  return categories
+    .filter((category) => categoryAncestry(categories, category.name).some((ancestor) => names.includes(ancestor.name)))
+    .map((category) => category.name)
+    .concat(names.filter((name) => !categories.some((category) => category.name === name)));
+}
+
+export type CustomFieldError = { field: string; message: string };
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+type Parsed = { value: CustomFieldValue } | { error: string };
+
+function parseValue(field: CustomFieldDefinition, value: unknown): Parsed {
+  const text = String(value).trim();
+  switch (field.type) {
+    case "number": {
+      const number = typeof value === "number" ? value : Number(text);
+      return Number.isFinite(number) ? { value: number } : { error: `${field.label} must be a number` };
+    }
+    case "date":
+      return /^\d{4}-\d{2}-\d{2}$/.test(text) && !isNaN(Date.parse(text))
+        ? { value: text }
+        : { error: `${field.label} must be a date (YYYY-MM-DD)` };
+    case "boolean":
+      if (value === true || text.toLowerCase() === "true") return { value: true };
+      if (value === false || text.toLowerCase() === "false") return { value: false };
+      return { error: `${field.label} must be yes or no` };
+    case "select":
+      return field.options.includes(text)
+        ? { value: text }
+        : { error: `${field.label} must be one of: ${field.options.join(", ")}` };
+    default:
+      return text.length <= 500 ? { value: text } : { error: `${field.label} cannot be longer than 500 characters` };
+  }
+}
+
+// Checks submitted values against the category's fields and returns them in their stored form.
+// Keys the category doesn't define are dropped and empty optional fields are left out.
+export function validateCustomFields(
+  fields: CustomFieldDefinition[],
+  values: Record<string, unknown> | undefined,
+): { values: CustomFieldValues; errors: CustomFieldError[] } {
+  const result: CustomFieldValues = {};
+  const errors: CustomFieldError[] = [];
+  for (const field of fields) {
+    const value = values?.[field.key];
+    if (isEmpty(value)) {
+      if (field.required) errors.push({ field: `customFields.${field.key}`, message: `${field.label} is required` });
+      continue;
+    }
+    const parsed = parseValue(field, value);
+    if ("error" in parsed) {
+      errors.push({ field: `customFields.${field.key}`, message: parsed.error });
+    } else {
+      result[field.key] = parsed.value;
+    }
+  }
+  return { values: result, errors };
+}
+
+// A stored value as shown on screen and in exports
+export function formatCustomFieldValue(field: CustomFieldDefinition | undefined, value: CustomFieldValue | undefined): string {
+  if (value === undefined) return "";
+  if (field?.type === "boolean" || typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
@@ -0,0 +1,51 @@
+import { locationKindEnum, type Location, type LocationKind } from "./schema";
+
+// The location followed by its parents, nearest first. A parent chain that loops stops where it repeats.
+export function locationAncestry(locations: Location[], id: number): Location[] {
+  const byId = new Map(locations.map((location) => [location.id, location]));
+  const chain: Location[] = [];
+  let current = byId.get(id);
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+}
+
+// e.g. "Main Site › Workshop › Shelf A"; stored on items so text search and filters keep working
+export function locationPath(locations: Location[], id: number): string {
+  return locationAncestry(locations, id).reverse().map((location) => location.name).join(" › ");
+}
+
+// Locations for pick-lists in tree order, labelled with their path
+export function locationOptions(locations: Location[]): { id: number; label: string; kind: string }[] {
+  return locations
+    .map((location) => ({ id: location.id, label: locationPath(locations, location.id), kind: location.kind }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// The location and every location below it
+export function locationSubtree(locations: Location[], id: number): number[] {
+  return locations
+    .filter((location) => locationAncestry(locations, location.id).some((ancestor) => ancestor.id === id))
+    .map((location) => location.id);
+}
+
+// Level of a new location under `parent`; undefined when the parent is already the innermost level
+export function childKind(parent: Location | undefined): LocationKind | undefined {
+  if (!parent) return "Site";
+  const levels = locationKindEnum.options;
+  return levels[levels.indexOf(parent.kind as LocationKind) + 1];
+}
+
+// Resolves typed text to a location: a full path ("main site > workshop" works too) or a name used only once.
+// Matching ignores case, so "main workshop" finds "Main Workshop".
+export function findLocation(locations: Location[], text: string): Location | undefined {
+  const wanted = text.split(/\s*[›>/]\s*/).map((part) => part.trim().toLowerCase()).filter(Boolean).join(" › ");
+  if (!wanted) return undefined;
+  const byPath = locations.find((location) => locationPath(locations, location.id).toLowerCase() === wanted);
+  if (byPath) return byPath;
+  const name = text.trim().toLowerCase();
+  const byName = locations.filter((location) => location.name.toLowerCase() === name);
+  return byName.length === 1 ? byName[0] : undefined;
+}
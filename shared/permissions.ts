@@ -0,0 +1,57 @@
+import type { UserRole } from "./schema";
+
+// Everything a route or screen can be gated on
+export const permissions = [
+  "inventory:read",
+  "inventory:write",      // add, edit and delete items
+  "inventory:damage",     // mark damaged / repaired
+  "inventory:lifecycle",  // write-offs, disposal, lost items
+  "loans:read",
+  "loans:write",          // create loans and loan groups
+  "loans:return",
+  "loans:approve",        // approve loan extensions when settings require it
+  "loans:override",       // lend despite the lending rules and keep the borrower blocklist
+  "documents:read",
+  "documents:write",
+  "documents:sign",
+  "users:manage",
+  "settings:manage",
+  "audit:read",
+] as const;
+
+export type Permission = typeof permissions[number];
+
+const readOnly: Permission[] = ["inventory:read", "loans:read", "documents:read"];
+
+// Permission matrix, checked by the server on every route and mirrored by the client to hide actions
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  admin: permissions,
+  approver: [...readOnly, "documents:sign", "inventory:lifecycle", "loans:approve"],
+  loan_officer: [...readOnly, "loans:write", "loans:return", "documents:write"],
+  storekeeper: [...readOnly, "inventory:write", "inventory:damage", "documents:write"],
+  viewer: readOnly,
+  user: [
+    ...readOnly,
+    "inventory:write",
+    "inventory:damage",
+    "inventory:lifecycle",
+    "loans:write",
+    "loans:return",
+    "documents:write",
+    "documents:sign",
+  ],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: "Administrator",
+  approver: "Approver",
+  loan_officer: "Loan Officer",
+  storekeeper: "Storekeeper",
+  viewer: "Viewer",
+  user: "Staff",
+};
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  if (!role || !(role in rolePermissions)) return false;
+  return rolePermissions[role as UserRole].includes(permission);
+}
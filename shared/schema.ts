@@ -1,7 +1,17 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, date, varchar, json, index, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// User Role Enum ("user" is the original all-round staff role, kept for existing accounts)
+export const userRoleEnum = z.enum([
+  "admin",
+  "approver",
+  "loan_officer",
+  "storekeeper",
+  "viewer",
+  "user"
+]);
+
 // User Model
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -11,8 +21,23 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   role: text("role").notNull().default("user"),
   active: boolean("active").notNull().default(true),
+  mustChangePassword: boolean("must_change_password").notNull().default(false), // Set for seeded accounts
+  passwordChangedAt: timestamp("password_changed_at"),
+  // TOTP two-factor authentication
+  twoFactorRequired: boolean("two_factor_required").notNull().default(false), // Set by an admin
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
+  twoFactorSecret: text("two_factor_secret"), // Base32, only set once enrollment is confirmed
+  twoFactorRecoveryCodes: text("two_factor_recovery_codes").array(), // SHA-256 digests of unused codes
+  twoFactorLastCounter: integer("two_factor_last_counter"), // Last accepted time step, to stop replays
 });
 
+// Password policy applied wherever a password is chosen
+export const passwordSchema = z.string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password cannot be longer than 128 characters")
+  .regex(/[A-Za-z]/, "Password must contain a letter")
+  .regex(/[0-9]/, "Password must contain a number");
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -20,18 +45,144 @@ export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
   role: true,
   active: true,
+  mustChangePassword: true,
+  twoFactorRequired: true,
+}).extend({
+  password: passwordSchema,
+  role: userRoleEnum.default("user"),
+});
+
+// Admins may change anything but the username when editing a user
+export const updateUserSchema = insertUserSchema.omit({ username: true }).partial();
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+}).refine((data) => data.currentPassword !== data.newPassword, {
+  message: "New password must be different from the current one",
+  path: ["newPassword"],
 });
 
-// Item Category Enum
-export const itemCategoryEnum = z.enum([
+// Second login step, either a code from the authenticator app or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app").optional(),
+  recoveryCode: z.string().trim().min(1).optional(),
+}).refine((data) => !!data.code !== !!data.recoveryCode, {
+  message: "Provide either an authenticator code or a recovery code",
+});
+
+// API Token Scope Enum ("read" tokens may only make GET requests)
+export const apiTokenScopeEnum = z.enum(["read", "write"]);
+
+// API Token Model - personal tokens for scripted access, sent as "Authorization: Bearer <token>"
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token, which is only shown once
+  tokenPrefix: text("token_prefix").notNull(), // First characters, to tell tokens apart in the list
+  scope: text("scope").notNull().default("read"),
+  expiresAt: timestamp("expires_at"), // Null for tokens that never expire
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: apiTokenScopeEnum,
+  expiresInDays: z.number().int().min(1).max(365).nullable(), // Null for no expiry
+});
+
+// Session Model - owned by connect-pg-simple, declared here so db:push keeps the table
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
+// Categories seeded into an empty categories table
+export const defaultCategoryNames = [
   "Furniture",
   "Equipment",
   "Tools",
   "Electronics",
   "Software",
   "Other"
+];
+
+// Custom Field Types - values are stored as strings (text, select, date as YYYY-MM-DD), numbers or booleans
+export const customFieldTypeEnum = z.enum(["text", "number", "date", "select", "boolean"]);
+
+export const customFieldDefinitionSchema = z.object({
+  key: z.string()
+    .trim()
+    .regex(/^[a-z][a-z0-9_]*$/, "Use lower-case letters, digits and underscores, starting with a letter")
+    .max(40),
+  label: z.string().trim().min(1, "Label is required").max(60),
+  type: customFieldTypeEnum,
+  required: z.boolean().default(false),
+  options: z.array(z.string().trim().min(1)).default([]), // Choices of a select field
+}).refine((field) => field.type !== "select" || field.options.length > 0, {
+  message: "A select field needs at least one option",
+  path: ["options"],
+});
+
+// Category Model - items refer to their category by name; a child category inherits its parent's fields
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id),
+  description: text("description"),
+  fields: json("fields").$type<CustomFieldDefinition[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+const categoryFieldsSchema = z.array(customFieldDefinitionSchema)
+  .refine((fields) => new Set(fields.map((field) => field.key)).size === fields.length, "Field keys must be unique");
+
+export const insertCategorySchema = createInsertSchema(categories)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(50),
+    parentId: z.number().int().positive().nullable().optional(),
+    description: z.string().trim().max(200).nullable().optional(),
+    fields: categoryFieldsSchema.default([]),
+  });
+
+// Without the default, so leaving fields out of an update keeps them
+export const updateCategorySchema = insertCategorySchema.extend({ fields: categoryFieldsSchema }).partial();
+
+// Location Kind Enum - the levels of the location tree, outermost first
+export const locationKindEnum = z.enum([
+  "Site",
+  "Room",
+  "Shelf/Bin"
 ]);
 
+// Location Model - sites contain rooms and rooms contain shelves or bins. A location's level
+// follows from its parent and it stays where it was created in the tree.
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(),
+  parentId: integer("parent_id").references((): AnyPgColumn => locations.id),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertLocationSchema = createInsertSchema(locations)
+  .omit({ id: true, kind: true, createdAt: true, updatedAt: true })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(60),
+    parentId: z.number().int().positive().nullable().optional(),
+    notes: z.string().trim().max(200).nullable().optional(),
+  });
+
+export const updateLocationSchema = insertLocationSchema.omit({ parentId: true }).partial();
+
 // Item Status Enum
 export const itemStatusEnum = z.enum([
   "Available",
@@ -67,7 +218,8 @@ export const inventoryItems = pgTable("inventory_items", {
   model: text("model"),
   category: text("category").notNull(),
   status: text("status").notNull().default("Available"),
-  location: text("location"),
+  location: text("location"), // Path of the main location, e.g. "Main Site › Workshop › Shelf A"
+  locationId: integer("location_id").references((): AnyPgColumn => locations.id), // Where new and unplaced stock is kept
   quantity: integer("quantity").notNull().default(1), // Total quantity registered
   quantityAvailable: integer("quantity_available").notNull().default(1), // Available for loan
   quantityLoaned: integer("quantity_loaned").notNull().default(0), // Currently loaned out
@@ -82,6 +234,8 @@ export const inventoryItems = pgTable("inventory_items", {
   lifecycleDate: date("lifecycle_date"), // Date when lifecycle actions were taken
   lifecycleReason: text("lifecycle_reason"), // Reason for lifecycle actions
   quantityLifecycled: integer("quantity_lifecycled").notNull().default(0), // How many units went through lifecycle
+  serialized: boolean("serialized").notNull().default(false), // Quantities are counted from asset_units
+  customFields: json("custom_fields").$type<CustomFieldValues>().notNull().default({}), // Keyed by the category's field keys
   
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -99,29 +253,217 @@ export const lifecycleHistory = pgTable("lifecycle_history", {
   createdBy: integer("created_by").notNull(), // User who made the lifecycle change
 });
 
+// Asset Unit Status Enum - only loans, damage/repair and lifecycle actions move a unit between these
+export const assetUnitStatusEnum = z.enum([
+  "Available",
+  "Loaned Out",
+  "Damaged",
+  "Retired"
+]);
+
+// Asset Unit Condition Enum
+export const assetUnitConditionEnum = z.enum([
+  "New",
+  "Good",
+  "Fair",
+  "Poor"
+]);
+
+// Asset Unit Model - the individual, serial-numbered units of an item. Once an item has units it is
+// "serialized" and its quantity columns are counted from them (retired units count as lifecycled).
+export const assetUnits = pgTable("asset_units", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => inventoryItems.id, { onDelete: "cascade" }),
+  serialNumber: text("serial_number").notNull(),
+  condition: text("condition").notNull().default("Good"),
+  location: text("location"), // Where this unit is kept, when not with the rest of the item
+  status: text("status").notNull().default("Available"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique("asset_units_item_serial").on(table.itemId, table.serialNumber)]);
+
+export const insertAssetUnitSchema = createInsertSchema(assetUnits)
+  .omit({ id: true, itemId: true, status: true, createdAt: true, updatedAt: true })
+  .extend({
+    serialNumber: z.string().trim().min(1, "Serial number is required").max(100),
+    condition: assetUnitConditionEnum.default("Good"),
+  });
+
+export const createAssetUnitsSchema = z.object({
+  units: z.array(insertAssetUnitSchema).min(1, "Add at least one unit").max(500),
+});
+
+export const updateAssetUnitSchema = insertAssetUnitSchema.partial();
+
+// Item Stock Model - how many units of an item are kept at each location. Stock not recorded here is at
+// the item's main location; see server/locations.ts.
+export const itemStock = pgTable("item_stock", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => inventoryItems.id, { onDelete: "cascade" }),
+  locationId: integer("location_id").notNull().references(() => locations.id),
+  quantity: integer("quantity").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique("item_stock_item_location").on(table.itemId, table.locationId)]);
+
+export const transferStockSchema = z.object({
+  fromLocationId: z.number().int().positive(),
+  toLocationId: z.number().int().positive(),
+  quantity: z.number().int().positive("Quantity must be at least 1"),
+  notes: z.string().trim().max(500).optional(),
+});
+
 export const insertInventoryItemSchema = createInsertSchema(inventoryItems)
-  .omit({ id: true, createdAt: true, updatedAt: true })
+  .omit({ id: true, serialized: true, createdAt: true, updatedAt: true })
   .extend({
-    category: itemCategoryEnum,
+    category: z.string().trim().min(1, "Category is required"), // Must name an existing category
     status: itemStatusEnum,
     usage: itemUsageEnum,
     itemId: z.string().optional(),
+    locationId: z.number().int().positive().nullable().optional(),
+    customFields: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
     lifecycleStatuses: z.array(assetLifecycleStatusEnum).optional(),
     lifecycleDate: z.string().optional(),
     lifecycleReason: z.string().optional(),
     quantityLifecycled: z.number().int().positive().optional(),
   });
 
+// Inventory query parameters for GET /api/inventory. Filters with several values take the
+// parameter repeatedly (?category=Tools&category=Furniture) and match any of them.
+const multiValue = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(
+  (value) => (value === undefined || Array.isArray(value) ? value : [value]),
+  z.array(schema).optional()
+);
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+export const inventorySortKeys = [
+  "itemId", "name", "category", "status", "location", "quantity", "quantityAvailable", "price", "createdAt", "updatedAt"
+] as const;
+
+export const inventoryQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(), // Every word must appear in the item ID, name, model, location, notes or a custom field
+  category: multiValue(z.string()), // Also matches the subcategories of each category
+  status: multiValue(itemStatusEnum),
+  usage: multiValue(itemUsageEnum),
+  location: multiValue(z.string()),
+  priceMin: z.coerce.number().nonnegative().optional(),
+  priceMax: z.coerce.number().nonnegative().optional(),
+  createdFrom: dateParam.optional(), // Inclusive
+  createdTo: dateParam.optional(), // Inclusive
+  sort: z.enum(inventorySortKeys).default("itemId"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  // Without page or pageSize the response is the plain array of every match
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+// Inventory import: spreadsheet columns are mapped onto these item fields (field → column header)
+export const inventoryImportFields = [
+  "itemId", "name", "model", "category", "status", "location", "quantity", "price", "usage", "notes"
+] as const;
+
+export const inventoryImportMappingSchema = z.record(z.enum(inventoryImportFields), z.string().min(1));
+
+// Exports (GET /api/export/:dataset?format=). Each dataset takes the same filters as its list screen.
+export const exportFormats = ["csv", "xlsx", "json"] as const;
+
+export const loanQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(), // Borrower name or contact, loan group ID or item ID
+  status: multiValue(z.string()),
+  loanFrom: dateParam.optional(), // Inclusive, on the loan date
+  loanTo: dateParam.optional(), // Inclusive
+});
+
+export const lifecycleHistoryQuerySchema = z.object({
+  itemId: z.coerce.number().int().positive().optional(), // Internal item id
+  from: dateParam.optional(), // Inclusive, on the lifecycle date
+  to: dateParam.optional(), // Inclusive
+});
+
+export const activityLogQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(), // Every word must appear in the action, entity ID or details
+  action: multiValue(z.string()),
+  entityType: multiValue(z.string()),
+  from: dateParam.optional(), // Inclusive
+  to: dateParam.optional(), // Inclusive
+});
+
+// Asset labels (GET /api/inventory/labels), rendered as a PDF sheet
+export const labelLayoutEnum = z.enum(["a4-3x8", "thermal-50x25"]);
+export const labelCodeEnum = z.enum(["both", "qr", "code128"]);
+
+export const labelQuerySchema = z.object({
+  ids: multiValue(z.coerce.number().int().positive()).pipe(z.array(z.number()).min(1, "Choose at least one item").max(500)),
+  layout: labelLayoutEnum.default("a4-3x8"),
+  codes: labelCodeEnum.default("both"),
+  copies: z.coerce.number().int().min(1).max(50).default(1), // Labels per item
+  start: z.coerce.number().int().min(1).default(1), // First free position on a part-used sheet
+});
+
+// Loan Status Enum - loans still out after their expected return date are flagged Overdue by the
+// server's overdue check (server/overdueLoans.ts) and become Ongoing again if the date moves out
+export const loanStatusEnum = z.enum([
+  "Ongoing",
+  "Overdue",
+  "Returned"
+]);
+
+// Borrower Kind Enum
+export const borrowerKindEnum = z.enum([
+  "Person",
+  "Organization"
+]);
+
+// Borrower Model - the people and organizations items are lent to. Loans keep a copy of the borrower's
+// name, type and contact as they were when the loan was made
+export const borrowers = pgTable("borrowers", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull().default("Person"), // See borrowerKindEnum
+  name: text("name").notNull(),
+  borrowerType: text("borrower_type").notNull(), // Staff, Member, Other Organization, Other
+  email: text("email"),
+  phone: text("phone"),
+  idDocument: text("id_document"), // Type and number of the ID shown, e.g. "ID card 1234567"
+  membershipNumber: text("membership_number"),
+  notes: text("notes"),
+  blockedAt: timestamp("blocked_at"), // On the blocklist since; see PUT /api/borrowers/:id/block
+  blockedReason: text("blocked_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertBorrowerSchema = createInsertSchema(borrowers)
+  .omit({ id: true, blockedAt: true, blockedReason: true, createdAt: true, updatedAt: true })
+  .extend({
+    kind: borrowerKindEnum,
+    name: z.string().trim().min(1, "Name is required").max(100),
+    borrowerType: z.string().trim().min(1, "Borrower type is required").max(40),
+    email: z.string().trim().email("Invalid email address").max(100).nullable().optional(),
+    phone: z.string().trim().max(40).nullable().optional(),
+    idDocument: z.string().trim().max(100).nullable().optional(),
+    membershipNumber: z.string().trim().max(40).nullable().optional(),
+    notes: z.string().trim().max(500).nullable().optional(),
+  });
+
+export const updateBorrowerSchema = insertBorrowerSchema.partial();
+
+// PUT /api/borrowers/:id/block
+export const blockBorrowerSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+});
+
 // Loan Group Model (for grouping multiple items in one loan)
 export const loanGroups = pgTable("loan_groups", {
   id: serial("id").primaryKey(),
   loanGroupId: text("loan_group_id").notNull().unique(), // LOAN-2025-001 format
+  borrowerId: integer("borrower_id").references(() => borrowers.id),
   borrowerName: text("borrower_name").notNull(),
   borrowerType: text("borrower_type").notNull(), // Staff, Member, Other Organization
   borrowerContact: text("borrower_contact"),
   loanDate: date("loan_date").notNull(),
   expectedReturnDate: date("expected_return_date").notNull(),
-  status: text("status").notNull().default("Ongoing"), // Ongoing, Returned, Overdue
+  originalExpectedReturnDate: date("original_expected_return_date"), // Set by the first extension
+  status: text("status").notNull().default("Ongoing"), // See loanStatusEnum
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   createdBy: integer("created_by").notNull(),
@@ -132,20 +474,39 @@ export const loans = pgTable("loans", {
   id: serial("id").primaryKey(),
   loanGroupId: integer("loan_group_id"), // Reference to loan_groups.id, made optional
   itemId: integer("item_id").notNull(),
+  unitId: integer("unit_id"), // Reference to asset_units.id; serialized items are loaned one unit per row
   quantityLoaned: integer("quantity_loaned").notNull().default(1), // How many units of this item are loaned
+  quantityReturned: integer("quantity_returned").notNull().default(0), // Units back so far; see loanReturns
+  borrowerId: integer("borrower_id").references(() => borrowers.id), // For individual loans (not in a group)
   borrowerName: text("borrower_name"), // For individual loans (not in a group)
   borrowerType: text("borrower_type"), // Staff, Student, Other Organization, etc.
   borrowerContact: text("borrower_contact"),
   loanDate: timestamp("loan_date"), // Date when the item was loaned out
   expectedReturnDate: timestamp("expected_return_date"), // Expected return date
+  originalExpectedReturnDate: timestamp("original_expected_return_date"), // Set by the first extension
   actualReturnDate: date("actual_return_date"),
-  status: text("status").notNull().default("Ongoing"), // Ongoing, Returned, Overdue
+  status: text("status").notNull().default("Ongoing"), // See loanStatusEnum
   notes: text("notes"),
   createdBy: integer("created_by"), // User who processed the loan
 });
 
+// Lending rules checked when a loan or loan group is made (see server/loanEligibility.ts)
+export const loanRuleEnum = z.enum([
+  "blocked",          // Borrower is on the blocklist
+  "overdue",          // Borrower has loans out past their due date
+  "unresolvedDamage", // Borrower returned units Damaged or Missing that are not resolved yet
+  "maxItems",         // More units out at once than the borrower type may have
+  "maxDuration",      // Longer than an item's category may be lent for
+]);
+
+// The "override" field of POST /api/loans and POST /api/loan-groups
+export const loanRuleOverrideSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to override the lending rules").max(500),
+});
+
 // Schema for creating a loan group with items
 export const insertLoanGroupSchema = z.object({
+  borrowerId: z.number().int().positive().optional(), // Registered borrower; otherwise found or added by name
   borrowerName: z.string().min(1, "Borrower name is required"),
   borrowerType: z.string().min(1, "Borrower type is required"),
   borrowerContact: z.string().optional(),
@@ -155,17 +516,121 @@ export const insertLoanGroupSchema = z.object({
   createdBy: z.number().optional(), // Added by server
   items: z.array(z.object({
     id: z.number(),
-    quantity: z.number().min(1, "Quantity must be at least 1")
+    quantity: z.number().min(1, "Quantity must be at least 1"),
+    unitIds: z.array(z.number().int().positive()).optional(), // Serialized items: units to lend, the rest picked by the server
   })).min(1, "At least one item must be selected"), // Array of item objects with quantities
+  override: loanRuleOverrideSchema.optional(), // Lend despite the lending rules; needs loans:override
 });
 
 // Schema for individual loan items (used internally)
 export const insertLoanSchema = createInsertSchema(loans)
-  .omit({ id: true, actualReturnDate: true, status: true })
+  .omit({ id: true, quantityReturned: true, originalExpectedReturnDate: true, actualReturnDate: true, status: true })
   .extend({
     loanGroupId: z.number().optional(), // Make loanGroupId optional for individual loans
   });
 
+// Condition of units checked in on return. Damaged units go to damaged stock and Missing units are
+// written off as Lost Items (see server/loanReturns.ts).
+export const returnConditionEnum = z.enum([
+  "Good",
+  "Worn",
+  "Damaged",
+  "Missing"
+]);
+
+// Loan Return Model - one row per loan line each time some of its units come back, so a loan can be
+// returned in several visits. The loan is Returned once quantityReturned reaches quantityLoaned.
+export const loanReturns = pgTable("loan_returns", {
+  id: serial("id").primaryKey(),
+  loanId: integer("loan_id").notNull(), // Reference to loans.id
+  loanGroupId: integer("loan_group_id"), // Reference to loan_groups.id for lines of a multi-item loan
+  quantity: integer("quantity").notNull(),
+  condition: text("condition").notNull().default("Good"), // See returnConditionEnum
+  photos: text("photos").array().notNull().default([]), // /uploads paths from POST /api/loan-returns/photos
+  returnedAt: timestamp("returned_at").notNull().defaultNow(),
+  receivedBy: integer("received_by").notNull(), // User who checked the units in
+  notes: text("notes"),
+  // Damaged and Missing returns stay unresolved until settled with the borrower
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: integer("resolved_by"),
+  resolutionNote: text("resolution_note"),
+});
+
+export const insertLoanReturnSchema = createInsertSchema(loanReturns).omit({ id: true, resolvedAt: true, resolvedBy: true, resolutionNote: true });
+
+// PUT /api/loan-returns/:id/resolve, e.g. "Paid for the repair"
+export const resolveLoanReturnSchema = z.object({
+  note: z.string().trim().min(1, "Say how it was settled").max(500),
+});
+
+const returnFields = {
+  actualReturnDate: z.coerce.date().optional(), // Defaults to now
+  notes: z.string().trim().max(500).optional(), // For lines without notes of their own
+};
+
+// How the units of one line came back
+const returnConditionFields = {
+  condition: returnConditionEnum.default("Good"),
+  photos: z.array(z.string().regex(/^\/uploads\/[\w.-]+$/, "Upload photos first")).max(5).default([]),
+};
+
+// PUT /api/loans/:id/return; without a quantity everything still out comes back
+export const returnLoanSchema = z.object({
+  quantity: z.number().int().positive("Quantity must be at least 1").optional(),
+  ...returnConditionFields,
+  ...returnFields,
+});
+
+// PUT /api/loan-groups/:id/return; without lines every line comes back in full and in good condition.
+// A loan may be listed more than once to split its units between conditions.
+export const returnLoanGroupSchema = z.object({
+  lines: z.array(z.object({
+    loanId: z.number().int().positive(),
+    quantity: z.number().int().positive("Quantity must be at least 1"),
+    ...returnConditionFields,
+    notes: z.string().trim().max(500).optional(),
+  })).min(1, "Select at least one item to return").optional(),
+  ...returnFields,
+});
+
+export const loanExtensionStatusEnum = z.enum([
+  "Pending",
+  "Approved",
+  "Rejected"
+]);
+
+// Loan Extension Model - each request to move the due date of an individual loan or a loan group.
+// Approved extensions change the due date and issue a new version of the loan agreement; when
+// approval is required (settings.loans) requests from staff without loans:approve wait as Pending.
+export const loanExtensions = pgTable("loan_extensions", {
+  id: serial("id").primaryKey(),
+  loanId: integer("loan_id"), // Reference to loans.id for an individual loan
+  loanGroupId: integer("loan_group_id"), // Reference to loan_groups.id for a multi-item loan
+  previousDueDate: date("previous_due_date").notNull(),
+  newDueDate: date("new_due_date").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").notNull().default("Pending"), // See loanExtensionStatusEnum
+  requestedBy: integer("requested_by").notNull(),
+  requestedAt: timestamp("requested_at").notNull().defaultNow(),
+  decidedBy: integer("decided_by"),
+  decidedAt: timestamp("decided_at"),
+  decisionNote: text("decision_note"),
+  documentId: text("document_id"), // The agreement version issued for it, e.g. DOC-LOAN-2025-004-v2
+});
+
+export const insertLoanExtensionSchema = createInsertSchema(loanExtensions).omit({ id: true });
+
+// POST /api/loans/:id/extensions and /api/loan-groups/:id/extensions
+export const extendLoanSchema = z.object({
+  newDueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a new due date"),
+  reason: z.string().trim().min(1, "Give a reason for the extension").max(500),
+});
+
+// PUT /api/loan-extensions/:id/approve and /reject
+export const decideLoanExtensionSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
 // Document Model
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
@@ -177,6 +642,8 @@ export const documents = pgTable("documents", {
   signedBy: text("signed_by").array(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   createdBy: integer("created_by").notNull(),
+  version: integer("version").notNull().default(1), // Loan agreements get a new version per extension
+  previousVersionId: integer("previous_version_id"), // Reference to documents.id of the version it replaces
 });
 
 export const insertDocumentSchema = createInsertSchema(documents)
@@ -206,18 +673,258 @@ export const insertLifecycleHistorySchema = createInsertSchema(lifecycleHistory)
     quantityLifecycled: z.number().int().positive("Quantity must be positive"),
   });
 
+// Settings Model - one JSON document per key, each validated by its own schema below
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: json("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  updatedBy: integer("updated_by"),
+});
+
+// Sequence Model - named counters, advanced inside the transaction that uses the value
+export const idSequences = pgTable("id_sequences", {
+  name: text("name").primaryKey(),
+  value: integer("value").notNull(),
+});
+
+const idPrefixSchema = (max: number) => z.string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9]+$/, "Only letters and digits are allowed")
+  .max(max, `Cannot be longer than ${max} characters`);
+
+// Item ID format: <prefix><number>, or <prefix>-<category prefix>-<number> for categories that have one
+export const itemIdSettingsSchema = z.object({
+  organizationPrefix: idPrefixSchema(5).pipe(z.string().min(1, "Prefix is required")),
+  categoryPrefixes: z.record(z.string(), idPrefixSchema(4)).default({}), // Keyed by category name
+});
+
+export const defaultItemIdSettings = {
+  organizationPrefix: "BVGJK",
+  categoryPrefixes: {},
+} satisfies z.infer<typeof itemIdSettingsSchema>;
+
+export const accentColorEnum = z.enum(["blue", "green", "purple", "orange", "red"]);
+
+export const organizationSettingsSchema = z.object({
+  organizationName: z.string().trim().min(1, "Organization name is required").max(100),
+  contactEmail: z.string().trim().email("Must be a valid email"), // Also the sender address for outgoing mail
+  accentColor: accentColorEnum,
+  enableAuditLogs: z.boolean(),
+});
+
+export const notificationSettingsSchema = z.object({
+  enabled: z.boolean(),
+  loanReminders: z.boolean(),
+  inventoryAlerts: z.boolean(),
+  documentUpdates: z.boolean(),
+  userActivity: z.boolean(),
+});
+
+export const loanSettingsSchema = z.object({
+  extensionApprovalRequired: z.boolean(), // Extensions by staff without loans:approve wait for approval
+  // Lending rules; limits are left out for types and categories without one
+  maxItemsPerBorrowerType: z.record(z.string().min(1), z.number().int().min(1)), // Units out at once
+  maxDaysPerCategory: z.record(z.string().min(1), z.number().int().min(1)), // Subcategories inherit their parent's
+  blockOverdueBorrowers: z.boolean(),
+  blockUnresolvedDamage: z.boolean(),
+});
+
+// Each section is stored as its own row in the settings table, keyed by the section name
+export const appSettingsSchema = z.object({
+  organization: organizationSettingsSchema,
+  notifications: notificationSettingsSchema,
+  itemIds: itemIdSettingsSchema,
+  loans: loanSettingsSchema,
+});
+
+// PUT /api/settings: any subset of sections, each with any subset of its fields
+export const updateAppSettingsSchema = z.object({
+  organization: organizationSettingsSchema.partial(),
+  notifications: notificationSettingsSchema.partial(),
+  itemIds: itemIdSettingsSchema.partial(),
+  loans: loanSettingsSchema.partial(),
+}).partial().strict();
+
+export const defaultAppSettings = {
+  organization: {
+    organizationName: "BONEVET Gjakova",
+    contactEmail: "admin@bonevet.org",
+    accentColor: "blue",
+    enableAuditLogs: true,
+  },
+  notifications: {
+    enabled: true,
+    loanReminders: true,
+    inventoryAlerts: true,
+    documentUpdates: true,
+    userActivity: false,
+  },
+  itemIds: defaultItemIdSettings,
+  loans: {
+    extensionApprovalRequired: false,
+    maxItemsPerBorrowerType: {},
+    maxDaysPerCategory: {},
+    blockOverdueBorrowers: true,
+    blockUnresolvedDamage: false,
+  },
+} satisfies z.infer<typeof appSettingsSchema>;
+
 // Type definitions
 export type User = typeof users.$inferSelect;
+export type UserRole = z.infer<typeof userRoleEnum>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+// What the API exposes about a user: never the password hash or two-factor secrets
+export type PublicUser = Omit<User, "password" | "twoFactorSecret" | "twoFactorRecoveryCodes" | "twoFactorLastCounter">;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+export type ApiTokenScope = z.infer<typeof apiTokenScopeEnum>;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+// What the API exposes about a token: never its hash
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+// An active login as listed on the sessions screen; id is a digest of the session id, never the id itself
+export type UserSession = {
+  id: string;
+  userId: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type CustomFieldType = z.infer<typeof customFieldTypeEnum>;
+export type CustomFieldDefinition = z.infer<typeof customFieldDefinitionSchema>;
+export type CustomFieldValue = string | number | boolean;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type LocationKind = z.infer<typeof locationKindEnum>;
+export type ItemStock = typeof itemStock.$inferSelect;
+export type TransferStock = z.infer<typeof transferStockSchema>;
+// One line of an item's stock breakdown; locationId is null for stock that has no location yet
+export type StockLine = { locationId: number | null; path: string; quantity: number };
+export type LocationStockLine = StockLine & { item: InventoryItem };
 
 export type InventoryItem = typeof inventoryItems.$inferSelect;
 export type InsertInventoryItem = z.infer<typeof insertInventoryItemSchema>;
+export type ItemStatus = z.infer<typeof itemStatusEnum>;
+export type ItemUsage = z.infer<typeof itemUsageEnum>;
+export type InventoryQuery = z.infer<typeof inventoryQuerySchema>;
+export type InventorySortKey = typeof inventorySortKeys[number];
+export type InventoryPage = {
+  items: InventoryItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+export type InventoryImportField = typeof inventoryImportFields[number];
+export type InventoryImportMapping = z.infer<typeof inventoryImportMappingSchema>;
+export type InventoryImportColumns = {
+  fileName: string;
+  columns: string[];
+  rowCount: number;
+  mapping: InventoryImportMapping; // Suggested from the column headers
+  sample: Record<string, string>[];
+};
+export type InventoryImportRow = {
+  row: number; // As numbered in the spreadsheet, counting the header row
+  action: "create" | "update";
+  itemId?: string;
+  name?: string;
+  errors: { field: string; message: string }[];
+};
+export type InventoryImportResult = {
+  dryRun: boolean;
+  fileName: string;
+  summary: { total: number; created: number; updated: number; invalid: number };
+  rows: InventoryImportRow[];
+};
+
+export type ExportFormat = typeof exportFormats[number];
+export type LoanQuery = z.infer<typeof loanQuerySchema>;
+export type LifecycleHistoryQuery = z.infer<typeof lifecycleHistoryQuerySchema>;
+export type ActivityLogQuery = z.infer<typeof activityLogQuerySchema>;
+
+export type LabelLayout = z.infer<typeof labelLayoutEnum>;
+export type LabelCodes = z.infer<typeof labelCodeEnum>;
+export type LabelQuery = z.infer<typeof labelQuerySchema>;
+
+// What a scanned label or typed code resolves to; openLoans feeds the return screen
+export type ScannedLoan = Loan & {
+  loanGroupCode: string | null; // e.g. LOAN-2025-001 when the loan is a line of a multi-item loan
+};
+export type ScanLookup = {
+  item: InventoryItem;
+  openLoans: ScannedLoan[];
+};
+
+export type AssetUnit = typeof assetUnits.$inferSelect;
+export type InsertAssetUnit = z.infer<typeof insertAssetUnitSchema>;
+export type AssetUnitStatus = z.infer<typeof assetUnitStatusEnum>;
+export type AssetUnitCondition = z.infer<typeof assetUnitConditionEnum>;
+// Units as listed for an item, with the loan a unit is out on
+export type AssetUnitDetails = AssetUnit & { currentLoan: ScannedLoan | null };
+
+export type Borrower = typeof borrowers.$inferSelect;
+export type InsertBorrower = z.infer<typeof insertBorrowerSchema>;
+export type BorrowerKind = z.infer<typeof borrowerKindEnum>;
+// GET /api/borrowers: a registered borrower with a count of their loans
+export type BorrowerSummary = Borrower & {
+  openLoans: number;
+  totalLoans: number;
+  lateLoans: number; // Returned after the due date or still out past it
+};
 
 export type LoanGroup = typeof loanGroups.$inferSelect;
 export type InsertLoanGroup = z.infer<typeof insertLoanGroupSchema>;
 
 export type Loan = typeof loans.$inferSelect;
 export type InsertLoan = z.infer<typeof insertLoanSchema>;
+export type LoanStatus = z.infer<typeof loanStatusEnum>;
+export type LoanReturn = typeof loanReturns.$inferSelect;
+export type InsertLoanReturn = z.infer<typeof insertLoanReturnSchema>;
+export type ReturnLoan = z.infer<typeof returnLoanSchema>;
+export type ReturnLoanGroup = z.infer<typeof returnLoanGroupSchema>;
+export type ReturnCondition = z.infer<typeof returnConditionEnum>;
+export type LoanRule = z.infer<typeof loanRuleEnum>;
+// A lending rule a new loan breaks; the 400 response lists them in "violations"
+export type LoanRuleViolation = { rule: LoanRule; message: string };
+// A return as listed on a loan, with the item and who received it
+export type LoanReturnEntry = LoanReturn & { itemName: string; receivedByName: string };
+// GET /api/borrower-history: one of a borrower's loans and how its units came back
+export type BorrowerLoan = ScannedLoan & {
+  itemName: string;
+  returns: LoanReturnEntry[];
+  daysLate: number; // Days past the due date it came back, or has been out so far; 0 when on time
+};
+export type LoanExtension = typeof loanExtensions.$inferSelect;
+export type InsertLoanExtension = z.infer<typeof insertLoanExtensionSchema>;
+export type LoanExtensionStatus = z.infer<typeof loanExtensionStatusEnum>;
+export type ExtendLoan = z.infer<typeof extendLoanSchema>;
+// An extension as listed, with the loan it is for and who asked for and decided it
+export type LoanExtensionEntry = LoanExtension & {
+  loanLabel: string; // e.g. "LOAN-2025-001 (Ana)" or "Loan #4 (Ana)"
+  requestedByName: string;
+  decidedByName: string | null;
+};
+export type OverdueCounts = { loans: number; loanGroups: number; units: number };
+// GET /api/inventory/stats
+export type InventoryStats = {
+  counts: { total: number; available: number; loaned: number; damaged: number };
+  categories: { category: string; count: number }[];
+  overdue: OverdueCounts;
+};
 
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
@@ -225,5 +932,14 @@ export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 
+export type Setting = typeof settings.$inferSelect;
+export type ItemIdSettings = z.infer<typeof itemIdSettingsSchema>;
+export type AccentColor = z.infer<typeof accentColorEnum>;
+export type OrganizationSettings = z.infer<typeof organizationSettingsSchema>;
+export type NotificationSettings = z.infer<typeof notificationSettingsSchema>;
+export type LoanSettings = z.infer<typeof loanSettingsSchema>;
+export type AppSettings = z.infer<typeof appSettingsSchema>;
+export type UpdateAppSettings = z.infer<typeof updateAppSettingsSchema>;
+
 export type LifecycleHistory = typeof lifecycleHistory.$inferSelect;
 export type InsertLifecycleHistory = z.infer<typeof insertLifecycleHistorySchema>;